@@ -0,0 +1,176 @@
+// Content-addressed response cache shared by the API routes.
+// API_CACHE_STORE selects the backend: 'memory' (default, per serverless
+// instance), 'fs' (used by dev-api-server.js) or 'none'.
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+const getTtlMs = () => Number(process.env.API_CACHE_TTL_SECONDS || DEFAULT_TTL_SECONDS) * 1000;
+const getMaxBytes = () => Number(process.env.API_CACHE_MAX_BYTES || DEFAULT_MAX_BYTES);
+const isExpired = (meta, now) => now - meta.createdAt > getTtlMs();
+
+// Hash the identifying parts of a request into a stable cache key
+export function hashCacheKey(namespace, parts) {
+  const hash = createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  return `${namespace}-${hash}`;
+}
+
+// Pick least recently used keys until the total fits under maxBytes
+function selectEvictions(entries, maxBytes) {
+  let total = 0;
+  entries.forEach(meta => { total += meta.size; });
+  if (total <= maxBytes)
+    return [];
+  const evicted = [];
+  const byAge = Array.from(entries.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+  for (const [key, meta] of byAge) {
+    if (total <= maxBytes)
+      break;
+    evicted.push(key);
+    total -= meta.size;
+  }
+  return evicted;
+}
+
+export function createMemoryCacheStore() {
+  const metas = new Map();
+  const blobs = new Map();
+  const remove = (key) => {
+    metas.delete(key);
+    blobs.delete(key);
+  };
+
+  return {
+    get: async (key) => {
+      const meta = metas.get(key);
+      const data = blobs.get(key);
+      if (!meta || !data)
+        return null;
+      const now = Date.now();
+      if (isExpired(meta, now)) {
+        remove(key);
+        return null;
+      }
+      meta.lastAccess = now;
+      return { data, contentType: meta.contentType, createdAt: meta.createdAt };
+    },
+    set: async (key, data, contentType) => {
+
+      const now = Date.now();
+      metas.set(key, { size: data.byteLength, contentType, createdAt: now, lastAccess: now });
+      blobs.set(key, data);
+      selectEvictions(metas, getMaxBytes()).forEach(remove);
+    },
+  };
+}
+// Stores each entry as <key>.bin next to an index.json holding the metadata.
+// The index lives in memory once loaded; hits only update it there, and the
+// last access times reach the file with the next write.
+export function createFileSystemCacheStore(directory) {
+  const indexPath = path.join(directory, 'index.json');
+  let index = null;
+  let queue = Promise.resolve();
+  // Concurrent requests share one read of the file
+  const loadIndex = () => {
+    if (!index) {
+      index = fs.readFile(indexPath, 'utf8')
+        .then(raw => new Map(Object.entries(JSON.parse(raw))))
+        .catch(() => new Map());
+    }
+    return index;
+  };
+  // Writes run one at a time and replace the file in a single rename, so
+  // parallel requests never leave a torn index behind
+  const saveIndex = () => {
+    const write = queue.then(async () => {
+      const entries = await loadIndex();
+      const tempPath = `${indexPath}.tmp`;
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(Object.fromEntries(entries)));
+      await fs.rename(tempPath, indexPath);
+    });
+    queue = write.catch(() => { });
+    return write;
+  };
+  const remove = async (entries, key) => {
+    entries.delete(key);
+    await fs.rm(path.join(directory, `${key}.bin`), { force: true });
+  };
+  return {
+    get: async (key) => {
+      const entries = await loadIndex();
+      const meta = entries.get(key);
+      if (!meta)
+        return null;
+      const now = Date.now();
+      if (isExpired(meta, now)) {
+        await remove(entries, key);
+        await saveIndex();
+        return null;
+      }
+      try {
+        const data = await fs.readFile(path.join(directory, `${key}.bin`));
+        meta.lastAccess = now;
+        return { data, contentType: meta.contentType, createdAt: meta.createdAt };
+      } catch {
+        // Data file went missing, drop the stale index entry
+        await remove(entries, key);
+        await saveIndex();
+        return null;
+      }
+    },
+    set: async (key, data, contentType) => {
+      const entries = await loadIndex();
+      const now = Date.now();
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, `${key}.bin`), data);
+      entries.set(key, { size: data.byteLength, contentType, createdAt: now, lastAccess: now });
+      for (const evicted of selectEvictions(entries, getMaxBytes())) {
+        await remove(entries, evicted);
+      }
+      await saveIndex();
+    },
+  };
+}
+const noopCacheStore = {
+  get: async () => null,
+  set: async () => { },
+};
+let sharedStore = null;
+
+export function getCacheStore() {
+  if (sharedStore)
+    return sharedStore;
+  switch (process.env.API_CACHE_STORE) {
+    case 'none':
+      sharedStore = noopCacheStore;
+      break;
+    case 'fs':
+      sharedStore = createFileSystemCacheStore(path.resolve(process.env.API_CACHE_DIR || '.cache/api'));
+      break;
+    default:
+      sharedStore = createMemoryCacheStore();
+  }
+  return sharedStore;
+}
+// Cache failures must never break a request
+export async function readCache(key) {
+  try {
+    return await getCacheStore().get(key);
+  } catch (error) {
+    console.error('Cache read failed:', error);
+    return null;
+  }
+}
+
+export async function writeCache(key, data, contentType) {
+  try {
+    await getCacheStore().set(key, data, contentType);
+  } catch (error) {
+    console.error('Cache write failed:', error);
+  }
+}
@@ -0,0 +1,101 @@
+// Minimal ElevenLabs text-to-speech client shared by the audio routes.
+
+import { hashCacheKey, readCache, writeCache } from './cache.js';
+import { recordUsage } from './usage.js';
+import { fetchUpstream, getElevenLabsBaseUrl } from './upstream.js';
+
+export class ElevenLabsError extends Error {
+  status;
+  // detail.status of the error body, e.g. 'quota_exceeded' (sent with a 401)
+  code;
+
+  constructor(message, status, code = null) {
+    super(message);
+    this.name = 'ElevenLabsError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const readErrorCode = (body) => {
+  try {
+    const code = JSON.parse(body)?.detail?.status;
+    return typeof code === 'string' ? code : null;
+  } catch {
+    return null;
+  }
+};
+
+export const audioCacheKey = (text, voiceId, modelId, voiceSettings) => hashCacheKey('audio', [
+  text,
+  voiceId,
+  modelId,
+  voiceSettings.stability,
+  voiceSettings.similarity_boost,
+  voiceSettings.style,
+  String(voiceSettings.use_speaker_boost),
+]);
+
+export async function synthesizeSpeech(text, options) {
+  const { apiKey, voiceId, modelId, voiceSettings, previousText, nextText } = options;
+
+  const cacheKey = audioCacheKey(text, voiceId, modelId, voiceSettings);
+  const cached = await readCache(cacheKey);
+  if (cached) {
+    return { audio: cached.data, cached: true };
+  }
+
+  const response = await fetchUpstream(`${getElevenLabsBaseUrl()}/text-to-speech/${voiceId}`, {
+    method: 'POST',
+    headers: {
+      'Accept': 'audio/mpeg',
+      'Content-Type': 'application/json',
+      'xi-api-key': apiKey,
+    },
+    body: JSON.stringify({
+      text,
+      model_id: modelId,
+      ...(previousText && { previous_text: previousText }),
+      ...(nextText && { next_text: nextText }),
+      voice_settings: voiceSettings
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('ElevenLabs API error:', response.status, errorText);
+    throw new ElevenLabsError(`ElevenLabs API error: ${response.status}`, response.status, readErrorCode(errorText));
+  }
+
+  const audio = Buffer.from(await response.arrayBuffer());
+  if (audio.byteLength === 0) {
+    throw new ElevenLabsError('No audio data received from ElevenLabs API', 502);
+  }
+
+  await recordUsage('elevenlabs', text.length);
+  await writeCache(cacheKey, audio, 'audio/mpeg');
+  return { audio, cached: false };
+}
+
+// Characters used in the current billing period of the account
+export async function fetchSubscriptionQuota(apiKey) {
+  const response = await fetchUpstream(`${getElevenLabsBaseUrl()}/user/subscription`, {
+    headers: { 'xi-api-key': apiKey },
+  });
+
+  if (!response.ok) {
+    throw new ElevenLabsError(`ElevenLabs subscription request failed: ${response.status}`, response.status);
+  }
+
+  const subscription = await response.json();
+  return {
+    provider: 'elevenlabs',
+    name: 'ElevenLabs',
+    kind: 'speech',
+    used: subscription.character_count,
+    limit: subscription.character_limit,
+    resets_at: subscription.next_character_count_reset_unix
+      ? new Date(subscription.next_character_count_reset_unix * 1000).toISOString()
+      : null,
+  };
+}
@@ -0,0 +1,114 @@
+// Glossary protection shared by the /api/translate routes.
+// Glossary terms are swapped for numbered placeholders before a text reaches
+// any provider and replaced by their fixed translation afterwards, so product
+// names come out the same whichever provider handled the request.
+
+import type { FieldSchema } from './schema.js';
+
+export interface GlossaryEntry {
+  term: string;
+  translation: string;
+}
+
+export interface GlossaryMatch {
+  term: string;
+  translation: string;
+  // Position of the inserted translation in the translated text
+  start: number;
+  end: number;
+}
+
+export interface ProtectedText {
+  text: string;
+  // Entries referenced by the placeholders, by placeholder number
+  entries: GlossaryEntry[];
+}
+
+export const MAX_GLOSSARY_ENTRIES = 200;
+const MAX_TERM_LENGTH = 200;
+
+// Request body schema of the `glossary` field
+export const GLOSSARY_FIELD: FieldSchema = {
+  type: 'array',
+  maxItems: MAX_GLOSSARY_ENTRIES,
+  items: {
+    type: 'object',
+    properties: {
+      term: { type: 'string', required: true, maxLength: MAX_TERM_LENGTH },
+      translation: { type: 'string', required: true, maxLength: MAX_TERM_LENGTH },
+    },
+  },
+};
+
+// Brackets providers leave alone; translations sometimes add spaces inside
+const placeholder = (index: number) => `⟦${index}⟧`;
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isGlossaryEntry = (value: unknown): value is GlossaryEntry =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as GlossaryEntry).term === 'string' &&
+  typeof (value as GlossaryEntry).translation === 'string';
+
+// Validates the `glossary` request field, null when it is malformed
+export function parseGlossary(value: unknown): GlossaryEntry[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MAX_GLOSSARY_ENTRIES || !value.every(isGlossaryEntry)) {
+    return null;
+  }
+
+  const entries = value
+    .map(entry => ({ term: entry.term.trim(), translation: entry.translation.trim() }))
+    .filter(entry => entry.term);
+
+  if (entries.some(entry => entry.term.length > MAX_TERM_LENGTH || entry.translation.length > MAX_TERM_LENGTH)) {
+    return null;
+  }
+  return entries;
+}
+
+// Whole-word, case-insensitive matches; longer terms win over terms they contain.
+// Each term has its own capture group: the regex and toLowerCase disagree on some
+// letters (ſ, Greek final sigma), so the matched text is not compared again.
+export function protectGlossaryTerms(text: string, glossary: GlossaryEntry[]): ProtectedText {
+  if (glossary.length === 0) return { text, entries: [] };
+
+  const byLength = [...glossary].sort((a, b) => b.term.length - a.term.length);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${byLength.map(entry => `(${escapeRegExp(entry.term)})`).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+
+  const entries: GlossaryEntry[] = [];
+  const protectedText = text.replace(pattern, (...args: unknown[]) => {
+    const entry = byLength[args.slice(1, byLength.length + 1).findIndex(group => group !== undefined)];
+    let index = entries.indexOf(entry);
+    if (index === -1) {
+      index = entries.push(entry) - 1;
+    }
+    return placeholder(index);
+  });
+
+  return { text: protectedText, entries };
+}
+
+export function restoreGlossaryTerms(translated: string, entries: GlossaryEntry[]): { text: string; matches: GlossaryMatch[] } {
+  if (entries.length === 0) return { text: translated, matches: [] };
+
+  const matches: GlossaryMatch[] = [];
+  let text = '';
+  let lastIndex = 0;
+
+  for (const match of translated.matchAll(PLACEHOLDER_PATTERN)) {
+    const entry = entries[Number(match[1])];
+    if (!entry) continue;
+
+    text += translated.slice(lastIndex, match.index);
+    matches.push({ ...entry, start: text.length, end: text.length + entry.translation.length });
+    text += entry.translation;
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return { text: text + translated.slice(lastIndex), matches };
+}
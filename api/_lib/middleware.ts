@@ -0,0 +1,236 @@
+// Shared request pipeline for the API routes and dev-api-server.js:
+// CORS with an allowed-origins list, an optional shared-secret check, per-IP
+// rate limiting and body validation, all answering with the same error JSON.
+//
+// Configuration (all optional):
+//   API_ALLOWED_ORIGINS   comma-separated origins allowed to call the API (default: any)
+//   API_AUTH_TOKEN        shared secret expected as `Authorization: Bearer <token>` or
+//                         `X-API-Key`; several comma-separated tokens allow rotation
+//   API_RATE_LIMIT        requests per minute per client IP (default 60, 0 disables)
+//   API_RATE_LIMIT_BURST  requests a client can make at once (default 20)
+//   API_TRUSTED_PROXY     where the client address comes from: `vercel` (the default on
+//                         Vercel) or the number of proxies appending to X-Forwarded-For;
+//                         unset uses the connection's address
+//   API_CLIENT_PROVIDER_KEYS  `true` lets requests bring their own DeepL and ElevenLabs
+//                         keys (see provider-keys.ts)
+
+import { timingSafeEqual } from 'node:crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createRateLimiter, type RateLimiter } from './rate-limit.js';
+import { validateBody, type BodySchema, type ValidationIssue } from './schema.js';
+import { PROVIDER_KEY_HEADERS, readClientProviderKeys, runWithProviderKeys } from './provider-keys.js';
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'origin_not_allowed'
+  | 'method_not_allowed'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'internal_error';
+
+// Every error response of the API has this shape
+export interface ApiError {
+  message: string;
+  code: ApiErrorCode;
+  errors?: ValidationIssue[];
+}
+
+export interface RouteOptions<TBody = Record<string, unknown>> {
+  methods: Array<'GET' | 'POST'>;
+  // Validated before the handler runs; only used for requests with a body
+  schema?: BodySchema;
+  // Tokens taken from the client's bucket, 0 skips rate limiting. Routes whose
+  // work grows with the request compute it from the validated body; one token
+  // is taken before the body is read and the rest once it is valid.
+  rateLimitCost?: number | ((body: TBody) => number);
+}
+
+export type ApiHandler<TBody> = (req: VercelRequest, res: VercelResponse, body: TBody) => unknown | Promise<unknown>;
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+const DEFAULT_RATE_LIMIT_BURST = 20;
+
+const ALLOWED_HEADERS = ['Content-Type', 'Authorization', 'X-API-Key', ...Object.values(PROVIDER_KEY_HEADERS)].join(', ');
+const EXPOSED_HEADERS = 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-Cache, X-Translation-Provider, X-Audio-Chunks, X-Voice-Name';
+// The API token and the provider keys the desktop app sends
+const SECRET_HEADERS = ['Authorization', 'X-API-Key', ...Object.values(PROVIDER_KEY_HEADERS)].map(header => header.toLowerCase());
+
+export function sendError(
+  res: VercelResponse,
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  errors?: ValidationIssue[]
+) {
+  const body: ApiError = errors && errors.length > 0 ? { message, code, errors } : { message, code };
+  return res.status(status).json(body);
+}
+
+const readList = (value: string | undefined) =>
+  (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+
+const firstHeader = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+// X-Forwarded-For is written by the client, so only addresses a trusted proxy set
+// are used: on Vercel the one it puts in x-vercel-forwarded-for / x-real-ip, behind
+// N proxies that append to X-Forwarded-For the entry the outermost one added.
+// Without API_TRUSTED_PROXY (and outside Vercel) the socket address is the client.
+export function getClientIp(req: VercelRequest): string {
+  const trustedProxy = (process.env.API_TRUSTED_PROXY || (process.env.VERCEL ? 'vercel' : '')).trim().toLowerCase();
+
+  if (trustedProxy === 'vercel') {
+    const address = firstHeader(req.headers['x-vercel-forwarded-for']) || firstHeader(req.headers['x-real-ip']);
+    if (address) return address.split(',')[0].trim();
+  } else if (trustedProxy) {
+    const hops = Number(trustedProxy);
+    const forwarded = readList(firstHeader(req.headers['x-forwarded-for']));
+    if (Number.isInteger(hops) && hops > 0 && forwarded.length >= hops) return forwarded[forwarded.length - hops];
+  }
+
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+// Request headers safe to print in a log, with every secret replaced
+export function redactHeaders(headers: VercelRequest['headers']): VercelRequest['headers'] {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+    [name, SECRET_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value]
+  ));
+}
+
+// Sets the CORS headers, false when the request comes from an origin that is not allowed
+export function applyCors(req: VercelRequest, res: VercelResponse, methods: string[]): boolean {
+  res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+
+  const allowedOrigins = readList(process.env.API_ALLOWED_ORIGINS);
+  if (allowedOrigins.length === 0 || allowedOrigins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    return true;
+  }
+
+  res.setHeader('Vary', 'Origin');
+  const origin = firstHeader(req.headers.origin);
+  // Requests without an Origin do not come from a browser page; the token check covers them
+  if (!origin) return true;
+  if (!allowedOrigins.includes(origin)) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  return true;
+}
+
+const sameSecret = (a: string, b: string) => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+// True when no token is configured or the request carries one of the configured tokens
+export function isAuthorized(req: VercelRequest): boolean {
+  const tokens = readList(process.env.API_AUTH_TOKEN);
+  if (tokens.length === 0) return true;
+
+  const authorization = firstHeader(req.headers.authorization) ?? '';
+  const bearer = authorization.match(/^Bearer\s+(.+)$/i)?.[1];
+  const provided = bearer ?? firstHeader(req.headers['x-api-key']);
+  return !!provided && tokens.some(token => sameSecret(provided.trim(), token));
+}
+
+let rateLimiter: RateLimiter | null | undefined;
+
+// Built on first use so the environment is read after dotenv ran in the dev server
+function getRateLimiter(): RateLimiter | null {
+  if (rateLimiter === undefined) {
+    const perMinute = Number(process.env.API_RATE_LIMIT || DEFAULT_RATE_LIMIT_PER_MINUTE);
+    const burst = Number(process.env.API_RATE_LIMIT_BURST || DEFAULT_RATE_LIMIT_BURST);
+    rateLimiter = perMinute > 0
+      ? createRateLimiter({ capacity: Math.max(1, burst), refillPerSecond: perMinute / 60 })
+      : null;
+  }
+  return rateLimiter;
+}
+
+// Answers with 429 and Retry-After once the client's bucket is empty
+export function applyRateLimit(req: VercelRequest, res: VercelResponse, cost = 1): boolean {
+  const limiter = getRateLimiter();
+  if (!limiter || cost <= 0) return true;
+
+  const result = limiter.consume(getClientIp(req), cost);
+  res.setHeader('X-RateLimit-Limit', result.limit.toString());
+  res.setHeader('X-RateLimit-Remaining', result.remaining.toString());
+  if (result.allowed) return true;
+
+  res.setHeader('Retry-After', result.retryAfterSeconds.toString());
+  sendError(res, 429, 'rate_limited', `Too many requests. Try again in ${result.retryAfterSeconds} second${result.retryAfterSeconds === 1 ? '' : 's'}.`);
+  return false;
+}
+
+// Vercel parses JSON bodies, the dev server and some clients hand over strings
+const parseBody = (body: unknown): { ok: true; value: unknown } | { ok: false } => {
+  if (typeof body !== 'string') return { ok: true, value: body ?? {} };
+  try {
+    return { ok: true, value: body ? JSON.parse(body) : {} };
+  } catch {
+    return { ok: false };
+  }
+};
+
+// Wraps a route handler with CORS, auth, rate limiting and body validation
+export function withApiMiddleware<TBody = Record<string, unknown>>(options: RouteOptions<TBody>, handler: ApiHandler<TBody>) {
+  const { methods, schema, rateLimitCost = 1 } = options;
+  const upfrontCost = typeof rateLimitCost === 'number' ? rateLimitCost : 1;
+
+  return async function apiRoute(req: VercelRequest, res: VercelResponse) {
+    if (!applyCors(req, res, methods)) {
+      return sendError(res, 403, 'origin_not_allowed', 'This origin is not allowed to use the API.');
+    }
+
+    // Handle preflight OPTIONS request
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    if (!methods.includes(req.method as RouteOptions['methods'][number])) {
+      res.setHeader('Allow', methods.join(', '));
+      return sendError(res, 405, 'method_not_allowed', 'Method not allowed');
+    }
+
+    // Rate limiting comes first so tokens cannot be guessed at full speed
+    if (!applyRateLimit(req, res, upfrontCost)) return;
+
+    if (!isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return sendError(res, 401, 'unauthorized', 'Missing or invalid API token.');
+    }
+
+    let body: unknown = {};
+    if (req.method !== 'GET') {
+      const parsed = parseBody(req.body);
+      if (!parsed.ok) {
+        return sendError(res, 400, 'invalid_json', 'Request body is not valid JSON.');
+      }
+      body = parsed.value;
+
+      if (schema) {
+        const issues = validateBody(schema, body);
+        if (issues.length > 0) {
+          return sendError(res, 400, 'invalid_request', issues.map(issue => issue.message).join('; '), issues);
+        }
+      }
+    }
+
+    if (typeof rateLimitCost === 'function' && !applyRateLimit(req, res, rateLimitCost(body as TBody) - upfrontCost)) return;
+
+    try {
+      return await runWithProviderKeys(readClientProviderKeys(req), () => handler(req, res, body as TBody));
+    } catch (error) {
+      console.error('Unhandled API error:', error);
+      if (res.headersSent) return res.end();
+      return sendError(res, 500, 'internal_error', 'Internal server error');
+    }
+  };
+}
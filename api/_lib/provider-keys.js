@@ -0,0 +1,33 @@
+// DeepL and ElevenLabs keys sent by the client for a single request.
+// The routes normally read the keys from the environment. The desktop app keeps
+// the user's own keys in its app data directory and sends them as X-DeepL-Key
+// and X-ElevenLabs-Key; with API_CLIENT_PROVIDER_KEYS=true (the default in
+// dev-api-server.js) those replace the environment's keys for that request.
+// Leave it off on shared deployments so visitors use the server's keys.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export const PROVIDER_KEY_HEADERS = {
+  deepl: 'X-DeepL-Key',
+  elevenlabs: 'X-ElevenLabs-Key',
+};
+
+const requestKeys = new AsyncLocalStorage();
+
+export function readClientProviderKeys(req) {
+  if (process.env.API_CLIENT_PROVIDER_KEYS !== 'true') return {};
+
+  const keys = {};
+  for (const [provider, header] of Object.entries(PROVIDER_KEY_HEADERS)) {
+    const value = req.headers[header.toLowerCase()];
+    const key = (Array.isArray(value) ? value[0] : value)?.trim();
+    if (key) keys[provider] = key;
+  }
+  return keys;
+}
+
+// Everything the handler awaits sees these keys through getClientProviderKey
+export const runWithProviderKeys = (keys, run) =>
+  requestKeys.run(keys, run);
+
+export const getClientProviderKey = (provider) => requestKeys.getStore()?.[provider];
@@ -0,0 +1,59 @@
+// Per-client token buckets for the API routes.
+// Buckets live in memory, so on Vercel every serverless instance counts on its
+// own: the limit is a cap per instance, enough to stop a single client from
+// draining the DeepL and ElevenLabs quotas.
+
+const DEFAULT_MAX_KEYS = 10000;
+
+export function createRateLimiter({ capacity, refillPerSecond, maxKeys = DEFAULT_MAX_KEYS, now = Date.now }) {
+  const buckets = new Map();
+
+  const refill = (bucket, time) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((time - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = time;
+  };
+
+  // Full buckets carry no state worth keeping; if none are full, the oldest go first
+  const prune = (time) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= capacity)
+        buckets.delete(key);
+    }
+    for (const key of buckets.keys()) {
+      if (buckets.size < maxKeys)
+        break;
+      buckets.delete(key);
+    }
+  };
+
+  return {
+    consume: (key, cost = 1) => {
+      const time = now();
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        if (buckets.size >= maxKeys)
+          prune(time);
+        bucket = { tokens: capacity, updatedAt: time };
+        buckets.set(key, bucket);
+      } else {
+        refill(bucket, time);
+      }
+
+      // Expensive requests still pass with a full bucket, even when the limit is set low
+      const needed = Math.min(cost, capacity);
+      if (bucket.tokens >= needed) {
+        bucket.tokens -= needed;
+        return { allowed: true, limit: capacity, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+      }
+
+      const missing = needed - bucket.tokens;
+      return {
+        allowed: false,
+        limit: capacity,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterSeconds: Math.max(1, Math.ceil(missing / refillPerSecond)),
+      };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+// Minimal JSON body validation for the API routes.
+// Each route describes its body as a map of field schemas; validateBody
+// collects every problem so a client can fix them all in one round trip.
+
+const describeType = (value) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+function validateField(schema, value, field, issues) {
+  if (value === undefined || value === null) {
+    if (schema.required)
+      issues.push({ field, message: `${field} is required` });
+    return;
+  }
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string')
+        break;
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ field, message: schema.minLength === 1 ? `${field} must not be empty` : `${field} must be at least ${schema.minLength} characters` });
+      } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push({ field, message: `${field} must be at most ${schema.maxLength} characters` });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ field, message: `${field} must be one of: ${schema.enum.join(', ')}` });
+      }
+      return;
+    }
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value))
+        break;
+      if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+
+        issues.push({ field, message: `${field} must be between ${schema.min ?? '-∞'} and ${schema.max ?? '∞'}` });
+      }
+      return;
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean')
+        break;
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value))
+        break;
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ field, message: schema.minItems === 1 ? `${field} must not be empty` : `${field} must have at least ${schema.minItems} items` });
+      } else if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ field, message: `${field} must have at most ${schema.maxItems} items` });
+      } else {
+        value.forEach((item, index) => validateField(schema.items, item, `${field}.${index}`, issues));
+      }
+      return;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value))
+        break;
+      collectIssues(schema.properties, value, `${field}.`, issues);
+      return;
+    }
+  }
+  issues.push({ field, message: `${field} must be ${schema.type === 'array' ? 'an' : 'a'} ${schema.type}, got ${describeType(value)}` });
+}
+
+function collectIssues(schema, body, prefix, issues) {
+  for (const [name, fieldSchema] of Object.entries(schema)) {
+    validateField(fieldSchema, body[name], `${prefix}${name}`, issues);
+  }
+}
+// Unknown fields are ignored so older clients keep working when fields are added
+export function validateBody(schema, body) {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [{ field: 'body', message: 'Request body must be a JSON object' }];
+  }
+  const issues = [];
+  collectIssues(schema, body, '', issues);
+  return issues;
+}
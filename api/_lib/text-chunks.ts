@@ -0,0 +1,61 @@
+// Sentence-level chunking for long texts sent to the TTS provider.
+
+const SENTENCE_PATTERN = /[^.!?。！？\n]+(?:[.!?。！？]+["'”’)\]]*|\n+|$)/g;
+const SPEAKABLE_PATTERN = /[\p{L}\p{N}]/u;
+
+// Break a single oversized sentence on whitespace
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const word of sentence.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + word.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    // Words longer than maxChars are cut as a last resort
+    if (word.length > maxChars) {
+      for (let i = 0; i < word.length; i += maxChars) {
+        pieces.push(word.slice(i, i + maxChars));
+      }
+      continue;
+    }
+    current = current ? `${current} ${word}` : word;
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+export function splitIntoSentences(text: string): string[] {
+  return (text.match(SENTENCE_PATTERN) || [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Pack whole sentences into chunks of at most maxChars characters.
+// The first chunk is kept short so playback can start quickly.
+// Text without a single letter or digit has nothing to speak and gives no chunks.
+export function splitIntoChunks(text: string, maxChars: number, firstChunkMaxChars = maxChars): string[] {
+  if (!SPEAKABLE_PATTERN.test(text)) return [];
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const limit = () => (chunks.length === 0 ? firstChunkMaxChars : maxChars);
+
+  for (const sentence of splitIntoSentences(text)) {
+    const parts = sentence.length > maxChars ? splitLongSentence(sentence, maxChars) : [sentence];
+
+    for (const part of parts) {
+      if (current && current.length + part.length + 1 > limit()) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
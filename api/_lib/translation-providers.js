@@ -0,0 +1,248 @@
+// Translation provider layer shared by the /api/translate routes.
+// Providers are selected through TRANSLATION_PROVIDERS (comma separated, in
+// failover order) and each one translates a batch of segments at once.
+import { hashCacheKey, readCache, writeCache } from './cache.js';
+import { protectGlossaryTerms, restoreGlossaryTerms } from './glossary.js';
+import { recordUsage } from './usage.js';
+import { fetchUpstream, getDeepLBaseUrl, UpstreamTimeoutError } from './upstream.js';
+import { getClientProviderKey } from './provider-keys.js';
+
+export class TranslationProviderError extends Error {
+  status;
+  providerId;
+  constructor(message, status, providerId = null) {
+    super(message);
+    this.name = 'TranslationProviderError';
+    this.status = status;
+    this.providerId = providerId;
+  }
+}
+const DEFAULT_PROVIDERS = ['deepl-free'];
+
+export const FORMALITIES = ['default', 'formal', 'informal'];
+
+export const isFormality = (value) => FORMALITIES.includes(value);
+
+// The prefer_* values fall back to the default tone for languages DeepL
+// has no formality for, instead of failing the request
+const DEEPL_FORMALITY = {
+  default: 'default',
+  formal: 'prefer_more',
+  informal: 'prefer_less',
+};
+
+const isUsableKey = (key) => !!key && key !== 'your_deepl_api_key_here';
+
+// DeepL Free and Pro share the same API and differ only in host and key
+const createDeepLProvider = (id, name, defaultBaseUrl, getApiKey) => ({
+  id,
+  name,
+  isConfigured: () => isUsableKey(getApiKey()),
+  translate: async (texts, targetLang, sourceLang, formality) => {
+    const apiKey = getApiKey();
+    if (!isUsableKey(apiKey)) {
+      throw new TranslationProviderError(`${name} API key not found in environment.`, 500, id);
+    }
+    const requestBody = {
+      text: texts,
+      target_lang: targetLang,
+    };
+
+    if (sourceLang) {
+      requestBody.source_lang = sourceLang;
+    }
+
+    if (formality && formality !== 'default') {
+      requestBody.formality = DEEPL_FORMALITY[formality];
+    }
+
+    const response = await fetchUpstream(`${getDeepLBaseUrl(defaultBaseUrl)}/translate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `DeepL-Auth-Key ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new TranslationProviderError(`${name} API Error (Status: ${response.status}): ${errorBody}`, response.status, id);
+    }
+    const deepLResponse = await response.json();
+    const translations = deepLResponse.translations?.map(translation => translation.text) ?? [];
+
+    if (translations.length !== texts.length) {
+      throw new TranslationProviderError(`No translation found in ${name} response.`, 502, id);
+    }
+
+    return translations;
+  },
+  getQuota: async () => {
+    const response = await fetchUpstream(`${getDeepLBaseUrl(defaultBaseUrl)}/usage`, {
+      headers: { 'Authorization': `DeepL-Auth-Key ${getApiKey()}` },
+    });
+
+    if (!response.ok) {
+      throw new TranslationProviderError(`${name} usage request failed (Status: ${response.status})`, response.status, id);
+    }
+
+    // DeepL does not say when the billing period ends
+    const usage = await response.json();
+    return { provider: id, name, kind: 'translation', used: usage.character_count, limit: usage.character_limit, resets_at: null };
+  },
+});
+
+// LibreTranslate uses lowercase ISO 639-1 codes without regional variants
+const toLibreCode = (code) => code.split('-')[0].toLowerCase();
+const createLibreTranslateProvider = () => ({
+  id: 'libretranslate',
+  name: 'LibreTranslate',
+  isConfigured: () => !!process.env.LIBRETRANSLATE_URL,
+  translate: async (texts, targetLang, sourceLang) => {
+    const baseUrl = process.env.LIBRETRANSLATE_URL;
+    if (!baseUrl) {
+      throw new TranslationProviderError('LIBRETRANSLATE_URL not found in environment.', 500, 'libretranslate');
+    }
+
+    const response = await fetchUpstream(`${baseUrl.replace(/\/$/, '')}/translate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: texts,
+        source: sourceLang ? toLibreCode(sourceLang) : 'auto',
+        target: toLibreCode(targetLang),
+        format: 'text',
+        ...(process.env.LIBRETRANSLATE_API_KEY && { api_key: process.env.LIBRETRANSLATE_API_KEY }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new TranslationProviderError(`LibreTranslate API Error (Status: ${response.status}): ${errorBody}`, response.status, 'libretranslate');
+    }
+    const libreResponse = await response.json();
+    const translations = Array.isArray(libreResponse.translatedText)
+      ? libreResponse.translatedText
+      : [libreResponse.translatedText];
+
+    if (translations.length !== texts.length || translations.some(text => typeof text !== 'string')) {
+      throw new TranslationProviderError('No translation found in LibreTranslate response.', 502, 'libretranslate');
+    }
+
+    return translations;
+  },
+});
+
+// Deterministic provider for offline development and tests
+const createMockProvider = () => ({
+  id: 'mock',
+  name: 'Mock',
+  isConfigured: () => true,
+  translate: async (texts, targetLang) => texts.map(text => `[${targetLang.toUpperCase()}] ${text}`),
+});
+const PROVIDERS = {
+  'deepl-free': createDeepLProvider('deepl-free', 'DeepL Free', 'https://api-free.deepl.com/v2', () => getClientProviderKey('deepl') || process.env.DEEPL_API_KEY),
+  'deepl-pro': createDeepLProvider('deepl-pro', 'DeepL Pro', 'https://api.deepl.com/v2', () => getClientProviderKey('deepl') || process.env.DEEPL_PRO_API_KEY || process.env.DEEPL_API_KEY),
+  'libretranslate': createLibreTranslateProvider(),
+  'mock': createMockProvider(),
+};
+const isProviderId = (id) => id in PROVIDERS;
+
+// Resolve the ordered provider chain from TRANSLATION_PROVIDERS
+export function getProviderChain() {
+  const configured = process.env.TRANSLATION_PROVIDERS;
+  const ids = configured
+    ? configured.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDERS;
+
+  const unknown = ids.filter(id => !isProviderId(id));
+  if (unknown.length > 0) {
+    throw new TranslationProviderError(`Unknown translation provider(s): ${unknown.join(', ')}`, 500);
+  }
+  return ids.map(id => PROVIDERS[id]);
+}
+
+// Try each configured provider in order until one succeeds
+export async function translateWithFailover(texts, targetLang, sourceLang, formality) {
+  const chain = getProviderChain();
+  const failures = [];
+
+  for (const provider of chain) {
+    if (!provider.isConfigured()) {
+      failures.push(new TranslationProviderError(`${provider.name} is not configured.`, 500, provider.id));
+      continue;
+    }
+
+    try {
+      const translated = await provider.translate(texts, targetLang, sourceLang, formality);
+      // Providers bill the characters sent, cache hits never get here
+      await recordUsage(provider.id, texts.reduce((total, text) => total + text.length, 0));
+      return { texts: translated, provider };
+    } catch (error) {
+      const failure = error instanceof TranslationProviderError
+        ? error
+        : new TranslationProviderError(`${provider.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, error instanceof UpstreamTimeoutError ? 504 : 503, provider.id);
+      console.error(`Translation provider ${provider.id} failed, trying next:`, failure.message);
+      failures.push(failure);
+    }
+  }
+
+  // Surface the last upstream status so rate limits stay visible to the client
+  const last = failures[failures.length - 1];
+  throw new TranslationProviderError(failures.map(failure => failure.message).join(' | ') || 'No translation providers configured.', last?.status ?? 500, last?.providerId ?? null);
+}
+
+const translationCacheKey = (text, targetLang, sourceLang, providerId, formality) => hashCacheKey('translation', [
+  text,
+  sourceLang?.toUpperCase() ?? 'AUTO',
+  targetLang.toUpperCase(),
+  providerId,
+  // Default-tone keys stay the same as before formality existed
+  ...(formality === 'default' ? [] : [formality]),
+]);
+
+// Serve segments from the cache and only send the misses to the providers.
+// Glossary terms are replaced by placeholders first, so neither the providers
+// nor the cache ever see them.
+export async function translateWithCache(rawTexts, targetLang, sourceLang, { formality = 'default', glossary = [] } = {}) {
+  const protectedTexts = rawTexts.map(text => protectGlossaryTerms(text, glossary));
+  const texts = protectedTexts.map(entry => entry.text);
+  const restore = (translated) => {
+    const restored = translated.map((text, index) => restoreGlossaryTerms(text, protectedTexts[index].entries));
+    return { texts: restored.map(entry => entry.text), glossaryMatches: restored.map(entry => entry.matches) };
+  };
+
+  const chain = getProviderChain().filter(provider => provider.isConfigured());
+  const cached = await Promise.all(texts.map(async (text) => {
+    for (const provider of chain) {
+      const entry = await readCache(translationCacheKey(text, targetLang, sourceLang, provider.id, formality));
+      if (entry) {
+        return { text: entry.data.toString('utf8'), provider };
+      }
+    }
+    return null;
+  }));
+
+  const missing = texts.map((_, index) => index).filter(index => !cached[index]);
+
+  if (missing.length === 0) {
+    return {
+      ...restore(cached.map(hit => hit.text)),
+      provider: cached[0].provider,
+      cache: 'HIT',
+    };
+  }
+
+  const fresh = await translateWithFailover(missing.map(index => texts[index]), targetLang, sourceLang, formality);
+
+  await Promise.all(missing.map((textIndex, freshIndex) => writeCache(translationCacheKey(texts[textIndex], targetLang, sourceLang, fresh.provider.id, formality), Buffer.from(fresh.texts[freshIndex], 'utf8'), 'text/plain; charset=utf-8')));
+
+  return {
+    ...restore(texts.map((_, index) => cached[index]?.text ?? fresh.texts[missing.indexOf(index)])),
+    provider: fresh.provider,
+    cache: missing.length === texts.length ? 'MISS' : 'PARTIAL',
+  };
+}
@@ -0,0 +1,37 @@
+// Where the provider APIs live and how long the routes wait for them.
+// DEEPL_BASE_URL and ELEVENLABS_BASE_URL point every route at another server,
+// e.g. mock-provider-server.js for offline development and tests.
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+export class UpstreamTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`No response from ${new URL(url).host} within ${timeoutMs} ms`);
+    this.name = 'UpstreamTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// DeepL Free and Pro live on different hosts, one override replaces both
+export const getDeepLBaseUrl = (defaultUrl: string) =>
+  trimSlash(process.env.DEEPL_BASE_URL || defaultUrl);
+
+export const getElevenLabsBaseUrl = () =>
+  trimSlash(process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io/v1');
+
+// fetch that gives up after UPSTREAM_TIMEOUT_MS, also while the body is still arriving
+export async function fetchUpstream(url: string, init: RequestInit = {}): Promise<Response> {
+  const timeoutMs = Number(process.env.UPSTREAM_TIMEOUT_MS || DEFAULT_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new UpstreamTimeoutError(url, timeoutMs);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,137 @@
+// Character usage of the paid providers, recorded per day and provider by the
+// API routes so quotas can be watched before they run out.
+// API_USAGE_STORE selects the backend: 'memory' (default, per serverless
+// instance), 'fs' (used by dev-api-server.js) or 'none'.
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface UsageCounter {
+  characters: number;
+  requests: number;
+}
+
+// Provider id -> counter
+export type ProviderUsage = Record<string, UsageCounter>;
+
+export interface DailyUsage {
+  // UTC day, 'YYYY-MM-DD'
+  date: string;
+  providers: ProviderUsage;
+}
+
+export type UsageKind = 'translation' | 'speech';
+
+// What a provider reports about its own billing period
+export interface ProviderQuota {
+  provider: string;
+  name: string;
+  kind: UsageKind;
+  used: number;
+  limit: number;
+  // ISO date the counter starts over, when the provider tells
+  resets_at: string | null;
+}
+
+export interface UsageStore {
+  record: (date: string, provider: string, characters: number) => Promise<void>;
+  read: () => Promise<Record<string, ProviderUsage>>;
+}
+
+export const USAGE_RETENTION_DAYS = 90;
+
+export const toUsageDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const addToDays = (days: Record<string, ProviderUsage>, date: string, provider: string, characters: number) => {
+  const providers = days[date] ?? (days[date] = {});
+  const counter = providers[provider] ?? (providers[provider] = { characters: 0, requests: 0 });
+  counter.characters += characters;
+  counter.requests += 1;
+
+  // Dates sort as strings, everything before the retention window goes
+  const oldest = toUsageDate(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  Object.keys(days).filter(day => day < oldest).forEach(day => delete days[day]);
+};
+
+export function createMemoryUsageStore(): UsageStore {
+  const days: Record<string, ProviderUsage> = {};
+
+  return {
+    record: async (date, provider, characters) => addToDays(days, date, provider, characters),
+    read: async () => days,
+  };
+}
+
+// Keeps every day in one JSON file, writes are queued so concurrent requests don't lose counts
+export function createFileSystemUsageStore(filePath: string): UsageStore {
+  let days: Record<string, ProviderUsage> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async () => {
+    if (days) return days;
+    try {
+      days = JSON.parse(await fs.readFile(filePath, 'utf8')) as Record<string, ProviderUsage>;
+    } catch {
+      days = {};
+    }
+    return days;
+  };
+
+  return {
+    record: (date, provider, characters) => {
+      const write = queue.then(async () => {
+        addToDays(await load(), date, provider, characters);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(days));
+      });
+      queue = write.catch(() => {});
+      return write;
+    },
+    read: () => queue.then(load),
+  };
+}
+
+const noopUsageStore: UsageStore = {
+  record: async () => {},
+  read: async () => ({}),
+};
+
+let sharedStore: UsageStore | null = null;
+
+export function getUsageStore(): UsageStore {
+  if (sharedStore) return sharedStore;
+
+  switch (process.env.API_USAGE_STORE) {
+    case 'none':
+      sharedStore = noopUsageStore;
+      break;
+    case 'fs':
+      sharedStore = createFileSystemUsageStore(
+        path.resolve(process.env.API_USAGE_FILE || '.cache/usage.json')
+      );
+      break;
+    default:
+      sharedStore = createMemoryUsageStore();
+  }
+  return sharedStore;
+}
+
+// Metering failures must never break a request
+export async function recordUsage(provider: string, characters: number): Promise<void> {
+  try {
+    await getUsageStore().record(toUsageDate(Date.now()), provider, characters);
+  } catch (error) {
+    console.error('Usage write failed:', error);
+  }
+}
+
+// The last `count` days, oldest first, including days without any usage
+export async function readDailyUsage(count: number): Promise<DailyUsage[]> {
+  const stored = await getUsageStore().read();
+  const today = Date.now();
+
+  return Array.from({ length: count }, (_, index) => {
+    const date = toUsageDate(today - (count - 1 - index) * 24 * 60 * 60 * 1000);
+    return { date, providers: stored[date] ?? {} };
+  });
+}
@@ -0,0 +1,185 @@
+// Single voice catalog for /api/voices and the audio routes.
+// Curated presets are always available; voices from the ElevenLabs account
+// are merged in when ELEVENLABS_ACCOUNT_VOICES=true.
+
+import { fetchUpstream, getElevenLabsBaseUrl } from './upstream.js';
+import { getClientProviderKey } from './provider-keys.js';
+
+export interface VoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+  use_speaker_boost: boolean;
+}
+
+export interface VoiceCatalogEntry {
+  key: string;
+  voice_id: string;
+  name: string;
+  category: string;
+  description: string;
+  languages: string[];
+  default_settings: VoiceSettings;
+  preview_text: string;
+  source: 'preset' | 'account';
+}
+
+export interface VoiceFilter {
+  language?: string;
+  category?: string;
+}
+
+interface ElevenLabsAccountVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  description?: string | null;
+  labels?: Record<string, string>;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  stability: 0.5,
+  similarity_boost: 0.5,
+  style: 0.0,
+  use_speaker_boost: true
+};
+
+// Languages covered by the multilingual ElevenLabs models
+const MULTILINGUAL_LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'pl', 'nl', 'ja', 'zh', 'ko', 'hi', 'ar', 'ru', 'tr', 'sv'];
+
+const PREVIEW_TEXT = 'Hello! This is how I sound when reading your text aloud.';
+
+const preset = (
+  key: string,
+  voice_id: string,
+  name: string,
+  category: string,
+  description: string,
+  settings: Partial<VoiceSettings> = {}
+): VoiceCatalogEntry => ({
+  key,
+  voice_id,
+  name,
+  category,
+  description,
+  languages: MULTILINGUAL_LANGUAGES,
+  default_settings: { ...DEFAULT_VOICE_SETTINGS, ...settings },
+  preview_text: PREVIEW_TEXT,
+  source: 'preset',
+});
+
+// Curated list of high-quality ElevenLabs voices
+export const VOICE_PRESETS: VoiceCatalogEntry[] = [
+  preset('deep-male-narrator', 'pNInz6obpgDQGcFmaJgB', 'Deep Male Narrator', 'narrative', 'Adam - Deep male voice for storytelling', { stability: 0.6 }),
+  preset('calm-female-voice', 'EXAVITQu4vr4xnSDxMaL', 'Calm Female Voice', 'conversational', 'Bella - Calm female voice'),
+  preset('professional-male', 'VR6AewLTigWG4xSOukaG', 'Professional Male', 'business', 'Arnold - Professional male', { stability: 0.7 }),
+  preset('warm-female', 'ThT5KcBeYPX3keUQqHPh', 'Warm Female', 'friendly', 'Dorothy - Warm female'),
+  preset('cinematic-male', 'bVMeCyTHy58xNoL34h3p', 'Cinematic Male', 'dramatic', 'Jeremy - Cinematic male', { style: 0.3 }),
+  preset('gentle-female', 'AZnzlk1XvdvUeBnXmlld', 'Gentle Female', 'soothing', 'Domi - Gentle female', { stability: 0.7 }),
+];
+
+const ACCOUNT_VOICES_TTL_MS = 10 * 60 * 1000;
+// Kept per key, the desktop app can send its own
+let accountVoices: { apiKey: string; loadedAt: number; voices: VoiceCatalogEntry[] } | null = null;
+
+async function loadAccountVoices(): Promise<VoiceCatalogEntry[]> {
+  const apiKey = getClientProviderKey('elevenlabs') || process.env.ELEVENLABS_API_KEY;
+  if (process.env.ELEVENLABS_ACCOUNT_VOICES !== 'true' || !apiKey) {
+    return [];
+  }
+
+  const cached = accountVoices?.apiKey === apiKey ? accountVoices : null;
+  if (cached && Date.now() - cached.loadedAt < ACCOUNT_VOICES_TTL_MS) {
+    return cached.voices;
+  }
+
+  try {
+    const response = await fetchUpstream(`${getElevenLabsBaseUrl()}/voices`, {
+      headers: { 'xi-api-key': apiKey },
+    });
+
+    if (!response.ok) {
+      console.error('Failed to load ElevenLabs account voices:', response.status);
+      return cached?.voices ?? [];
+    }
+
+    const data: { voices: ElevenLabsAccountVoice[] } = await response.json();
+    const presetIds = new Set(VOICE_PRESETS.map(voice => voice.voice_id));
+
+    const voices = data.voices
+      .filter(voice => !presetIds.has(voice.voice_id))
+      .map((voice): VoiceCatalogEntry => ({
+        key: voice.voice_id,
+        voice_id: voice.voice_id,
+        name: voice.name,
+        category: voice.labels?.use_case || voice.category || 'account',
+        description: voice.description || voice.labels?.description || '',
+        languages: voice.labels?.language ? [voice.labels.language.toLowerCase()] : MULTILINGUAL_LANGUAGES,
+        default_settings: DEFAULT_VOICE_SETTINGS,
+        preview_text: PREVIEW_TEXT,
+        source: 'account',
+      }));
+
+    accountVoices = { apiKey, loadedAt: Date.now(), voices };
+    return voices;
+  } catch (error) {
+    console.error('Failed to load ElevenLabs account voices:', error);
+    return cached?.voices ?? [];
+  }
+}
+
+export async function getVoiceCatalog(): Promise<VoiceCatalogEntry[]> {
+  return [...VOICE_PRESETS, ...(await loadAccountVoices())];
+}
+
+// Accepts either a catalog key or an ElevenLabs voice_id
+export async function findVoice(keyOrVoiceId: string): Promise<VoiceCatalogEntry | null> {
+  const catalog = await getVoiceCatalog();
+  return catalog.find(voice => voice.key === keyOrVoiceId || voice.voice_id === keyOrVoiceId) ?? null;
+}
+
+export function filterVoices(voices: VoiceCatalogEntry[], filter: VoiceFilter): VoiceCatalogEntry[] {
+  // Match on the base language so 'es-ES' and 'PT-BR' find 'es' and 'pt'
+  const language = filter.language?.split('-')[0].toLowerCase();
+  const category = filter.category?.toLowerCase();
+
+  return voices.filter(voice =>
+    (!language || voice.languages.includes(language)) &&
+    (!category || voice.category.toLowerCase() === category)
+  );
+}
+
+// Validate user supplied settings and fill the rest from the voice defaults
+export function resolveVoiceSettings(
+  voice: VoiceCatalogEntry,
+  input: unknown
+): { settings: VoiceSettings } | { error: string } {
+  if (input === undefined || input === null) {
+    return { settings: voice.default_settings };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'voice_settings must be an object' };
+  }
+
+  const values = input as Record<string, unknown>;
+  const settings: VoiceSettings = { ...voice.default_settings };
+
+  for (const field of ['stability', 'similarity_boost', 'style'] as const) {
+    const value = values[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || Number.isNaN(value) || value < 0 || value > 1) {
+      return { error: `voice_settings.${field} must be a number between 0 and 1` };
+    }
+    settings[field] = value;
+  }
+
+  if (values.use_speaker_boost !== undefined) {
+    if (typeof values.use_speaker_boost !== 'boolean') {
+      return { error: 'voice_settings.use_speaker_boost must be a boolean' };
+    }
+    settings.use_speaker_boost = values.use_speaker_boost;
+  }
+
+  return { settings };
+}
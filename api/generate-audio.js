@@ -1,195 +1,145 @@
-// Curated list of high-quality ElevenLabs voices
-const VOICE_PRESETS = {
-  'deep-male-narrator': {
-    voice_id: 'pNInz6obpgDQGcFmaJgB', // Adam - Deep male voice
-    name: 'Deep Male Narrator',
-    category: 'narrative'
-  },
-  'calm-female-voice': {
-    voice_id: 'EXAVITQu4vr4xnSDxMaL', // Bella - Calm female voice
-    name: 'Calm Female Voice',
-    category: 'conversational'
-  },
-  'professional-male': {
-    voice_id: 'VR6AewLTigWG4xSOukaG', // Arnold - Professional male
-    name: 'Professional Male',
-    category: 'business'
-  },
-  'warm-female': {
-    voice_id: 'ThT5KcBeYPX3keUQqHPh', // Dorothy - Warm female
-    name: 'Warm Female',
-    category: 'friendly'
-  },
-  'cinematic-male': {
-    voice_id: 'bVMeCyTHy58xNoL34h3p', // Jeremy - Cinematic male
-    name: 'Cinematic Male',
-    category: 'dramatic'
-  },
-  'gentle-female': {
-    voice_id: 'AZnzlk1XvdvUeBnXmlld', // Domi - Gentle female
-    name: 'Gentle Female',
-    category: 'soothing'
-  }
+import { audioCacheKey, synthesizeSpeech, ElevenLabsError } from './_lib/elevenlabs.js';
+import { readCache } from './_lib/cache.js';
+import { UpstreamTimeoutError } from './_lib/upstream.js';
+import { splitIntoChunks } from './_lib/text-chunks.js';
+import { findVoice, resolveVoiceSettings } from './_lib/voices.js';
+import { withApiMiddleware, sendError } from './_lib/middleware.js';
+import { getClientProviderKey } from './_lib/provider-keys.js';
+
+// Long texts are split into sentence chunks and streamed back one by one
+const MAX_TEXT_LENGTH = 50000;
+const MAX_CHUNK_CHARACTERS = 1000;
+const FIRST_CHUNK_CHARACTERS = 250;
+
+// Voice settings are checked against the catalog ranges by resolveVoiceSettings
+const AUDIO_GENERATION_SCHEMA = {
+  text: { type: 'string', required: true, minLength: 1, maxLength: MAX_TEXT_LENGTH },
+  voice_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  model_id: { type: 'string', maxLength: 100 },
+  voice_settings: { type: 'object', properties: {} },
 };
 
-export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({ message: 'Method not allowed' });
-  }
-
+async function handler(req, res, body) {
   try {
-    // Get API key from environment
-    const apiKey = process.env.ELEVENLABS_API_KEY;
+    // The key sent by the desktop app, otherwise the environment's
+    const apiKey = getClientProviderKey('elevenlabs') || process.env.ELEVENLABS_API_KEY;
     
     if (!apiKey) {
-      return res.status(500).json({
-        message: 'ElevenLabs API key not found in environment.'
-      });
+      return sendError(res, 500, 'internal_error', 'ElevenLabs API key not found in environment.');
     }
 
-    // Parse request body
-    const { text, voice_id, model_id = 'eleven_monolingual_v1' } = req.body;
+    // The body was validated against AUDIO_GENERATION_SCHEMA by the middleware
+    const { text, voice_id, model_id = 'eleven_monolingual_v1', voice_settings } = body;
 
-    // Validate input
-    if (!text || !voice_id) {
-      return res.status(400).json({
-        message: 'Missing required fields: text and voice_id'
-      });
-    }
-
-    // Validate text length (ElevenLabs has limits)
-    if (text.length > 5000) {
-      return res.status(400).json({
-        message: 'Text too long. Maximum 5000 characters allowed.'
-      });
-    }
+    // Find voice by catalog key or actual ElevenLabs voice ID
+    const selectedVoice = await findVoice(voice_id);
 
-    // Find voice by voice_id (either preset key or actual ElevenLabs voice ID)
-    let selectedVoice;
-    
-    // First check if it's a preset key
-    if (VOICE_PRESETS[voice_id]) {
-      selectedVoice = VOICE_PRESETS[voice_id];
-    } else {
-      // Check if it's an actual ElevenLabs voice ID
-      const presetEntry = Object.entries(VOICE_PRESETS).find(([key, preset]) => preset.voice_id === voice_id);
-      if (presetEntry) {
-        selectedVoice = presetEntry[1];
-      }
-    }
-    
     if (!selectedVoice) {
-      return res.status(400).json({
-        message: 'Invalid voice_id. Must be one of: ' + Object.keys(VOICE_PRESETS).join(', ') + ' or a valid ElevenLabs voice ID'
-      });
+      return sendError(res, 400, 'invalid_request', 'Invalid voice_id. Must be a voice key or voice ID from /api/voices');
     }
 
-    // Prepare ElevenLabs API request
-    const elevenLabsUrl = `https://api.elevenlabs.io/v1/text-to-speech/${selectedVoice.voice_id}`;
-    
-    const requestBody = {
-      text: text,
-      model_id: model_id,
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.5,
-        style: 0.0,
-        use_speaker_boost: true
-      }
-    };
-
-    // Make request to ElevenLabs API
-    const response = await fetch(elevenLabsUrl, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': apiKey,
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('ElevenLabs API Error:', response.status, errorText);
-      
-      if (response.status === 401) {
-        return res.status(401).json({
-          message: 'Invalid ElevenLabs API key.'
-        });
-      }
-      
-      if (response.status === 402) {
-        return res.status(402).json({
-          message: 'ElevenLabs quota exceeded. Please check your subscription.'
-        });
-      }
-      
-      if (response.status === 422) {
-        return res.status(400).json({
-          message: 'Invalid request parameters for ElevenLabs API.'
-        });
-      }
-      
-      return res.status(500).json({
-        message: `ElevenLabs API error: ${response.status}`
-      });
+    // Validate per-voice settings against the catalog defaults
+    const resolvedSettings = resolveVoiceSettings(selectedVoice, voice_settings);
+    if ('error' in resolvedSettings) {
+      return sendError(res, 400, 'invalid_request', resolvedSettings.error);
     }
+    const { settings } = resolvedSettings;
 
-    // Get audio data as buffer
-    const audioBuffer = await response.arrayBuffer();
-    
-    if (!audioBuffer || audioBuffer.byteLength === 0) {
-      return res.status(500).json({
-        message: 'No audio data received from ElevenLabs API'
-      });
+    const chunks = splitIntoChunks(text, MAX_CHUNK_CHARACTERS, FIRST_CHUNK_CHARACTERS);
+    // Whitespace and punctuation alone leave nothing to synthesize
+    if (chunks.length === 0) {
+      return sendError(res, 400, 'invalid_request', 'The text has nothing to speak. Please include some words.');
     }
+    const cachedChunks = await Promise.all(
+      chunks.map(chunk => readCache(audioCacheKey(chunk, selectedVoice.voice_id, model_id, settings)))
+    );
+    const hits = cachedChunks.filter(Boolean).length;
+    const cacheStatus = hits === chunks.length ? 'HIT' : hits === 0 ? 'MISS' : 'PARTIAL';
+
+    const synthesizeChunk = (index) => synthesizeSpeech(chunks[index], {
+      apiKey,
+      voiceId: selectedVoice.voice_id,
+      modelId: model_id,
+      voiceSettings: settings,
+      previousText: chunks[index - 1],
+      nextText: chunks[index + 1],
+    });
+
+    // Wait for the first chunk before sending headers so errors still map to a status
+    let nextChunk = synthesizeChunk(0);
+    const firstChunk = await nextChunk;
 
     // Set appropriate headers for audio response
     res.setHeader('Content-Type', 'audio/mpeg');
-    res.setHeader('Content-Length', audioBuffer.byteLength.toString());
     res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
-    
+    res.setHeader('X-Cache', cacheStatus);
+    res.setHeader('X-Audio-Chunks', chunks.length.toString());
+
     // Add custom headers for voice info
     res.setHeader('X-Voice-Name', selectedVoice.name);
     res.setHeader('X-Voice-Category', selectedVoice.category);
 
-    // Return audio data
-    return res.status(200).send(Buffer.from(audioBuffer));
+    if (chunks.length === 1) {
+      res.setHeader('Content-Length', firstChunk.audio.byteLength.toString());
+      return res.status(200).send(firstChunk.audio);
+    }
+
+    // Stream each chunk as soon as it is ready while the next one is generated
+    res.status(200);
+    for (let index = 0; index < chunks.length; index++) {
+      const { audio } = index === 0 ? firstChunk : await nextChunk;
+      if (index + 1 < chunks.length) {
+        nextChunk = synthesizeChunk(index + 1);
+        nextChunk.catch(() => {});
+      }
+      res.write(audio);
+    }
+
+    return res.end();
 
   } catch (error) {
     console.error('Audio generation error:', error);
+
+    // Headers are already sent once streaming started, so just close the stream
+    if (res.headersSent) {
+      return res.end();
+    }
+
+    // Handle ElevenLabs API errors
+    if (error instanceof ElevenLabsError) {
+      if (error.code === 'quota_exceeded' || error.status === 402) {
+        return sendError(res, 402, 'upstream_error', 'ElevenLabs quota exceeded. Please check your subscription.');
+      }
+
+      if (error.status === 401) {
+        return sendError(res, 401, 'upstream_error', 'Invalid ElevenLabs API key.');
+      }
+
+      if (error.status === 429) {
+        return sendError(res, 429, 'upstream_error', 'Rate limit exceeded. Please try again later.');
+      }
+
+      if (error.status === 422) {
+        return sendError(res, 400, 'upstream_error', 'Invalid request parameters for ElevenLabs API.');
+      }
+
+      return sendError(res, 500, 'upstream_error', error.message);
+    }
     
     // Handle network errors
     if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      return res.status(503).json({
-        message: 'Unable to connect to ElevenLabs service. Please try again later.'
-      });
+      return sendError(res, 503, 'upstream_error', 'Unable to connect to ElevenLabs service. Please try again later.');
     }
     
     // Handle timeout errors
-    if (error.code === 'ETIMEDOUT') {
-      return res.status(504).json({
-        message: 'Audio generation request timed out. Please try again.'
-      });
+    if (error instanceof UpstreamTimeoutError || error.code === 'ETIMEDOUT') {
+      return sendError(res, 504, 'upstream_error', 'Audio generation request timed out. Please try again.');
     }
     
     // Generic error response
-    return res.status(500).json({
-      message: 'Internal server error during audio generation.'
-    });
+    return sendError(res, 500, 'internal_error', 'Internal server error during audio generation.');
   }
 }
 
-export { VOICE_PRESETS };
\ No newline at end of file
+// Speech is the most expensive call, it takes more of the client's budget
+export default withApiMiddleware({ methods: ['POST'], schema: AUDIO_GENERATION_SCHEMA, rateLimitCost: 2 }, handler);
\ No newline at end of file
@@ -1,167 +1,152 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { audioCacheKey, synthesizeSpeech, ElevenLabsError } from './_lib/elevenlabs.js';
+import { readCache } from './_lib/cache.js';
+import { UpstreamTimeoutError } from './_lib/upstream.js';
+import { splitIntoChunks } from './_lib/text-chunks.js';
+import { findVoice, resolveVoiceSettings, type VoiceSettings } from './_lib/voices.js';
+import { withApiMiddleware, sendError } from './_lib/middleware.js';
+import type { BodySchema } from './_lib/schema.js';
+import { getClientProviderKey } from './_lib/provider-keys.js';
 
 interface AudioGenerationRequest {
   text: string;
   voice_id: string;
   model_id?: string;
+  voice_settings?: Partial<VoiceSettings>;
 }
 
-interface ElevenLabsVoice {
-  voice_id: string;
-  name: string;
-  category: string;
-}
-
-// Curated list of high-quality ElevenLabs voices
-const VOICE_PRESETS: Record<string, ElevenLabsVoice> = {
-  'deep-male-narrator': {
-    voice_id: 'pNInz6obpgDQGcFmaJgB', // Adam - Deep male voice
-    name: 'Deep Male Narrator',
-    category: 'narrative'
-  },
-  'calm-female-voice': {
-    voice_id: 'EXAVITQu4vr4xnSDxMaL', // Bella - Calm female voice
-    name: 'Calm Female Voice',
-    category: 'conversational'
-  },
-  'professional-male': {
-    voice_id: 'VR6AewLTigWG4xSOukaG', // Arnold - Professional male
-    name: 'Professional Male',
-    category: 'business'
-  },
-  'warm-female': {
-    voice_id: 'ThT5KcBeYPX3keUQqHPh', // Dorothy - Warm female
-    name: 'Warm Female',
-    category: 'friendly'
-  },
-  'cinematic-male': {
-    voice_id: 'bVMeCyTHy58xNoL34h3p', // Jeremy - Cinematic male
-    name: 'Cinematic Male',
-    category: 'dramatic'
-  },
-  'gentle-female': {
-    voice_id: 'AZnzlk1XvdvUeBnXmlld', // Domi - Gentle female
-    name: 'Gentle Female',
-    category: 'soothing'
-  }
+// Long texts are split into sentence chunks and streamed back one by one
+const MAX_TEXT_LENGTH = 50000;
+const MAX_CHUNK_CHARACTERS = 1000;
+const FIRST_CHUNK_CHARACTERS = 250;
+
+// Voice settings are checked against the catalog ranges by resolveVoiceSettings
+const AUDIO_GENERATION_SCHEMA: BodySchema = {
+  text: { type: 'string', required: true, minLength: 1, maxLength: MAX_TEXT_LENGTH },
+  voice_id: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  model_id: { type: 'string', maxLength: 100 },
+  voice_settings: { type: 'object', properties: {} },
 };
 
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
+async function handler(
+  _req: VercelRequest,
+  res: VercelResponse,
+  body: AudioGenerationRequest
 ) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({ message: 'Method not allowed' });
-  }
-
   try {
-    // Get API key from environment
-    const apiKey = process.env.ELEVENLABS_API_KEY;
+    // The key sent by the desktop app, otherwise the environment's
+    const apiKey = getClientProviderKey('elevenlabs') || process.env.ELEVENLABS_API_KEY;
     
     if (!apiKey) {
-      return res.status(500).json({
-        message: 'ElevenLabs API key not found in environment.'
-      });
+      return sendError(res, 500, 'internal_error', 'ElevenLabs API key not found in environment.');
     }
 
-    const { text, voice_id, model_id = 'eleven_monolingual_v1' }: AudioGenerationRequest = req.body;
+    const { text, voice_id, model_id = 'eleven_monolingual_v1', voice_settings } = body;
 
-    // Validate input
-    if (!text || !voice_id) {
-      return res.status(400).json({
-        message: 'Missing required fields: text and voice_id'
-      });
+    // Validate voice_id (catalog key or ElevenLabs id) against the voice catalog
+    const voice = await findVoice(voice_id);
+    if (!voice) {
+      return sendError(res, 400, 'invalid_request', 'Invalid voice_id. Please use one of the voices from /api/voices.');
     }
 
-    if (text.length > 5000) {
-      return res.status(400).json({
-        message: 'Text too long. Maximum 5000 characters allowed.'
-      });
+    const resolvedSettings = resolveVoiceSettings(voice, voice_settings);
+    if ('error' in resolvedSettings) {
+      return sendError(res, 400, 'invalid_request', resolvedSettings.error);
     }
+    const { settings } = resolvedSettings;
 
-    // Validate voice_id exists in our presets
-    const voiceExists = Object.values(VOICE_PRESETS).some(preset => preset.voice_id === voice_id);
-    if (!voiceExists) {
-      return res.status(400).json({
-        message: 'Invalid voice_id. Please use one of the available voice presets.'
-      });
+    const chunks = splitIntoChunks(text, MAX_CHUNK_CHARACTERS, FIRST_CHUNK_CHARACTERS);
+    // Whitespace and punctuation alone leave nothing to synthesize
+    if (chunks.length === 0) {
+      return sendError(res, 400, 'invalid_request', 'The text has nothing to speak. Please include some words.');
     }
-
-    console.log(`Generating audio for text: "${text.substring(0, 50)}..." with voice: ${voice_id}`);
-
-    // Call ElevenLabs API
-    const elevenLabsResponse = await fetch(
-      `https://api.elevenlabs.io/v1/text-to-speech/${voice_id}`,
-      {
-        method: 'POST',
-        headers: {
-          'Accept': 'audio/mpeg',
-          'Content-Type': 'application/json',
-          'xi-api-key': apiKey,
-        },
-        body: JSON.stringify({
-          text,
-          model_id,
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.5,
-            style: 0.0,
-            use_speaker_boost: true
-          }
-        }),
-      }
+    const cachedChunks = await Promise.all(
+      chunks.map(chunk => readCache(audioCacheKey(chunk, voice.voice_id, model_id, settings)))
     );
+    const hits = cachedChunks.filter(Boolean).length;
+    const cacheStatus = hits === chunks.length ? 'HIT' : hits === 0 ? 'MISS' : 'PARTIAL';
+
+    console.log(`Generating audio for text: "${text.substring(0, 50)}..." with voice: ${voice.name} (${chunks.length} chunks)`);
+
+    const synthesizeChunk = (index: number) => synthesizeSpeech(chunks[index], {
+      apiKey,
+      voiceId: voice.voice_id,
+      modelId: model_id,
+      voiceSettings: settings,
+      previousText: chunks[index - 1],
+      nextText: chunks[index + 1],
+    });
 
-    if (!elevenLabsResponse.ok) {
-      const errorText = await elevenLabsResponse.text();
-      console.error('ElevenLabs API error:', elevenLabsResponse.status, errorText);
-      
-      if (elevenLabsResponse.status === 401) {
-        return res.status(500).json({
-          message: 'Invalid ElevenLabs API key.'
-        });
-      }
-      
-      if (elevenLabsResponse.status === 429) {
-        return res.status(429).json({
-          message: 'Rate limit exceeded. Please try again later.'
-        });
-      }
-      
-      return res.status(500).json({
-        message: 'Failed to generate audio from ElevenLabs API.'
-      });
+    // Short texts keep the original single-response behaviour
+    if (chunks.length === 1) {
+      const { audio } = await synthesizeChunk(0);
+
+      // Set appropriate headers for audio response
+      res.setHeader('Content-Type', 'audio/mpeg');
+      res.setHeader('Content-Length', audio.byteLength.toString());
+      res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
+      res.setHeader('X-Cache', cacheStatus);
+      res.setHeader('X-Voice-Name', voice.name);
+
+      // Send the audio data
+      return res.status(200).send(audio);
     }
 
-    // Get the audio data as buffer
-    const audioBuffer = await elevenLabsResponse.arrayBuffer();
-    
-    // Set appropriate headers for audio response
+    // The first chunk is awaited before any header is sent so errors still map to a status
+    let nextChunk = synthesizeChunk(0);
+    const firstChunk = await nextChunk;
+
     res.setHeader('Content-Type', 'audio/mpeg');
-    res.setHeader('Content-Length', audioBuffer.byteLength.toString());
-    res.setHeader('Cache-Control', 'public, max-age=3600'); // Cache for 1 hour
-    
-    // Send the audio data
-    res.status(200).send(Buffer.from(audioBuffer));
+    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.setHeader('X-Cache', cacheStatus);
+    res.setHeader('X-Audio-Chunks', chunks.length.toString());
+    res.setHeader('X-Voice-Name', voice.name);
+    res.status(200);
+
+    // MP3 frames can be concatenated, so each chunk is written as soon as it is ready
+    // while the following one is already being generated
+    for (let index = 0; index < chunks.length; index++) {
+      const { audio } = index === 0 ? firstChunk : await nextChunk;
+      if (index + 1 < chunks.length) {
+        nextChunk = synthesizeChunk(index + 1);
+        nextChunk.catch(() => {});
+      }
+      res.write(audio);
+    }
+
+    return res.end();
     
   } catch (error) {
     console.error('Audio generation error:', error);
-    return res.status(500).json({
-      message: 'Internal server error during audio generation.'
-    });
+
+    // Headers are already gone once streaming started, so just close the stream
+    if (res.headersSent) {
+      return res.end();
+    }
+
+    if (error instanceof ElevenLabsError) {
+      if (error.code === 'quota_exceeded') {
+        return sendError(res, 402, 'upstream_error', 'ElevenLabs quota exceeded. Please check your subscription.');
+      }
+
+      if (error.status === 401) {
+        return sendError(res, 500, 'upstream_error', 'Invalid ElevenLabs API key.');
+      }
+
+      if (error.status === 429) {
+        return sendError(res, 429, 'upstream_error', 'Rate limit exceeded. Please try again later.');
+      }
+
+      return sendError(res, 500, 'upstream_error', 'Failed to generate audio from ElevenLabs API.');
+    }
+
+    if (error instanceof UpstreamTimeoutError) {
+      return sendError(res, 504, 'upstream_error', 'Audio generation request timed out. Please try again.');
+    }
+
+    return sendError(res, 500, 'internal_error', 'Internal server error during audio generation.');
   }
 }
 
-// Export voice presets for frontend use
-export { VOICE_PRESETS };
\ No newline at end of file
+// Speech is the most expensive call, it takes more of the client's budget
+export default withApiMiddleware<AudioGenerationRequest>({ methods: ['POST'], schema: AUDIO_GENERATION_SCHEMA, rateLimitCost: 2 }, handler);
\ No newline at end of file
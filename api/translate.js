@@ -1,123 +1,67 @@
-export default async function handler(req, res) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+import { translateWithCache, FORMALITIES, TranslationProviderError } from './_lib/translation-providers.js';
+import { parseGlossary, GLOSSARY_FIELD, MAX_GLOSSARY_ENTRIES } from './_lib/glossary.js';
+import { withApiMiddleware, sendError } from './_lib/middleware.js';
 
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+// DeepL limits a single request, longer texts go through /api/translate/batch
+const MAX_TEXT_LENGTH = 5000;
 
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({ message: 'Method not allowed' });
-  }
+const TRANSLATION_SCHEMA = {
+  text: { type: 'string', required: true, minLength: 1, maxLength: MAX_TEXT_LENGTH },
+  targetLang: { type: 'string', required: true, minLength: 1, maxLength: 10 },
+  sourceLang: { type: 'string', maxLength: 10 },
+  formality: { type: 'string', enum: FORMALITIES },
+  glossary: GLOSSARY_FIELD,
+};
 
+async function handler(req, res, body) {
   try {
-    // Get API key from environment
-    const apiKey = process.env.DEEPL_API_KEY;
-    
-    if (!apiKey) {
-      return res.status(500).json({
-        message: 'DeepL API key not found in environment.'
-      });
-    }
-
-    // Parse request body
-    const { text, targetLang, sourceLang } = req.body;
-
-    // Validate input
-    if (!text || !targetLang) {
-      return res.status(400).json({
-        message: 'Missing required fields: text and targetLang'
-      });
-    }
-
-    // Validate text length (DeepL has limits)
-    if (text.length > 5000) {
-      return res.status(400).json({
-        message: 'Text too long. Maximum 5000 characters allowed.'
-      });
-    }
+    // The body was validated against TRANSLATION_SCHEMA by the middleware
+    const { text, targetLang, sourceLang, formality = 'default' } = body;
 
-    // Prepare DeepL API request
-    const deeplUrl = 'https://api-free.deepl.com/v2/translate';
-    const params = new URLSearchParams({
-      'auth_key': apiKey,
-      'text': text,
-      'target_lang': targetLang.toUpperCase(),
-    });
-
-    // Add source language if provided
-    if (sourceLang) {
-      params.append('source_lang', sourceLang.toUpperCase());
+    const glossary = parseGlossary(body.glossary);
+    if (!glossary) {
+      return sendError(res, 400, 'invalid_request', `glossary must be an array of at most ${MAX_GLOSSARY_ENTRIES} { term, translation } entries`);
     }
 
-    // Make request to DeepL API
-    const response = await fetch(deeplUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('DeepL API Error:', response.status, errorText);
-      
-      if (response.status === 403) {
-        return res.status(403).json({
-          message: 'Invalid DeepL API key or quota exceeded.'
-        });
-      }
-      
-      if (response.status === 456) {
-        return res.status(400).json({
-          message: 'Quota exceeded. Please check your DeepL usage.'
-        });
-      }
-      
-      return res.status(500).json({
-        message: `DeepL API error: ${response.status}`
-      });
-    }
+    // Translate through the cache and the configured provider chain
+    const { texts, provider, cache, glossaryMatches } = await translateWithCache([text], targetLang.toUpperCase(), sourceLang?.toUpperCase(), { formality, glossary });
 
-    const data = await response.json();
-    
-    // Validate response structure
-    if (!data.translations || !Array.isArray(data.translations) || data.translations.length === 0) {
-      return res.status(500).json({
-        message: 'Invalid response from DeepL API'
-      });
-    }
+    res.setHeader('X-Translation-Provider', provider.id);
+    res.setHeader('X-Cache', cache);
 
     // Return translated text
     return res.status(200).json({
-      translated_text: data.translations[0].text
+      translated_text: texts[0],
+      provider: provider.id,
+      provider_name: provider.name,
+      glossary_matches: glossaryMatches[0]
     });
 
   } catch (error) {
     console.error('Translation error:', error);
+
+    // Handle provider errors (the last provider's status is preserved)
+    if (error instanceof TranslationProviderError) {
+      if (error.status === 456) {
+        return sendError(res, 400, 'upstream_error', 'Quota exceeded. Please check your translation provider usage.');
+      }
+
+      return sendError(res, error.status, 'upstream_error', error.message);
+    }
     
     // Handle network errors
     if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-      return res.status(503).json({
-        message: 'Unable to connect to translation service. Please try again later.'
-      });
+      return sendError(res, 503, 'upstream_error', 'Unable to connect to translation service. Please try again later.');
     }
     
     // Handle timeout errors
     if (error.code === 'ETIMEDOUT') {
-      return res.status(504).json({
-        message: 'Translation request timed out. Please try again.'
-      });
+      return sendError(res, 504, 'upstream_error', 'Translation request timed out. Please try again.');
     }
     
     // Generic error response
-    return res.status(500).json({
-      message: 'Internal server error during translation.'
-    });
+    return sendError(res, 500, 'internal_error', 'Internal server error during translation.');
   }
-}
\ No newline at end of file
+}
+
+export default withApiMiddleware({ methods: ['POST'], schema: TRANSLATION_SCHEMA }, handler);
\ No newline at end of file
@@ -1,127 +1,77 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  translateWithCache,
+  FORMALITIES,
+  TranslationProviderError,
+  type Formality,
+  type TranslationProviderId,
+} from './_lib/translation-providers.js';
+import { parseGlossary, GLOSSARY_FIELD, MAX_GLOSSARY_ENTRIES, type GlossaryMatch } from './_lib/glossary.js';
+import { withApiMiddleware, sendError } from './_lib/middleware.js';
+import type { BodySchema } from './_lib/schema.js';
 
 interface TranslationRequest {
   text: string;
   targetLang: string;
   sourceLang?: string;
-}
-
-interface DeepLResponse {
-  translations: Array<{
-    text: string;
-  }>;
+  formality?: Formality;
+  glossary?: unknown;
 }
 
 interface TranslationResult {
   translated_text: string;
+  provider: TranslationProviderId;
+  provider_name: string;
+  glossary_matches: GlossaryMatch[];
 }
 
-interface TranslationError {
-  message: string;
-}
-
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
+// DeepL limits a single request, longer texts go through /api/translate/batch
+const MAX_TEXT_LENGTH = 5000;
+
+const TRANSLATION_SCHEMA: BodySchema = {
+  text: { type: 'string', required: true, minLength: 1, maxLength: MAX_TEXT_LENGTH },
+  targetLang: { type: 'string', required: true, minLength: 1, maxLength: 10 },
+  sourceLang: { type: 'string', maxLength: 10 },
+  formality: { type: 'string', enum: FORMALITIES },
+  glossary: GLOSSARY_FIELD,
+};
+
+async function handler(
+  _req: VercelRequest,
+  res: VercelResponse,
+  body: TranslationRequest
 ) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  // Handle preflight OPTIONS request
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    return res.status(405).json({ message: 'Method not allowed' });
-  }
-
   try {
-    // Get API key from environment
-    const apiKey = process.env.DEEPL_API_KEY;
-    
-    if (!apiKey) {
-      return res.status(500).json({
-        message: 'DeepL API key not found in environment.'
-      } as TranslationError);
-    }
-
-    if (apiKey === 'your_deepl_api_key_here') {
-      return res.status(500).json({
-        message: 'API key is a placeholder. Please set a valid DeepL API key.'
-      } as TranslationError);
-    }
-
-    // Parse request body
-    let body;
-    if (typeof req.body === 'string') {
-      body = JSON.parse(req.body);
-    } else {
-      body = req.body;
-    }
-    
-    const { text, targetLang, sourceLang }: TranslationRequest = body;
+    const { text, targetLang, sourceLang, formality = 'default' } = body;
 
-    if (!text || !targetLang) {
-      return res.status(400).json({
-        message: 'Missing required fields: text and targetLang'
-      } as TranslationError);
+    const glossary = parseGlossary(body.glossary);
+    if (!glossary) {
+      return sendError(res, 400, 'invalid_request', `glossary must be an array of at most ${MAX_GLOSSARY_ENTRIES} { term, translation } entries`);
     }
 
-    // Prepare request body for DeepL API (JSON format)
-    const requestBody: any = {
-      text: [text], // DeepL expects text as an array
-      target_lang: targetLang,
-    };
-
-    if (sourceLang) {
-      requestBody.source_lang = sourceLang;
-    }
+    // Translate through the cache and the configured provider chain
+    const { texts, provider, cache, glossaryMatches } = await translateWithCache([text], targetLang, sourceLang, { formality, glossary });
 
-    // Make request to DeepL API
-    const response = await fetch('https://api-free.deepl.com/v2/translate', {
-      method: 'POST',
-      headers: {
-        'Authorization': `DeepL-Auth-Key ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`DeepL API Error (Status: ${response.status}): ${errorBody}`);
-      
-      return res.status(response.status).json({
-        message: `DeepL API Error (Status: ${response.status}): ${errorBody}`
-      } as TranslationError);
-    }
-
-    // Parse successful response
-    const deepLResponse: DeepLResponse = await response.json();
-
-    // Extract translated text
-    const translatedText = deepLResponse.translations?.[0]?.text;
-    
-    if (!translatedText) {
-      return res.status(500).json({
-        message: 'No translation found in DeepL response.'
-      } as TranslationError);
-    }
+    res.setHeader('X-Translation-Provider', provider.id);
+    res.setHeader('X-Cache', cache);
 
     // Return successful translation
     return res.status(200).json({
-      translated_text: translatedText
+      translated_text: texts[0],
+      provider: provider.id,
+      provider_name: provider.name,
+      glossary_matches: glossaryMatches[0]
     } as TranslationResult);
 
   } catch (error) {
     console.error('Translation error:', error);
-    
-    return res.status(500).json({
-      message: `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`
-    } as TranslationError);
+
+    if (error instanceof TranslationProviderError) {
+      return sendError(res, error.status, 'upstream_error', error.message);
+    }
+
+    return sendError(res, 500, 'internal_error', `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+
+export default withApiMiddleware<TranslationRequest>({ methods: ['POST'], schema: TRANSLATION_SCHEMA }, handler);
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { translateWithCache, FORMALITIES, TranslationProviderError } from '../_lib/translation-providers.js';
+import { parseGlossary, GLOSSARY_FIELD, MAX_GLOSSARY_ENTRIES } from '../_lib/glossary.js';
+import { withApiMiddleware, sendError } from '../_lib/middleware.js';
+
+// DeepL accepts at most 50 texts per request
+const MAX_SEGMENTS = 50;
+const MAX_TARGET_LANGS = 5;
+const MAX_TOTAL_CHARACTERS = 20000;
+
+const BATCH_TRANSLATION_SCHEMA = {
+  segments: { type: 'array', required: true, minItems: 1, maxItems: MAX_SEGMENTS, items: { type: 'string', minLength: 1 } },
+  targetLangs: { type: 'array', required: true, minItems: 1, items: { type: 'string', minLength: 1, maxLength: 10 } },
+  sourceLang: { type: 'string', maxLength: 10 },
+  formality: { type: 'string', enum: FORMALITIES },
+  glossary: GLOSSARY_FIELD,
+};
+
+async function handler(req, res, body) {
+  try {
+    const { segments, targetLangs, sourceLang, formality = 'default' } = body;
+
+    const uniqueTargets = Array.from(new Set(targetLangs.map(lang => lang.toUpperCase())));
+    if (uniqueTargets.length > MAX_TARGET_LANGS) {
+      return sendError(res, 400, 'invalid_request', `Too many target languages. Maximum ${MAX_TARGET_LANGS} allowed.`);
+    }
+
+    const totalCharacters = segments.reduce((sum, segment) => sum + segment.length, 0);
+    if (totalCharacters > MAX_TOTAL_CHARACTERS) {
+      return sendError(res, 400, 'invalid_request', `Text too long. Maximum ${MAX_TOTAL_CHARACTERS} characters allowed per batch.`);
+    }
+
+    const glossary = parseGlossary(body.glossary);
+    if (!glossary) {
+      return sendError(res, 400, 'invalid_request', `glossary must be an array of at most ${MAX_GLOSSARY_ENTRIES} { term, translation } entries`);
+    }
+
+    // One provider call per target language, each carrying every segment
+    const columns = await Promise.all(uniqueTargets.map(targetLang => translateWithCache(segments, targetLang, sourceLang, { formality, glossary })));
+
+    const cacheStatuses = new Set(columns.map(column => column.cache));
+    res.setHeader('X-Cache', cacheStatuses.size === 1 ? columns[0].cache : 'PARTIAL');
+    const matrix = segments.map((_, segmentIndex) => columns.map(column => column.texts[segmentIndex]));
+    const glossaryMatches = segments.map((_, segmentIndex) => columns.map(column => column.glossaryMatches[segmentIndex]));
+
+    return res.status(200).json({
+      segments,
+      target_langs: uniqueTargets,
+      matrix,
+      glossary_matches: glossaryMatches,
+      providers: columns.map((column, index) => ({
+        target_lang: uniqueTargets[index],
+        provider: column.provider.id,
+        provider_name: column.provider.name
+      }))
+    });
+  } catch (error) {
+    console.error('Batch translation error:', error);
+
+    if (error instanceof TranslationProviderError) {
+      return sendError(res, error.status, 'upstream_error', error.message);
+    }
+
+    return sendError(res, 500, 'internal_error', `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// One token for the request and one per target language, each is a provider call of its own
+const getRateLimitCost = ({ targetLangs }) => 1 + new Set(targetLangs.map(lang => lang.toUpperCase())).size;
+
+export default withApiMiddleware({ methods: ['POST'], schema: BATCH_TRANSLATION_SCHEMA, rateLimitCost: getRateLimitCost }, handler);
@@ -0,0 +1,90 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getProviderChain, TranslationProviderError } from './_lib/translation-providers.js';
+import { fetchSubscriptionQuota } from './_lib/elevenlabs.js';
+import { readDailyUsage, USAGE_RETENTION_DAYS, type ProviderQuota, type ProviderUsage } from './_lib/usage.js';
+import { withApiMiddleware, sendError } from './_lib/middleware.js';
+import { getClientProviderKey } from './_lib/provider-keys.js';
+
+interface QuotaFailure {
+  provider: string;
+  error: string;
+}
+
+const DEFAULT_DAYS = 30;
+
+const firstQueryValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+// Quotas of every configured provider that reports one, in failover order
+async function collectQuotas(): Promise<{ quotas: ProviderQuota[]; errors: QuotaFailure[] }> {
+  const requests: Array<{ provider: string; load: () => Promise<ProviderQuota> }> = [];
+
+  for (const provider of getProviderChain()) {
+    if (provider.isConfigured() && provider.getQuota) {
+      requests.push({ provider: provider.id, load: provider.getQuota });
+    }
+  }
+
+  const elevenLabsKey = getClientProviderKey('elevenlabs') || process.env.ELEVENLABS_API_KEY;
+  if (elevenLabsKey) {
+    requests.push({ provider: 'elevenlabs', load: () => fetchSubscriptionQuota(elevenLabsKey) });
+  }
+
+  const results = await Promise.allSettled(requests.map(request => request.load()));
+  const quotas: ProviderQuota[] = [];
+  const errors: QuotaFailure[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      quotas.push(result.value);
+    } else {
+      console.error(`Quota request for ${requests[index].provider} failed:`, result.reason);
+      errors.push({ provider: requests[index].provider, error: describeError(result.reason) });
+    }
+  });
+  return { quotas, errors };
+}
+
+async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  const requestedDays = Number(firstQueryValue(req.query.days) ?? DEFAULT_DAYS);
+  if (!Number.isInteger(requestedDays) || requestedDays < 1 || requestedDays > USAGE_RETENTION_DAYS) {
+    return sendError(res, 400, 'invalid_request', `days must be a whole number between 1 and ${USAGE_RETENTION_DAYS}`);
+  }
+
+  try {
+    const [days, { quotas, errors }] = await Promise.all([readDailyUsage(requestedDays), collectQuotas()]);
+
+    const totals: ProviderUsage = {};
+    days.forEach(day => {
+      Object.entries(day.providers).forEach(([provider, counter]) => {
+        const total = totals[provider] ?? (totals[provider] = { characters: 0, requests: 0 });
+        total.characters += counter.characters;
+        total.requests += counter.requests;
+      });
+    });
+
+    // Usage changes with every request
+    res.setHeader('Cache-Control', 'no-store');
+
+    return res.status(200).json({
+      days,
+      totals,
+      quotas,
+      quota_errors: errors
+    });
+  } catch (error) {
+    console.error('Usage error:', error);
+
+    if (error instanceof TranslationProviderError) {
+      return sendError(res, error.status, 'upstream_error', error.message);
+    }
+
+    return sendError(res, 500, 'internal_error', 'Internal server error while loading usage.');
+  }
+}
+
+export default withApiMiddleware({ methods: ['GET'] }, handler);
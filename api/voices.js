@@ -0,0 +1,27 @@
+import { filterVoices, getVoiceCatalog, DEFAULT_VOICE_SETTINGS } from './_lib/voices.js';
+import { withApiMiddleware, sendError } from './_lib/middleware.js';
+
+const firstQueryValue = (value) => Array.isArray(value) ? value[0] : value;
+
+async function handler(req, res) {
+  try {
+    const catalog = await getVoiceCatalog();
+    const voices = filterVoices(catalog, {
+      language: firstQueryValue(req.query.language),
+      category: firstQueryValue(req.query.category),
+    });
+
+    res.setHeader('Cache-Control', 'public, max-age=300');
+
+    return res.status(200).json({
+      voices,
+      categories: Array.from(new Set(catalog.map(voice => voice.category))).sort(),
+      default_settings: DEFAULT_VOICE_SETTINGS
+    });
+  } catch (error) {
+    console.error('Voice catalog error:', error);
+    return sendError(res, 500, 'internal_error', 'Internal server error while loading voices.');
+  }
+}
+
+export default withApiMiddleware({ methods: ['GET'] }, handler);
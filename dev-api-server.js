@@ -1,27 +1,52 @@
 import express from 'express';
-import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { applyCors, sendError, redactHeaders } from './api/_lib/middleware.js';
 
 // Load environment variables from .env files
 dotenv.config({ path: '.env.local' });
 dotenv.config({ path: '.env' });
 
+// Persist the API response cache on disk between dev server restarts
+process.env.API_CACHE_STORE = process.env.API_CACHE_STORE || 'fs';
+// Same for the provider usage counters behind /api/usage
+process.env.API_USAGE_STORE = process.env.API_USAGE_STORE || 'fs';
+// The desktop app sends the DeepL and ElevenLabs keys saved in its settings
+process.env.API_CLIENT_PROVIDER_KEYS = process.env.API_CLIENT_PROVIDER_KEYS || 'true';
+
+// MOCK_PROVIDERS_URL=http://localhost:3002 sends every DeepL and ElevenLabs call to
+// mock-provider-server.js, which accepts any key
+if (process.env.MOCK_PROVIDERS_URL) {
+  const mockUrl = process.env.MOCK_PROVIDERS_URL.replace(/\/+$/, '');
+  process.env.DEEPL_BASE_URL = `${mockUrl}/deepl/v2`;
+  process.env.ELEVENLABS_BASE_URL = `${mockUrl}/elevenlabs/v1`;
+  process.env.DEEPL_API_KEY = process.env.DEEPL_API_KEY || 'mock-key';
+  process.env.ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || 'mock-key';
+}
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 const PORT = 3001;
 
-// Enable CORS for all routes
-app.use(cors());
+// The route handlers answer CORS, auth, rate limiting and validation themselves
+// (api/_lib/middleware.js); express only parses JSON bodies
 app.use(express.json());
 
+// Malformed JSON gets the same error body as the deployed API
+app.use((error, req, res, next) => {
+  if (error.type !== 'entity.parse.failed') return next(error);
+  applyCors(req, res, ['GET', 'POST']);
+  sendError(res, 400, 'invalid_json', 'Request body is not valid JSON.');
+});
+
 // Add request logging middleware
 app.use('/api', (req, res, next) => {
   console.log(`📥 ${req.method} ${req.path} - ${new Date().toLocaleTimeString()}`);
-  console.log('Headers:', req.headers);
+  // Never print the API token or the provider keys
+  console.log('Headers:', redactHeaders(req.headers));
   if (req.body && Object.keys(req.body).length > 0) {
     console.log('Body:', JSON.stringify(req.body, null, 2));
   }
@@ -37,15 +62,25 @@ app.use('/api', async (req, res, next) => {
     if (apiPath === 'translate') {
       const { default: handler } = await import('./api/translate.js');
       return handler(req, res);
+    } else if (apiPath === 'translate/batch') {
+      const { default: handler } = await import('./api/translate/batch.js');
+      return handler(req, res);
     } else if (apiPath === 'generate-audio') {
       const { default: handler } = await import('./api/generate-audio.js');
       return handler(req, res);
+    } else if (apiPath === 'voices') {
+      const { default: handler } = await import('./api/voices.js');
+      return handler(req, res);
+    } else if (apiPath === 'usage') {
+      const { default: handler } = await import('./api/usage.js');
+      return handler(req, res);
     }
     
-    res.status(404).json({ error: 'API endpoint not found' });
+    applyCors(req, res, ['GET', 'POST']);
+    sendError(res, 404, 'not_found', 'API endpoint not found');
   } catch (error) {
     console.error('API Error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    sendError(res, 500, 'internal_error', 'Internal server error');
   }
 });
 
@@ -53,7 +88,13 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 API server running on http://localhost:${PORT}`);
   console.log(`📡 Available endpoints:`);
   console.log(`   - POST http://localhost:${PORT}/api/translate`);
+  console.log(`   - POST http://localhost:${PORT}/api/translate/batch`);
   console.log(`   - POST http://localhost:${PORT}/api/generate-audio`);
+  console.log(`   - GET  http://localhost:${PORT}/api/voices`);
+  console.log(`   - GET  http://localhost:${PORT}/api/usage`);
+  if (process.env.MOCK_PROVIDERS_URL) {
+    console.log(`🧪 DeepL and ElevenLabs calls go to ${process.env.MOCK_PROVIDERS_URL}`);
+  }
 }).on('error', (err) => {
   console.error('❌ Failed to start API server:', err);
   process.exit(1);
@@ -4,12 +4,16 @@ import path from 'path';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { translateWithCache } from './api/_lib/translation-providers.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 dotenv.config({ path: '.env.local' });
 
+// Persist the API response cache on disk between dev server restarts
+process.env.API_CACHE_STORE = process.env.API_CACHE_STORE || 'fs';
+
 const app = express();
 const PORT = 3001;
 
@@ -17,35 +21,6 @@ const PORT = 3001;
 app.use(cors());
 app.use(express.json());
 
-// Simple translation handler without importing TS file
-const translateAPI = async (text, targetLang) => {
-  const apiKey = process.env.DEEPL_API_KEY;
-  
-  if (!apiKey || apiKey === 'your_deepl_api_key_here') {
-    throw new Error('DeepL API key not configured');
-  }
-
-  const response = await fetch('https://api-free.deepl.com/v2/translate', {
-    method: 'POST',
-    headers: {
-      'Authorization': `DeepL-Auth-Key ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      text: [text],
-      target_lang: targetLang,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`DeepL API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  return data.translations[0].text;
-};
-
 // API route handler
 app.post('/api/translate', async (req, res) => {
   console.log('🔄 Translation request received:', req.body);
@@ -59,13 +34,14 @@ app.post('/api/translate', async (req, res) => {
     }
     
     console.log(`🌐 Translating "${text}" from ${sourceLang || 'auto'} to ${targetLang}`);
-    const translatedText = await translateAPI(text, targetLang);
-    console.log(`✅ Translation successful: "${translatedText}"`);
+    const { texts, provider, cache } = await translateWithCache([text], targetLang, sourceLang);
+    console.log(`✅ Translation successful via ${provider.name}: "${texts[0]}"`);
     
-    res.json({ translated_text: translatedText });
+    res.setHeader('X-Cache', cache);
+    res.json({ translated_text: texts[0], provider: provider.id, provider_name: provider.name });
   } catch (error) {
     console.error('❌ Translation error:', error);
-    res.status(500).json({ error: error.message });
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
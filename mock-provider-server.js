@@ -0,0 +1,253 @@
+import express from 'express';
+
+// Stand-in for the DeepL and ElevenLabs APIs, so the app, dev-api-server.js and
+// the Playwright suite run without keys or network. Point the API routes at it with
+//   DEEPL_BASE_URL=http://localhost:3002/deepl/v2
+//   ELEVENLABS_BASE_URL=http://localhost:3002/elevenlabs/v1
+// Translations are deterministic ("[ES] Hello"), speech is silent MP3 whose length
+// follows the text. Failures are injected through /__mock/faults or MOCK_FAULTS.
+
+const PORT = Number(process.env.MOCK_PROVIDER_PORT || 3002);
+const DEEPL_CHARACTER_LIMIT = Number(process.env.MOCK_DEEPL_CHARACTER_LIMIT || 500000);
+const ELEVENLABS_CHARACTER_LIMIT = Number(process.env.MOCK_ELEVENLABS_CHARACTER_LIMIT || 100000);
+
+// A "timeout" fault holds the request this long, far past UPSTREAM_TIMEOUT_MS
+const HANG_MS = 5 * 60 * 1000;
+const PROVIDERS = ['deepl', 'elevenlabs'];
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, mono; all-zero side info decodes as silence
+const SILENT_FRAME = Buffer.alloc(417);
+SILENT_FRAME.set([0xff, 0xfb, 0x90, 0xc0]);
+const FRAME_SECONDS = 1152 / 44100;
+// Roughly how long a voice takes to read one character
+const SECONDS_PER_CHARACTER = 0.07;
+
+const MOCK_VOICES = [
+  { voice_id: 'mock-voice-narrator', name: 'Mock Narrator', category: 'premade', description: 'Silent test voice', labels: { use_case: 'narration', language: 'en' } },
+  { voice_id: 'mock-voice-spanish', name: 'Mock Spanish', category: 'premade', description: 'Silent test voice', labels: { use_case: 'conversational', language: 'es' } },
+];
+
+const usage = { deepl: 0, elevenlabs: 0 };
+// { provider: 'deepl' | 'elevenlabs' | 'all', error: number | 'timeout', remaining: number | null }
+let faults = [];
+
+const parseFault = (provider, error, times) => {
+  if (provider !== 'all' && !PROVIDERS.includes(provider)) return null;
+  const status = error === 'timeout' ? 'timeout' : Number(error);
+  if (status !== 'timeout' && !(status >= 400 && status < 600)) return null;
+  return { provider, error: status, remaining: times > 0 ? times : null };
+};
+
+// MOCK_FAULTS=deepl:456,elevenlabs:timeout keeps those faults for the whole run
+const loadFaultsFromEnv = () =>
+  (process.env.MOCK_FAULTS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [provider, error] = entry.split(':');
+      const fault = parseFault(provider, error, 0);
+      if (!fault) console.warn(`⚠️  Ignoring MOCK_FAULTS entry "${entry}"`);
+      return fault;
+    })
+    .filter(Boolean);
+
+faults = loadFaultsFromEnv();
+
+// The first matching fault is used up by this request
+const takeFault = (provider) => {
+  const fault = faults.find(entry => entry.provider === provider || entry.provider === 'all');
+  if (!fault) return null;
+  if (fault.remaining !== null && --fault.remaining <= 0) {
+    faults = faults.filter(entry => entry !== fault);
+  }
+  return fault.error;
+};
+
+// Error bodies shaped like the real APIs answer them
+const DEEPL_ERRORS = {
+  401: 'Authorization failure, check auth_key',
+  403: 'Authorization failure, check auth_key',
+  429: 'Too many requests',
+  456: 'Quota Exceeded',
+};
+
+const sendDeepLError = (res, status) =>
+  res.status(status).json({ message: DEEPL_ERRORS[status] || 'Internal server error' });
+
+const ELEVENLABS_ERRORS = {
+  401: { status: 'invalid_api_key', message: 'Invalid API key' },
+  429: { status: 'too_many_concurrent_requests', message: 'Too many concurrent requests' },
+  456: { status: 'quota_exceeded', message: 'This request exceeds your quota.' },
+};
+
+// ElevenLabs reports an exhausted quota as 401 quota_exceeded, there is no 456
+const sendElevenLabsError = (res, status) =>
+  res.status(status === 456 ? 401 : status).json({
+    detail: ELEVENLABS_ERRORS[status] || { status: 'internal_error', message: 'Internal server error' },
+  });
+
+const hang = (req, res) => {
+  const timer = setTimeout(() => res.destroy(), HANG_MS);
+  res.on('close', () => clearTimeout(timer));
+};
+
+// Answers with the injected fault, if any; true when the request was handled
+const applyFault = (provider, req, res) => {
+  const fault = takeFault(provider);
+  if (fault === null) return false;
+
+  console.log(`💥 ${provider} ${req.method} ${req.path} -> ${fault}`);
+  if (fault === 'timeout') {
+    hang(req, res);
+  } else if (provider === 'deepl') {
+    sendDeepLError(res, fault);
+  } else {
+    sendElevenLabsError(res, fault);
+  }
+  return true;
+};
+
+const silentMp3 = (text) => {
+  const seconds = Math.min(60, Math.max(0.5, text.length * SECONDS_PER_CHARACTER));
+  const frames = Math.ceil(seconds / FRAME_SECONDS);
+  return Buffer.concat(Array.from({ length: frames }, () => SILENT_FRAME));
+};
+
+const startOfNextMonth = () => {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) / 1000;
+};
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+// DeepL also accepts form-encoded bodies
+app.use(express.urlencoded({ extended: true }));
+
+// DeepL
+const deepl = express.Router();
+
+deepl.use((req, res, next) => {
+  if (!/^DeepL-Auth-Key \S+/.test(req.headers.authorization || '')) {
+    return sendDeepLError(res, 403);
+  }
+  if (applyFault('deepl', req, res)) return;
+  next();
+});
+
+deepl.post('/translate', (req, res) => {
+  const { text, target_lang: targetLang } = req.body || {};
+  const texts = Array.isArray(text) ? text : text ? [text] : [];
+  if (texts.length === 0 || !targetLang) {
+    return res.status(400).json({ message: "Value for 'text' and 'target_lang' not specified" });
+  }
+
+  const characters = texts.reduce((total, entry) => total + String(entry).length, 0);
+  if (usage.deepl + characters > DEEPL_CHARACTER_LIMIT) {
+    return sendDeepLError(res, 456);
+  }
+  usage.deepl += characters;
+
+  console.log(`🌐 DeepL ${req.body.source_lang || 'auto'} -> ${targetLang}: ${texts.length} text(s), ${characters} chars`);
+  res.json({
+    translations: texts.map(entry => ({
+      detected_source_language: String(req.body.source_lang || 'EN').toUpperCase(),
+      text: `[${String(targetLang).toUpperCase()}] ${entry}`,
+    })),
+  });
+});
+
+deepl.get('/usage', (req, res) => {
+  res.json({ character_count: usage.deepl, character_limit: DEEPL_CHARACTER_LIMIT });
+});
+
+app.use('/deepl/v2', deepl);
+
+// ElevenLabs
+const elevenlabs = express.Router();
+
+elevenlabs.use((req, res, next) => {
+  if (!req.headers['xi-api-key']) {
+    return sendElevenLabsError(res, 401);
+  }
+  if (applyFault('elevenlabs', req, res)) return;
+  next();
+});
+
+elevenlabs.post('/text-to-speech/:voiceId', (req, res) => {
+  const text = typeof req.body?.text === 'string' ? req.body.text : '';
+  if (!text.trim()) {
+    return res.status(422).json({ detail: { status: 'invalid_text', message: 'Text must not be empty' } });
+  }
+
+  if (usage.elevenlabs + text.length > ELEVENLABS_CHARACTER_LIMIT) {
+    return sendElevenLabsError(res, 456);
+  }
+  usage.elevenlabs += text.length;
+
+  const audio = silentMp3(text);
+  console.log(`🔊 ElevenLabs ${req.params.voiceId}: ${text.length} chars -> ${audio.byteLength} bytes`);
+  res.setHeader('Content-Type', 'audio/mpeg');
+  res.setHeader('Content-Length', audio.byteLength.toString());
+  res.send(audio);
+});
+
+elevenlabs.get('/voices', (req, res) => {
+  res.json({ voices: MOCK_VOICES });
+});
+
+elevenlabs.get('/user/subscription', (req, res) => {
+  res.json({
+    tier: 'mock',
+    character_count: usage.elevenlabs,
+    character_limit: ELEVENLABS_CHARACTER_LIMIT,
+    next_character_count_reset_unix: startOfNextMonth(),
+  });
+});
+
+app.use('/elevenlabs/v1', elevenlabs);
+
+// Test control: inject faults, read and reset the counters
+app.get('/__mock/state', (req, res) => {
+  res.json({ usage, faults });
+});
+
+// { "provider": "deepl" | "elevenlabs" | "all", "error": 401 | 429 | 456 | 500 | "timeout", "times": 1 }
+// Without "times" the fault stays until DELETE /__mock/faults
+app.post('/__mock/faults', (req, res) => {
+  const { provider = 'all', error, times = 0 } = req.body || {};
+  const fault = parseFault(provider, error, Number(times));
+  if (!fault) {
+    return res.status(400).json({ message: 'provider must be deepl, elevenlabs or all; error an HTTP status from 400 to 599 or "timeout"' });
+  }
+  faults.push(fault);
+  res.status(201).json({ faults });
+});
+
+app.delete('/__mock/faults', (req, res) => {
+  faults = [];
+  res.json({ faults });
+});
+
+app.post('/__mock/reset', (req, res) => {
+  faults = loadFaultsFromEnv();
+  usage.deepl = 0;
+  usage.elevenlabs = 0;
+  res.json({ usage, faults });
+});
+
+app.use((req, res) => {
+  res.status(404).json({ message: `Mock provider has no route for ${req.method} ${req.path}` });
+});
+
+app.listen(PORT, '0.0.0.0', () => {
+  console.log(`🧪 Mock providers running on http://localhost:${PORT}`);
+  console.log(`   - DEEPL_BASE_URL=http://localhost:${PORT}/deepl/v2`);
+  console.log(`   - ELEVENLABS_BASE_URL=http://localhost:${PORT}/elevenlabs/v1`);
+  if (faults.length > 0) {
+    console.log(`   - Faults: ${faults.map(fault => `${fault.provider}:${fault.error}`).join(', ')}`);
+  }
+}).on('error', (err) => {
+  console.error('❌ Failed to start mock provider server:', err);
+  process.exit(1);
+});
@@ -62,10 +62,30 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  webServer: {
-    command: 'npm run dev',
-    url: 'http://localhost:1420',
-    reuseExistingServer: !process.env.CI,
-  },
+  /* Run the mock providers, the API server pointed at them and the dev server, so no API keys are needed */
+  webServer: [
+    {
+      command: 'node mock-provider-server.js',
+      url: 'http://localhost:3002/__mock/state',
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: 'node dev-api-server.js',
+      url: 'http://localhost:3001/api/voices',
+      reuseExistingServer: !process.env.CI,
+      env: {
+        MOCK_PROVIDERS_URL: 'http://localhost:3002',
+        TRANSLATION_PROVIDERS: 'deepl-free',
+        API_CACHE_STORE: 'none',
+        API_USAGE_STORE: 'memory',
+        API_RATE_LIMIT: '0',
+        UPSTREAM_TIMEOUT_MS: '2000',
+      },
+    },
+    {
+      command: 'npm run dev',
+      url: 'http://localhost:1420',
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
 });
\ No newline at end of file
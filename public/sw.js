@@ -0,0 +1,76 @@
+// VoicePal service worker: keeps the app shell available offline.
+// Pages come from the network first so a new deploy shows up right away; the
+// hashed files Vite builds into /assets never change and are served from the cache.
+// The /api routes are never cached here: requests made offline go through the
+// app's own queue, and the history and its audio live in IndexedDB.
+
+const CACHE_NAME = 'voicepal-shell-v1';
+const SHELL_URL = '/';
+const PRECACHE_URLS = [SHELL_URL, '/manifest.webmanifest', '/icons/icon-256.png', '/icons/icon-512.png'];
+
+// The built index.html names the entry script and stylesheet
+const findShellAssets = (html) =>
+  [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll(PRECACHE_URLS);
+    const shell = await cache.match(SHELL_URL);
+    if (shell) await cache.addAll(findShellAssets(await shell.text()));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('voicepal-') && name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Files the page loaded before this worker took control (lazy chunks, images)
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls' || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(caches.open(CACHE_NAME).then(cache =>
+    Promise.all(event.data.urls.map(url => cache.add(url).catch(() => {})))
+  ));
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(SHELL_URL, response.clone());
+    return response;
+  } catch (error) {
+    // Every route is the same single-page app
+    const cached = await cache.match(SHELL_URL);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});
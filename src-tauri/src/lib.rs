@@ -2,6 +2,8 @@ use serde::{Deserialize, Serialize};
 use std::sync::Mutex;
 use tauri::{AppHandle, Emitter};
 
+mod storage;
+
 #[derive(Debug, Serialize, Deserialize, Clone)]
 struct TranscriptionResult {
     text: String,
@@ -13,6 +15,17 @@ struct TranscriptionError {
     message: String,
 }
 
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct HotkeyBinding {
+    action: String,
+    accelerator: String,
+}
+
+#[derive(Debug, Serialize, Deserialize, Clone)]
+struct HotkeyEvent {
+    action: String,
+}
+
 
 
 // Global state to track if transcription is active
@@ -266,16 +279,75 @@ async fn start_macos_speech_recognition(app_handle: AppHandle, language: String)
     Ok(())
 }
 
+// Replaces the global shortcuts with the given bindings and returns the actions that could not be registered
+#[tauri::command]
+#[cfg(desktop)]
+fn register_global_hotkeys(app_handle: AppHandle, bindings: Vec<HotkeyBinding>) -> Result<Vec<String>, String> {
+    use tauri_plugin_global_shortcut::{GlobalShortcutExt, Shortcut, ShortcutState};
+
+    let shortcuts = app_handle.global_shortcut();
+    shortcuts.unregister_all().map_err(|e| format!("Failed to clear global shortcuts: {}", e))?;
+
+    let mut failed = Vec::new();
+    for binding in bindings {
+        let shortcut = match binding.accelerator.parse::<Shortcut>() {
+            Ok(shortcut) => shortcut,
+            Err(e) => {
+                println!("HOTKEY DEBUG: Invalid accelerator {}: {}", binding.accelerator, e);
+                failed.push(binding.action);
+                continue;
+            }
+        };
+
+        let action = binding.action.clone();
+        let registered = shortcuts.on_shortcut(shortcut, move |app, _shortcut, event| {
+            if event.state() == ShortcutState::Pressed {
+                let _ = app.emit("global-hotkey", HotkeyEvent { action: action.clone() });
+            }
+        });
+        if let Err(e) = registered {
+            // Usually taken by another application
+            println!("HOTKEY DEBUG: Could not register {}: {}", binding.accelerator, e);
+            failed.push(binding.action);
+        }
+    }
+
+    Ok(failed)
+}
+
+#[tauri::command]
+#[cfg(not(desktop))]
+fn register_global_hotkeys(bindings: Vec<HotkeyBinding>) -> Result<Vec<String>, String> {
+    Ok(bindings.into_iter().map(|binding| binding.action).collect())
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
-    tauri::Builder::default()
-        .plugin(tauri_plugin_opener::init())
+    let builder = tauri::Builder::default().plugin(tauri_plugin_opener::init());
+
+    #[cfg(desktop)]
+    let builder = builder.plugin(tauri_plugin_global_shortcut::Builder::new().build());
+
+    builder
         .invoke_handler(tauri::generate_handler![
             greet,
             start_transcription,
             stop_transcription,
             speak,
-            stop_speech
+            stop_speech,
+            register_global_hotkeys,
+            storage::storage_load_history,
+            storage::storage_put_history_items,
+            storage::storage_delete_history_items,
+            storage::storage_clear_history,
+            storage::storage_write_audio,
+            storage::storage_read_audio,
+            storage::storage_delete_audio,
+            storage::storage_clear_audio,
+            storage::storage_load_settings,
+            storage::storage_write_settings,
+            storage::get_provider_keys,
+            storage::set_provider_key
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
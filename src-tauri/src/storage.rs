@@ -0,0 +1,229 @@
+// Persistent storage for the desktop app: history, settings, audio and provider
+// keys live as files in the app data directory instead of the WebView profile.
+//
+//   history.json        the history items, stored as the frontend sends them
+//   settings.json       string settings by key, what the web build keeps in localStorage
+//   provider-keys.json  DeepL and ElevenLabs keys, readable only by the user
+//   audio/<id>.mp3      the audio generated for a history item
+
+use serde::de::DeserializeOwned;
+use serde::{Deserialize, Serialize};
+use serde_json::Value;
+use std::collections::HashMap;
+use std::fs;
+use std::io::ErrorKind;
+use std::path::{Path, PathBuf};
+use std::sync::{Mutex, MutexGuard};
+use tauri::ipc::{InvokeBody, Request, Response};
+use tauri::{AppHandle, Manager};
+
+const HISTORY_FILE: &str = "history.json";
+const SETTINGS_FILE: &str = "settings.json";
+const PROVIDER_KEYS_FILE: &str = "provider-keys.json";
+const AUDIO_DIR: &str = "audio";
+
+// The JSON files are read, changed and written back whole, one command at a time
+static FILE_LOCK: Mutex<()> = Mutex::new(());
+
+#[derive(Debug, Serialize, Deserialize, Clone, Default)]
+pub struct ProviderKeys {
+    deepl: Option<String>,
+    elevenlabs: Option<String>,
+}
+
+fn lock_files() -> Result<MutexGuard<'static, ()>, String> {
+    FILE_LOCK.lock().map_err(|e| format!("Failed to acquire storage lock: {}", e))
+}
+
+fn data_path(app_handle: &AppHandle, name: &str) -> Result<PathBuf, String> {
+    let dir = app_handle
+        .path()
+        .app_data_dir()
+        .map_err(|e| format!("Failed to resolve the app data directory: {}", e))?;
+    fs::create_dir_all(&dir).map_err(|e| format!("Failed to create {}: {}", dir.display(), e))?;
+    Ok(dir.join(name))
+}
+
+// Ids come from the frontend and end up in file names
+fn audio_path(app_handle: &AppHandle, id: &str) -> Result<PathBuf, String> {
+    let valid = !id.is_empty() && id.chars().all(|c| c.is_ascii_alphanumeric() || c == '_' || c == '-');
+    if !valid {
+        return Err(format!("Invalid history item id: {}", id));
+    }
+
+    let dir = data_path(app_handle, AUDIO_DIR)?;
+    fs::create_dir_all(&dir).map_err(|e| format!("Failed to create {}: {}", dir.display(), e))?;
+    Ok(dir.join(format!("{}.mp3", id)))
+}
+
+// A file that does not exist yet reads as the default value
+fn read_json<T: DeserializeOwned + Default>(path: &Path) -> Result<T, String> {
+    match fs::read_to_string(path) {
+        Ok(contents) => serde_json::from_str(&contents).map_err(|e| format!("Failed to parse {}: {}", path.display(), e)),
+        Err(e) if e.kind() == ErrorKind::NotFound => Ok(T::default()),
+        Err(e) => Err(format!("Failed to read {}: {}", path.display(), e)),
+    }
+}
+
+// Writes next to the target and renames it into place, so a crash never leaves half a file
+fn write_file(path: &Path, contents: &[u8], private: bool) -> Result<(), String> {
+    let temp = path.with_extension("tmp");
+    fs::write(&temp, contents).map_err(|e| format!("Failed to write {}: {}", temp.display(), e))?;
+
+    #[cfg(unix)]
+    if private {
+        use std::os::unix::fs::PermissionsExt;
+        fs::set_permissions(&temp, fs::Permissions::from_mode(0o600))
+            .map_err(|e| format!("Failed to restrict {}: {}", temp.display(), e))?;
+    }
+    #[cfg(not(unix))]
+    let _ = private;
+
+    fs::rename(&temp, path).map_err(|e| format!("Failed to replace {}: {}", path.display(), e))
+}
+
+fn write_json<T: Serialize>(path: &Path, value: &T, private: bool) -> Result<(), String> {
+    let contents = serde_json::to_vec(value).map_err(|e| format!("Failed to serialize {}: {}", path.display(), e))?;
+    write_file(path, &contents, private)
+}
+
+fn remove_file(path: &Path) -> Result<(), String> {
+    match fs::remove_file(path) {
+        Err(e) if e.kind() != ErrorKind::NotFound => Err(format!("Failed to delete {}: {}", path.display(), e)),
+        _ => Ok(()),
+    }
+}
+
+fn item_id(item: &Value) -> Option<&str> {
+    item.get("id").and_then(Value::as_str)
+}
+
+#[tauri::command]
+pub fn storage_load_history(app_handle: AppHandle) -> Result<Vec<Value>, String> {
+    let _guard = lock_files()?;
+    read_json(&data_path(&app_handle, HISTORY_FILE)?)
+}
+
+// Adds the items, replacing saved ones with the same id
+#[tauri::command]
+pub fn storage_put_history_items(app_handle: AppHandle, items: Vec<Value>) -> Result<(), String> {
+    let _guard = lock_files()?;
+    let path = data_path(&app_handle, HISTORY_FILE)?;
+    let mut history: Vec<Value> = read_json(&path)?;
+
+    for item in items {
+        let id = item_id(&item).ok_or("History items need an id")?.to_string();
+        match history.iter_mut().find(|saved| item_id(saved) == Some(id.as_str())) {
+            Some(saved) => *saved = item,
+            None => history.push(item),
+        }
+    }
+
+    write_json(&path, &history, false)
+}
+
+#[tauri::command]
+pub fn storage_delete_history_items(app_handle: AppHandle, ids: Vec<String>) -> Result<(), String> {
+    let _guard = lock_files()?;
+    let path = data_path(&app_handle, HISTORY_FILE)?;
+    let mut history: Vec<Value> = read_json(&path)?;
+    history.retain(|item| !item_id(item).is_some_and(|id| ids.iter().any(|deleted| deleted == id)));
+    write_json(&path, &history, false)
+}
+
+#[tauri::command]
+pub fn storage_clear_history(app_handle: AppHandle) -> Result<(), String> {
+    let _guard = lock_files()?;
+    write_json(&data_path(&app_handle, HISTORY_FILE)?, &Vec::<Value>::new(), false)
+}
+
+// The audio comes as the raw request body with the item id in a header,
+// so large files do not go through JSON
+#[tauri::command]
+pub async fn storage_write_audio(app_handle: AppHandle, request: Request<'_>) -> Result<(), String> {
+    let InvokeBody::Raw(data) = request.body() else {
+        return Err("Audio must be sent as raw bytes".to_string());
+    };
+    let id = request
+        .headers()
+        .get("x-history-id")
+        .and_then(|value| value.to_str().ok())
+        .ok_or("Missing the x-history-id header")?;
+
+    write_file(&audio_path(&app_handle, id)?, data, false)
+}
+
+// An empty response means no audio is saved for the item
+#[tauri::command]
+pub async fn storage_read_audio(app_handle: AppHandle, id: String) -> Result<Response, String> {
+    let path = audio_path(&app_handle, &id)?;
+    match fs::read(&path) {
+        Ok(data) => Ok(Response::new(data)),
+        Err(e) if e.kind() == ErrorKind::NotFound => Ok(Response::new(Vec::new())),
+        Err(e) => Err(format!("Failed to read {}: {}", path.display(), e)),
+    }
+}
+
+#[tauri::command]
+pub async fn storage_delete_audio(app_handle: AppHandle, ids: Vec<String>) -> Result<(), String> {
+    for id in ids {
+        remove_file(&audio_path(&app_handle, &id)?)?;
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub async fn storage_clear_audio(app_handle: AppHandle) -> Result<(), String> {
+    let dir = data_path(&app_handle, AUDIO_DIR)?;
+    match fs::remove_dir_all(&dir) {
+        Err(e) if e.kind() != ErrorKind::NotFound => Err(format!("Failed to delete {}: {}", dir.display(), e)),
+        _ => Ok(()),
+    }
+}
+
+#[tauri::command]
+pub fn storage_load_settings(app_handle: AppHandle) -> Result<HashMap<String, String>, String> {
+    let _guard = lock_files()?;
+    read_json(&data_path(&app_handle, SETTINGS_FILE)?)
+}
+
+// Several settings at once, a missing value removes the setting
+#[tauri::command]
+pub fn storage_write_settings(app_handle: AppHandle, settings: HashMap<String, Option<String>>) -> Result<(), String> {
+    let _guard = lock_files()?;
+    let path = data_path(&app_handle, SETTINGS_FILE)?;
+    let mut saved: HashMap<String, String> = read_json(&path)?;
+
+    for (key, value) in settings {
+        match value {
+            Some(value) => saved.insert(key, value),
+            None => saved.remove(&key),
+        };
+    }
+
+    write_json(&path, &saved, false)
+}
+
+#[tauri::command]
+pub fn get_provider_keys(app_handle: AppHandle) -> Result<ProviderKeys, String> {
+    let _guard = lock_files()?;
+    read_json(&data_path(&app_handle, PROVIDER_KEYS_FILE)?)
+}
+
+// An empty key removes the saved one
+#[tauri::command]
+pub fn set_provider_key(app_handle: AppHandle, provider: String, key: Option<String>) -> Result<(), String> {
+    let _guard = lock_files()?;
+    let path = data_path(&app_handle, PROVIDER_KEYS_FILE)?;
+    let mut keys: ProviderKeys = read_json(&path)?;
+
+    let key = key.map(|key| key.trim().to_string()).filter(|key| !key.is_empty());
+    match provider.as_str() {
+        "deepl" => keys.deepl = key,
+        "elevenlabs" => keys.elevenlabs = key,
+        _ => return Err(format!("Unknown provider: {}", provider)),
+    }
+
+    println!("STORAGE DEBUG: Saved the {} key", provider);
+    write_json(&path, &keys, true)
+}
@@ -1,6 +1,7 @@
 import { MainContent } from "@/components/layout/MainContent";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { HistoryItem, useHistory } from "@/hooks/useHistory";
+import { useRequestQueue } from "@/hooks/useRequestQueue";
 import { ThemeProvider } from "@/components/theme-provider";
 import { useState, useRef, useEffect } from "react";
 import { Menu } from "lucide-react";
@@ -15,6 +16,8 @@ function App() {
   
   // Lift history state up to App level
   const historyHook = useHistory();
+  // Requests made offline are sent from here, whichever view is open
+  const requestQueue = useRequestQueue(historyHook);
 
   // Auto-hide logic
   useEffect(() => {
@@ -117,6 +120,7 @@ function App() {
                   onResetSession={handleResetSession}
                   activeHistoryId={activeHistoryId}
                   historyHook={historyHook}
+                  requestQueue={requestQueue}
                 />
               </motion.div>
             )}
@@ -129,6 +133,7 @@ function App() {
             onHistoryLoad={handleHistoryLoad}
             activeHistoryId={activeHistoryId}
             historyHook={historyHook}
+            requestQueue={requestQueue}
           />
         </div>
       </div>
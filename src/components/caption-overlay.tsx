@@ -0,0 +1,77 @@
+import { useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X } from "lucide-react";
+import type { TranscriptSegment } from "@/lib/speech-recognizers";
+
+interface CaptionOverlayProps {
+  open: boolean;
+  onClose: () => void;
+  segments: TranscriptSegment[];
+  interimText: string;
+  isListening: boolean;
+}
+
+// Finished lines kept on screen above the one being spoken
+const VISIBLE_LINES = 2;
+
+// Large live captions pinned to the bottom of the window, for presentations
+export function CaptionOverlay({ open, onClose, segments, interimText, isListening }: CaptionOverlayProps) {
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onClose]);
+
+  const lines = segments.slice(-VISIBLE_LINES);
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-x-0 bottom-8 z-50 flex justify-center px-8 pointer-events-none"
+          data-testid="caption-overlay"
+        >
+          <div className="relative max-w-5xl w-full rounded-2xl bg-black/80 px-10 py-6 text-center shadow-2xl pointer-events-auto">
+            <button
+              onClick={onClose}
+              className="absolute top-3 right-3 p-1 rounded-md text-white/60 hover:text-white transition-colors"
+              title="Close captions (Esc)"
+            >
+              <X className="w-4 h-4" />
+            </button>
+
+            {lines.length === 0 && !interimText ? (
+              <p className="text-2xl text-white/60">
+                {isListening ? "Listening..." : "Start recording to show captions"}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {lines.map((segment, index) => (
+                  <p
+                    key={segments.length - lines.length + index}
+                    className={index === lines.length - 1 && !interimText
+                      ? "text-4xl font-semibold leading-snug text-white"
+                      : "text-2xl leading-snug text-white/60"}
+                  >
+                    {segment.text}
+                  </p>
+                ))}
+                {interimText && (
+                  <p className="text-4xl font-semibold leading-snug text-white">{interimText}</p>
+                )}
+              </div>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState, type ReactNode, type TextareaHTMLAttributes } from "react";
+import { Check, Pencil, Redo2, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { UndoableText } from "@/hooks/useUndoableText";
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo. The browser's own undo
+// doesn't know about text set by React, so the shortcuts go to the hook instead.
+const handleUndoKeys = (event: React.KeyboardEvent, text: UndoableText) => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    event.preventDefault();
+    text.undo();
+  } else if ((key === "z" && event.shiftKey) || (key === "y" && !event.metaKey)) {
+    event.preventDefault();
+    text.redo();
+  }
+};
+
+interface UndoableTextareaProps extends Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, "value" | "onChange"> {
+  text: UndoableText;
+}
+
+export function UndoableTextarea({ text, className, onKeyDown, ...props }: UndoableTextareaProps) {
+  return (
+    <textarea
+      {...props}
+      value={text.value}
+      onChange={(e) => text.edit(e.target.value)}
+      onKeyDown={(e) => {
+        handleUndoKeys(e, text);
+        onKeyDown?.(e);
+      }}
+      className={cn(
+        "w-full bg-background/50 border border-border/50 rounded-md px-3 py-2 resize-y focus:outline-none focus:ring-2 focus:ring-primary/50",
+        className
+      )}
+    />
+  );
+}
+
+export function UndoRedoButtons({ text, testId }: { text: UndoableText; testId: string }) {
+  const buttonClass = "p-1 rounded-md text-muted-foreground hover:bg-accent hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none";
+  return (
+    <span className="inline-flex items-center gap-0.5">
+      <button onClick={text.undo} disabled={!text.canUndo} className={buttonClass} title="Undo" data-testid={`${testId}-undo`}>
+        <Undo2 className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={text.redo} disabled={!text.canRedo} className={buttonClass} title="Redo" data-testid={`${testId}-redo`}>
+        <Redo2 className="w-3.5 h-3.5" />
+      </button>
+    </span>
+  );
+}
+
+interface EditableTextProps {
+  text: UndoableText;
+  label: ReactNode;
+  // Read-only rendering of the text, e.g. with highlights
+  children: ReactNode;
+  // No editing while the text is still being produced
+  disabled?: boolean;
+  testId: string;
+}
+
+// A text pane that switches to a textarea for editing; undo and redo work in both views
+export function EditableText({ text, label, children, disabled = false, testId }: EditableTextProps) {
+  const [editing, setEditing] = useState(false);
+  const isEditing = editing && !disabled;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 text-sm font-medium text-muted-foreground">
+        <div className="flex items-center gap-2">{label}</div>
+        <div className="flex items-center gap-1">
+          <UndoRedoButtons text={text} testId={testId} />
+          <button
+            onClick={() => setEditing(!isEditing)}
+            disabled={disabled}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs hover:bg-accent hover:text-foreground transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            data-testid={`${testId}-edit`}
+          >
+            {isEditing ? <Check className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+            {isEditing ? "Done" : "Edit"}
+          </button>
+        </div>
+      </div>
+      {isEditing ? (
+        <UndoableTextarea
+          text={text}
+          autoFocus
+          rows={Math.min(12, Math.max(3, text.value.split("\n").length + 1))}
+          className="text-lg text-foreground leading-relaxed"
+          data-testid={`${testId}-textarea`}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setEditing(false);
+          }}
+        />
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { diffWords } from "@/lib/text-diff";
+import { useUndoableText } from "@/hooks/useUndoableText";
+import { UndoableTextarea, UndoRedoButtons } from "@/components/editable-text";
+import type { HistoryItem, HistoryRevision } from "@/hooks/useHistory";
+
+type RevisionText = Pick<HistoryRevision, "transcribedText" | "translatedText">;
+
+const formatSavedAt = (date: string) =>
+  new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+interface HistoryItemEditorProps {
+  item: HistoryItem;
+  onSave: (text: RevisionText) => void;
+  onCancel: () => void;
+}
+
+// Inline editor for a saved entry; saving keeps the previous text as a revision
+export function HistoryItemEditor({ item, onSave, onCancel }: HistoryItemEditorProps) {
+  const [transcribedText, setTranscribedText] = useState(item.transcribedText);
+  const [translatedText, setTranslatedText] = useState(item.translatedText);
+  const transcript = useUndoableText(transcribedText, setTranscribedText);
+  const translation = useUndoableText(translatedText, setTranslatedText);
+  const changed = transcribedText !== item.transcribedText || translatedText !== item.translatedText;
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()} data-testid="history-editor">
+      <div className="flex items-center justify-between text-[10px] font-medium text-muted-foreground">
+        Original text
+        <UndoRedoButtons text={transcript} testId="history-transcript" />
+      </div>
+      <UndoableTextarea
+        text={transcript}
+        autoFocus
+        rows={3}
+        className="text-xs text-foreground"
+        data-testid="history-edit-transcript"
+      />
+      <div className="flex items-center justify-between text-[10px] font-medium text-muted-foreground">
+        Translation
+        <UndoRedoButtons text={translation} testId="history-translation" />
+      </div>
+      <UndoableTextarea
+        text={translation}
+        rows={3}
+        className="text-xs text-foreground"
+        data-testid="history-edit-translation"
+      />
+      <div className="flex justify-end gap-2">
+        <Button onClick={onCancel} variant="ghost" size="sm" className="h-7 text-xs">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onSave({ transcribedText: transcribedText.trim(), translatedText: translatedText.trim() })}
+          disabled={!changed || !transcribedText.trim()}
+          size="sm"
+          className="h-7 text-xs"
+          data-testid="history-save-revision"
+        >
+          Save revision
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Removed words struck through in red, added words in green
+function DiffText({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="text-xs leading-relaxed whitespace-pre-wrap break-words" data-testid="revision-diff">
+      {diffWords(before, after).map((part, index) =>
+        part.type === "equal" ? (
+          <span key={index} className="text-muted-foreground">{part.text}</span>
+        ) : part.type === "removed" ? (
+          <del key={index} className="bg-red-200/60 dark:bg-red-500/30 text-foreground">{part.text}</del>
+        ) : (
+          <ins key={index} className="bg-green-200/60 dark:bg-green-500/30 text-foreground no-underline">{part.text}</ins>
+        )
+      )}
+    </p>
+  );
+}
+
+interface HistoryRevisionsProps {
+  item: HistoryItem;
+  // Brings an earlier version back as a new revision
+  onRestore: (text: RevisionText) => void;
+}
+
+// Earlier versions of an entry, each compared with the current text
+export function HistoryRevisions({ item, onRestore }: HistoryRevisionsProps) {
+  const [selected, setSelected] = useState(item.revisions.length - 1);
+  const revision = item.revisions[Math.min(selected, item.revisions.length - 1)];
+  if (!revision) return null;
+
+  return (
+    <div className="space-y-2 border-t border-border/50 pt-2" onClick={(e) => e.stopPropagation()} data-testid="history-revisions">
+      <div className="flex flex-wrap gap-1">
+        {item.revisions.map((entry, index) => (
+          <button
+            key={`${entry.savedAt}-${index}`}
+            onClick={() => setSelected(index)}
+            className={cn(
+              "px-1.5 py-0.5 rounded-full text-[10px] border transition-colors",
+              entry === revision
+                ? "bg-primary/10 border-primary/30 text-primary"
+                : "border-border/50 text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {index === 0 ? "Original" : formatSavedAt(entry.savedAt)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Changes from {revision === item.revisions[0] ? "the original" : `the version of ${formatSavedAt(revision.savedAt)}`} to the current text
+      </p>
+      <DiffText before={revision.transcribedText} after={item.transcribedText} />
+      {(revision.translatedText || item.translatedText) && (
+        <DiffText before={revision.translatedText} after={item.translatedText} />
+      )}
+      <div className="flex justify-end">
+        <Button
+          onClick={() => onRestore(revision)}
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          data-testid="history-restore-revision"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Restore this version
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  HOTKEY_ACTIONS,
+  eventToShortcut,
+  formatShortcut,
+  type HotkeyAction,
+  type HotkeyBindings,
+} from "@/lib/hotkeys";
+
+interface HotkeySettingsProps {
+  bindings: HotkeyBindings;
+  onChange: (action: HotkeyAction, shortcut: string) => void;
+  onReset: () => void;
+  // Actions that also work while the window is in the background
+  globalActions: HotkeyAction[];
+  globalError: string | null;
+  // Shortcuts should not fire while a new one is being typed
+  onRecordingChange: (recording: boolean) => void;
+}
+
+// Click an action, then press the new shortcut (Esc cancels, Backspace clears)
+export function HotkeySettings({ bindings, onChange, onReset, globalActions, globalError, onRecordingChange }: HotkeySettingsProps) {
+  const [recordingAction, setRecordingAction] = useState<HotkeyAction | null>(null);
+
+  useEffect(() => {
+    onRecordingChange(recordingAction !== null);
+  }, [recordingAction, onRecordingChange]);
+
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === "Escape") {
+        setRecordingAction(null);
+        return;
+      }
+      if (event.key === "Backspace" || event.key === "Delete") {
+        onChange(recordingAction, "");
+        setRecordingAction(null);
+        return;
+      }
+
+      const shortcut = eventToShortcut(event);
+      if (!shortcut) return;
+      onChange(recordingAction, shortcut);
+      setRecordingAction(null);
+    };
+
+    // Capture phase, so the key never reaches the push-to-talk and action listeners
+    document.addEventListener("keydown", handleKeyDown, true);
+    return () => document.removeEventListener("keydown", handleKeyDown, true);
+  }, [recordingAction, onChange]);
+
+  return (
+    <div className="space-y-3 border-t border-border/50 pt-4" data-testid="hotkey-settings">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-foreground">Keyboard Shortcuts</p>
+          <p className="text-xs text-muted-foreground">
+            {globalActions.length > 0
+              ? "Shortcuts marked with a globe also work while VoicePal is in the background"
+              : "Click a shortcut and press the new key combination"}
+          </p>
+        </div>
+        <Button onClick={onReset} variant="outline" size="sm">
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+        {HOTKEY_ACTIONS.map(({ id, label }) => (
+          <div key={id} className="flex items-center justify-between gap-3">
+            <span className="text-sm text-muted-foreground flex items-center gap-1.5">
+              {label}
+              {globalActions.includes(id) && (
+                <Globe className="w-3 h-3" aria-label="Global shortcut" />
+              )}
+            </span>
+            <button
+              onClick={() => setRecordingAction(recordingAction === id ? null : id)}
+              className={cn(
+                "min-w-[8rem] px-2 py-1 rounded border text-xs font-mono font-semibold transition-colors",
+                recordingAction === id
+                  ? "border-primary text-primary bg-primary/10"
+                  : "border-border/50 bg-background/50 text-foreground hover:border-primary/50"
+              )}
+              data-testid={`hotkey-${id}`}
+            >
+              {recordingAction === id ? "Press keys..." : formatShortcut(bindings[id])}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {globalError && (
+        <p className="text-xs text-red-600">Global shortcuts are unavailable: {globalError}</p>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,50 @@
 import { cn } from "@/lib/utils";
-import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
-import { useTranslation } from "@/hooks/useTranslation";
-import { useTTS, ELEVENLABS_VOICES } from "@/hooks/useTTS";
-import { useHistory } from "@/hooks/useHistory";
+import { useSpeechRecognition, type SpeechBackendPreference } from "@/hooks/useSpeechRecognition";
+import { useAudioFileTranscription } from "@/hooks/useAudioFileTranscription";
+import { useDocumentTranslation } from "@/hooks/useDocumentTranslation";
+import { DOCUMENT_FORMATS, DOCUMENT_FILE_EXTENSIONS, DOCUMENT_FILE_TYPES, renderDocumentText } from "@/lib/documents";
+import {
+  useInterpreter,
+  getOtherSpeaker,
+  INTERPRETER_SPEAKER_LABELS,
+  type InterpreterSpeakerId,
+} from "@/hooks/useInterpreter";
+import { SPEECH_RECOGNIZER_NAMES, AUDIO_FILE_EXTENSIONS, AUDIO_FILE_TYPES, isTauri } from "@/lib/speech-recognizers";
+import {
+  useTranslation,
+  splitIntoSegments,
+  requestBatchTranslation,
+  type Formality,
+  type GlossaryMatch,
+} from "@/hooks/useTranslation";
+import { useTranslationPreferences } from "@/hooks/useTranslationPreferences";
+import type { DivergentSpan } from "@/lib/translation-quality";
+import { QualityBadge } from "@/components/quality-badge";
+import { useHotkeyBindings, useHotkeys } from "@/hooks/useHotkeys";
+import { formatShortcut } from "@/lib/hotkeys";
+import { HotkeySettings } from "@/components/hotkey-settings";
+import { useUsage } from "@/hooks/useUsage";
+import type { UsageKind, UsageWarning } from "@/lib/usage";
+import { UsagePanel } from "@/components/usage-panel";
+import { ProviderKeySettings } from "@/components/provider-key-settings";
+import { useUndoableText } from "@/hooks/useUndoableText";
+import { EditableText } from "@/components/editable-text";
+import { useTTS, TTS_ENGINE_NAMES, type TTSEnginePreference, type GeneratedAudio } from "@/hooks/useTTS";
+import { useVoices } from "@/hooks/useVoices";
+import {
+  SPEECH_LANGUAGES,
+  TRANSLATION_TARGETS,
+  getLanguageName,
+  getDeepLSourceCode,
+  getDeepLTargetCode,
+  getLanguage,
+  isSameLanguage,
+  checkTranslationPair,
+} from "@/lib/languages";
+import { useHistory, getSpokenText } from "@/hooks/useHistory";
+import type { useRequestQueue } from "@/hooks/useRequestQueue";
+import { SUBTITLE_FORMATS, downloadSubtitles, withTranslatedText, type SubtitleFormat } from "@/lib/subtitles";
+import { CaptionOverlay } from "@/components/caption-overlay";
 import {
   Select,
   SelectContent,
@@ -10,10 +52,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useState, useEffect, forwardRef, useImperativeHandle } from "react";
+import { useState, useEffect, useRef, forwardRef, useImperativeHandle, Fragment, type ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
-import { Mic, MicOff, Play, Pause, Square, Languages, Volume2, Settings, Save, Download } from "lucide-react";
+import { Mic, MicOff, Play, Pause, Square, Languages, Volume2, Settings, Save, Download, FileAudio, FileText, Upload, X, Users, Captions, CloudOff } from "lucide-react";
 import { ThemeToggle } from "@/components/theme-toggle";
 import VoicePalLogo from "@/assets/voicepal-logo.svg";
 
@@ -22,50 +64,448 @@ interface MainContentProps {
   onHistoryLoad?: (item: any) => void;
   activeHistoryId?: string | null;
   historyHook?: ReturnType<typeof useHistory>;
+  // Holds translations and audio asked for while offline
+  requestQueue?: ReturnType<typeof useRequestQueue>;
+}
+
+type AppMode = 'speech-to-text' | 'audio-file' | 'document' | 'interpreter' | 'text-to-speech';
+
+const APP_MODES = [
+  { id: 'speech-to-text', label: 'Speech to Text', icon: Mic },
+  { id: 'audio-file', label: 'Audio File', icon: FileAudio },
+  { id: 'document', label: 'Document', icon: FileText },
+  { id: 'interpreter', label: 'Interpreter', icon: Users },
+  { id: 'text-to-speech', label: 'Text to Speech', icon: Volume2 },
+] as const;
+
+const APP_MODE_DESCRIPTIONS: Record<AppMode, string> = {
+  'speech-to-text': 'Start speaking to see your words transcribed in real-time',
+  'audio-file': 'Upload a recording to transcribe and translate it with timestamps',
+  'document': 'Upload a document to translate it paragraph by paragraph and download it in its own format',
+  'interpreter': 'Take turns speaking, each turn is translated and read aloud for the other person',
+  'text-to-speech': 'Enter text to convert it to speech with natural voices',
+};
+
+const FORMALITY_OPTIONS: { value: Formality; label: string }[] = [
+  { value: 'default', label: 'Default' },
+  { value: 'formal', label: 'Formal (vous, Sie, usted)' },
+  { value: 'informal', label: 'Informal (tu, du, tú)' },
+];
+
+interface HighlightRange {
+  start: number;
+  end: number;
+  title: string;
 }
 
-type AppMode = 'speech-to-text' | 'text-to-speech';
+// Wraps the given ranges of a text in <mark>, overlapping ranges keep the first
+const highlightRanges = (text: string, ranges: HighlightRange[], className: string, testId: string) => {
+  if (ranges.length === 0) return text;
+
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+  [...ranges].sort((a, b) => a.start - b.start).forEach((range, index) => {
+    if (range.start < lastIndex) return;
+    parts.push(text.slice(lastIndex, range.start));
+    parts.push(
+      <mark key={index} className={cn("rounded px-0.5 text-foreground", className)} title={range.title} data-testid={testId}>
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    lastIndex = range.end;
+  });
+  parts.push(text.slice(lastIndex));
+  return parts;
+};
+
+// Marks the parts of a translation that came from the glossary
+const highlightGlossaryMatches = (text: string, matches: GlossaryMatch[]) =>
+  highlightRanges(
+    text,
+    matches
+      .filter(match => text.slice(match.start, match.end) === match.translation)
+      .map(match => ({ start: match.start, end: match.end, title: `Glossary: ${match.term} → ${match.translation}` })),
+    "bg-amber-200/60 dark:bg-amber-500/30",
+    "glossary-match"
+  );
+
+// Marks the words of the original that the back-translation lost or changed
+const highlightDivergentSpans = (text: string, spans: DivergentSpan[]) =>
+  highlightRanges(
+    text,
+    spans
+      .filter(span => text.slice(span.start, span.end) === span.text)
+      .map(span => ({ ...span, title: 'Missing or changed in the back-translation' })),
+    "bg-red-200/60 dark:bg-red-500/30",
+    "divergent-span"
+  );
+
+// Segments shown side by side, longer documents are only counted
+const DOCUMENT_PREVIEW_SEGMENTS = 100;
+
+// 75300 -> "1:15"
+const formatSegmentTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
 
-export const MainContent = forwardRef<any, MainContentProps>(({ className, onHistoryLoad, activeHistoryId, historyHook }, ref) => {
+const VOICE_SETTING_SLIDERS = [
+  { field: 'stability', label: 'Stability' },
+  { field: 'similarity_boost', label: 'Similarity' },
+  { field: 'style', label: 'Style' },
+] as const;
+
+export const MainContent = forwardRef<any, MainContentProps>(({ className, onHistoryLoad, activeHistoryId, historyHook, requestQueue }, ref) => {
   const [transcriptionLanguage, setTranscriptionLanguage] = useState<string>("en-US");
   const [targetLanguage, setTargetLanguage] = useState<string>("ES"); // Default to Spanish for auto-translation
   const [appMode, setAppMode] = useState<AppMode>('speech-to-text');
   const [showSettings, setShowSettings] = useState(false);
+  const [isRecordingHotkey, setIsRecordingHotkey] = useState(false);
+  const { bindings: hotkeys, setBinding: setHotkey, resetBindings: resetHotkeys } = useHotkeyBindings();
   const [textInput, setTextInput] = useState<string>(''); // For text-to-speech mode
+  const [multiTargetLanguages, setMultiTargetLanguages] = useState<string[]>([]);
+  const [voiceCategory, setVoiceCategory] = useState<string>('all');
+  const [showCaptions, setShowCaptions] = useState(false);
+  const [subtitleLanguage, setSubtitleLanguage] = useState<'source' | 'translation'>('source');
+  const [subtitleStatus, setSubtitleStatus] = useState<'idle' | 'translating' | 'error'>('idle');
+  // Request held back because it would go over a quota or budget, sent if the user confirms
+  const [usageWarning, setUsageWarning] = useState<(UsageWarning & { proceed: () => void }) | null>(null);
+  // Shown after a request went into the offline queue
+  const [queuedNotice, setQueuedNotice] = useState<string | null>(null);
   
   // Use shared history hook or fallback to local one
   const localHistoryHook = useHistory();
-  const { addHistoryItem } = historyHook || localHistoryHook;
+  const { addHistoryItem, attachAudio, getAudio, loadHistoryItem } = historyHook || localHistoryHook;
+
+  // Latest ElevenLabs audio, kept so saving to history doesn't need to regenerate it
+  const lastGeneratedAudioRef = useRef<GeneratedAudio | null>(null);
   
   const {
     isListening,
     transcribedText,
+    segments: speechSegments,
+    interimText,
     status,
+    errorMessage: speechErrorMessage,
     startListening,
     stopListening,
     clearTranscription,
+    setTranscribedText,
     isPushToTalkActive,
     enablePushToTalk,
-    disablePushToTalk
-  } = useSpeechRecognition();
+    disablePushToTalk,
+    backend: speechBackend,
+    setBackend: setSpeechBackend,
+    availableBackends: availableSpeechBackends,
+    whisperEndpoint,
+    setWhisperEndpoint
+  } = useSpeechRecognition({ pushToTalkShortcut: hotkeys['push-to-talk'] });
+
+  // Recordings are transcribed by the same Whisper server as the live backend
+  const {
+    file: audioFile,
+    transcript: fileTranscript,
+    segments: fileSegments,
+    duration: fileDuration,
+    status: fileStatus,
+    errorMessage: fileErrorMessage,
+    transcribeFile,
+    clearFile,
+  } = useAudioFileTranscription({ endpoint: whisperEndpoint });
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    document: loadedDocument,
+    translations: documentTranslations,
+    targetLang: documentTargetLang,
+    status: documentStatus,
+    progress: documentProgress,
+    errorMessage: documentErrorMessage,
+    loadDocument,
+    translateDocument,
+    downloadTranslation: downloadDocument,
+    showSavedTranslation: showSavedDocument,
+    clearDocument,
+  } = useDocumentTranslation();
+  const documentInputRef = useRef<HTMLInputElement>(null);
+
+  // Text the current mode works on: typed, dictated or transcribed from a file
+  const sourceText = appMode === 'text-to-speech' ? textInput : appMode === 'audio-file' ? fileTranscript : transcribedText;
+  const translatesSource = appMode === 'speech-to-text' || appMode === 'audio-file';
+  // Timed segments of the current transcript, used for subtitles
+  const sourceSegments = appMode === 'audio-file' ? fileSegments : appMode === 'speech-to-text' ? speechSegments : [];
 
   const {
     translatedText,
+    glossaryMatches,
     translationStatus,
     errorMessage,
+    translationProvider,
     translateText,
+    clearTranslation,
     setTranslatedText,
+    qualityReport,
+    qualityStatus,
+    checkQuality,
+    multiTranslation,
+    multiTranslationStatus,
+    multiTranslationError,
+    translateMany,
+    clearMultiTranslation,
   } = useTranslation();
 
+  const {
+    formality,
+    setFormality,
+    getGlossary,
+    addGlossaryEntry,
+    removeGlossaryEntry,
+    qualityCheck,
+    setQualityCheck,
+  } = useTranslationPreferences();
+  // Hand edits of the transcript and the translation, with undo/redo
+  const transcriptEdits = useUndoableText(transcribedText, setTranscribedText);
+  const translationEdits = useUndoableText(translatedText, setTranslatedText);
+
+  const [glossaryTerm, setGlossaryTerm] = useState('');
+  const [glossaryTranslation, setGlossaryTranslation] = useState('');
+
+  // Voices are filtered by the language they will be speaking
+  const speechLanguage = translatesSource ? targetLanguage : transcriptionLanguage;
+  const {
+    voices,
+    categories: voiceCategories,
+    status: voicesStatus,
+    getVoice,
+    voiceSettings,
+    getVoiceSettings,
+    updateVoiceSettings,
+    resetVoiceSettings,
+  } = useVoices({
+    // Interpreter voices speak both languages, each speaker filters the list
+    language: appMode === 'interpreter' ? undefined : speechLanguage,
+    category: voiceCategory === 'all' ? undefined : voiceCategory,
+  });
+
+  const {
+    report: usageReport,
+    status: usageStatus,
+    errorMessage: usageErrorMessage,
+    refresh: refreshUsage,
+    thresholds: usageThresholds,
+    setWarnAtPercent,
+    setDailyBudget,
+    checkUsage,
+  } = useUsage();
+
+  // Runs the request right away, or holds it until the usage warning is confirmed
+  const guardUsage = (kind: UsageKind, characters: number, send: () => void) => {
+    const warning = checkUsage(kind, characters);
+    if (!warning) {
+      send();
+      return;
+    }
+    setUsageWarning({ ...warning, proceed: send });
+  };
+
+  const handleProceedWithUsage = () => {
+    usageWarning?.proceed();
+    setUsageWarning(null);
+  };
+
+  const handleAudioGenerated = (audio: GeneratedAudio) => {
+    lastGeneratedAudioRef.current = audio;
+    refreshUsage();
+
+    // Audio generated for the open history entry is stored with it
+    const activeItem = activeHistoryId ? loadHistoryItem(activeHistoryId) : null;
+    if (activeItem && getSpokenText(activeItem) === audio.text) {
+      attachAudio(activeItem.id, audio.blob, { voice: audio.voiceKey, text: audio.text });
+    }
+  };
+
   const {
     isPlaying,
     status: ttsStatus,
     selectedVoice,
     setSelectedVoice,
     speak,
+    speakWithVoice,
+    engine: ttsEngine,
+    setEngine: setTtsEngine,
+    activeEngine,
+    availableEngines,
+    previewVoice,
     stopSpeech,
-    downloadAudio
-  } = useTTS();
+    downloadAudio,
+    playAudioBlob
+  } = useTTS({ voiceSettings, language: speechLanguage, onAudioGenerated: handleAudioGenerated });
+
+  const currentVoice = getVoice(selectedVoice);
+  const currentVoiceSettings = getVoiceSettings(selectedVoice);
+
+  // Fall back to the first matching voice when the filter hides the selected one
+  useEffect(() => {
+    if (voicesStatus === 'ready' && voices.length > 0 && !voices.some(voice => voice.key === selectedVoice)) {
+      setSelectedVoice(voices[0].key);
+    }
+  }, [voices, voicesStatus, selectedVoice, setSelectedVoice]);
+
+  // Interpreter mode: the mic is opened for one speaker at a time
+  const {
+    speakers: interpreterSpeakers,
+    updateSpeaker: updateInterpreterSpeaker,
+    turns: interpreterTurns,
+    addTurn: addInterpreterTurn,
+    loadConversation,
+    clearConversation,
+  } = useInterpreter();
+  const [activeSpeaker, setActiveSpeaker] = useState<InterpreterSpeakerId | null>(null);
+  const [handsFree, setHandsFree] = useState(false);
+  // Speaker whose mic opens once the current translation has been read out (hands-free)
+  const handOffRef = useRef<InterpreterSpeakerId | null>(null);
+  const interpreterPlaybackRef = useRef(false);
+
+  const startInterpreterTurn = (speakerId: InterpreterSpeakerId) => {
+    if (isListening) return;
+    clearTranscription();
+    setActiveSpeaker(speakerId);
+    startListening(interpreterSpeakers[speakerId].language);
+  };
+
+  const toggleInterpreterTurn = (speakerId: InterpreterSpeakerId) => {
+    if (isListening) {
+      stopListening();
+    } else {
+      handOffRef.current = null;
+      startInterpreterTurn(speakerId);
+    }
+  };
+
+  const speakInterpreterTurn = (speakerId: InterpreterSpeakerId, translatedText: string) =>
+    speakWithVoice(
+      translatedText,
+      interpreterSpeakers[speakerId].voice,
+      interpreterSpeakers[getOtherSpeaker(speakerId)].language
+    );
+
+  // When a speaker's mic closes, translate the turn and read it to the other person
+  useEffect(() => {
+    if (appMode !== 'interpreter' || isListening || !activeSpeaker) return;
+
+    const speakerId = activeSpeaker;
+    const text = transcribedText.trim();
+    setActiveSpeaker(null);
+    clearTranscription();
+    if (!text) return;
+
+    addInterpreterTurn(speakerId, text).then(turn => {
+      if (turn?.status !== 'done') return;
+      handOffRef.current = handsFree ? getOtherSpeaker(speakerId) : null;
+      interpreterPlaybackRef.current = false;
+      speakInterpreterTurn(speakerId, turn.translatedText);
+    });
+  }, [appMode, isListening, activeSpeaker]);
+
+  // Hands-free: once the translation has been read out, listen to the other person
+  useEffect(() => {
+    if (isPlaying) {
+      interpreterPlaybackRef.current = true;
+      return;
+    }
+    const nextSpeaker = handOffRef.current;
+    if (appMode === 'interpreter' && interpreterPlaybackRef.current && nextSpeaker) {
+      handOffRef.current = null;
+      interpreterPlaybackRef.current = false;
+      startInterpreterTurn(nextSpeaker);
+    }
+  }, [isPlaying]);
+
+  // Voices that can speak the listener's language
+  const getInterpreterVoices = (speakerId: InterpreterSpeakerId) => {
+    const listenerLanguage = getLanguage(interpreterSpeakers[getOtherSpeaker(speakerId)].language)?.id;
+    return voices.filter(voice => !listenerLanguage || voice.languages.includes(listenerLanguage));
+  };
+
+  const interpreterPairCheck = checkTranslationPair(
+    interpreterSpeakers.a.language,
+    getDeepLTargetCode(interpreterSpeakers.b.language) ?? interpreterSpeakers.b.language
+  );
+  const reversePairCheck = checkTranslationPair(
+    interpreterSpeakers.b.language,
+    getDeepLTargetCode(interpreterSpeakers.a.language) ?? interpreterSpeakers.a.language
+  );
+  const interpreterPairWarning = isSameLanguage(interpreterSpeakers.a.language, interpreterSpeakers.b.language)
+    ? null
+    : [interpreterPairCheck, reversePairCheck].find(check => !check.supported);
+
+  // The whole conversation becomes one history entry
+  const handleSaveConversation = () => {
+    const completedTurns = interpreterTurns.filter(turn => turn.status === 'done');
+    if (completedTurns.length === 0) return;
+
+    const thread = (field: 'text' | 'translatedText') =>
+      completedTurns.map(turn => `${INTERPRETER_SPEAKER_LABELS[turn.speaker]}: ${turn[field]}`).join('\n');
+
+    addHistoryItem({
+      transcribedText: thread('text'),
+      translatedText: thread('translatedText'),
+      sourceLang: interpreterSpeakers.a.language,
+      targetLang: getDeepLTargetCode(interpreterSpeakers.b.language) ?? interpreterSpeakers.b.language,
+      ttsVoice: interpreterSpeakers.a.voice,
+      tags: ['conversation'],
+      turns: completedTurns.map(({ speaker, text, translatedText, sourceLang, targetLang, createdAt }) => ({
+        speaker, text, translatedText, sourceLang, targetLang, createdAt,
+      })),
+    });
+  };
+
+  // Pairs the translation providers can't handle are flagged before any request
+  const translationPair = checkTranslationPair(transcriptionLanguage, targetLanguage);
+  const sameLanguage = isSameLanguage(transcriptionLanguage, targetLanguage);
+  const glossary = getGlossary(transcriptionLanguage, targetLanguage);
+  const translationOptions = { formality, glossary };
+
+  const isOffline = requestQueue ? !requestQueue.isOnline : false;
+
+  // Offline, translations wait in the queue and are saved to the history once sent
+  const translateOrQueue = (text: string, sourceLanguage: string | undefined) => {
+    if (!requestQueue || requestQueue.isOnline) {
+      translateText(text, targetLanguage, sourceLanguage, translationOptions);
+      return;
+    }
+    requestQueue.enqueue({
+      kind: 'translation',
+      text,
+      targetLang: targetLanguage,
+      sourceLang: sourceLanguage,
+      options: translationOptions,
+      entry: { transcribedText: text.trim(), translatedText: '', sourceLang: transcriptionLanguage, targetLang: targetLanguage, ttsVoice: selectedVoice },
+    });
+    setQueuedNotice("You're offline. The translation will be sent when the connection is back and saved to the history.");
+  };
+
+  // ElevenLabs audio asked for offline; it goes to the open history entry when it is for its text
+  const queueSpeech = (text: string) => {
+    if (!requestQueue) return;
+    const activeItem = activeHistoryId ? loadHistoryItem(activeHistoryId) : null;
+    requestQueue.enqueue({
+      kind: 'speech',
+      text: text.trim(),
+      voice: selectedVoice,
+      language: speechLanguage,
+      voiceSettings: voiceSettings[selectedVoice],
+      historyId: activeItem && getSpokenText(activeItem) === text.trim() ? activeItem.id : null,
+      entry: { transcribedText: sourceText.trim() || text.trim(), translatedText: translatedText.trim(), sourceLang: transcriptionLanguage, targetLang: targetLanguage, ttsVoice: selectedVoice },
+    });
+    setQueuedNotice("You're offline. The audio will be generated when the connection is back and saved to the history.");
+  };
+
+  const handleAddGlossaryEntry = () => {
+    addGlossaryEntry(transcriptionLanguage, targetLanguage, { term: glossaryTerm, translation: glossaryTranslation });
+    setGlossaryTerm('');
+    setGlossaryTranslation('');
+  };
 
   // Automatic Translation: Trigger translation when transcription is finalized
   useEffect(() => {
@@ -78,13 +518,37 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
       
       const sourceLanguage = getDeepLSourceCode(transcriptionLanguage);
       
-      // Only auto-translate if source and target languages are different
-      if (sourceLanguage !== targetLanguage) {
+      // Only auto-translate supported pairs of different languages
+      if (sourceLanguage && !sameLanguage && translationPair.supported) {
         console.log('AUTO-TRANSLATE: Triggering automatic translation from', sourceLanguage, 'to', targetLanguage);
-        translateText(transcribedText, targetLanguage, sourceLanguage);
+        guardUsage('translation', transcribedText.length, () =>
+          translateOrQueue(transcribedText, sourceLanguage)
+        );
       }
     }
-  }, [transcribedText, isListening, appMode, transcriptionLanguage, targetLanguage, translationStatus, translateText]);
+  }, [transcribedText, isListening, appMode, transcriptionLanguage, targetLanguage, translationStatus, translateText, sameLanguage, translationPair.supported]);
+
+  // Keep the usage figures close to what the providers have counted
+  useEffect(() => {
+    if (translationStatus === 'success' || multiTranslationStatus === 'success') {
+      refreshUsage();
+    }
+  }, [translationStatus, multiTranslationStatus, refreshUsage]);
+
+  useEffect(() => {
+    if (showSettings) refreshUsage();
+  }, [showSettings, refreshUsage]);
+
+  const handleCheckQuality = () => {
+    checkQuality(sourceText, translatedText, transcriptionLanguage, targetLanguage);
+  };
+
+  // Quality check: back-translate every new translation when enabled
+  useEffect(() => {
+    if (qualityCheck && translationStatus === 'success' && translatedText.trim() && !sameLanguage) {
+      handleCheckQuality();
+    }
+  }, [qualityCheck, translationStatus, translatedText]);
 
   const toggleTranscription = () => {
     if (isListening) {
@@ -94,59 +558,208 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
     }
   };
 
-  // Helper function to convert speech recognition language codes to DeepL codes
-  const getDeepLSourceCode = (speechLangCode: string) => {
-    switch (speechLangCode) {
-      case 'en-US': return 'EN';
-      case 'es-ES': return 'ES';
-      case 'fr-FR': return 'FR';
-      default: return 'EN';
+  const handleTranslate = () => {
+    if (appMode === 'document') {
+      handleTranslateDocument();
+      return;
     }
-  };
 
-  const handleTranslate = () => {
-    const textToTranslate = appMode === 'text-to-speech' ? textInput : transcribedText;
+    const textToTranslate = sourceText;
     if (textToTranslate && textToTranslate.trim()) {
-      const sourceLanguage = getDeepLSourceCode(transcriptionLanguage);
-      
       // Check if source and target are the same
-      if (sourceLanguage === targetLanguage) {
+      if (sameLanguage) {
         // Copy text to translated text without API call
         setTranslatedText(textToTranslate);
         return;
       }
+
+      if (!translationPair.supported) return;
       
-      translateText(textToTranslate, targetLanguage, sourceLanguage);
+      guardUsage('translation', textToTranslate.length, () =>
+        translateOrQueue(textToTranslate, getDeepLSourceCode(transcriptionLanguage) ?? undefined)
+      );
+    }
+  };
+
+  const handleAudioFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    const transcription = await transcribeFile(file, transcriptionLanguage);
+    if (!transcription) return;
+
+    // Translate the whole recording as soon as it is transcribed
+    const sourceLanguage = getDeepLSourceCode(transcriptionLanguage);
+    if (sameLanguage) {
+      setTranslatedText(transcription.text);
+    } else if (sourceLanguage && translationPair.supported) {
+      guardUsage('translation', transcription.text.length, () =>
+        translateOrQueue(transcription.text, sourceLanguage)
+      );
+    }
+  };
+
+  const clearAudioFile = () => {
+    clearFile();
+    clearTranslation();
+    if (audioFileInputRef.current) {
+      audioFileInputRef.current.value = '';
+    }
+  };
+
+  const handleDocumentSelected = (file: File | undefined) => {
+    if (!file) return;
+    loadDocument(file);
+  };
+
+  // The whole document goes through the batch route and is saved to the history once translated
+  const handleTranslateDocument = () => {
+    const sourceLanguage = getDeepLSourceCode(transcriptionLanguage);
+    if (!loadedDocument || !sourceLanguage || sameLanguage || !translationPair.supported) return;
+
+    const characters = loadedDocument.segments.reduce((total, segment) => total + segment.length, 0);
+    guardUsage('translation', characters, async () => {
+      const result = await translateDocument(targetLanguage, sourceLanguage, translationOptions);
+      if (!result) return;
+
+      refreshUsage();
+      addHistoryItem({
+        transcribedText: renderDocumentText(result.document, []),
+        translatedText: renderDocumentText(result.document, result.translations),
+        targetLang: result.targetLang,
+        sourceLang: transcriptionLanguage,
+        ttsVoice: selectedVoice,
+        tags: ['document'],
+        document: {
+          fileName: result.document.name,
+          format: result.document.format,
+          segmentCount: result.document.segments.length,
+        },
+      });
+    });
+  };
+
+  const clearDocumentFile = () => {
+    clearDocument();
+    if (documentInputRef.current) {
+      documentInputRef.current.value = '';
+    }
+  };
+
+  // Subtitles keep the segment timing; translated ones translate every segment separately
+  const handleExportSubtitles = async (format: SubtitleFormat) => {
+    if (sourceSegments.length === 0) return;
+
+    if (subtitleLanguage === 'source') {
+      downloadSubtitles(sourceSegments, format, transcriptionLanguage.toLowerCase());
+      return;
+    }
+
+    const sourceLanguage = getDeepLSourceCode(transcriptionLanguage);
+    if (!sameLanguage && (!sourceLanguage || !translationPair.supported)) return;
+
+    // Segments without text have no cue, and the batch route refuses empty segments
+    const segments = sourceSegments.filter(segment => segment.text.trim());
+    if (segments.length === 0) return;
+
+    const exportTranslated = async () => {
+      setSubtitleStatus('translating');
+      try {
+        const translations = sameLanguage
+          ? segments.map(segment => segment.text)
+          : (await requestBatchTranslation(segments.map(segment => segment.text), [targetLanguage], sourceLanguage!, translationOptions))
+              .matrix.map(row => row[0]);
+        downloadSubtitles(withTranslatedText(segments, translations), format, targetLanguage.toLowerCase());
+        setSubtitleStatus('idle');
+      } catch (error) {
+        console.error('Subtitle translation failed:', error);
+        setSubtitleStatus('error');
+      }
+    };
+
+    // Copying same-language subtitles sends nothing to the providers
+    const characters = sameLanguage ? 0 : segments.reduce((total, segment) => total + segment.text.length, 0);
+    guardUsage('translation', characters, exportTranslated);
+  };
+
+  const toggleMultiTargetLanguage = (code: string) => {
+    setMultiTargetLanguages(prev =>
+      prev.includes(code) ? prev.filter(lang => lang !== code) : [...prev, code]
+    );
+  };
+
+  // Only offered in the modes that translate a transcript
+  const handleTranslateMany = () => {
+    const textToTranslate = appMode === 'audio-file' ? fileTranscript : transcribedText;
+    const segments = splitIntoSegments(textToTranslate || '');
+    const sourceLanguage = getDeepLSourceCode(transcriptionLanguage);
+    const targets = multiTargetLanguages.filter(lang =>
+      !isSameLanguage(lang, transcriptionLanguage) && checkTranslationPair(transcriptionLanguage, lang).supported
+    );
+
+    if (sourceLanguage && segments.length > 0 && targets.length > 0) {
+      // Every target is billed for the whole text
+      const characters = segments.reduce((total, segment) => total + segment.length, 0) * targets.length;
+      // Glossaries belong to a single pair, only the tone applies to every target
+      guardUsage('translation', characters, () => translateMany(segments, targets, sourceLanguage, { formality }));
     }
   };
 
+  // Replay the audio stored with the open history entry instead of regenerating it
+  const playStoredAudio = async (text: string) => {
+    const activeItem = activeHistoryId ? loadHistoryItem(activeHistoryId) : null;
+    if (!activeItem?.audio || activeItem.audio.text !== text.trim() || activeItem.audio.voice !== selectedVoice) {
+      return false;
+    }
+
+    const blob = await getAudio(activeItem.id).catch(() => null);
+    if (!blob) return false;
+
+    await playAudioBlob(blob);
+    return true;
+  };
+
   const handlePlayText = async () => {
     if (isPlaying) {
       await stopSpeech();
     } else {
-      const textToPlay = appMode === 'text-to-speech' ? textInput : transcribedText;
-      if (translatedText.trim()) {
-        // Play translated text with target language
-        await speak(translatedText);
-      } else if (textToPlay && textToPlay.trim()) {
-        // Play text with source language
-        await speak(textToPlay);
+      const textToPlay = sourceText;
+      const spokenText = translatedText.trim() ? translatedText : textToPlay;
+      if (spokenText && await playStoredAudio(spokenText)) {
+        return;
+      }
+
+      if (!spokenText || !spokenText.trim()) return;
+
+      // The translation is read when there is one, otherwise the source text
+      if (ttsEngine === 'browser') {
+        // Device voices cost nothing
+        await speak(spokenText);
+      } else if (isOffline) {
+        guardUsage('speech', spokenText.trim().length, () => queueSpeech(spokenText));
+        // Auto still reads it now, with the device voice
+        if (ttsEngine === 'auto') await speak(spokenText);
+      } else {
+        guardUsage('speech', spokenText.trim().length, () => speak(spokenText));
       }
     }
   };
 
-  const handleDownloadAudio = async () => {
-    try {
-      const textToDownload = appMode === 'text-to-speech' ? textInput : transcribedText;
-      if (translatedText.trim()) {
-        await downloadAudio(translatedText);
-      } else if (textToDownload && textToDownload.trim()) {
+  const handleDownloadAudio = () => {
+    const textToDownload = translatedText.trim() ? translatedText : sourceText;
+    if (!textToDownload || !textToDownload.trim()) return;
+
+    // Downloads are always generated with ElevenLabs
+    if (isOffline) {
+      guardUsage('speech', textToDownload.trim().length, () => queueSpeech(textToDownload));
+      return;
+    }
+    guardUsage('speech', textToDownload.trim().length, async () => {
+      try {
         await downloadAudio(textToDownload);
+      } catch (error) {
+        console.error('Download failed:', error);
+        // You could add a toast notification here
       }
-    } catch (error) {
-      console.error('Download failed:', error);
-      // You could add a toast notification here
-    }
+    });
   };
   
   const handleSaveToHistory = () => {
@@ -154,7 +767,7 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
     console.log('SAVE DEBUG: appMode:', appMode);
     console.log('SAVE DEBUG: transcribedText (raw):', transcribedText);
     console.log('SAVE DEBUG: textInput:', textInput);
-    const textToSave = appMode === 'text-to-speech' ? textInput : transcribedText;
+    const textToSave = sourceText;
     console.log('SAVE DEBUG: textToSave (final):', textToSave);
     console.log('SAVE DEBUG: textToSave.trim():', textToSave?.trim());
     console.log('SAVE DEBUG: Boolean check (!textToSave || !textToSave.trim()):', !textToSave || !textToSave.trim());
@@ -168,10 +781,18 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
           targetLang: targetLanguage,
           sourceLang: transcriptionLanguage,
           ttsVoice: selectedVoice,
+          segments: sourceSegments,
+          qualityScore: qualityReport?.score ?? null,
         };
         console.log('DEBUG: Attempting to save this object:', historyItemObject);
         const savedItem = addHistoryItem(historyItemObject);
         console.log('Item saved successfully:', savedItem);
+
+        // Keep the audio that was already generated for this text
+        const generated = lastGeneratedAudioRef.current;
+        if (generated && generated.text === getSpokenText(savedItem)) {
+          attachAudio(savedItem.id, generated.blob, { voice: generated.voiceKey, text: generated.text });
+        }
       } catch (error) {
         console.error('Error saving to history:', error);
       }
@@ -180,10 +801,30 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
     }
   };
   
+  const { globalActions: globalHotkeys, globalError: globalHotkeyError } = useHotkeys(hotkeys, {
+    record: () => {
+      if (appMode === 'interpreter') return;
+      if (appMode !== 'speech-to-text') setAppMode('speech-to-text');
+      toggleTranscription();
+    },
+    stop: () => {
+      if (isListening) stopListening();
+      if (isPlaying) stopSpeech();
+    },
+    translate: handleTranslate,
+    speak: handlePlayText,
+    save: appMode === 'interpreter' ? handleSaveConversation : handleSaveToHistory,
+    'switch-mode': () => {
+      const index = APP_MODES.findIndex(mode => mode.id === appMode);
+      setAppMode(APP_MODES[(index + 1) % APP_MODES.length].id);
+    },
+  }, !isRecordingHotkey);
+
   // Función para resetear la sesión activa
   const resetActiveSession = () => {
     clearTranscription();
-    setTargetLanguage('EN');
+    clearMultiTranslation();
+    setTargetLanguage('EN-US');
     setTranscriptionLanguage('en-US');
     setSelectedVoice('deep-male-narrator');
     if (onHistoryLoad) {
@@ -194,12 +835,34 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
   // Exponer funciones al componente padre
   useImperativeHandle(ref, () => ({
     loadHistoryItem: (item: any) => {
+      // Las conversaciones del intérprete se abren en su propio modo
+      if (item.turns?.length) {
+        loadConversation(item.turns);
+        setAppMode('interpreter');
+        return;
+      }
+
+      // Los documentos se abren en su modo, con la traducción guardada como texto
+      if (item.document) {
+        setTranscriptionLanguage(item.sourceLang || 'en-US');
+        setTargetLanguage(item.targetLang || 'EN-US');
+        showSavedDocument({
+          fileName: item.document.fileName,
+          format: item.document.format,
+          sourceText: item.transcribedText,
+          translatedText: item.translatedText,
+          targetLang: item.targetLang,
+        });
+        setAppMode('document');
+        return;
+      }
+
       // Cargar datos del item del historial
       if (item.transcribedText) {
         // Establecer las configuraciones del item
         setSelectedVoice(item.ttsVoice || 'normal');
         setTranscriptionLanguage(item.sourceLang || 'en-US');
-        setTargetLanguage(item.targetLang || 'EN');
+        setTargetLanguage(item.targetLang || 'EN-US');
         
         // Si hay traducción, también la establecemos
         if (item.translatedText) {
@@ -220,15 +883,6 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
     // Este efecto se manejará desde el componente padre (App.tsx)
   }, [activeHistoryId]);
 
-  const getLanguageDisplayName = (langCode: string) => {
-    switch (langCode) {
-      case 'en-US': return 'English';
-      case 'es-ES': return 'Spanish';
-      case 'fr-FR': return 'French';
-      default: return 'English';
-    }
-  };
-
   return (
     <div className={cn(
       "flex-1 flex flex-col h-full bg-background",
@@ -261,10 +915,7 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                   animate={{ opacity: 1 }}
                   transition={{ duration: 0.5, delay: 0.2 }}
                 >
-                  {appMode === 'speech-to-text' 
-                    ? 'Start speaking to see your words transcribed in real-time'
-                    : 'Enter text to convert it to speech with natural voices'
-                  }
+                  {APP_MODE_DESCRIPTIONS[appMode]}
                 </motion.p>
               </div>
             </div>
@@ -281,35 +932,27 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                   className="absolute inset-y-1 bg-primary rounded-full shadow-lg"
                   initial={false}
                   animate={{
-                    x: appMode === 'speech-to-text' ? 0 : '100%',
-                    width: appMode === 'speech-to-text' ? '50%' : '50%'
+                    x: `${APP_MODES.findIndex(mode => mode.id === appMode) * 100}%`,
+                    width: `${100 / APP_MODES.length}%`
                   }}
                   transition={{ type: "spring", stiffness: 300, damping: 30 }}
                 />
-                <button
-                  onClick={() => setAppMode('speech-to-text')}
-                  className={cn(
-                    "relative z-10 flex items-center gap-2 px-6 py-3 text-sm font-medium transition-colors rounded-full",
-                    appMode === 'speech-to-text' 
-                      ? "text-primary-foreground" 
-                      : "text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  <Mic className="w-4 h-4" />
-                  Speech to Text
-                </button>
-                <button
-                  onClick={() => setAppMode('text-to-speech')}
-                  className={cn(
-                    "relative z-10 flex items-center gap-2 px-6 py-3 text-sm font-medium transition-colors rounded-full",
-                    appMode === 'text-to-speech' 
-                      ? "text-primary-foreground" 
-                      : "text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  <Volume2 className="w-4 h-4" />
-                  Text to Speech
-                </button>
+                {APP_MODES.map(({ id, label, icon: Icon }) => (
+                  <button
+                    key={id}
+                    onClick={() => setAppMode(id)}
+                    data-testid={`mode-${id}`}
+                    className={cn(
+                      "relative z-10 flex flex-1 items-center justify-center gap-2 px-6 py-3 text-sm font-medium transition-colors rounded-full",
+                      appMode === id 
+                        ? "text-primary-foreground" 
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    <Icon className="w-4 h-4" />
+                    {label}
+                  </button>
+                ))}
               </div>
             </motion.div>
             
@@ -363,7 +1006,7 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                               animate={{ scale: [1, 1.2, 1] }}
                               transition={{ duration: 1, repeat: Infinity }}
                             />
-                            {isPushToTalkActive ? "Recording (Hold SPACEBAR)" : "Listening..."}
+                            {isPushToTalkActive ? `Recording (Hold ${formatShortcut(hotkeys['push-to-talk'])})` : "Listening..."}
                           </motion.div>
                         )}
                         {status === 'Error' && (
@@ -490,13 +1133,29 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                              />
                              <span className="font-medium">Hold</span>
                              <kbd className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-xs font-mono font-semibold text-gray-700 dark:text-gray-300">
-                               SPACE
+                               {formatShortcut(hotkeys['push-to-talk'])}
                              </kbd>
                              <span>to record</span>
                            </motion.div>
                          )}
                        </AnimatePresence>
                       
+                      {/* Live Captions */}
+                      <motion.button
+                        onClick={() => setShowCaptions(!showCaptions)}
+                        data-testid="captions-toggle"
+                        className={cn(
+                          "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all",
+                          showCaptions
+                            ? "bg-primary/10 text-primary"
+                            : "bg-muted/50 text-muted-foreground hover:text-foreground"
+                        )}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        <Captions className="w-4 h-4" />
+                        Captions
+                      </motion.button>
+                      
                       {/* Play Button */}
                       <motion.button
                         onClick={handlePlayText}
@@ -559,7 +1218,7 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                           <div className="text-red-500 text-lg">⚠️</div>
                           <p className="text-sm text-red-600 font-medium">Error</p>
                           <p className="text-xs text-muted-foreground max-w-xs">
-                            Speech recognition error. Please try again.
+                            {speechErrorMessage || 'Speech recognition error. Please try again.'}
                           </p>
                         </div>
                       </motion.div>
@@ -569,18 +1228,24 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                         animate={{ opacity: 1, y: 0 }}
                         className="h-full space-y-6"
                       >
-                        <div className="space-y-3">
-                          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                            <Languages className="w-4 h-4" />
-                            Original Text
-                          </div>
+                        <EditableText
+                          text={transcriptEdits}
+                          disabled={isListening}
+                          testId="transcript"
+                          label={
+                            <>
+                              <Languages className="w-4 h-4" />
+                              Original Text
+                            </>
+                          }
+                        >
                           <div className="text-lg text-foreground leading-relaxed whitespace-pre-wrap">
                             {transcribedText}
                             {isListening && (
                               <span className="inline-block w-2 h-4 bg-primary ml-1 animate-pulse" />
                             )}
                           </div>
-                        </div>
+                        </EditableText>
                       </motion.div>
                     ) : (
                       <motion.div 
@@ -609,42 +1274,594 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                 </div>
               </div>
             </motion.div>
-          ) : (
+          ) : appMode === 'audio-file' ? (
             <motion.div
-              key="text-to-speech"
+              key="audio-file"
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
               exit={{ opacity: 0, x: -20 }}
               transition={{ duration: 0.3 }}
               className="space-y-6"
             >
-              {/* Text-to-Speech Interface */}
+              {/* Audio File Interface */}
               <div className="flex-1 min-h-[400px]">
                 <div className="h-full bg-card border border-border rounded-lg p-6 shadow-sm">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-xl font-semibold text-foreground flex items-center gap-2">
-                      <motion.div
-                        initial={{ opacity: 0, x: -10 }}
-                        animate={{ opacity: 1, x: 0 }}
-                        transition={{ duration: 0.2 }}
-                        className="flex items-center gap-2"
-                      >
-                        <Volume2 className="w-5 h-5" />
-                        Voice Controls
-                      </motion.div>
+                      <FileAudio className="w-5 h-5" />
+                      Audio File
                     </h3>
-                    
-                    {/* Remove duplicate controls from header - keep only in text area */}
+                    <div className="flex items-center space-x-4">
+                      <input
+                        ref={audioFileInputRef}
+                        type="file"
+                        accept={[...AUDIO_FILE_TYPES, ...AUDIO_FILE_EXTENSIONS].join(',')}
+                        className="hidden"
+                        data-testid="audio-file-input"
+                        onChange={(e) => handleAudioFileSelected(e.target.files?.[0])}
+                      />
+
+                      {/* Upload Button */}
+                      <motion.button
+                        onClick={() => audioFileInputRef.current?.click()}
+                        disabled={fileStatus === 'transcribing'}
+                        className={cn(
+                          "flex items-center gap-2 px-6 py-3 rounded-full text-sm font-medium transition-all shadow-lg",
+                          fileStatus === 'transcribing'
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : "bg-primary text-primary-foreground hover:bg-primary/90 hover:scale-105"
+                        )}
+                        whileHover={fileStatus === 'transcribing' ? {} : { scale: 1.05 }}
+                        whileTap={fileStatus === 'transcribing' ? {} : { scale: 0.95 }}
+                      >
+                        {fileStatus === 'transcribing' ? (
+                          <>
+                            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                            Transcribing...
+                          </>
+                        ) : (
+                          <>
+                            <Upload className="w-5 h-5" />
+                            {audioFile ? 'Upload Another' : 'Upload Recording'}
+                          </>
+                        )}
+                      </motion.button>
+
+                      {/* Play Button */}
+                      <motion.button
+                        onClick={handlePlayText}
+                        disabled={!fileTranscript.trim() && !translatedText.trim()}
+                        className={cn(
+                          "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all",
+                          (!fileTranscript.trim() && !translatedText.trim())
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : isPlaying
+                            ? "bg-orange-500/10 text-orange-600 cursor-not-allowed" 
+                            : "bg-primary/10 text-primary hover:bg-primary/20 hover:scale-105"
+                        )}
+                        whileHover={(!fileTranscript.trim() && !translatedText.trim()) || isPlaying ? {} : { scale: 1.05 }}
+                        whileTap={(!fileTranscript.trim() && !translatedText.trim()) || isPlaying ? {} : { scale: 0.95 }}
+                      >
+                        {isPlaying ? (
+                          <>
+                            <Pause className="w-4 h-4" />
+                            Playing...
+                          </>
+                        ) : (
+                          <>
+                            <Play className="w-4 h-4" />
+                            Play Audio
+                          </>
+                        )}
+                      </motion.button>
+
+                      {/* Save Button */}
+                      <motion.button
+                        onClick={handleSaveToHistory}
+                        disabled={!fileTranscript.trim()}
+                        data-testid="save-audio-file"
+                        className={cn(
+                          "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all",
+                          !fileTranscript.trim()
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : "bg-green-500/10 text-green-600 hover:bg-green-500/20 hover:scale-105"
+                        )}
+                        whileHover={fileTranscript.trim() ? { scale: 1.05 } : {}}
+                        whileTap={fileTranscript.trim() ? { scale: 0.95 } : {}}
+                      >
+                        <Save className="w-4 h-4" />
+                        Save Transcript
+                      </motion.button>
+                    </div>
                   </div>
-                  
+
                   <motion.div 
-                    className="h-full min-h-[300px] bg-gradient-to-br from-muted/30 to-muted/10 border border-border/50 rounded-xl p-4 backdrop-blur-sm"
-                    whileHover={{ scale: 1.01 }}
-                    transition={{ duration: 0.2 }}
+                    className="h-full min-h-[300px] bg-gradient-to-br from-muted/30 to-muted/10 border border-dashed border-border/50 rounded-xl p-4 backdrop-blur-sm"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleAudioFileSelected(e.dataTransfer.files[0]);
+                    }}
                   >
-                    <div className="space-y-4 h-full">
-                      <textarea
-                        placeholder="Enter text to convert to speech..."
+                    {audioFile && (
+                      <div className="flex items-center justify-between mb-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-2 truncate" data-testid="audio-file-name">
+                          <FileAudio className="w-4 h-4 shrink-0" />
+                          {audioFile.name}
+                          {fileDuration > 0 && <span>· {formatSegmentTime(fileDuration)}</span>}
+                        </span>
+                        <button
+                          onClick={clearAudioFile}
+                          className="p-1 rounded-md hover:bg-accent hover:text-foreground transition-colors"
+                          title="Remove file"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+
+                    {fileStatus === 'error' ? (
+                      <motion.div 
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        className="flex items-center justify-center h-full"
+                      >
+                        <div className="text-center space-y-2">
+                          <div className="text-red-500 text-lg">⚠️</div>
+                          <p className="text-sm text-red-600 font-medium">Error</p>
+                          <p className="text-xs text-muted-foreground max-w-xs" data-testid="audio-file-error">
+                            {fileErrorMessage || 'Transcription failed. Please try again.'}
+                          </p>
+                        </div>
+                      </motion.div>
+                    ) : fileSegments.length > 0 ? (
+                      <motion.div 
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="space-y-2"
+                        data-testid="audio-file-segments"
+                      >
+                        {fileSegments.map((segment, index) => (
+                          <div key={index} className="flex gap-3 text-foreground leading-relaxed">
+                            <span className="shrink-0 pt-0.5 font-mono text-xs text-muted-foreground">
+                              {formatSegmentTime(segment.start)}
+                            </span>
+                            <span>{segment.text}</span>
+                          </div>
+                        ))}
+                      </motion.div>
+                    ) : (
+                      <motion.div 
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        className="flex flex-col items-center justify-center h-full text-center space-y-4"
+                      >
+                        <div className="text-6xl">🎧</div>
+                        <div className="space-y-2">
+                          <p className="text-lg font-medium text-foreground">
+                            {fileStatus === 'transcribing' ? 'Transcribing recording...' : 'Drop a recording here'}
+                          </p>
+                          <p className="text-muted-foreground">
+                            WAV, MP3 or WebM, transcribed by the Whisper server at {whisperEndpoint}
+                          </p>
+                        </div>
+                      </motion.div>
+                    )}
+                  </motion.div>
+                </div>
+              </div>
+            </motion.div>
+          ) : appMode === 'document' ? (
+            <motion.div
+              key="document"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.3 }}
+              className="space-y-6"
+            >
+              {/* Document Interface */}
+              <div className="flex-1 min-h-[400px]">
+                <div className="h-full bg-card border border-border rounded-lg p-6 shadow-sm">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold text-foreground flex items-center gap-2">
+                      <FileText className="w-5 h-5" />
+                      Document
+                    </h3>
+                    <div className="flex items-center space-x-4">
+                      <input
+                        ref={documentInputRef}
+                        type="file"
+                        accept={[...DOCUMENT_FILE_TYPES, ...DOCUMENT_FILE_EXTENSIONS].join(',')}
+                        className="hidden"
+                        data-testid="document-file-input"
+                        onChange={(e) => handleDocumentSelected(e.target.files?.[0])}
+                      />
+
+                      {/* Upload Button */}
+                      <motion.button
+                        onClick={() => documentInputRef.current?.click()}
+                        disabled={documentStatus === 'reading' || documentStatus === 'translating'}
+                        className={cn(
+                          "flex items-center gap-2 px-6 py-3 rounded-full text-sm font-medium transition-all shadow-lg",
+                          documentStatus === 'reading' || documentStatus === 'translating'
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : "bg-primary text-primary-foreground hover:bg-primary/90 hover:scale-105"
+                        )}
+                        whileHover={documentStatus === 'reading' || documentStatus === 'translating' ? {} : { scale: 1.05 }}
+                        whileTap={documentStatus === 'reading' || documentStatus === 'translating' ? {} : { scale: 0.95 }}
+                      >
+                        {documentStatus === 'reading' ? (
+                          <>
+                            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                            Reading...
+                          </>
+                        ) : (
+                          <>
+                            <Upload className="w-5 h-5" />
+                            {loadedDocument ? 'Upload Another' : 'Upload Document'}
+                          </>
+                        )}
+                      </motion.button>
+
+                      {/* Translate Button */}
+                      <motion.button
+                        onClick={handleTranslateDocument}
+                        disabled={!loadedDocument?.segments.length || documentStatus === 'translating' || sameLanguage || !translationPair.supported}
+                        data-testid="document-translate"
+                        className={cn(
+                          "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all",
+                          !loadedDocument?.segments.length || documentStatus === 'translating' || sameLanguage || !translationPair.supported
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : "bg-primary/10 text-primary hover:bg-primary/20 hover:scale-105"
+                        )}
+                      >
+                        <Languages className="w-4 h-4" />
+                        {documentStatus === 'translating' ? 'Translating...' : `Translate to ${getLanguageName(targetLanguage)}`}
+                      </motion.button>
+
+                      {/* Download Button */}
+                      <motion.button
+                        onClick={downloadDocument}
+                        disabled={documentStatus !== 'success'}
+                        data-testid="document-download"
+                        className={cn(
+                          "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all",
+                          documentStatus !== 'success'
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : "bg-green-500/10 text-green-600 hover:bg-green-500/20 hover:scale-105"
+                        )}
+                        whileHover={documentStatus === 'success' ? { scale: 1.05 } : {}}
+                        whileTap={documentStatus === 'success' ? { scale: 0.95 } : {}}
+                      >
+                        <Download className="w-4 h-4" />
+                        Download
+                      </motion.button>
+                    </div>
+                  </div>
+
+                  <motion.div 
+                    className="h-full min-h-[300px] bg-gradient-to-br from-muted/30 to-muted/10 border border-dashed border-border/50 rounded-xl p-4 backdrop-blur-sm"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDocumentSelected(e.dataTransfer.files[0]);
+                    }}
+                  >
+                    {loadedDocument && (
+                      <div className="flex items-center justify-between mb-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-2 truncate" data-testid="document-file-name">
+                          <FileText className="w-4 h-4 shrink-0" />
+                          {loadedDocument.name}
+                          <span>· {DOCUMENT_FORMATS[loadedDocument.format].label}</span>
+                          {documentProgress.total > 1 && (
+                            <span>· {documentProgress.total} segments</span>
+                          )}
+                        </span>
+                        <button
+                          onClick={clearDocumentFile}
+                          disabled={documentStatus === 'translating'}
+                          className="p-1 rounded-md hover:bg-accent hover:text-foreground transition-colors"
+                          title="Remove document"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Progress */}
+                    {(documentStatus === 'translating' || documentStatus === 'success') && documentProgress.total > 0 && (
+                      <div className="mb-4 space-y-1" data-testid="document-progress">
+                        <div className="h-2 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className={cn(
+                              "h-full rounded-full transition-all",
+                              documentStatus === 'success' ? "bg-green-500" : "bg-primary"
+                            )}
+                            style={{ width: `${(documentProgress.done / documentProgress.total) * 100}%` }}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {documentStatus === 'success'
+                            ? `Translated to ${getLanguageName(documentTargetLang ?? targetLanguage)}`
+                            : `Translated ${documentProgress.done} of ${documentProgress.total} segments`}
+                        </p>
+                      </div>
+                    )}
+
+                    {documentStatus === 'error' && (
+                      <div className="mb-4 text-center space-y-1">
+                        <p className="text-sm text-red-600 font-medium">Error</p>
+                        <p className="text-xs text-muted-foreground" data-testid="document-error">
+                          {documentErrorMessage || 'The document could not be translated. Please try again.'}
+                        </p>
+                      </div>
+                    )}
+
+                    {loadedDocument ? (
+                      <motion.div 
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="space-y-3"
+                        data-testid="document-segments"
+                      >
+                        {loadedDocument.segments.slice(0, DOCUMENT_PREVIEW_SEGMENTS).map((segment, index) => (
+                          <div key={index} className="grid grid-cols-2 gap-4 text-sm leading-relaxed">
+                            <p className="text-foreground whitespace-pre-wrap">{segment}</p>
+                            <p className={cn("whitespace-pre-wrap", documentTranslations[index] ? "text-foreground" : "text-muted-foreground/50")}>
+                              {documentTranslations[index] ?? '…'}
+                            </p>
+                          </div>
+                        ))}
+                        {loadedDocument.segments.length > DOCUMENT_PREVIEW_SEGMENTS && (
+                          <p className="text-xs text-muted-foreground text-center">
+                            {loadedDocument.segments.length - DOCUMENT_PREVIEW_SEGMENTS} more segments are in the download
+                          </p>
+                        )}
+                      </motion.div>
+                    ) : documentStatus !== 'error' && (
+                      <motion.div 
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        className="flex flex-col items-center justify-center h-full text-center space-y-4"
+                      >
+                        <div className="text-6xl">📄</div>
+                        <div className="space-y-2">
+                          <p className="text-lg font-medium text-foreground">
+                            {documentStatus === 'reading' ? 'Reading document...' : 'Drop a document here'}
+                          </p>
+                          <p className="text-muted-foreground">
+                            .txt, .md, .docx or text-based PDF; paragraphs, headings and lists keep their place
+                          </p>
+                        </div>
+                      </motion.div>
+                    )}
+                  </motion.div>
+                </div>
+              </div>
+            </motion.div>
+          ) : appMode === 'interpreter' ? (
+            <motion.div
+              key="interpreter"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.3 }}
+              className="space-y-6"
+            >
+              {/* Interpreter Interface */}
+              <div className="flex-1 min-h-[400px]">
+                <div className="h-full bg-card border border-border rounded-lg p-6 shadow-sm">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold text-foreground flex items-center gap-2">
+                      <Users className="w-5 h-5" />
+                      Conversation
+                    </h3>
+                    <div className="flex items-center space-x-4">
+                      <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <input
+                          type="checkbox"
+                          className="rounded"
+                          checked={handsFree}
+                          onChange={(e) => setHandsFree(e.target.checked)}
+                          data-testid="interpreter-hands-free"
+                        />
+                        Hands-free turns
+                      </label>
+                      <Button
+                        onClick={clearConversation}
+                        disabled={interpreterTurns.length === 0 || isListening}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Clear
+                      </Button>
+
+                      {/* Save Button */}
+                      <motion.button
+                        onClick={handleSaveConversation}
+                        disabled={!interpreterTurns.some(turn => turn.status === 'done')}
+                        data-testid="save-conversation"
+                        className={cn(
+                          "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all",
+                          !interpreterTurns.some(turn => turn.status === 'done')
+                            ? "bg-muted text-muted-foreground cursor-not-allowed"
+                            : "bg-green-500/10 text-green-600 hover:bg-green-500/20 hover:scale-105"
+                        )}
+                      >
+                        <Save className="w-4 h-4" />
+                        Save Conversation
+                      </motion.button>
+                    </div>
+                  </div>
+
+                  {/* Speakers */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                    {(['a', 'b'] as const).map(speakerId => {
+                      const speaker = interpreterSpeakers[speakerId];
+                      const isSpeaking = isListening && activeSpeaker === speakerId;
+                      return (
+                        <div
+                          key={speakerId}
+                          className="space-y-3 p-4 rounded-xl border border-border/50 bg-muted/20"
+                          data-testid={`interpreter-speaker-${speakerId}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-foreground">{INTERPRETER_SPEAKER_LABELS[speakerId]}</span>
+                            <motion.button
+                              onClick={() => toggleInterpreterTurn(speakerId)}
+                              disabled={isListening && !isSpeaking}
+                              data-testid={`interpreter-talk-${speakerId}`}
+                              className={cn(
+                                "flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all shadow-lg",
+                                isListening && !isSpeaking
+                                  ? "bg-muted text-muted-foreground cursor-not-allowed"
+                                  : isSpeaking
+                                  ? "bg-red-500 text-white hover:bg-red-600"
+                                  : "bg-primary text-primary-foreground hover:bg-primary/90"
+                              )}
+                              whileTap={isListening && !isSpeaking ? {} : { scale: 0.95 }}
+                            >
+                              {isSpeaking ? <MicOff className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+                              {isSpeaking ? 'Done' : `Speak ${getLanguageName(speaker.language)}`}
+                            </motion.button>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Select
+                              value={speaker.language}
+                              onValueChange={(language) => updateInterpreterSpeaker(speakerId, { language })}
+                              disabled={isListening}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SPEECH_LANGUAGES.map(language => (
+                                  <SelectItem key={language.code} value={language.code}>
+                                    {language.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={speaker.voice}
+                              onValueChange={(voice) => updateInterpreterSpeaker(speakerId, { voice })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {getInterpreterVoices(speakerId).map(voice => (
+                                  <SelectItem key={voice.key} value={voice.key}>
+                                    {voice.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {isSpeaking && transcribedText && (
+                            <p className="text-sm text-muted-foreground italic">{transcribedText}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {interpreterPairWarning && !interpreterPairWarning.supported && (
+                    <p className="text-xs text-amber-600 mb-4" data-testid="unsupported-pair">
+                      {interpreterPairWarning.reason}
+                    </p>
+                  )}
+
+                  {/* Threaded Transcript */}
+                  <div
+                    className="min-h-[240px] bg-gradient-to-br from-muted/30 to-muted/10 border border-dashed border-border/50 rounded-xl p-4 space-y-3 backdrop-blur-sm"
+                    data-testid="interpreter-transcript"
+                  >
+                    {status === 'Error' && (
+                      <p className="text-xs text-red-600">{speechErrorMessage || 'Speech recognition error. Please try again.'}</p>
+                    )}
+                    {interpreterTurns.length === 0 ? (
+                      <div className="flex flex-col items-center justify-center h-full py-12 text-center space-y-2">
+                        <p className="text-lg font-medium text-foreground">No turns yet</p>
+                        <p className="text-muted-foreground">Press Speak for whoever talks first</p>
+                      </div>
+                    ) : interpreterTurns.map(turn => (
+                      <motion.div
+                        key={turn.id}
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className={cn(
+                          "max-w-[80%] p-3 rounded-xl space-y-1",
+                          turn.speaker === 'a'
+                            ? "bg-primary/10 mr-auto"
+                            : "bg-blue-500/10 ml-auto"
+                        )}
+                        data-testid="interpreter-turn"
+                      >
+                        <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                          <span>{INTERPRETER_SPEAKER_LABELS[turn.speaker]} · {getLanguageName(turn.sourceLang)}</span>
+                          {turn.status === 'done' && (
+                            <button
+                              onClick={() => speakInterpreterTurn(turn.speaker, turn.translatedText)}
+                              disabled={isPlaying}
+                              className="p-1 rounded-md hover:bg-accent hover:text-foreground transition-colors"
+                              title="Replay translation"
+                            >
+                              <Play className="w-3 h-3" />
+                            </button>
+                          )}
+                        </div>
+                        <p className="text-foreground">{turn.text}</p>
+                        {turn.status === 'translating' ? (
+                          <p className="text-sm text-muted-foreground">Translating...</p>
+                        ) : turn.status === 'error' ? (
+                          <p className="text-sm text-red-600">{turn.errorMessage}</p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">{turn.translatedText}</p>
+                        )}
+                      </motion.div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          ) : (
+            <motion.div
+              key="text-to-speech"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.3 }}
+              className="space-y-6"
+            >
+              {/* Text-to-Speech Interface */}
+              <div className="flex-1 min-h-[400px]">
+                <div className="h-full bg-card border border-border rounded-lg p-6 shadow-sm">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold text-foreground flex items-center gap-2">
+                      <motion.div
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="flex items-center gap-2"
+                      >
+                        <Volume2 className="w-5 h-5" />
+                        Voice Controls
+                      </motion.div>
+                    </h3>
+                    
+                    {/* Remove duplicate controls from header - keep only in text area */}
+                  </div>
+                  
+                  <motion.div 
+                    className="h-full min-h-[300px] bg-gradient-to-br from-muted/30 to-muted/10 border border-border/50 rounded-xl p-4 backdrop-blur-sm"
+                    whileHover={{ scale: 1.01 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <div className="space-y-4 h-full">
+                      <textarea
+                        placeholder="Enter text to convert to speech..."
                         className="w-full h-48 p-4 bg-background/50 border border-border/50 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-primary/50 text-foreground placeholder:text-muted-foreground"
                         value={textInput}
                         onChange={(e) => {
@@ -666,8 +1883,8 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                {Object.entries(ELEVENLABS_VOICES).map(([key, voice]) => (
-                                  <SelectItem key={key} value={key}>
+                                {voices.map(voice => (
+                                  <SelectItem key={voice.key} value={voice.key}>
                                     {voice.name}
                                   </SelectItem>
                                 ))}
@@ -746,120 +1963,277 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
 
 
 
-        {/* Action Bar */}
-        <motion.div 
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-          className="bg-card border border-border rounded-xl p-6 shadow-sm backdrop-blur-sm"
-        >
-          <div className="space-y-6">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
-                <AnimatePresence mode="wait">
-                  <motion.div
-                    key={appMode}
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    exit={{ opacity: 0, x: 10 }}
-                    transition={{ duration: 0.2 }}
-                    className="flex items-center gap-2"
+        {/* Usage warning - the request is only sent once confirmed */}
+        <AnimatePresence>
+          {usageWarning && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className={cn(
+                "border rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3",
+                usageWarning.overQuota
+                  ? "bg-red-50 border-red-200 dark:bg-red-950/30 dark:border-red-900"
+                  : "bg-amber-50 border-amber-200 dark:bg-amber-950/30 dark:border-amber-900"
+              )}
+              data-testid="usage-warning"
+            >
+              <p className={cn("text-sm", usageWarning.overQuota ? "text-red-700 dark:text-red-400" : "text-amber-700 dark:text-amber-400")}>
+                {usageWarning.message}
+              </p>
+              <div className="flex gap-2 shrink-0">
+                <Button onClick={() => setUsageWarning(null)} variant="outline" size="sm">
+                  Cancel
+                </Button>
+                <Button onClick={handleProceedWithUsage} size="sm" data-testid="usage-proceed">
+                  Send anyway
+                </Button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Offline queue notice */}
+        <AnimatePresence>
+          {queuedNotice && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="border rounded-xl p-4 flex items-center justify-between gap-3 bg-sky-50 border-sky-200 dark:bg-sky-950/30 dark:border-sky-900"
+              data-testid="queued-notice"
+            >
+              <p className="text-sm text-sky-700 dark:text-sky-400 flex items-center gap-2">
+                <CloudOff className="w-4 h-4 shrink-0" />
+                {queuedNotice}
+              </p>
+              <button onClick={() => setQueuedNotice(null)} className="p-1 rounded-md text-sky-700 dark:text-sky-400 hover:bg-sky-100 dark:hover:bg-sky-900/50">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Action Bar - hidden in interpreter mode, each speaker has their own controls */}
+        {appMode !== 'interpreter' && (
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="bg-card border border-border rounded-xl p-6 shadow-sm backdrop-blur-sm"
+          >
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={appMode}
+                      initial={{ opacity: 0, x: -10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      exit={{ opacity: 0, x: 10 }}
+                      transition={{ duration: 0.2 }}
+                      className="flex items-center gap-2"
+                    >
+                      {appMode === 'speech-to-text' ? (
+                        <>
+                          <Mic className="w-5 h-5" />
+                          Speech Controls
+                        </>
+                      ) : appMode === 'audio-file' ? (
+                        <>
+                          <FileAudio className="w-5 h-5" />
+                          File Controls
+                        </>
+                      ) : appMode === 'document' ? (
+                        <>
+                          <FileText className="w-5 h-5" />
+                          Document Controls
+                        </>
+                      ) : (
+                        <>
+                          <Volume2 className="w-5 h-5" />
+                          Voice Controls
+                        </>
+                      )}
+                    </motion.div>
+                  </AnimatePresence>
+                </h3>
+              
+                {/* Action bar controls removed - using only text area controls */}
+              </div>
+            
+              {/* Settings Row */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-6">
+                  {/* Language Selector */}
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-muted-foreground">Language:</span>
+                    <Select value={transcriptionLanguage} onValueChange={setTranscriptionLanguage}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SPEECH_LANGUAGES.map(language => (
+                          <SelectItem key={language.code} value={language.code}>
+                            {language.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                
+                  {/* Voice Selector */}
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-muted-foreground">Voice:</span>
+                    <Select value={selectedVoice} onValueChange={setSelectedVoice}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {voices.map(voice => (
+                          <SelectItem key={voice.key} value={voice.key}>
+                            {voice.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {activeEngine && (
+                      <span className="px-1.5 py-0.5 rounded-md bg-muted text-xs text-muted-foreground" data-testid="tts-engine">
+                        Spoken by {TTS_ENGINE_NAMES[activeEngine]}
+                      </span>
+                    )}
+                  </div>
+                
+                  {/* Translation Controls */}
+                  {(translatesSource || appMode === 'document') && (
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm text-muted-foreground">
+                        From: <span className="font-medium text-foreground">{getLanguageName(transcriptionLanguage)}</span>
+                      </span>
+                    
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm text-muted-foreground">To:</span>
+                        <Select value={targetLanguage} onValueChange={setTargetLanguage}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TRANSLATION_TARGETS.map(language => (
+                              <SelectItem key={language.code} value={language.code}>
+                                {language.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    
+                      {!translationPair.supported && !sameLanguage && (
+                        <span className="text-xs text-amber-600" data-testid="unsupported-pair">
+                          {translationPair.reason}
+                        </span>
+                      )}
+                    
+                      {translatesSource && (
+                        <Button
+                          onClick={handleTranslate}
+                          disabled={!sourceText.trim() || translationStatus === 'translating' || (!translationPair.supported && !sameLanguage)}
+                          variant="outline"
+                          size="sm"
+                        >
+                          {translationStatus === 'translating' ? (
+                            <div className="flex items-center gap-2">
+                              <div className="w-3 h-3 border border-primary border-t-transparent rounded-full animate-spin"></div>
+                              <span>Auto-translating...</span>
+                            </div>
+                          ) : (
+                            'Translate'
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Multi-target Translation */}
+              {translatesSource && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Also translate to:</span>
+                  {TRANSLATION_TARGETS.map(language => (
+                    <button
+                      key={language.code}
+                      onClick={() => toggleMultiTargetLanguage(language.code)}
+                      disabled={!checkTranslationPair(transcriptionLanguage, language.code).supported}
+                      data-testid={`multi-target-${language.code}`}
+                      title={language.name}
+                      className={cn(
+                        "disabled:opacity-40 disabled:cursor-not-allowed",
+                        "px-2.5 py-1 rounded-full text-xs font-medium border transition-colors",
+                        multiTargetLanguages.includes(language.code)
+                          ? "bg-primary/10 border-primary/30 text-primary"
+                          : "bg-muted/50 border-border/50 text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      {language.code}
+                    </button>
+                  ))}
+                  <Button
+                    onClick={handleTranslateMany}
+                    disabled={!sourceText.trim() || multiTargetLanguages.length === 0 || multiTranslationStatus === 'translating'}
+                    variant="outline"
+                    size="sm"
                   >
-                    {appMode === 'speech-to-text' ? (
-                      <>
-                        <Mic className="w-5 h-5" />
-                        Speech Controls
-                      </>
+                    {multiTranslationStatus === 'translating' ? (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 border border-primary border-t-transparent rounded-full animate-spin"></div>
+                        <span>Translating...</span>
+                      </div>
                     ) : (
-                      <>
-                        <Volume2 className="w-5 h-5" />
-                        Voice Controls
-                      </>
+                      `Translate All (${multiTargetLanguages.length})`
                     )}
-                  </motion.div>
-                </AnimatePresence>
-              </h3>
-              
-              {/* Action bar controls removed - using only text area controls */}
-            </div>
-            
-            {/* Settings Row */}
-            <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-6">
-                {/* Language Selector */}
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm text-muted-foreground">Language:</span>
-                  <Select value={transcriptionLanguage} onValueChange={setTranscriptionLanguage}>
-                    <SelectTrigger className="w-32">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="en-US">English</SelectItem>
-                      <SelectItem value="es-ES">Spanish</SelectItem>
-                      <SelectItem value="fr-FR">French</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  </Button>
                 </div>
-                
-                {/* Voice Selector */}
-                <div className="flex items-center space-x-2">
-                  <span className="text-sm text-muted-foreground">Voice:</span>
-                  <Select value={selectedVoice} onValueChange={setSelectedVoice}>
-                    <SelectTrigger className="w-48">
+              )}
+              {/* Subtitles */}
+              {translatesSource && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Subtitles:</span>
+                  <Select value={subtitleLanguage} onValueChange={(value) => setSubtitleLanguage(value as 'source' | 'translation')}>
+                    <SelectTrigger className="w-40 h-8 text-xs" data-testid="subtitle-language">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {Object.entries(ELEVENLABS_VOICES).map(([key, voice]) => (
-                        <SelectItem key={key} value={key}>
-                          {voice.name}
-                        </SelectItem>
-                      ))}
+                      <SelectItem value="source">{getLanguageName(transcriptionLanguage)}</SelectItem>
+                      <SelectItem value="translation" disabled={!translationPair.supported && !sameLanguage}>
+                        {getLanguageName(targetLanguage)}
+                      </SelectItem>
                     </SelectContent>
                   </Select>
-                </div>
-                
-                {/* Translation Controls */}
-                {appMode === 'speech-to-text' && (
-                  <div className="flex items-center space-x-3">
-                    <span className="text-sm text-muted-foreground">
-                      From: <span className="font-medium text-foreground">{getLanguageDisplayName(transcriptionLanguage)}</span>
-                    </span>
-                    
-                    <div className="flex items-center space-x-2">
-                      <span className="text-sm text-muted-foreground">To:</span>
-                      <Select value={targetLanguage} onValueChange={setTargetLanguage}>
-                        <SelectTrigger className="w-32">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="EN">English</SelectItem>
-                          <SelectItem value="ES">Spanish</SelectItem>
-                          <SelectItem value="FR">French</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    
+                  {SUBTITLE_FORMATS.map(format => (
                     <Button
-                      onClick={handleTranslate}
-                      disabled={!transcribedText.trim() || translationStatus === 'translating'}
+                      key={format.id}
+                      onClick={() => handleExportSubtitles(format.id)}
+                      disabled={sourceSegments.length === 0 || subtitleStatus === 'translating'}
                       variant="outline"
                       size="sm"
+                      data-testid={`export-${format.id}`}
                     >
-                      {translationStatus === 'translating' ? (
-                        <div className="flex items-center gap-2">
-                          <div className="w-3 h-3 border border-primary border-t-transparent rounded-full animate-spin"></div>
-                          <span>Auto-translating...</span>
-                        </div>
-                      ) : (
-                        'Translate'
-                      )}
+                      <Download className="w-3 h-3 mr-1" />
+                      {format.label}
                     </Button>
-                  </div>
-                )}
-              </div>
+                  ))}
+                  <span className="text-xs text-muted-foreground">
+                    {subtitleStatus === 'translating'
+                      ? 'Translating segments...'
+                      : subtitleStatus === 'error'
+                      ? 'Could not translate the subtitles'
+                      : `${sourceSegments.length} timed segment${sourceSegments.length === 1 ? '' : 's'}`}
+                  </span>
+                </div>
+              )}
             </div>
-          </div>
-        </motion.div>
+          </motion.div>
+        )}
 
          {/* Settings Panel */}
          <AnimatePresence>
@@ -908,6 +2282,69 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                      </Select>
                    </div>
                    
+                   {/* Speech Recognition Backend */}
+                   <div className="space-y-2">
+                     <label className="text-sm font-medium text-foreground">Speech Recognition</label>
+                     <Select value={speechBackend} onValueChange={(value) => setSpeechBackend(value as SpeechBackendPreference)}>
+                       <SelectTrigger data-testid="stt-backend-select">
+                         <SelectValue />
+                       </SelectTrigger>
+                       <SelectContent>
+                         <SelectItem value="auto">Auto</SelectItem>
+                         {(['browser', 'tauri', 'whisper'] as const).map(id => (
+                           <SelectItem key={id} value={id} disabled={!availableSpeechBackends.includes(id)}>
+                             {SPEECH_RECOGNIZER_NAMES[id]}
+                           </SelectItem>
+                         ))}
+                       </SelectContent>
+                     </Select>
+                     {(speechBackend === 'whisper' || appMode === 'audio-file') && (
+                       <input
+                         type="url"
+                         value={whisperEndpoint}
+                         onChange={(e) => setWhisperEndpoint(e.target.value)}
+                         placeholder="http://127.0.0.1:8080/inference"
+                         data-testid="whisper-endpoint"
+                         className="w-full px-3 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                       />
+                     )}
+                   </div>
+
+                   {/* Speech Engine */}
+                   <div className="space-y-2">
+                     <label className="text-sm font-medium text-foreground">Speech Engine</label>
+                     <Select value={ttsEngine} onValueChange={(value) => setTtsEngine(value as TTSEnginePreference)}>
+                       <SelectTrigger data-testid="tts-engine-select">
+                         <SelectValue />
+                       </SelectTrigger>
+                       <SelectContent>
+                         <SelectItem value="auto">Auto (ElevenLabs, then device)</SelectItem>
+                         <SelectItem value="elevenlabs">{TTS_ENGINE_NAMES.elevenlabs}</SelectItem>
+                         <SelectItem value="browser" disabled={!availableEngines.includes('browser')}>
+                           {TTS_ENGINE_NAMES.browser}
+                         </SelectItem>
+                       </SelectContent>
+                     </Select>
+                   </div>
+
+                   {/* Voice Category */}
+                   <div className="space-y-2">
+                     <label className="text-sm font-medium text-foreground">Voice Category</label>
+                     <Select value={voiceCategory} onValueChange={setVoiceCategory}>
+                       <SelectTrigger data-testid="voice-category">
+                         <SelectValue />
+                       </SelectTrigger>
+                       <SelectContent>
+                         <SelectItem value="all">All categories</SelectItem>
+                         {voiceCategories.map(category => (
+                           <SelectItem key={category} value={category}>
+                             {category.charAt(0).toUpperCase() + category.slice(1)}
+                           </SelectItem>
+                         ))}
+                       </SelectContent>
+                     </Select>
+                   </div>
+
                    {/* Auto-translate */}
                    <div className="space-y-2">
                      <label className="text-sm font-medium text-foreground">Auto-translate</label>
@@ -918,14 +2355,200 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                        </label>
                      </div>
                    </div>
+
+                   {/* Quality check */}
+                   <div className="space-y-2">
+                     <label className="text-sm font-medium text-foreground">Quality check</label>
+                     <div className="flex items-center space-x-2">
+                       <input
+                         type="checkbox"
+                         id="quality-check"
+                         checked={qualityCheck}
+                         onChange={(e) => setQualityCheck(e.target.checked)}
+                         className="rounded"
+                         data-testid="quality-check-toggle"
+                       />
+                       <label htmlFor="quality-check" className="text-sm text-muted-foreground">
+                         Back-translate results to score them
+                       </label>
+                     </div>
+                   </div>
+
+                   {/* Formality */}
+                   <div className="space-y-2">
+                     <label className="text-sm font-medium text-foreground">Formality</label>
+                     <Select value={formality} onValueChange={(value) => setFormality(value as Formality)}>
+                       <SelectTrigger data-testid="formality-select">
+                         <SelectValue />
+                       </SelectTrigger>
+                       <SelectContent>
+                         {FORMALITY_OPTIONS.map(option => (
+                           <SelectItem key={option.value} value={option.value}>
+                             {option.label}
+                           </SelectItem>
+                         ))}
+                       </SelectContent>
+                     </Select>
+                   </div>
                  </div>
+
+                 {/* Glossary for the current language pair */}
+                 <div className="space-y-3 border-t border-border/50 pt-4" data-testid="glossary">
+                   <div>
+                     <p className="text-sm font-medium text-foreground">
+                       Glossary ({getLanguageName(transcriptionLanguage)} → {getLanguageName(targetLanguage)})
+                     </p>
+                     <p className="text-xs text-muted-foreground">
+                       Terms that always translate the same way, like product or people names
+                     </p>
+                   </div>
+
+                   {glossary.length > 0 && (
+                     <div className="flex flex-wrap gap-2">
+                       {glossary.map(entry => (
+                         <span
+                           key={entry.term}
+                           className="inline-flex items-center gap-1 rounded-full border border-border/50 bg-background/50 px-3 py-1 text-xs text-foreground"
+                           data-testid="glossary-entry"
+                         >
+                           {entry.term} → {entry.translation}
+                           <button
+                             onClick={() => removeGlossaryEntry(transcriptionLanguage, targetLanguage, entry.term)}
+                             className="text-muted-foreground hover:text-foreground transition-colors"
+                             title="Remove term"
+                           >
+                             <X className="w-3 h-3" />
+                           </button>
+                         </span>
+                       ))}
+                     </div>
+                   )}
+
+                   <div className="flex flex-col sm:flex-row gap-2">
+                     <input
+                       type="text"
+                       value={glossaryTerm}
+                       onChange={(e) => setGlossaryTerm(e.target.value)}
+                       placeholder="Term, e.g. VoicePal"
+                       data-testid="glossary-term"
+                       className="flex-1 px-3 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                     />
+                     <input
+                       type="text"
+                       value={glossaryTranslation}
+                       onChange={(e) => setGlossaryTranslation(e.target.value)}
+                       onKeyDown={(e) => e.key === 'Enter' && handleAddGlossaryEntry()}
+                       placeholder="Translation (empty keeps it as is)"
+                       data-testid="glossary-translation"
+                       className="flex-1 px-3 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                     />
+                     <Button
+                       onClick={handleAddGlossaryEntry}
+                       disabled={!glossaryTerm.trim()}
+                       variant="outline"
+                       size="sm"
+                       data-testid="glossary-add"
+                     >
+                       Add term
+                     </Button>
+                   </div>
+                 </div>
+
+                 {isTauri && <ProviderKeySettings onChange={() => refreshUsage(true)} />}
+
+                 <UsagePanel
+                   report={usageReport}
+                   loading={usageStatus === 'loading'}
+                   errorMessage={usageErrorMessage}
+                   thresholds={usageThresholds}
+                   onRefresh={() => refreshUsage(true)}
+                   onWarnAtPercentChange={setWarnAtPercent}
+                   onDailyBudgetChange={setDailyBudget}
+                 />
+
+                 <HotkeySettings
+                   bindings={hotkeys}
+                   onChange={setHotkey}
+                   onReset={resetHotkeys}
+                   globalActions={globalHotkeys}
+                   globalError={globalHotkeyError}
+                   onRecordingChange={setIsRecordingHotkey}
+                 />
+
+                 {/* Per-voice Settings */}
+                 {currentVoice && currentVoiceSettings && (
+                   <div className="space-y-4 border-t border-border/50 pt-4" data-testid="voice-settings">
+                     <div className="flex items-center justify-between">
+                       <div>
+                         <p className="text-sm font-medium text-foreground">{currentVoice.name}</p>
+                         <p className="text-xs text-muted-foreground">{currentVoice.description}</p>
+                       </div>
+                       <div className="flex items-center gap-2">
+                         <Button
+                           onClick={() => previewVoice(currentVoice.key, currentVoice.preview_text)}
+                           disabled={isPlaying || ttsStatus === 'generating'}
+                           variant="outline"
+                           size="sm"
+                         >
+                           <Play className="w-3 h-3 mr-1" />
+                           Preview
+                         </Button>
+                         <Button
+                           onClick={() => resetVoiceSettings(currentVoice.key)}
+                           disabled={!voiceSettings[currentVoice.key]}
+                           variant="outline"
+                           size="sm"
+                         >
+                           Reset
+                         </Button>
+                       </div>
+                     </div>
+
+                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                       {VOICE_SETTING_SLIDERS.map(({ field, label }) => (
+                         <div key={field} className="space-y-2">
+                           <label htmlFor={`voice-${field}`} className="text-sm font-medium text-foreground flex justify-between">
+                             {label}
+                             <span className="text-muted-foreground">{currentVoiceSettings[field].toFixed(2)}</span>
+                           </label>
+                           <input
+                             id={`voice-${field}`}
+                             type="range"
+                             min={0}
+                             max={1}
+                             step={0.05}
+                             value={currentVoiceSettings[field]}
+                             onChange={(e) => updateVoiceSettings(currentVoice.key, { [field]: Number(e.target.value) })}
+                             className="w-full accent-primary"
+                           />
+                         </div>
+                       ))}
+
+                       <div className="space-y-2">
+                         <label className="text-sm font-medium text-foreground">Speaker Boost</label>
+                         <div className="flex items-center space-x-2">
+                           <input
+                             type="checkbox"
+                             id="voice-speaker-boost"
+                             className="rounded"
+                             checked={currentVoiceSettings.use_speaker_boost}
+                             onChange={(e) => updateVoiceSettings(currentVoice.key, { use_speaker_boost: e.target.checked })}
+                           />
+                           <label htmlFor="voice-speaker-boost" className="text-sm text-muted-foreground">
+                             Enhance similarity to the original speaker
+                           </label>
+                         </div>
+                       </div>
+                     </div>
+                   </div>
+                 )}
                </div>
              </motion.div>
            )}
          </AnimatePresence>
 
-         {/* Translation Results - Only show in speech-to-text mode */}
-        {appMode === 'speech-to-text' && (translatedText || translationStatus === 'error') && (
+         {/* Translation Results - Only show when the input is transcribed */}
+        {translatesSource && (translatedText || translationStatus === 'error') && (
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -963,34 +2586,142 @@ export const MainContent = forwardRef<any, MainContentProps>(({ className, onHis
                   animate={{ opacity: 1, y: 0 }}
                   className="space-y-4"
                 >
-                  <div className="space-y-3">
-                    <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-                      <Languages className="w-4 h-4" />
-                      Translation
-                    </div>
+                  <EditableText
+                    text={translationEdits}
+                    disabled={translationStatus === 'translating'}
+                    testId="translation"
+                    label={
+                      <>
+                        <Languages className="w-4 h-4" />
+                        Translation
+                      </>
+                    }
+                  >
                     <div className="text-lg text-foreground leading-relaxed whitespace-pre-wrap">
-                      {translatedText || 'No translation available'}
+                      {translatedText ? highlightGlossaryMatches(translatedText, glossaryMatches) : 'No translation available'}
                     </div>
-                  </div>
+                  </EditableText>
                   {translationStatus === 'success' && (
                     <motion.div 
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.3 }}
-                      className="flex items-center gap-2 text-xs text-green-600"
+                      className="flex flex-wrap items-center gap-2 text-xs text-green-600"
                     >
                       <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
                       <span>Translation completed</span>
+                      {translationProvider && (
+                        <span className="px-1.5 py-0.5 rounded-md bg-muted text-muted-foreground" data-testid="translation-provider">
+                          via {translationProvider.name}
+                        </span>
+                      )}
+                      {qualityReport && <QualityBadge score={qualityReport.score} />}
+                      {qualityStatus === 'checking' && (
+                        <span className="text-muted-foreground">Checking quality...</span>
+                      )}
+                      {qualityStatus === 'error' && (
+                        <span className="text-red-600">Quality check failed</span>
+                      )}
+                      {!qualityReport && qualityStatus !== 'checking' && !sameLanguage && (
+                        <button
+                          onClick={handleCheckQuality}
+                          className="text-muted-foreground underline-offset-2 hover:underline hover:text-foreground transition-colors"
+                          data-testid="check-quality"
+                        >
+                          Check quality
+                        </button>
+                      )}
                     </motion.div>
                   )}
+                  {qualityReport && (
+                    <div className="space-y-2 border-t border-border/50 pt-3 text-sm" data-testid="quality-report">
+                      <div>
+                        <p className="text-xs font-medium text-muted-foreground">Back-translation</p>
+                        <p className="text-foreground/80 whitespace-pre-wrap">{qualityReport.backTranslation}</p>
+                      </div>
+                      {qualityReport.divergentSpans.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground">Original, with the words that did not come back marked</p>
+                          <p className="text-foreground/80 whitespace-pre-wrap">
+                            {highlightDivergentSpans(sourceText, qualityReport.divergentSpans)}
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </motion.div>
               )}
             </motion.div>
           </motion.div>
         )}
+
+        {/* Multi-language Results - side by side */}
+        {translatesSource && (multiTranslation || multiTranslationStatus === 'error') && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="bg-card border border-border rounded-lg p-6 shadow-sm"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-base font-medium text-foreground flex items-center gap-2">
+                <Languages className="w-4 h-4 text-blue-600" />
+                Multi-language Translation
+              </h3>
+            </div>
+            {multiTranslationStatus === 'error' ? (
+              <div className="text-center space-y-2 py-4">
+                <p className="text-sm text-red-600 font-medium">Translation Failed</p>
+                <p className="text-xs text-muted-foreground break-words">
+                  {multiTranslationError}
+                </p>
+              </div>
+            ) : multiTranslation && (
+              <div className="overflow-x-auto">
+                <div
+                  className="grid gap-3 min-w-max"
+                  style={{ gridTemplateColumns: `repeat(${multiTranslation.targetLangs.length + 1}, minmax(200px, 1fr))` }}
+                  data-testid="multi-translation-grid"
+                >
+                  <div className="text-sm font-medium text-muted-foreground">Original</div>
+                  {multiTranslation.targetLangs.map(lang => (
+                    <div key={lang} className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                      {getLanguageName(lang)}
+                      {multiTranslation.providers[lang] && (
+                        <span className="text-xs px-1.5 py-0.5 rounded-md bg-muted">
+                          {multiTranslation.providers[lang].name}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  {multiTranslation.segments.map((segment, segmentIndex) => (
+                    <Fragment key={segmentIndex}>
+                      <div className="text-sm text-foreground leading-relaxed p-3 rounded-lg bg-muted/30">
+                        {segment}
+                      </div>
+                      {multiTranslation.matrix[segmentIndex].map((translation, targetIndex) => (
+                        <div key={targetIndex} className="text-sm text-foreground leading-relaxed p-3 rounded-lg bg-muted/10 border border-border/50">
+                          {translation}
+                        </div>
+                      ))}
+                    </Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
       </div>
+
+      <CaptionOverlay
+        open={showCaptions}
+        onClose={() => setShowCaptions(false)}
+        segments={speechSegments}
+        interimText={interimText}
+        isListening={isListening}
+      />
     </div>
   );
 });
\ No newline at end of file
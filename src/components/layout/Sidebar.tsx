@@ -1,8 +1,27 @@
 import { cn } from "@/lib/utils";
-import { useHistory, HistoryItem } from "@/hooks/useHistory";
+import { useHistory, HistoryItem, HISTORY_AUDIO_QUOTA_BYTES } from "@/hooks/useHistory";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { motion, AnimatePresence } from "framer-motion";
-import { Trash2, Clock, Languages, Archive } from "lucide-react";
-import { useState } from "react";
+import { Trash2, Clock, Languages, Archive, Search, Star, Tag, X, Upload, CheckSquare, Play, Square, FileText, Pencil, History, Share2 } from "lucide-react";
+import { useState, useRef, useEffect } from "react";
+import {
+  HISTORY_EXPORT_FORMATS,
+  downloadHistoryExport,
+  parseHistoryImport,
+  type HistoryExportFormat,
+} from "@/lib/history-export";
+import { getLanguageShortLabel } from "@/lib/languages";
+import { QualityBadge } from "@/components/quality-badge";
+import { HistoryItemEditor, HistoryRevisions } from "@/components/history-revisions";
+import { SharePanel } from "@/components/share-panel";
+import { PendingRequests } from "@/components/pending-requests";
+import type { useRequestQueue } from "@/hooks/useRequestQueue";
 import VoicePalLogo from "@/assets/voicepal-logo.svg";
 
 interface SidebarProps {
@@ -11,18 +30,77 @@ interface SidebarProps {
   onResetSession?: () => void;
   activeHistoryId?: string | null;
   historyHook?: ReturnType<typeof useHistory>;
+  requestQueue?: ReturnType<typeof useRequestQueue>;
 }
 
-export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistoryId, historyHook }: SidebarProps) {
+type DateRange = 'any' | 'today' | 'week' | 'month';
+
+const DATE_RANGE_DAYS: Record<Exclude<DateRange, 'any'>, number> = {
+  today: 1,
+  week: 7,
+  month: 30,
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistoryId, historyHook, requestQueue }: SidebarProps) {
   // Use shared history hook or fallback to local one
   const localHistoryHook = useHistory();
-  const { history, deleteHistoryItem, loadHistoryItem } = historyHook || localHistoryHook;
+  const {
+    history,
+    deleteHistoryItem,
+    loadHistoryItem,
+    toggleFavorite,
+    addTag,
+    removeTag,
+    reviseHistoryItem,
+    importHistoryItems,
+    getAudio,
+    audioUsage,
+    filters,
+    setFilters,
+    resetFilters,
+    filteredHistory,
+    visibleHistory,
+    hasMore,
+    loadMore,
+    allTags,
+    languagePairs,
+  } = historyHook || localHistoryHook;
   const [hoveredItemId, setHoveredItemId] = useState<string | null>(null);
+  const [taggingItemId, setTaggingItemId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [revisionsItemId, setRevisionsItemId] = useState<string | null>(null);
+  const [sharingItemId, setSharingItemId] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange>('any');
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [transferMessage, setTransferMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [playingItemId, setPlayingItemId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopStoredAudio = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      URL.revokeObjectURL(audioRef.current.src);
+      audioRef.current = null;
+    }
+    setPlayingItemId(null);
+  };
+
+  // Stop playback when the sidebar unmounts
+  useEffect(() => stopStoredAudio, []);
   
   // Debug: Log when Sidebar re-renders with history changes
   console.log('Sidebar is re-rendering with history:', history);
 
   const handleItemClick = (id: string) => {
+    if (selectionMode) {
+      setSelectedIds(prev => prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]);
+      return;
+    }
     const item = loadHistoryItem(id);
     if (item && onHistoryLoad) {
       onHistoryLoad(item);
@@ -34,6 +112,101 @@ export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistor
     deleteHistoryItem(id);
   };
 
+  // Saved audio plays straight from IndexedDB, so it works offline
+  const handlePlayStoredAudio = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    const wasPlaying = playingItemId === id;
+    stopStoredAudio();
+    if (wasPlaying) return;
+
+    try {
+      const blob = await getAudio(id);
+      if (!blob) return;
+
+      const audio = new Audio(URL.createObjectURL(blob));
+      audio.onended = stopStoredAudio;
+      audioRef.current = audio;
+      setPlayingItemId(id);
+      await audio.play();
+    } catch (error) {
+      console.error('Stored audio playback error:', error);
+      stopStoredAudio();
+    }
+  };
+
+  const handleToggleFavorite = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    toggleFavorite(id);
+  };
+
+  const handleTagSubmit = (id: string) => {
+    addTag(id, tagInput);
+    setTagInput('');
+    setTaggingItemId(null);
+  };
+
+  const handleDateRangeChange = (range: DateRange) => {
+    setDateRange(range);
+    setFilters({
+      from: range === 'any'
+        ? null
+        : new Date(Date.now() - DATE_RANGE_DAYS[range] * 24 * 60 * 60 * 1000).toISOString(),
+    });
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setFilters({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter(existing => existing !== tag)
+        : [...filters.tags, tag],
+    });
+  };
+
+  const hasActiveFilters = filters.query.trim() !== '' ||
+    filters.tags.length > 0 ||
+    filters.favoritesOnly ||
+    filters.languagePair !== null ||
+    filters.from !== null;
+
+  const showTransferMessage = (message: string) => {
+    setTransferMessage(message);
+    setTimeout(() => setTransferMessage(null), 4000);
+  };
+
+  const toggleSelectionMode = () => {
+    setSelectionMode(prev => !prev);
+    setSelectedIds([]);
+  };
+
+  // Export the selected items, or the whole history when nothing is selected
+  const handleExport = (format: HistoryExportFormat) => {
+    const items = selectedIds.length > 0
+      ? history.filter(item => selectedIds.includes(item.id))
+      : history;
+    downloadHistoryExport(items, format);
+    showTransferMessage(`Exported ${items.length} session${items.length === 1 ? '' : 's'}`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const items = parseHistoryImport(await file.text());
+      const { added, merged } = importHistoryItems(items);
+      showTransferMessage(`Imported ${added} new, merged ${merged} duplicate${merged === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('History import error:', error);
+      showTransferMessage(error instanceof Error ? error.message : 'Failed to import history');
+    }
+  };
+
+  const handleResetFilters = () => {
+    setDateRange('any');
+    resetFilters();
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -53,18 +226,6 @@ export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistor
     }
   };
 
-  const getLanguageDisplayName = (code: string) => {
-    const languageMap: Record<string, string> = {
-      'en-US': 'EN',
-      'es-ES': 'ES', 
-      'fr-FR': 'FR',
-      'EN': 'EN',
-      'ES': 'ES',
-      'FR': 'FR'
-    };
-    return languageMap[code] || code;
-  };
-
   console.log('DEBUG: Sidebar is rendering with history:', history);
   
   return (
@@ -107,15 +268,176 @@ export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistor
       {/* History Section */}
       <div className="flex-1 p-6 overflow-hidden">
         <div className="space-y-4 h-full">
+          {requestQueue && <PendingRequests requestQueue={requestQueue} />}
+
           <div className="flex items-center gap-2 text-sm font-medium text-foreground">
             <Clock className="w-4 h-4" />
-            History ({history.length})
+            History ({hasActiveFilters ? `${filteredHistory.length}/${history.length}` : history.length})
           </div>
+
+          {/* Export & Import */}
+          <div className="flex items-center gap-2">
+            <Select value="" onValueChange={(value) => handleExport(value as HistoryExportFormat)} disabled={history.length === 0}>
+              <SelectTrigger className="h-8 text-xs flex-1" data-testid="history-export">
+                <SelectValue placeholder={selectedIds.length > 0 ? `Export (${selectedIds.length})` : 'Export all'} />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_EXPORT_FORMATS.map(format => (
+                  <SelectItem key={format.id} value={format.id}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <button
+              onClick={toggleSelectionMode}
+              disabled={history.length === 0}
+              className={cn(
+                "p-1.5 rounded-md border transition-colors disabled:opacity-50",
+                selectionMode
+                  ? "bg-primary/10 border-primary/30 text-primary"
+                  : "border-border/50 text-muted-foreground hover:text-foreground"
+              )}
+              title="Select sessions to export"
+            >
+              <CheckSquare className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              data-testid="history-import"
+              className="p-1.5 rounded-md border border-border/50 text-muted-foreground hover:text-foreground transition-colors"
+              title="Import JSON export"
+            >
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleImportFile}
+              className="hidden"
+              data-testid="history-import-input"
+            />
+          </div>
+
+          {audioUsage > 0 && (
+            <p className="text-xs text-muted-foreground" data-testid="history-audio-usage">
+              Saved audio: {formatMegabytes(audioUsage)} of {formatMegabytes(HISTORY_AUDIO_QUOTA_BYTES)}
+            </p>
+          )}
+
+          {transferMessage && (
+            <p className="text-xs text-muted-foreground" data-testid="history-transfer-message">
+              {transferMessage}
+            </p>
+          )}
+
+          {/* Search & Filters */}
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <input
+                  type="search"
+                  value={filters.query}
+                  onChange={(e) => setFilters({ query: e.target.value })}
+                  placeholder="Search history..."
+                  data-testid="history-search"
+                  className="w-full pl-8 pr-2 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setFilters({ favoritesOnly: !filters.favoritesOnly })}
+                  data-testid="history-favorites-filter"
+                  className={cn(
+                    "p-1.5 rounded-md border transition-colors",
+                    filters.favoritesOnly
+                      ? "bg-yellow-500/10 border-yellow-500/30 text-yellow-600"
+                      : "border-border/50 text-muted-foreground hover:text-foreground"
+                  )}
+                  title="Favorites only"
+                >
+                  <Star className="w-3.5 h-3.5" fill={filters.favoritesOnly ? "currentColor" : "none"} />
+                </button>
+
+                <Select
+                  value={filters.languagePair ?? 'all'}
+                  onValueChange={(value) => setFilters({ languagePair: value === 'all' ? null : value })}
+                >
+                  <SelectTrigger className="h-8 text-xs flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All languages</SelectItem>
+                    {languagePairs.map(pair => {
+                      const [source, target] = pair.split('->');
+                      return (
+                        <SelectItem key={pair} value={pair}>
+                          {getLanguageShortLabel(source)} → {getLanguageShortLabel(target)}
+                        </SelectItem>
+                      );
+                    })}
+                  </SelectContent>
+                </Select>
+
+                <Select value={dateRange} onValueChange={(value) => handleDateRangeChange(value as DateRange)}>
+                  <SelectTrigger className="h-8 text-xs flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any time</SelectItem>
+                    <SelectItem value="today">Today</SelectItem>
+                    <SelectItem value="week">Last 7 days</SelectItem>
+                    <SelectItem value="month">Last 30 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {allTags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {allTags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTagFilter(tag)}
+                      className={cn(
+                        "px-2 py-0.5 rounded-full text-xs border transition-colors",
+                        filters.tags.includes(tag)
+                          ? "bg-primary/10 border-primary/30 text-primary"
+                          : "bg-muted/50 border-border/50 text-muted-foreground hover:text-foreground"
+                      )}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {hasActiveFilters && (
+                <button
+                  onClick={handleResetFilters}
+                  className="text-xs text-muted-foreground hover:text-foreground underline"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
           
           {/* History List */}
           <div className="space-y-2 overflow-y-auto flex-1">
             <AnimatePresence>
-              {history.length === 0 ? (
+              {history.length > 0 && filteredHistory.length === 0 ? (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="text-center py-8 text-xs text-muted-foreground"
+                  data-testid="history-no-results"
+                >
+                  No sessions match your filters.
+                </motion.div>
+              ) : history.length === 0 ? (
                 <motion.div 
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -144,45 +466,115 @@ export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistor
                   </motion.div>
                 </motion.div>
               ) : (
-                history.map((item, index) => (
+                visibleHistory.map((item, index) => (
                   <motion.div
                     key={item.id}
                     data-testid="history-item"
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, x: -100 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{ delay: (index % 20) * 0.05 }}
                     className={cn(
                       "relative p-3 rounded-lg border cursor-pointer transition-all group",
-                      activeHistoryId === item.id
+                      activeHistoryId === item.id || selectedIds.includes(item.id)
                         ? "bg-primary/10 border-primary/30 shadow-sm"
                         : "bg-card/80 border-border/50 hover:bg-muted/50 hover:border-border"
                     )}
                     onClick={() => handleItemClick(item.id)}
                     onMouseEnter={() => setHoveredItemId(item.id)}
                     onMouseLeave={() => setHoveredItemId(null)}
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
+                    whileHover={editingItemId === item.id ? undefined : { scale: 1.02 }}
+                    whileTap={editingItemId === item.id ? undefined : { scale: 0.98 }}
                   >
-                    {/* Delete Button */}
+                    {/* Favorite, Tag & Delete Buttons */}
                     <AnimatePresence>
-                      {hoveredItemId === item.id && (
-                        <motion.button
+                      {(hoveredItemId === item.id || item.favorite) && (
+                        <motion.div
                           initial={{ opacity: 0, scale: 0.8 }}
                           animate={{ opacity: 1, scale: 1 }}
                           exit={{ opacity: 0, scale: 0.8 }}
-                          onClick={(e) => handleDeleteItem(e, item.id)}
-                          className="absolute top-2 right-2 p-1 rounded-full bg-red-500/80 hover:bg-red-500 text-white transition-colors z-10"
-                          whileHover={{ scale: 1.1 }}
-                          whileTap={{ scale: 0.9 }}
+                          className="absolute top-2 right-2 flex flex-col gap-1 z-10"
                         >
-                          <Trash2 className="w-3 h-3" />
-                        </motion.button>
+                          <button
+                            onClick={(e) => handleToggleFavorite(e, item.id)}
+                            data-testid="history-favorite"
+                            className={cn(
+                              "p-1 rounded-full transition-colors",
+                              item.favorite ? "text-yellow-500" : "text-muted-foreground hover:text-yellow-500"
+                            )}
+                          >
+                            <Star className="w-3 h-3" fill={item.favorite ? "currentColor" : "none"} />
+                          </button>
+                          {hoveredItemId === item.id && (
+                            <>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setTaggingItemId(item.id);
+                                  setTagInput('');
+                                }}
+                                className="p-1 rounded-full text-muted-foreground hover:text-foreground transition-colors"
+                              >
+                                <Tag className="w-3 h-3" />
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setSharingItemId(sharingItemId === item.id ? null : item.id);
+                                }}
+                                data-testid="history-share"
+                                title="Share"
+                                className="p-1 rounded-full text-muted-foreground hover:text-foreground transition-colors"
+                              >
+                                <Share2 className="w-3 h-3" />
+                              </button>
+                              {item.turns.length === 0 && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingItemId(item.id);
+                                    setRevisionsItemId(null);
+                                  }}
+                                  data-testid="history-edit"
+                                  title="Edit"
+                                  className="p-1 rounded-full text-muted-foreground hover:text-foreground transition-colors"
+                                >
+                                  <Pencil className="w-3 h-3" />
+                                </button>
+                              )}
+                              <button
+                                onClick={(e) => handleDeleteItem(e, item.id)}
+                                className="p-1 rounded-full bg-red-500/80 hover:bg-red-500 text-white transition-colors"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            </>
+                          )}
+                        </motion.div>
                       )}
                     </AnimatePresence>
                     
                     {/* Content */}
-                    <div className="space-y-2 pr-8">
+                    <div className={cn("space-y-2 pr-8", selectionMode && "pl-5")}>
+                      {selectionMode && (
+                        <input
+                          type="checkbox"
+                          readOnly
+                          checked={selectedIds.includes(item.id)}
+                          className="absolute left-2 top-3.5 rounded"
+                        />
+                      )}
+                      {editingItemId === item.id ? (
+                        <HistoryItemEditor
+                          item={item}
+                          onSave={(text) => {
+                            reviseHistoryItem(item.id, text);
+                            setEditingItemId(null);
+                          }}
+                          onCancel={() => setEditingItemId(null)}
+                        />
+                      ) : (
+                      <>
                       {/* Text Preview */}
                       <div className="text-sm text-foreground font-medium line-clamp-2">
                         {item.transcribedText.length > 50 
@@ -202,19 +594,102 @@ export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistor
                         </div>
                       )}
                       
+                      {/* Tags */}
+                      {(item.tags.length > 0 || taggingItemId === item.id) && (
+                        <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                          {item.tags.map(tag => (
+                            <span key={tag} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-muted text-[10px] text-muted-foreground">
+                              #{tag}
+                              <button onClick={() => removeTag(item.id, tag)} className="hover:text-foreground">
+                                <X className="w-2.5 h-2.5" />
+                              </button>
+                            </span>
+                          ))}
+                          {taggingItemId === item.id && (
+                            <input
+                              autoFocus
+                              value={tagInput}
+                              onChange={(e) => setTagInput(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleTagSubmit(item.id);
+                                if (e.key === 'Escape') setTaggingItemId(null);
+                              }}
+                              onBlur={() => setTaggingItemId(null)}
+                              placeholder="Add tag"
+                              data-testid="history-tag-input"
+                              className="w-20 px-1.5 py-0.5 text-[10px] bg-background border border-border/50 rounded-full focus:outline-none"
+                            />
+                          )}
+                        </div>
+                      )}
+
                       {/* Metadata */}
                       <div className="flex items-center justify-between text-xs text-muted-foreground">
-                        <span>{formatDate(item.createdAt)}</span>
+                        <span className="flex items-center gap-1.5">
+                          {item.audio && (
+                            <button
+                              onClick={(e) => handlePlayStoredAudio(e, item.id)}
+                              data-testid="history-play-audio"
+                              className="p-0.5 rounded-full text-primary hover:bg-primary/10 transition-colors"
+                              title="Play saved audio"
+                            >
+                              {playingItemId === item.id
+                                ? <Square className="w-3 h-3" />
+                                : <Play className="w-3 h-3" />}
+                            </button>
+                          )}
+                          {item.document && (
+                            <span title={item.document.fileName} data-testid="history-document">
+                              <FileText className="w-3 h-3" />
+                            </span>
+                          )}
+                          {item.revisions.length > 0 && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setRevisionsItemId(revisionsItemId === item.id ? null : item.id);
+                              }}
+                              data-testid="history-revisions-toggle"
+                              className={cn(
+                                "inline-flex items-center gap-0.5 p-0.5 rounded-full transition-colors",
+                                revisionsItemId === item.id ? "text-primary" : "hover:text-foreground"
+                              )}
+                              title="Show earlier versions"
+                            >
+                              <History className="w-3 h-3" />
+                              {item.revisions.length}
+                            </button>
+                          )}
+                          {formatDate(item.createdAt)}
+                        </span>
                         <div className="flex items-center gap-1">
-                          <span>{getLanguageDisplayName(item.sourceLang)}</span>
+                          <span>{getLanguageShortLabel(item.sourceLang)}</span>
                           {item.translatedText && (
                             <>
                               <span>→</span>
-                              <span>{getLanguageDisplayName(item.targetLang)}</span>
+                              <span>{getLanguageShortLabel(item.targetLang)}</span>
                             </>
                           )}
+                          {item.qualityScore !== null && (
+                            <QualityBadge score={item.qualityScore} compact className="ml-1" />
+                          )}
                         </div>
                       </div>
+
+                      {/* Earlier versions */}
+                      {revisionsItemId === item.id && (
+                        <HistoryRevisions
+                          item={item}
+                          onRestore={(text) => reviseHistoryItem(item.id, text)}
+                        />
+                      )}
+
+                      {/* Share link, QR code and HTML file */}
+                      {sharingItemId === item.id && (
+                        <SharePanel item={item} getAudio={getAudio} />
+                      )}
+                      </>
+                      )}
                     </div>
                     
                     {/* Active Indicator */}
@@ -229,6 +704,16 @@ export function Sidebar({ className, onHistoryLoad, onResetSession, activeHistor
                 ))
               )}
             </AnimatePresence>
+
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                data-testid="history-load-more"
+                className="w-full py-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Load more ({visibleHistory.length} of {filteredHistory.length})
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,67 @@
+import { AlertCircle, CloudOff, Languages, Loader2, RotateCcw, Volume2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getLanguageShortLabel } from "@/lib/languages";
+import type { useRequestQueue, QueuedRequest } from "@/hooks/useRequestQueue";
+
+const STATUS_LABELS: Record<QueuedRequest["status"], string> = {
+  pending: "Waiting for connection",
+  sending: "Sending...",
+  failed: "Failed",
+};
+
+// Requests made offline that have not reached the history yet
+export function PendingRequests({ requestQueue }: { requestQueue: ReturnType<typeof useRequestQueue> }) {
+  const { queue, isOnline, retryAll, removeRequest } = requestQueue;
+  if (isOnline && queue.length === 0) return null;
+
+  const hasFailed = queue.some(request => request.status === "failed");
+
+  return (
+    <div className="space-y-2" data-testid="pending-requests">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <CloudOff className={cn("w-3.5 h-3.5", !isOnline && "text-amber-500")} />
+          {isOnline ? "Pending" : "Offline"}
+          {queue.length > 0 && ` · ${queue.length} queued`}
+        </span>
+        {hasFailed && isOnline && (
+          <button onClick={retryAll} className="flex items-center gap-1 hover:text-foreground transition-colors" data-testid="pending-retry">
+            <RotateCcw className="w-3 h-3" />
+            Retry
+          </button>
+        )}
+      </div>
+
+      {queue.map(request => (
+        <div
+          key={request.id}
+          className="flex items-start gap-2 p-2 rounded-lg border border-dashed border-border/70 bg-muted/30 text-xs"
+          data-testid="pending-request"
+        >
+          {request.kind === "translation"
+            ? <Languages className="w-3 h-3 mt-0.5 shrink-0 text-muted-foreground" />
+            : <Volume2 className="w-3 h-3 mt-0.5 shrink-0 text-muted-foreground" />}
+          <div className="flex-1 min-w-0 space-y-0.5">
+            <p className="text-foreground truncate">{request.text}</p>
+            <p
+              className={cn("flex items-center gap-1 text-[10px]", request.status === "failed" ? "text-red-500" : "text-muted-foreground")}
+              title={request.lastError ?? undefined}
+            >
+              {request.status === "sending" && <Loader2 className="w-2.5 h-2.5 animate-spin" />}
+              {request.status === "failed" && <AlertCircle className="w-2.5 h-2.5" />}
+              {request.kind === "translation" ? `→ ${getLanguageShortLabel(request.targetLang)} · ` : "Audio · "}
+              {STATUS_LABELS[request.status]}
+            </p>
+          </div>
+          <button
+            onClick={() => removeRequest(request.id)}
+            className="p-0.5 rounded-full text-muted-foreground hover:text-foreground transition-colors"
+            title="Remove from queue"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getProviderKeys, saveProviderKey, type ProviderKeyId } from "@/lib/storage";
+
+const PROVIDERS: { id: ProviderKeyId; name: string }[] = [
+  { id: "deepl", name: "DeepL" },
+  { id: "elevenlabs", name: "ElevenLabs" },
+];
+
+// Only the end of a saved key is ever shown
+const maskKey = (key: string) => `••••${key.slice(-4)}`;
+
+// Desktop only: the keys are saved in the app data directory and sent with each API request
+export function ProviderKeySettings({ onChange }: { onChange: () => void }) {
+  const [savedKeys, setSavedKeys] = useState(getProviderKeys);
+  const [drafts, setDrafts] = useState<Record<ProviderKeyId, string>>({ deepl: "", elevenlabs: "" });
+  const [savingProvider, setSavingProvider] = useState<ProviderKeyId | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (provider: ProviderKeyId, key: string) => {
+    setSavingProvider(provider);
+    setError(null);
+    try {
+      await saveProviderKey(provider, key);
+      setSavedKeys(getProviderKeys());
+      setDrafts(prev => ({ ...prev, [provider]: "" }));
+      onChange();
+    } catch (saveError) {
+      // Tauri commands reject with the error string
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSavingProvider(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t border-border/50 pt-4" data-testid="provider-keys">
+      <div>
+        <p className="text-sm font-medium text-foreground flex items-center gap-1.5">
+          <KeyRound className="w-4 h-4" />
+          API Keys
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Saved on this computer and used instead of the server's keys
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {PROVIDERS.map(({ id, name }) => {
+          const saved = savedKeys[id];
+          return (
+            <div key={id} className="space-y-1">
+              <label htmlFor={`provider-key-${id}`} className="text-xs font-medium text-foreground flex justify-between">
+                {name}
+                <span className="text-muted-foreground font-normal">{saved ? maskKey(saved) : "Not set"}</span>
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id={`provider-key-${id}`}
+                  type="password"
+                  autoComplete="off"
+                  value={drafts[id]}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+                  placeholder={saved ? "Enter a new key" : `${name} API key`}
+                  data-testid={`provider-key-${id}`}
+                  className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+                />
+                <Button
+                  onClick={() => save(id, drafts[id])}
+                  disabled={!drafts[id].trim() || savingProvider !== null}
+                  variant="outline"
+                  size="sm"
+                  data-testid={`provider-key-${id}-save`}
+                >
+                  Save
+                </Button>
+                {saved && (
+                  <Button
+                    onClick={() => save(id, "")}
+                    disabled={savingProvider !== null}
+                    variant="ghost"
+                    size="sm"
+                    data-testid={`provider-key-${id}-remove`}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CONFIDENCE_LABELS, getConfidenceLevel, type ConfidenceLevel } from "@/lib/translation-quality";
+
+interface QualityBadgeProps {
+  // Back-translation similarity, 0 to 1
+  score: number;
+  // Compact badges only show the percentage
+  compact?: boolean;
+  className?: string;
+}
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: "bg-green-500/10 text-green-700 dark:text-green-400",
+  medium: "bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  low: "bg-red-500/10 text-red-600 dark:text-red-400",
+};
+
+export function QualityBadge({ score, compact = false, className }: QualityBadgeProps) {
+  const level = getConfidenceLevel(score);
+  const Icon = level === "high" ? ShieldCheck : ShieldAlert;
+  const percentage = Math.round(score * 100);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full font-medium",
+        compact ? "px-1.5 text-[10px]" : "px-2 py-0.5 text-xs",
+        CONFIDENCE_STYLES[level],
+        className
+      )}
+      title={`${CONFIDENCE_LABELS[level]}: the back-translation matches ${percentage}% of the original`}
+      data-testid="quality-badge"
+    >
+      {!compact && <Icon className="w-3 h-3" />}
+      {compact ? `${percentage}%` : `${CONFIDENCE_LABELS[level]} · ${percentage}%`}
+    </span>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Check, Copy, Download, Loader2, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { createQrCode, qrCodeToSvgPath } from "@/lib/qr-code";
+import {
+  createShareLink,
+  createSharedTranslation,
+  downloadSharePage,
+  type ShareLink,
+  type SharedTranslation,
+} from "@/lib/share";
+import type { HistoryItem } from "@/hooks/useHistory";
+
+interface SharePanelProps {
+  item: HistoryItem;
+  getAudio: (id: string) => Promise<Blob | null>;
+}
+
+interface ShareState {
+  shared: SharedTranslation;
+  link: ShareLink | null;
+  qr: { size: number; path: string } | null;
+}
+
+const QR_BORDER = 4;
+
+// Link, QR code and HTML file for one history entry; everything is built here, nothing is uploaded
+export function SharePanel({ item, getAudio }: SharePanelProps) {
+  const [state, setState] = useState<ShareState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setState(null);
+    setError(null);
+
+    (async () => {
+      const audio = item.audio ? await getAudio(item.id).catch(() => null) : null;
+      const shared = await createSharedTranslation(item, audio);
+      const link = await createShareLink(shared);
+
+      // The code only carries the text, so it stays small enough to scan
+      let qr: ShareState["qr"] = null;
+      const qrLink = link?.includesAudio ? await createShareLink(shared, false) : link;
+      if (qrLink) {
+        try {
+          const code = createQrCode(qrLink.url, "L");
+          qr = { size: code.size + QR_BORDER * 2, path: qrCodeToSvgPath(code, QR_BORDER) };
+        } catch {
+          qr = null;
+        }
+      }
+      if (!cancelled) setState({ shared, link, qr });
+    })().catch(shareError => {
+      console.error("Share error:", shareError);
+      if (!cancelled) setError(shareError instanceof Error ? shareError.message : "The share link could not be created");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item, getAudio]);
+
+  const handleCopy = async () => {
+    if (!state?.link) return;
+    try {
+      await navigator.clipboard.writeText(state.link.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      console.error("Clipboard error:", copyError);
+      setError("The link could not be copied");
+    }
+  };
+
+  // Phones hand the link to the system share sheet
+  const handleNativeShare = () => {
+    if (!state?.link) return;
+    navigator.share({ title: "VoicePal translation", url: state.link.url }).catch(() => {});
+  };
+
+  if (error || !state) {
+    return (
+      <div className="border-t border-border/50 pt-2 text-[10px]" onClick={(e) => e.stopPropagation()}>
+        {error ? (
+          <p className="text-red-500" data-testid="share-error">{error}</p>
+        ) : (
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Preparing share link...
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 border-t border-border/50 pt-2" onClick={(e) => e.stopPropagation()} data-testid="share-panel">
+      {state.qr ? (
+        <svg
+          viewBox={`0 0 ${state.qr.size} ${state.qr.size}`}
+          shapeRendering="crispEdges"
+          className="w-full max-w-[12rem] mx-auto rounded-md"
+          role="img"
+          aria-label="QR code of the share link"
+          data-testid="share-qr"
+        >
+          <rect width={state.qr.size} height={state.qr.size} fill="#ffffff" />
+          <path d={state.qr.path} fill="#000000" />
+        </svg>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">
+          {state.link
+            ? "This text is too long for a QR code; send the link or the HTML file instead."
+            : "Links need the address of the web app (VITE_SHARE_URL); the HTML file works everywhere."}
+        </p>
+      )}
+
+      {state.link && (
+        <>
+          <input
+            readOnly
+            value={state.link.url}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-2 py-1 text-[10px] bg-background border border-border/50 rounded-md text-muted-foreground focus:outline-none"
+            data-testid="share-link"
+          />
+          {state.shared.audio && !state.link.includesAudio && (
+            <p className="text-[10px] text-muted-foreground">The audio is too long for the link; it is only in the HTML file.</p>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-1">
+        {state.link && typeof navigator.share === "function" && (
+          <Button onClick={handleNativeShare} variant="ghost" size="sm" className="h-7 px-2 text-xs">
+            <Share2 className="w-3 h-3 mr-1" />
+            Share
+          </Button>
+        )}
+        {state.link && (
+          <Button onClick={handleCopy} variant="outline" size="sm" className="h-7 px-2 text-xs" data-testid="share-copy">
+            {copied ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
+            {copied ? "Copied" : "Copy link"}
+          </Button>
+        )}
+        <Button
+          onClick={() => downloadSharePage(state.shared)}
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          data-testid="share-download"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          HTML
+        </Button>
+      </div>
+    </div>
+  );
+}
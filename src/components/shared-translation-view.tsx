@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Languages, Loader2 } from "lucide-react";
+import { ThemeProvider } from "@/components/theme-provider";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { getLanguageName } from "@/lib/languages";
+import { decodeShareFragment, getAudioDataUrl, type SharedTranslation } from "@/lib/share";
+import VoicePalLogo from "@/assets/voicepal-logo.svg";
+
+// What a share link opens: the shared translation, read-only, decoded from the
+// URL fragment in the browser
+export function SharedTranslationView({ hash }: { hash: string }) {
+  const [shared, setShared] = useState<SharedTranslation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setShared(null);
+    setError(null);
+    decodeShareFragment(hash)
+      .then(result => {
+        if (!cancelled) setShared(result);
+      })
+      .catch(decodeError => {
+        if (!cancelled) setError(decodeError instanceof Error ? decodeError.message : "This share link could not be opened");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  return (
+    <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+        <div className="max-w-2xl mx-auto px-6 py-10 space-y-8">
+          <header className="flex items-center justify-between">
+            <a href={window.location.pathname} className="flex items-center gap-2 text-sm font-semibold text-foreground">
+              <img src={VoicePalLogo} alt="" className="w-6 h-6" />
+              VoicePal
+            </a>
+            <ThemeToggle />
+          </header>
+
+          {error ? (
+            <p className="text-sm text-red-500" data-testid="shared-error">{error}</p>
+          ) : !shared ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Opening shared translation...
+            </div>
+          ) : (
+            <main className="space-y-6 bg-card/80 border border-border/50 rounded-xl p-6 shadow-sm" data-testid="shared-translation">
+              <section className="space-y-2">
+                <h2 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  {getLanguageName(shared.sourceLang)}
+                </h2>
+                <p className="text-muted-foreground leading-relaxed whitespace-pre-wrap" lang={shared.sourceLang}>
+                  {shared.sourceText}
+                </p>
+              </section>
+
+              {shared.translatedText && (
+                <section className="space-y-2">
+                  <h2 className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    <Languages className="w-3.5 h-3.5" />
+                    {getLanguageName(shared.targetLang)}
+                  </h2>
+                  <p className="text-2xl font-semibold text-foreground leading-relaxed whitespace-pre-wrap" lang={shared.targetLang}>
+                    {shared.translatedText}
+                  </p>
+                </section>
+              )}
+
+              {shared.audio && (
+                <audio controls src={getAudioDataUrl(shared.audio)} className="w-full" data-testid="shared-audio" />
+              )}
+
+              {shared.createdAt && (
+                <p className="text-xs text-muted-foreground">{new Date(shared.createdAt).toLocaleString()}</p>
+              )}
+            </main>
+          )}
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+}
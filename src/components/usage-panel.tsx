@@ -0,0 +1,199 @@
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  PROVIDER_NAMES,
+  USAGE_KIND_LABELS,
+  formatCharacters,
+  getUsageToday,
+  type UsageKind,
+  type UsageReport,
+  type UsageThresholds,
+} from "@/lib/usage";
+
+interface UsagePanelProps {
+  report: UsageReport | null;
+  loading: boolean;
+  errorMessage: string;
+  thresholds: UsageThresholds;
+  onRefresh: () => void;
+  onWarnAtPercentChange: (percent: number) => void;
+  onDailyBudgetChange: (kind: UsageKind, characters: number) => void;
+}
+
+// Days shown in the chart, the report keeps more
+const CHART_DAYS = 14;
+
+const PROVIDER_COLORS: Record<string, string> = {
+  "deepl-free": "bg-blue-500",
+  "deepl-pro": "bg-indigo-500",
+  "libretranslate": "bg-emerald-500",
+  "mock": "bg-slate-400",
+  "elevenlabs": "bg-purple-500",
+};
+
+const getProviderColor = (provider: string) => PROVIDER_COLORS[provider] ?? "bg-amber-500";
+
+// "2026-10-19" -> "Oct 19", read as UTC like the server wrote it
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+const USAGE_KINDS: UsageKind[] = ["translation", "speech"];
+
+export function UsagePanel({
+  report,
+  loading,
+  errorMessage,
+  thresholds,
+  onRefresh,
+  onWarnAtPercentChange,
+  onDailyBudgetChange,
+}: UsagePanelProps) {
+  const days = report?.days.slice(-CHART_DAYS) ?? [];
+  const dayTotals = days.map(day =>
+    Object.values(day.providers).reduce((total, counter) => total + counter.characters, 0)
+  );
+  const maxDayTotal = Math.max(1, ...dayTotals);
+  const providers = Object.keys(report?.totals ?? {});
+
+  return (
+    <div className="space-y-4 border-t border-border/50 pt-4" data-testid="usage-panel">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-foreground">Usage &amp; Quotas</p>
+          <p className="text-xs text-muted-foreground">
+            Characters sent to the translation and speech providers, cached results are free
+          </p>
+        </div>
+        <Button onClick={onRefresh} disabled={loading} variant="outline" size="sm" data-testid="usage-refresh">
+          <RefreshCw className={cn("w-3 h-3 mr-1", loading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {errorMessage && !report && (
+        <p className="text-xs text-red-600">Usage is unavailable: {errorMessage}</p>
+      )}
+
+      {/* Provider-side quotas */}
+      {report && report.quotas.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {report.quotas.map(quota => {
+            const percent = quota.limit > 0 ? Math.min(100, (quota.used / quota.limit) * 100) : 0;
+            return (
+              <div key={quota.provider} className="space-y-1" data-testid={`usage-quota-${quota.provider}`}>
+                <div className="flex justify-between text-xs">
+                  <span className="font-medium text-foreground">{quota.name}</span>
+                  <span className="text-muted-foreground">
+                    {formatCharacters(quota.used)} / {formatCharacters(quota.limit)}
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full rounded-full transition-all",
+                      percent >= 100 ? "bg-red-500" : percent >= thresholds.warnAtPercent ? "bg-amber-500" : "bg-primary"
+                    )}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                {quota.resets_at && (
+                  <p className="text-xs text-muted-foreground">
+                    Resets {new Date(quota.resets_at).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {report?.quota_errors.map(failure => (
+        <p key={failure.provider} className="text-xs text-amber-600">
+          Could not read the {PROVIDER_NAMES[failure.provider] ?? failure.provider} quota: {failure.error}
+        </p>
+      ))}
+
+      {/* Daily characters per provider, stacked */}
+      {report && (
+        <div className="space-y-2">
+          <div className="flex items-end gap-1 h-32" data-testid="usage-chart">
+            {days.map((day, index) => (
+              <div
+                key={day.date}
+                className="flex-1 h-full flex flex-col justify-end"
+                title={`${formatDay(day.date)}: ${formatCharacters(dayTotals[index])} characters`}
+              >
+                {Object.entries(day.providers).map(([provider, counter]) => (
+                  <div
+                    key={provider}
+                    className={cn("w-full first:rounded-t", getProviderColor(provider))}
+                    style={{ height: `${(counter.characters / maxDayTotal) * 100}%` }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground">
+            <span>{days[0] && formatDay(days[0].date)}</span>
+            <span>Today</span>
+          </div>
+          {providers.length > 0 ? (
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              {providers.map(provider => (
+                <span key={provider} className="inline-flex items-center gap-1.5">
+                  <span className={cn("w-2 h-2 rounded-full", getProviderColor(provider))} />
+                  {PROVIDER_NAMES[provider] ?? provider}: {formatCharacters(report.totals[provider].characters)}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">No characters sent to a provider yet</p>
+          )}
+        </div>
+      )}
+
+      {/* Warning thresholds */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <label htmlFor="usage-warn-percent" className="text-xs font-medium text-foreground">
+            Warn at quota share (%)
+          </label>
+          <input
+            id="usage-warn-percent"
+            type="number"
+            min={1}
+            max={100}
+            value={thresholds.warnAtPercent}
+            onChange={(e) => onWarnAtPercentChange(Number(e.target.value))}
+            data-testid="usage-warn-percent"
+            className="w-full px-3 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        </div>
+        {USAGE_KINDS.map(kind => (
+          <div key={kind} className="space-y-1">
+            <label htmlFor={`usage-budget-${kind}`} className="text-xs font-medium text-foreground flex justify-between">
+              {USAGE_KIND_LABELS[kind]} budget per day
+              {report && (
+                <span className="text-muted-foreground font-normal">
+                  {formatCharacters(getUsageToday(report, kind))} today
+                </span>
+              )}
+            </label>
+            <input
+              id={`usage-budget-${kind}`}
+              type="number"
+              min={0}
+              step={1000}
+              value={thresholds.dailyBudgets[kind] || ""}
+              onChange={(e) => onDailyBudgetChange(kind, Number(e.target.value))}
+              placeholder="No limit"
+              data-testid={`usage-budget-${kind}`}
+              className="w-full px-3 py-1.5 text-sm bg-background/50 border border-border/50 rounded-md focus:outline-none focus:ring-2 focus:ring-primary/50"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  isSupportedAudioFile,
+  transcribeAudioFile,
+  type FileTranscription,
+  type TranscriptSegment,
+} from '@/lib/speech-recognizers';
+
+// Type definitions
+type FileTranscriptionStatus = 'idle' | 'transcribing' | 'success' | 'error';
+
+interface AudioFileTranscriptionHook {
+  file: File | null;
+  transcript: string;
+  segments: TranscriptSegment[];
+  duration: number;
+  status: FileTranscriptionStatus;
+  errorMessage: string | null;
+  transcribeFile: (file: File, language: string) => Promise<FileTranscription | null>;
+  clearFile: () => void;
+}
+
+interface AudioFileTranscriptionOptions {
+  // Whisper server that receives the recording
+  endpoint: string;
+}
+
+export const useAudioFileTranscription = ({ endpoint }: AudioFileTranscriptionOptions): AudioFileTranscriptionHook => {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<FileTranscription | null>(null);
+  const [status, setStatus] = useState<FileTranscriptionStatus>('idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Only the latest upload may update the state
+  const requestIdRef = useRef(0);
+
+  const transcribeFile = useCallback(async (nextFile: File, language: string) => {
+    const requestId = ++requestIdRef.current;
+    setFile(nextFile);
+    setResult(null);
+
+    if (!isSupportedAudioFile(nextFile)) {
+      setErrorMessage('Unsupported file type. Please upload a WAV, MP3 or WebM recording.');
+      setStatus('error');
+      return null;
+    }
+
+    setErrorMessage(null);
+    setStatus('transcribing');
+
+    try {
+      const transcription = await transcribeAudioFile(nextFile, { endpoint, language });
+      if (requestId !== requestIdRef.current) return null;
+
+      if (!transcription.text) {
+        throw new Error('No speech was found in the recording');
+      }
+
+      setResult(transcription);
+      setStatus('success');
+      return transcription;
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return null;
+      console.error('FILE TRANSCRIPTION ERROR:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Transcription failed');
+      setStatus('error');
+      return null;
+    }
+  }, [endpoint]);
+
+  const clearFile = useCallback(() => {
+    requestIdRef.current++;
+    setFile(null);
+    setResult(null);
+    setErrorMessage(null);
+    setStatus('idle');
+  }, []);
+
+  return {
+    file,
+    transcript: result?.text ?? '',
+    segments: result?.segments ?? [],
+    duration: result?.duration ?? 0,
+    status,
+    errorMessage,
+    transcribeFile,
+    clearFile
+  };
+};
@@ -0,0 +1,234 @@
+import { useState, useCallback, useRef } from 'react';
+import { RateLimitError, requestBatchTranslation, type TranslationOptions } from '@/hooks/useTranslation';
+import { joinTextParts } from '@/lib/languages';
+import {
+  buildTranslatedDocument,
+  getTranslatedFileName,
+  parseDocument,
+  planTranslationBatches,
+  type DocumentFormat,
+  type TranslatableDocument,
+  type TranslationChunk,
+} from '@/lib/documents';
+
+// Type definitions
+type DocumentStatus = 'idle' | 'reading' | 'ready' | 'translating' | 'success' | 'error';
+
+export interface DocumentProgress {
+  done: number;
+  total: number;
+}
+
+export interface DocumentTranslation {
+  document: TranslatableDocument;
+  translations: string[];
+  targetLang: string;
+}
+
+interface DocumentTranslationHook {
+  document: TranslatableDocument | null;
+  // The segments translated so far, in document order; one per segment on success
+  translations: string[];
+  targetLang: string | null;
+  status: DocumentStatus;
+  progress: DocumentProgress;
+  errorMessage: string | null;
+  loadDocument: (file: File) => Promise<TranslatableDocument | null>;
+  translateDocument: (targetLang: string, sourceLang: string, options?: TranslationOptions) => Promise<DocumentTranslation | null>;
+  downloadTranslation: () => Promise<void>;
+  // Shows a translation saved in the history; the original file is not kept there
+  showSavedTranslation: (saved: { fileName: string; format: DocumentFormat; sourceText: string; translatedText: string; targetLang: string }) => void;
+  clearDocument: () => void;
+}
+
+// Batches translated before a run stopped, picked up by the next run with the same settings
+interface PartialTranslation {
+  document: TranslatableDocument;
+  settings: string;
+  parts: string[][];
+  nextBatch: number;
+}
+
+const NO_PROGRESS: DocumentProgress = { done: 0, total: 0 };
+
+// A long document empties the rate limit bucket; each batch waits out Retry-After this many times
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Segments whose last chunk is translated
+const countDoneSegments = (batches: TranslationChunk[][], nextBatch: number) => {
+  const lastChunk = batches[nextBatch - 1]?.[batches[nextBatch - 1].length - 1];
+  return lastChunk ? lastChunk.segment + (lastChunk.last ? 1 : 0) : 0;
+};
+
+export const useDocumentTranslation = (): DocumentTranslationHook => {
+  const [current, setCurrent] = useState<TranslatableDocument | null>(null);
+  const [translations, setTranslations] = useState<string[]>([]);
+  const [targetLang, setTargetLang] = useState<string | null>(null);
+  const [status, setStatus] = useState<DocumentStatus>('idle');
+  const [progress, setProgress] = useState<DocumentProgress>(NO_PROGRESS);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // Only the latest upload or translation may update the state
+  const requestIdRef = useRef(0);
+  const partialRef = useRef<PartialTranslation | null>(null);
+
+  const loadDocument = useCallback(async (file: File) => {
+    const requestId = ++requestIdRef.current;
+    partialRef.current = null;
+    setCurrent(null);
+    setTranslations([]);
+    setTargetLang(null);
+    setProgress(NO_PROGRESS);
+    setErrorMessage(null);
+    setStatus('reading');
+
+    try {
+      const parsed = await parseDocument(file);
+      if (requestId !== requestIdRef.current) return null;
+      setCurrent(parsed);
+      setProgress({ done: 0, total: parsed.segments.length });
+      setStatus('ready');
+      return parsed;
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return null;
+      console.error('DOCUMENT READ ERROR:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'The document could not be read');
+      setStatus('error');
+      return null;
+    }
+  }, []);
+
+  // Batches go out one after another so progress follows the document. A run that
+  // fails keeps the segments translated so far; translating again with the same
+  // settings continues from the first missing batch.
+  const translateDocument = useCallback(async (nextTargetLang: string, sourceLang: string, options: TranslationOptions = {}) => {
+    if (!current) return null;
+    const requestId = ++requestIdRef.current;
+    const total = current.segments.length;
+    const batches = planTranslationBatches(current.segments);
+    const settings = JSON.stringify([nextTargetLang, sourceLang, options]);
+
+    const saved = partialRef.current;
+    const partial: PartialTranslation = saved && saved.document === current && saved.settings === settings
+      ? saved
+      : { document: current, settings, parts: current.segments.map(() => []), nextBatch: 0 };
+    partialRef.current = partial;
+
+    const getDoneTranslations = () =>
+      partial.parts.slice(0, countDoneSegments(batches, partial.nextBatch)).map(joinTextParts);
+
+    // Null once a newer upload or translation took over
+    const translateBatch = async (batch: TranslationChunk[]) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await requestBatchTranslation(batch.map(chunk => chunk.text), [nextTargetLang], sourceLang, options);
+          return requestId === requestIdRef.current ? result : null;
+        } catch (error) {
+          if (requestId !== requestIdRef.current) return null;
+          if (!(error instanceof RateLimitError) || attempt === MAX_RATE_LIMIT_RETRIES) throw error;
+          await wait(error.retryAfterSeconds * 1000);
+        }
+      }
+    };
+
+    setTranslations(getDoneTranslations());
+    setTargetLang(nextTargetLang);
+    setProgress({ done: countDoneSegments(batches, partial.nextBatch), total });
+    setErrorMessage(null);
+    setStatus('translating');
+
+    try {
+      while (partial.nextBatch < batches.length) {
+        const batch = batches[partial.nextBatch];
+        const result = await translateBatch(batch);
+        if (!result) return null;
+
+        batch.forEach((chunk, index) => partial.parts[chunk.segment].push(result.matrix[index][0].trim()));
+        partial.nextBatch++;
+        setTranslations(getDoneTranslations());
+        setProgress({ done: countDoneSegments(batches, partial.nextBatch), total });
+      }
+
+      partialRef.current = null;
+      const translated = getDoneTranslations();
+      setTranslations(translated);
+      setStatus('success');
+      return { document: current, translations: translated, targetLang: nextTargetLang };
+    } catch (error) {
+      if (requestId !== requestIdRef.current) return null;
+      console.error('DOCUMENT TRANSLATION ERROR:', error);
+      const message = error instanceof Error ? error.message : 'Translation failed';
+      const done = countDoneSegments(batches, partial.nextBatch);
+      setErrorMessage(done > 0
+        ? `${message} ${done} of ${total} segments are translated; translate again to continue.`
+        : message);
+      setStatus('error');
+      return null;
+    }
+  }, [current]);
+
+  const downloadTranslation = useCallback(async () => {
+    if (!current || !targetLang || translations.length === 0) return;
+
+    try {
+      const blob = await buildTranslatedDocument(current, translations);
+      const downloadUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = getTranslatedFileName(current.name, current.format, targetLang);
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(downloadUrl);
+    } catch (error) {
+      console.error('DOCUMENT BUILD ERROR:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'The translated document could not be written');
+      setStatus('error');
+    }
+  }, [current, targetLang, translations]);
+
+  const showSavedTranslation = useCallback((saved: Parameters<DocumentTranslationHook['showSavedTranslation']>[0]) => {
+    requestIdRef.current++;
+    // Word files and PDFs come back as plain text, Markdown stays Markdown
+    setCurrent({
+      name: saved.fileName,
+      format: saved.format === 'md' ? 'md' : 'txt',
+      segments: [saved.sourceText],
+      pieces: [0],
+      docx: null,
+    });
+    setTranslations([saved.translatedText]);
+    setTargetLang(saved.targetLang);
+    setProgress({ done: 1, total: 1 });
+    setErrorMessage(null);
+    setStatus('success');
+  }, []);
+
+  const clearDocument = useCallback(() => {
+    requestIdRef.current++;
+    partialRef.current = null;
+    setCurrent(null);
+    setTranslations([]);
+    setTargetLang(null);
+    setProgress(NO_PROGRESS);
+    setErrorMessage(null);
+    setStatus('idle');
+  }, []);
+
+  return {
+    document: current,
+    translations,
+    targetLang,
+    status,
+    progress,
+    errorMessage,
+    loadDocument,
+    translateDocument,
+    downloadTranslation,
+    showSavedTranslation,
+    clearDocument
+  };
+};
@@ -1,4 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { historyStorage } from '@/lib/storage';
+import { getHistoryContentKey, sanitizeHistoryItem } from '@/lib/history-export';
+import type { TranscriptSegment } from '@/lib/speech-recognizers';
+import type { DocumentFormat } from '@/lib/documents';
+import { normalizeTargetCode } from '@/lib/languages';
 
 export interface HistoryItem {
   id: string;
@@ -8,58 +13,240 @@ export interface HistoryItem {
   sourceLang: string;
   ttsVoice: string;
   createdAt: string;
+  tags: string[];
+  favorite: boolean;
+  // Metadatos del audio guardado; el blob se guarda aparte (historyStorage)
+  audio: HistoryAudioInfo | null;
+  // Tiempos de cada frase (transcripción de archivos de audio); vacío si no hay
+  segments: TranscriptSegment[];
+  // Turnos del modo intérprete, en orden; vacío para el resto de modos
+  turns: ConversationTurn[];
+  // Puntuación de la retrotraducción (0 a 1); null si no se comprobó
+  qualityScore: number | null;
+  // Documento traducido en el modo documento; null para el resto de modos
+  document: HistoryDocumentInfo | null;
+  // Versiones anteriores del texto, de la original a la más reciente; vacío si nunca se editó
+  revisions: HistoryRevision[];
+  // Cuándo se guardó la versión actual del texto; null si es la original
+  editedAt: string | null;
 }
 
-const STORAGE_KEY = 'voicepal-history';
+export interface HistoryRevision {
+  transcribedText: string;
+  translatedText: string;
+  savedAt: string;
+}
+
+export interface ConversationTurn {
+  speaker: 'a' | 'b';
+  text: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  createdAt: string;
+}
+
+export interface HistoryDocumentInfo {
+  fileName: string;
+  format: DocumentFormat;
+  segmentCount: number;
+}
+
+export interface HistoryAudioInfo {
+  voice: string;
+  text: string;
+  size: number;
+  savedAt: string;
+}
+
+export interface HistoryFilters {
+  query: string;
+  tags: string[];
+  favoritesOnly: boolean;
+  // Par de idiomas en formato `${sourceLang}->${targetLang}`
+  languagePair: string | null;
+  from: string | null;
+  to: string | null;
+}
+
+export type NewHistoryItem = Omit<HistoryItem, 'id' | 'createdAt' | 'tags' | 'favorite' | 'audio' | 'segments' | 'turns' | 'qualityScore' | 'document' | 'revisions' | 'editedAt'> &
+  Partial<Pick<HistoryItem, 'tags' | 'favorite' | 'segments' | 'turns' | 'qualityScore' | 'document'>>;
+
+const LEGACY_STORAGE_KEY = 'voicepal-history';
+const PAGE_SIZE = 20;
+// Los items más antiguos que no son favoritos se eliminan por encima de este límite
+const MAX_HISTORY_ITEMS = 1000;
+// Versiones guardadas por item; la original se conserva siempre
+const MAX_REVISIONS = 20;
+// Espacio máximo para audio guardado; se elimina primero el audio más antiguo
+export const HISTORY_AUDIO_QUOTA_BYTES = 50 * 1024 * 1024;
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  tags: [],
+  favoritesOnly: false,
+  languagePair: null,
+  from: null,
+  to: null,
+};
+
+export const getLanguagePair = (item: Pick<HistoryItem, 'sourceLang' | 'targetLang'>) =>
+  `${item.sourceLang}->${item.targetLang}`;
+
+// Items antiguos (localStorage) no tienen tags, favorito, segmentos ni turnos,
+// y pueden guardar 'EN' o 'PT' como idioma de destino. Los campos con un tipo
+// incorrecto (archivos importados o editados a mano) toman el valor por defecto
+const normalizeHistoryItem = (item: Partial<HistoryItem> & Pick<HistoryItem, 'id'>): HistoryItem => {
+  const fields = sanitizeHistoryItem(item);
+  return {
+    transcribedText: '',
+    translatedText: '',
+    sourceLang: '',
+    ttsVoice: '',
+    createdAt: new Date().toISOString(),
+    ...fields,
+    id: item.id,
+    targetLang: normalizeTargetCode(fields.targetLang ?? ''),
+    tags: fields.tags ?? [],
+    favorite: fields.favorite ?? false,
+    audio: fields.audio ?? null,
+    segments: fields.segments ?? [],
+    turns: fields.turns ?? [],
+    qualityScore: fields.qualityScore ?? null,
+    document: fields.document ?? null,
+    revisions: fields.revisions ?? [],
+    editedAt: fields.editedAt ?? null,
+  };
+};
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+const createHistoryId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export interface HistoryImportResult {
+  added: number;
+  merged: number;
+}
+
+const matchesFilters = (item: HistoryItem, filters: HistoryFilters) => {
+  const query = filters.query.trim().toLowerCase();
+  if (query &&
+      !item.transcribedText.toLowerCase().includes(query) &&
+      !item.translatedText.toLowerCase().includes(query)) {
+    return false;
+  }
+  if (filters.favoritesOnly && !item.favorite) return false;
+  if (filters.tags.length > 0 && !filters.tags.every(tag => item.tags.includes(tag))) return false;
+  if (filters.languagePair && getLanguagePair(item) !== filters.languagePair) return false;
+  if (filters.from && item.createdAt < filters.from) return false;
+  if (filters.to && item.createdAt > filters.to) return false;
+  return true;
+};
+
+// Mover el historial guardado en localStorage al almacenamiento actual (una sola vez)
+async function migrateLegacyHistory(): Promise<void> {
+  const savedHistory = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!savedHistory) return;
+
+  const parsedHistory: HistoryItem[] = JSON.parse(savedHistory);
+  await historyStorage.putItems(parsedHistory.map(normalizeHistoryItem));
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+// El texto que se reproduce para un item: la traducción si existe
+export const getSpokenText = (item: Pick<HistoryItem, 'transcribedText' | 'translatedText'>) =>
+  (item.translatedText || item.transcribedText).trim();
+
+const persist = (task: () => Promise<void>) => {
+  if (!historyStorage.isAvailable()) return;
+  task().catch(error => console.error('Error saving history:', error));
+};
 
 export function useHistory() {
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFiltersState] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [page, setPage] = useState(1);
 
-  // Cargar historial desde localStorage al inicializar
+  // Cargar historial guardado al inicializar
   useEffect(() => {
-    try {
-      const savedHistory = localStorage.getItem(STORAGE_KEY);
-      if (savedHistory) {
-        const parsedHistory = JSON.parse(savedHistory);
-        setHistory(parsedHistory);
-      }
-    } catch (error) {
-      console.error('Error loading history from localStorage:', error);
+    if (!historyStorage.isAvailable()) {
+      setIsLoading(false);
+      return;
     }
+
+    let cancelled = false;
+    migrateLegacyHistory()
+      .catch(error => console.error('Error migrating history from localStorage:', error))
+      .then(() => historyStorage.getItems())
+      .then(items => {
+        if (cancelled) return;
+        // Conservar items añadidos mientras se cargaba
+        setHistory(prev => [
+          ...prev.filter(item => !items.some(saved => saved.id === item.id)),
+          ...items.map(normalizeHistoryItem),
+        ]);
+      })
+      .catch(error => console.error('Error loading history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Guardar historial en localStorage cuando cambie
-  useEffect(() => {
-    try {
-      console.log('DEBUG: New history state prepared. Attempting to save to localStorage.');
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-    } catch (error) {
-      console.error('Error saving history to localStorage:', error);
-    }
-  }, [history]);
+  const updateItem = useCallback((id: string, update: (item: HistoryItem) => HistoryItem) => {
+    setHistory(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const updated = update(item);
+      persist(() => historyStorage.putItems([updated]));
+      return updated;
+    }));
+  }, []);
 
   // Añadir nuevo item al historial
-  const addHistoryItem = useCallback((item: Omit<HistoryItem, 'id' | 'createdAt'>) => {
+  const addHistoryItem = useCallback((item: NewHistoryItem) => {
     console.log('DEBUG: addHistoryItem function in hook was called with:', item);
     const newItem: HistoryItem = {
       ...item,
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: createHistoryId(),
       createdAt: new Date().toISOString(),
+      tags: (item.tags ?? []).map(normalizeTag).filter(Boolean),
+      favorite: item.favorite ?? false,
+      audio: null,
+      segments: item.segments ?? [],
+      turns: item.turns ?? [],
+      qualityScore: item.qualityScore ?? null,
+      document: item.document ?? null,
+      revisions: [],
+      editedAt: null,
     };
     console.log('Created new item:', newItem);
 
     setHistory(prev => {
-      console.log('Previous history:', prev);
       const newHistory = [newItem, ...prev];
-      console.log('New history:', newHistory);
+
+      // Respetar el límite eliminando los más antiguos que no son favoritos
+      const overflow = newHistory.length - MAX_HISTORY_ITEMS;
+      if (overflow > 0) {
+        const evicted = newHistory.filter(entry => !entry.favorite).slice(-overflow).map(entry => entry.id);
+        persist(() => historyStorage.deleteItems(evicted));
+        persist(() => historyStorage.deleteAudio(evicted));
+        return newHistory.filter(entry => !evicted.includes(entry.id));
+      }
       return newHistory;
     });
+    persist(() => historyStorage.putItems([newItem]));
     return newItem;
   }, []);
 
   // Eliminar item del historial
   const deleteHistoryItem = useCallback((id: string) => {
     setHistory(prev => prev.filter(item => item.id !== id));
+    persist(() => historyStorage.deleteItems([id]));
+    persist(() => historyStorage.deleteAudio([id]));
   }, []);
 
   // Cargar item del historial (retorna el item para que el componente padre lo use)
@@ -71,6 +258,8 @@ export function useHistory() {
   // Limpiar todo el historial
   const clearHistory = useCallback(() => {
     setHistory([]);
+    persist(() => historyStorage.clearItems());
+    persist(() => historyStorage.clearAudio());
   }, []);
 
   // Obtener item más reciente
@@ -78,12 +267,184 @@ export function useHistory() {
     return history.length > 0 ? history[0] : null;
   }, [history]);
 
+  const toggleFavorite = useCallback((id: string) => {
+    updateItem(id, item => ({ ...item, favorite: !item.favorite }));
+  }, [updateItem]);
+
+  const addTag = useCallback((id: string, tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (!normalized) return;
+    updateItem(id, item => item.tags.includes(normalized) ? item : { ...item, tags: [...item.tags, normalized] });
+  }, [updateItem]);
+
+  const removeTag = useCallback((id: string, tag: string) => {
+    updateItem(id, item => ({ ...item, tags: item.tags.filter(existing => existing !== tag) }));
+  }, [updateItem]);
+
+  // Guardar texto editado como nueva versión; la anterior queda en revisions
+  const reviseHistoryItem = useCallback((id: string, text: Pick<HistoryItem, 'transcribedText' | 'translatedText'>) => {
+    updateItem(id, item => {
+      if (item.transcribedText === text.transcribedText && item.translatedText === text.translatedText) return item;
+
+      const previous: HistoryRevision = {
+        transcribedText: item.transcribedText,
+        translatedText: item.translatedText,
+        savedAt: item.editedAt ?? item.createdAt,
+      };
+      const revisions = [...item.revisions, previous];
+      return {
+        ...item,
+        transcribedText: text.transcribedText,
+        translatedText: text.translatedText,
+        revisions: revisions.length > MAX_REVISIONS
+          ? [revisions[0], ...revisions.slice(-(MAX_REVISIONS - 1))]
+          : revisions,
+        editedAt: new Date().toISOString(),
+      };
+    });
+  }, [updateItem]);
+
+  // Importar items: los duplicados (mismo contenido) se fusionan en vez de añadirse
+  const importHistoryItems = useCallback((items: Partial<HistoryItem>[]): HistoryImportResult => {
+    const byContent = new Map(history.map(item => [getHistoryContentKey(item), item]));
+    const existingIds = new Set(history.map(item => item.id));
+    const added = new Map<string, HistoryItem>();
+    const merged = new Map<string, HistoryItem>();
+
+    for (const raw of items) {
+      const fields = sanitizeHistoryItem(raw);
+      const candidate = normalizeHistoryItem({
+        ...fields,
+        id: fields.id && !existingIds.has(fields.id) ? fields.id : createHistoryId(),
+        tags: (fields.tags ?? []).map(normalizeTag).filter(Boolean),
+        // Las exportaciones no incluyen el audio
+        audio: null,
+      });
+      const key = getHistoryContentKey(candidate);
+      const existing = byContent.get(key);
+
+      if (existing) {
+        const combined: HistoryItem = {
+          ...existing,
+          tags: Array.from(new Set([...existing.tags, ...candidate.tags])),
+          favorite: existing.favorite || candidate.favorite,
+        };
+        byContent.set(key, combined);
+        (added.has(combined.id) ? added : merged).set(combined.id, combined);
+        continue;
+      }
+
+      existingIds.add(candidate.id);
+      byContent.set(key, candidate);
+      added.set(candidate.id, candidate);
+    }
+
+    setHistory(prev => [
+      ...prev.map(item => merged.get(item.id) ?? item),
+      ...added.values(),
+    ].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    persist(() => historyStorage.putItems([...added.values(), ...merged.values()]));
+
+    return { added: added.size, merged: merged.size };
+  }, [history]);
+
+  // Guardar el audio generado junto al item, respetando la cuota
+  const attachAudio = useCallback((id: string, blob: Blob, details: Pick<HistoryAudioInfo, 'voice' | 'text'>) => {
+    if (!historyStorage.isAvailable() || blob.size > HISTORY_AUDIO_QUOTA_BYTES) return;
+
+    const savedAt = new Date().toISOString();
+    const audio: HistoryAudioInfo = { ...details, size: blob.size, savedAt };
+
+    historyStorage.putAudio(id, blob)
+      .then(() => setHistory(prev => {
+        const next = prev.map(item => item.id === id ? { ...item, audio } : item);
+
+        let used = next.reduce((total, item) => total + (item.audio?.size ?? 0), 0);
+        const evicted = new Set<string>();
+        const oldestFirst = next
+          .filter(item => item.audio && item.id !== id)
+          .sort((a, b) => a.audio!.savedAt.localeCompare(b.audio!.savedAt));
+        for (const item of oldestFirst) {
+          if (used <= HISTORY_AUDIO_QUOTA_BYTES) break;
+          used -= item.audio!.size;
+          evicted.add(item.id);
+        }
+
+        const updated = next.map(item => evicted.has(item.id) ? { ...item, audio: null } : item);
+        persist(() => historyStorage.putItems(updated.filter(item => item.id === id || evicted.has(item.id))));
+        if (evicted.size > 0) persist(() => historyStorage.deleteAudio([...evicted]));
+        return updated;
+      }))
+      .catch(error => console.error('Error saving audio:', error));
+  }, []);
+
+  const getAudio = useCallback(async (id: string): Promise<Blob | null> => {
+    if (!historyStorage.isAvailable()) return null;
+    return historyStorage.getAudio(id);
+  }, []);
+
+  // Búsqueda y filtros; cualquier cambio vuelve a la primera página
+  const setFilters = useCallback((update: Partial<HistoryFilters>) => {
+    setFiltersState(prev => ({ ...prev, ...update }));
+    setPage(1);
+  }, []);
+
+  const resetFilters = useCallback(() => {
+    setFiltersState(DEFAULT_HISTORY_FILTERS);
+    setPage(1);
+  }, []);
+
+  const filteredHistory = useMemo(
+    () => history.filter(item => matchesFilters(item, filters)),
+    [history, filters]
+  );
+
+  const visibleHistory = useMemo(
+    () => filteredHistory.slice(0, page * PAGE_SIZE),
+    [filteredHistory, page]
+  );
+
+  const loadMore = useCallback(() => setPage(prev => prev + 1), []);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(history.flatMap(item => item.tags))).sort(),
+    [history]
+  );
+
+  const audioUsage = useMemo(
+    () => history.reduce((total, item) => total + (item.audio?.size ?? 0), 0),
+    [history]
+  );
+
+  const languagePairs = useMemo(
+    () => Array.from(new Set(history.filter(item => item.translatedText).map(getLanguagePair))).sort(),
+    [history]
+  );
+
   return {
     history,
+    isLoading,
     addHistoryItem,
     deleteHistoryItem,
     loadHistoryItem,
     clearHistory,
     getLatestItem,
+    toggleFavorite,
+    addTag,
+    removeTag,
+    reviseHistoryItem,
+    importHistoryItems,
+    attachAudio,
+    getAudio,
+    audioUsage,
+    filters,
+    setFilters,
+    resetFilters,
+    filteredHistory,
+    visibleHistory,
+    hasMore: visibleHistory.length < filteredHistory.length,
+    loadMore,
+    allTags,
+    languagePairs,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  DEFAULT_HOTKEYS,
+  matchesShortcut,
+  hasModifier,
+  isTypingTarget,
+  registerGlobalHotkeys,
+  unregisterGlobalHotkeys,
+  type HotkeyAction,
+  type HotkeyBindings,
+} from '@/lib/hotkeys';
+import { settingsStorage } from '@/lib/storage';
+
+interface HotkeyBindingsHook {
+  bindings: HotkeyBindings;
+  setBinding: (action: HotkeyAction, shortcut: string) => void;
+  resetBindings: () => void;
+}
+
+type HotkeyHandlers = Partial<Record<HotkeyAction, () => void>>;
+
+interface HotkeysHook {
+  // Actions registered as system-wide shortcuts (Tauri only)
+  globalActions: HotkeyAction[];
+  globalError: string | null;
+}
+
+const HOTKEYS_STORAGE_KEY = 'voicepal-hotkeys';
+
+const loadBindings = (): HotkeyBindings => {
+  try {
+    const saved = settingsStorage.getItem(HOTKEYS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_HOTKEYS, ...JSON.parse(saved) } : DEFAULT_HOTKEYS;
+  } catch (error) {
+    console.error('Error loading hotkeys:', error);
+    return DEFAULT_HOTKEYS;
+  }
+};
+
+export const useHotkeyBindings = (): HotkeyBindingsHook => {
+  const [bindings, setBindings] = useState<HotkeyBindings>(loadBindings);
+
+  const updateBindings = useCallback((update: (prev: HotkeyBindings) => HotkeyBindings) => {
+    setBindings(prev => {
+      const next = update(prev);
+      settingsStorage.setItem(HOTKEYS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // A shortcut belongs to one action: taking it from another action unbinds it there
+  const setBinding = useCallback((action: HotkeyAction, shortcut: string) => {
+    updateBindings(prev => {
+      const next = { ...prev, [action]: shortcut };
+      if (shortcut) {
+        (Object.keys(next) as HotkeyAction[]).forEach(other => {
+          if (other !== action && next[other] === shortcut) next[other] = '';
+        });
+      }
+      return next;
+    });
+  }, [updateBindings]);
+
+  const resetBindings = useCallback(() => {
+    updateBindings(() => DEFAULT_HOTKEYS);
+  }, [updateBindings]);
+
+  return {
+    bindings,
+    setBinding,
+    resetBindings
+  };
+};
+
+// Runs the handlers when their shortcut is pressed in the window, and system-wide in the Tauri app
+export const useHotkeys = (bindings: HotkeyBindings, handlers: HotkeyHandlers, enabled = true): HotkeysHook => {
+  const [globalActions, setGlobalActions] = useState<HotkeyAction[]>([]);
+  const [globalError, setGlobalError] = useState<string | null>(null);
+
+  // Handlers change every render, the listeners read the latest ones
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat) return;
+
+      const action = (Object.keys(bindings) as HotkeyAction[]).find(id =>
+        id !== 'push-to-talk' && matchesShortcut(event, bindings[id])
+      );
+      // Registered shortcuts already reach us through Tauri
+      if (!action || globalActions.includes(action)) return;
+      // Plain keys are text while typing, shortcuts with modifiers still work
+      if (isTypingTarget(event.target) && !hasModifier(bindings[action])) return;
+
+      event.preventDefault();
+      handlersRef.current[action]?.();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, globalActions, enabled]);
+
+  // Registering replaces the previous shortcuts, so only disabling has to clear them
+  useEffect(() => {
+    if (!enabled) {
+      setGlobalActions([]);
+      unregisterGlobalHotkeys().catch(error => console.error('Error unregistering global hotkeys:', error));
+      return;
+    }
+
+    let cancelled = false;
+    let unlisten: (() => void) | null = null;
+
+    registerGlobalHotkeys(bindings, action => handlersRef.current[action]?.())
+      .then(result => {
+        if (cancelled) {
+          result.unlisten();
+          return;
+        }
+        unlisten = result.unlisten;
+        setGlobalActions(result.registered);
+        setGlobalError(null);
+      })
+      .catch(error => {
+        console.error('Error registering global hotkeys:', error);
+        if (!cancelled) {
+          setGlobalActions([]);
+          setGlobalError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      unlisten?.();
+    };
+  }, [bindings, enabled]);
+
+  return {
+    globalActions,
+    globalError
+  };
+};
@@ -0,0 +1,153 @@
+import { useState, useCallback } from 'react';
+import { requestTranslation } from './useTranslation';
+import type { ConversationTurn } from './useHistory';
+import { getDeepLSourceCode, getDeepLTargetCode, isSameLanguage } from '@/lib/languages';
+import { settingsStorage } from '@/lib/storage';
+
+export type InterpreterSpeakerId = ConversationTurn['speaker'];
+
+export interface InterpreterSpeaker {
+  id: InterpreterSpeakerId;
+  // Speech locale the person talks in, e.g. 'en-US'
+  language: string;
+  // Catalog voice that reads this person's words to the other one
+  voice: string;
+}
+
+type InterpreterTurnStatus = 'translating' | 'done' | 'error';
+
+export interface InterpreterTurn extends ConversationTurn {
+  id: string;
+  status: InterpreterTurnStatus;
+  errorMessage?: string;
+}
+
+interface InterpreterHook {
+  speakers: Record<InterpreterSpeakerId, InterpreterSpeaker>;
+  updateSpeaker: (id: InterpreterSpeakerId, update: Partial<Omit<InterpreterSpeaker, 'id'>>) => void;
+  turns: InterpreterTurn[];
+  addTurn: (speakerId: InterpreterSpeakerId, text: string) => Promise<InterpreterTurn | null>;
+  loadConversation: (turns: ConversationTurn[]) => void;
+  clearConversation: () => void;
+  isTranslating: boolean;
+}
+
+export const INTERPRETER_SPEAKER_LABELS: Record<InterpreterSpeakerId, string> = {
+  a: 'Speaker A',
+  b: 'Speaker B',
+};
+
+export const getOtherSpeaker = (id: InterpreterSpeakerId): InterpreterSpeakerId => id === 'a' ? 'b' : 'a';
+
+const SPEAKERS_STORAGE_KEY = 'voicepal-interpreter-speakers';
+
+const DEFAULT_SPEAKERS: Record<InterpreterSpeakerId, InterpreterSpeaker> = {
+  a: { id: 'a', language: 'en-US', voice: 'deep-male-narrator' },
+  b: { id: 'b', language: 'es-ES', voice: 'calm-female-voice' },
+};
+
+const loadSpeakers = (): Record<InterpreterSpeakerId, InterpreterSpeaker> => {
+  try {
+    const saved = settingsStorage.getItem(SPEAKERS_STORAGE_KEY);
+    if (!saved) return DEFAULT_SPEAKERS;
+    const parsed = JSON.parse(saved);
+    return {
+      a: { ...DEFAULT_SPEAKERS.a, ...parsed.a, id: 'a' },
+      b: { ...DEFAULT_SPEAKERS.b, ...parsed.b, id: 'b' },
+    };
+  } catch (error) {
+    console.error('Error loading interpreter speakers:', error);
+    return DEFAULT_SPEAKERS;
+  }
+};
+
+const createTurnId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Two people sharing one device: every turn is translated into the other person's language
+export const useInterpreter = (): InterpreterHook => {
+  const [speakers, setSpeakers] = useState(loadSpeakers);
+  const [turns, setTurns] = useState<InterpreterTurn[]>([]);
+
+  const updateSpeaker = useCallback((id: InterpreterSpeakerId, update: Partial<Omit<InterpreterSpeaker, 'id'>>) => {
+    setSpeakers(prev => {
+      const next = { ...prev, [id]: { ...prev[id], ...update } };
+      settingsStorage.setItem(SPEAKERS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const updateTurn = (id: string, update: Partial<InterpreterTurn>) => {
+    setTurns(prev => prev.map(turn => turn.id === id ? { ...turn, ...update } : turn));
+  };
+
+  const addTurn = useCallback(async (speakerId: InterpreterSpeakerId, text: string) => {
+    if (!text.trim()) return null;
+
+    const speaker = speakers[speakerId];
+    const listener = speakers[getOtherSpeaker(speakerId)];
+    const turn: InterpreterTurn = {
+      id: createTurnId(),
+      speaker: speakerId,
+      text: text.trim(),
+      translatedText: '',
+      sourceLang: speaker.language,
+      targetLang: listener.language,
+      createdAt: new Date().toISOString(),
+      status: 'translating',
+    };
+    setTurns(prev => [...prev, turn]);
+
+    // Both people speak the same language: nothing to translate
+    if (isSameLanguage(speaker.language, listener.language)) {
+      const done: InterpreterTurn = { ...turn, translatedText: turn.text, status: 'done' };
+      updateTurn(turn.id, done);
+      return done;
+    }
+
+    try {
+      const sourceLang = getDeepLSourceCode(speaker.language);
+      const targetLang = getDeepLTargetCode(listener.language);
+      if (!sourceLang || !targetLang) {
+        throw new Error('Translation is not supported for this language pair');
+      }
+
+      const result = await requestTranslation({ text: turn.text, targetLang, sourceLang });
+      const done: InterpreterTurn = { ...turn, translatedText: result.translated_text, status: 'done' };
+      updateTurn(turn.id, done);
+      return done;
+    } catch (error) {
+      console.error('Interpreter translation error:', error);
+      const failed: InterpreterTurn = {
+        ...turn,
+        status: 'error',
+        errorMessage: error instanceof Error ? error.message : 'Translation failed',
+      };
+      updateTurn(turn.id, failed);
+      return failed;
+    }
+  }, [speakers]);
+
+  // Reopen a conversation saved in history
+  const loadConversation = useCallback((savedTurns: ConversationTurn[]) => {
+    setTurns(savedTurns.map(turn => ({ ...turn, id: createTurnId(), status: 'done' })));
+
+    (['a', 'b'] as const).forEach(id => {
+      const firstTurn = savedTurns.find(turn => turn.speaker === id);
+      if (firstTurn) updateSpeaker(id, { language: firstTurn.sourceLang });
+    });
+  }, [updateSpeaker]);
+
+  const clearConversation = useCallback(() => {
+    setTurns([]);
+  }, []);
+
+  return {
+    speakers,
+    updateSpeaker,
+    turns,
+    addTurn,
+    loadConversation,
+    clearConversation,
+    isTranslating: turns.some(turn => turn.status === 'translating')
+  };
+};
@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { useHistory, NewHistoryItem } from '@/hooks/useHistory';
+import { requestTranslation, type TranslationOptions } from '@/hooks/useTranslation';
+import { requestSpeechAudio } from '@/hooks/useTTS';
+import type { VoiceSettings } from '@/hooks/useVoices';
+import {
+  isIndexedDBAvailable,
+  getQueuedRequests,
+  putQueuedRequest,
+  deleteQueuedRequest,
+} from '@/lib/history-db';
+
+// Type definitions
+export type QueuedRequestStatus = 'pending' | 'sending' | 'failed';
+
+// The history entry a queued request ends up in
+type QueuedHistoryEntry = Pick<NewHistoryItem, 'transcribedText' | 'translatedText' | 'sourceLang' | 'targetLang' | 'ttsVoice'>;
+
+export interface QueuedTranslation {
+  kind: 'translation';
+  text: string;
+  targetLang: string;
+  // DeepL source code; the entry keeps the speech locale
+  sourceLang?: string;
+  options: TranslationOptions;
+  entry: QueuedHistoryEntry;
+}
+
+export interface QueuedSpeech {
+  kind: 'speech';
+  text: string;
+  voice: string;
+  language: string;
+  voiceSettings?: VoiceSettings;
+  // The audio goes to this entry if it still exists, otherwise a new one is made
+  historyId: string | null;
+  entry: QueuedHistoryEntry;
+}
+
+export type QueuedRequest = (QueuedTranslation | QueuedSpeech) & {
+  id: string;
+  createdAt: string;
+  status: QueuedRequestStatus;
+  attempts: number;
+  lastError: string | null;
+};
+
+type NewQueuedRequest = QueuedTranslation | QueuedSpeech;
+
+interface RequestQueueHook {
+  queue: QueuedRequest[];
+  isOnline: boolean;
+  enqueue: (request: NewQueuedRequest) => void;
+  // Sends everything that is waiting, failed requests included
+  retryAll: () => void;
+  removeRequest: (id: string) => void;
+}
+
+// Failures while online count as attempts; after this many the request waits for a manual retry
+const MAX_ATTEMPTS = 5;
+// navigator.onLine can say online on a network that goes nowhere, so pending requests are retried now and then
+const RETRY_INTERVAL_MS = 30_000;
+
+const createQueueId = () => `queued_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const persist = (operation: () => Promise<void>) => {
+  if (!isIndexedDBAvailable()) return;
+  operation().catch(error => console.error('Error saving request queue to IndexedDB:', error));
+};
+
+// Translations and ElevenLabs audio asked for while offline. They are kept in
+// IndexedDB, sent in order once the connection is back, and land in the history.
+export const useRequestQueue = (historyHook: ReturnType<typeof useHistory>): RequestQueueHook => {
+  const [queue, setQueue] = useState<QueuedRequest[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  const queueRef = useRef<QueuedRequest[]>([]);
+  const historyRef = useRef(historyHook);
+  const processingRef = useRef(false);
+  historyRef.current = historyHook;
+
+  const updateQueue = useCallback((update: (prev: QueuedRequest[]) => QueuedRequest[]) => {
+    queueRef.current = update(queueRef.current);
+    setQueue(queueRef.current);
+  }, []);
+
+  const updateRequest = useCallback((id: string, changes: Partial<QueuedRequest>) => {
+    updateQueue(prev => prev.map(request => {
+      if (request.id !== id) return request;
+      const updated = { ...request, ...changes } as QueuedRequest;
+      persist(() => putQueuedRequest(updated));
+      return updated;
+    }));
+  }, [updateQueue]);
+
+  const removeRequest = useCallback((id: string) => {
+    updateQueue(prev => prev.filter(request => request.id !== id));
+    persist(() => deleteQueuedRequest(id));
+  }, [updateQueue]);
+
+  const send = useCallback(async (request: QueuedRequest) => {
+    const { addHistoryItem, attachAudio, loadHistoryItem } = historyRef.current;
+
+    if (request.kind === 'translation') {
+      const result = await requestTranslation({ text: request.text, targetLang: request.targetLang, sourceLang: request.sourceLang, ...request.options });
+      addHistoryItem({ ...request.entry, translatedText: result.translated_text, tags: ['offline'] });
+      return;
+    }
+
+    const response = await requestSpeechAudio(request.text, request.voice, request.language, request.voiceSettings);
+    const blob = await response.blob();
+    const target = (request.historyId && loadHistoryItem(request.historyId)) || addHistoryItem({ ...request.entry, tags: ['offline'] });
+    attachAudio(target.id, blob, { voice: request.voice, text: request.text.trim() });
+  }, []);
+
+  const processQueue = useCallback(async () => {
+    if (processingRef.current || !navigator.onLine) return;
+    processingRef.current = true;
+
+    try {
+      for (const request of queueRef.current.filter(entry => entry.status === 'pending')) {
+        // Removed from the Sidebar while earlier requests were being sent
+        if (!queueRef.current.some(entry => entry.id === request.id)) continue;
+        updateRequest(request.id, { status: 'sending' });
+        try {
+          await send(request);
+          removeRequest(request.id);
+        } catch (error) {
+          console.error('Queued request error:', error);
+          // Lost the connection again: wait for it without counting an attempt
+          if (!navigator.onLine) {
+            updateRequest(request.id, { status: 'pending' });
+            break;
+          }
+          const attempts = request.attempts + 1;
+          updateRequest(request.id, {
+            status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            attempts,
+            lastError: error instanceof Error ? error.message : 'Request failed',
+          });
+        }
+      }
+    } finally {
+      processingRef.current = false;
+    }
+  }, [send, updateRequest, removeRequest]);
+
+  // Requests that were being sent when the app closed go back to pending
+  useEffect(() => {
+    if (!isIndexedDBAvailable()) return;
+    getQueuedRequests()
+      .then(saved => {
+        const restored = saved.map(request => request.status === 'sending' ? { ...request, status: 'pending' as const } : request);
+        updateQueue(prev => [...restored.filter(request => !prev.some(entry => entry.id === request.id)), ...prev]);
+        processQueue();
+      })
+      .catch(error => console.error('Error loading request queue from IndexedDB:', error));
+  }, [updateQueue, processQueue]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      processQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [processQueue]);
+
+  const hasPending = queue.some(request => request.status === 'pending');
+  useEffect(() => {
+    if (!hasPending || !isOnline) return;
+    const interval = setInterval(processQueue, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasPending, isOnline, processQueue]);
+
+  const enqueue = useCallback((request: NewQueuedRequest) => {
+    const queued = {
+      ...request,
+      id: createQueueId(),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+    } as QueuedRequest;
+    updateQueue(prev => [...prev, queued]);
+    persist(() => putQueuedRequest(queued));
+    processQueue();
+  }, [updateQueue, processQueue]);
+
+  const retryAll = useCallback(() => {
+    queueRef.current
+      .filter(request => request.status === 'failed')
+      .forEach(request => updateRequest(request.id, { status: 'pending', attempts: 0 }));
+    processQueue();
+  }, [updateRequest, processQueue]);
+
+  return {
+    queue,
+    isOnline,
+    enqueue,
+    retryAll,
+    removeRequest
+  };
+};
@@ -1,258 +1,170 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  DEFAULT_WHISPER_ENDPOINT,
+  createBrowserRecognizer,
+  createTauriRecognizer,
+  createWhisperRecognizer,
+  isRecognizerAvailable,
+  isTauri,
+  type RecognizerEvents,
+  type SpeechRecognizer,
+  type SpeechRecognizerId,
+  type TranscriptSegment,
+} from '@/lib/speech-recognizers';
+import { DEFAULT_HOTKEYS, matchesShortcut, getShortcutKey, isTypingTarget } from '@/lib/hotkeys';
+import { settingsStorage } from '@/lib/storage';
 
 // Type definitions
 type SpeechStatus = 'Ready' | 'Listening' | 'Error';
 
+export type SpeechBackendPreference = 'auto' | SpeechRecognizerId;
+
+interface SpeechRecognitionOptions {
+  // Key held to record while push-to-talk is on, e.g. 'Space' or 'Ctrl+KeyK'
+  pushToTalkShortcut?: string;
+}
+
 interface SpeechRecognitionHook {
   isListening: boolean;
   transcribedText: string;
+  // Final results with their time from the start of the transcript
+  segments: TranscriptSegment[];
+  interimText: string;
   status: SpeechStatus;
+  errorMessage: string | null;
   startListening: (language?: string) => void;
   stopListening: () => void;
   clearTranscription: () => void;
+  // Replaces the final text with a hand-edited one; later results are appended to it
+  setTranscribedText: (text: string) => void;
   isPushToTalkActive: boolean;
   enablePushToTalk: () => void;
   disablePushToTalk: () => void;
+  backend: SpeechBackendPreference;
+  setBackend: (backend: SpeechBackendPreference) => void;
+  activeBackend: SpeechRecognizerId | null;
+  availableBackends: SpeechRecognizerId[];
+  whisperEndpoint: string;
+  setWhisperEndpoint: (endpoint: string) => void;
 }
 
-// Tauri types
-interface TranscriptionResult {
-  text: string;
-  is_final: boolean;
-}
-
-interface TranscriptionError {
-  message: string;
-}
-
-type InvokeFunction = (command: string, args?: any) => Promise<any>;
-type ListenFunction = <T>(event: string, handler: (event: { payload: T }) => void) => Promise<() => void>;
-type EventPayload<T> = { payload: T };
-
-// Check if we're running in Tauri environment
-const isTauri = typeof window !== 'undefined' && '__TAURI__' in window;
-
-// Web Speech API types
-interface SpeechRecognitionEvent {
-  results: SpeechRecognitionResultList;
-  resultIndex: number;
-}
-
-interface SpeechRecognitionResultList {
-  length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionResult {
-  length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
-  isFinal: boolean;
-}
+const BACKEND_STORAGE_KEY = 'voicepal-stt-backend';
+const WHISPER_ENDPOINT_STORAGE_KEY = 'voicepal-whisper-endpoint';
+const ALL_BACKENDS: SpeechRecognizerId[] = ['tauri', 'browser', 'whisper'];
 
-interface SpeechRecognitionAlternative {
-  transcript: string;
-  confidence: number;
-}
+const loadBackendPreference = (): SpeechBackendPreference => {
+  const saved = settingsStorage.getItem(BACKEND_STORAGE_KEY);
+  return saved === 'browser' || saved === 'tauri' || saved === 'whisper' ? saved : 'auto';
+};
 
-interface SpeechRecognitionAPI {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onstart: ((event: Event) => void) | null;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: any) => void) | null;
-  onend: ((event: Event) => void) | null;
-}
+// Interim text is shown in brackets after the final text
+const joinTranscript = (finalText: string, interimText: string) =>
+  interimText ? `${finalText} [${interimText}]` : finalText;
 
-declare global {
-  interface Window {
-    SpeechRecognition: new () => SpeechRecognitionAPI;
-    webkitSpeechRecognition: new () => SpeechRecognitionAPI;
-  }
-}
-
-export const useSpeechRecognition = (): SpeechRecognitionHook => {
+export const useSpeechRecognition = ({
+  pushToTalkShortcut = DEFAULT_HOTKEYS['push-to-talk'],
+}: SpeechRecognitionOptions = {}): SpeechRecognitionHook => {
   const [isListening, setIsListening] = useState(false);
-  const [transcribedText, setTranscribedText] = useState('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [interimText, setInterimText] = useState('');
+  // Final text as the user edited it; segments keep the recognized text and timing
+  const [editedText, setEditedText] = useState<string | null>(null);
   const [status, setStatus] = useState<SpeechStatus>('Ready');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [currentLanguage, setCurrentLanguage] = useState('en-US');
   const [isPushToTalkActive, setIsPushToTalkActive] = useState(false);
-  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const [isShortcutPressed, setIsShortcutPressed] = useState(false);
+  const [backend, setBackendState] = useState<SpeechBackendPreference>(loadBackendPreference);
+  const [whisperEndpoint, setWhisperEndpointState] = useState(
+    () => settingsStorage.getItem(WHISPER_ENDPOINT_STORAGE_KEY) || DEFAULT_WHISPER_ENDPOINT
+  );
+  const [activeBackend, setActiveBackend] = useState<SpeechRecognizerId | null>(null);
+
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  // Epoch ms the transcript timeline starts at, set by the first recording after a clear
+  const originRef = useRef<number | null>(null);
+  // When the utterance currently being recognized started, and when the last one ended
+  const utteranceStartRef = useRef<number | null>(null);
+  const lastSegmentEndRef = useRef<number | null>(null);
+
+  const transcribedText = useMemo(
+    () => joinTranscript(editedText ?? segments.map(segment => segment.text).join(' '), interimText),
+    [segments, editedText, interimText]
+  );
+
+  const availableBackends = useMemo(() => ALL_BACKENDS.filter(isRecognizerAvailable), []);
+
+  // The same handlers serve every backend
+  const events = useMemo<RecognizerEvents>(() => ({
+    onStart: () => {
+      console.log('SPEECH DEBUG: Recognition started');
+      setIsListening(true);
+      setStatus('Listening');
+    },
+    onResult: (result) => {
+      const now = Date.now();
+      if (!result.isFinal) {
+        if (utteranceStartRef.current === null) utteranceStartRef.current = now;
+        setInterimText(result.text);
+        return;
+      }
 
-  // Tauri API references
-  const [invoke, setInvoke] = useState<InvokeFunction | null>(null);
-  const [listen, setListen] = useState<ListenFunction | null>(null);
-  
-  // Web Speech API reference
-  const [recognition, setRecognition] = useState<SpeechRecognitionAPI | null>(null);
+      const origin = originRef.current ?? now;
+      const start = result.spokenAt?.start ?? utteranceStartRef.current ?? lastSegmentEndRef.current ?? origin;
+      const end = Math.max(result.spokenAt?.end ?? now, start);
+      utteranceStartRef.current = null;
+      lastSegmentEndRef.current = end;
+      setInterimText('');
+
+      const text = result.text.trim();
+      if (text) {
+        setSegments(prev => [...prev, { start: start - origin, end: end - origin, text }]);
+        setEditedText(prev => prev === null ? null : `${prev} ${text}`.trim());
+      }
+    },
+    onError: (message) => {
+      console.error('SPEECH ERROR:', message);
+      setErrorMessage(message);
+      setStatus('Error');
+      setIsListening(false);
+    },
+    onEnd: () => {
+      console.log('SPEECH DEBUG: Recognition ended');
+      setIsListening(false);
+      setStatus('Ready');
+      // Drop interim text that never became final
+      utteranceStartRef.current = null;
+      setInterimText('');
+    },
+  }), []);
+
+  const setBackend = useCallback((preference: SpeechBackendPreference) => {
+    setBackendState(preference);
+    settingsStorage.setItem(BACKEND_STORAGE_KEY, preference);
+  }, []);
 
-  // Initialize APIs based on environment
-  useEffect(() => {
-    console.log('SPEECH DEBUG: Initializing APIs, isTauri:', isTauri);
-    
-    // For testing purposes, always set status to Ready
-    setStatus('Ready');
-    
-    if (isTauri) {
-      // Initialize Tauri APIs
-      console.log('SPEECH DEBUG: Loading Tauri APIs...');
-      Promise.all([
-        import('@tauri-apps/api/core'),
-        import('@tauri-apps/api/event')
-      ]).then(([coreModule, eventModule]) => {
-        console.log('SPEECH DEBUG: Tauri APIs loaded successfully');
-        setInvoke(() => coreModule.invoke as InvokeFunction);
-        setListen(() => eventModule.listen as ListenFunction);
-      }).catch(err => {
-        console.error('SPEECH DEBUG: Failed to load Tauri APIs:', err);
-        // Don't set error status for testing
-        console.log('TESTING: Ignoring Tauri API error for testing purposes');
-      });
-    } else {
-      // Initialize Web Speech API
-      console.log('SPEECH DEBUG: Initializing Web Speech API...');
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-      console.log('SPEECH DEBUG: SpeechRecognition available:', !!SpeechRecognition);
-      
-      if (SpeechRecognition) {
-        try {
-          const recognitionInstance = new SpeechRecognition();
-          recognitionInstance.continuous = true;
-          recognitionInstance.interimResults = true;
-          recognitionInstance.lang = currentLanguage;
-          console.log('SPEECH DEBUG: Web Speech API instance created successfully');
-          
-          // Set up event handlers
-          recognitionInstance.onstart = () => {
-            console.log('SPEECH DEBUG: Web Speech API started');
-            setIsListening(true);
-            setStatus('Listening');
-          };
-          
-          recognitionInstance.onresult = (event: SpeechRecognitionEvent) => {
-             let finalTranscript = '';
-             let interimTranscript = '';
-             
-             for (let i = event.resultIndex; i < event.results.length; i++) {
-               const result = event.results[i];
-               if (result.isFinal) {
-                 finalTranscript += result[0].transcript;
-               } else {
-                 interimTranscript += result[0].transcript;
-               }
-             }
-             
-             console.log('SPEECH DEBUG: onresult - finalTranscript:', finalTranscript);
-             console.log('SPEECH DEBUG: onresult - interimTranscript:', interimTranscript);
-             
-             // Update with interim results for real-time feedback
-             setTranscribedText(prev => {
-               const baseText = prev.replace(/\s*\[.*?\]\s*$/, ''); // Remove previous interim text
-               const newText = interimTranscript ? 
-                 baseText + (finalTranscript || '') + ` [${interimTranscript}]` :
-                 baseText + finalTranscript;
-               
-               console.log('SPEECH DEBUG: transcribedText updated from:', prev, 'to:', newText);
-               return newText;
-             });
-           };
-           
-           recognitionInstance.onerror = (event: any) => {
-             console.error('Speech recognition error:', event.error, 'Full event:', event);
-             
-             // Provide more specific error messages
-             let errorMessage = 'Speech recognition error';
-             switch (event.error) {
-               case 'not-allowed':
-                 errorMessage = 'Microphone access denied. Please allow microphone access and try again.';
-                 break;
-               case 'no-speech':
-                 errorMessage = 'No speech detected. Please try speaking again.';
-                 break;
-               case 'audio-capture':
-                 errorMessage = 'Audio capture failed. Please check your microphone.';
-                 break;
-               case 'network':
-                 errorMessage = 'Network error occurred during speech recognition.';
-                 break;
-               case 'service-not-allowed':
-                 errorMessage = 'Speech recognition service not allowed.';
-                 break;
-               default:
-                 errorMessage = `Speech recognition error: ${event.error}`;
-             }
-             
-             console.error('SPEECH ERROR:', errorMessage);
-             setStatus('Error');
-             setIsListening(false);
-           };
-
-           recognitionInstance.onend = () => {
-             console.log('SPEECH DEBUG: Web Speech API ended');
-             setIsListening(false);
-             setStatus('Ready');
-             // Clean up interim text markers
-             setTranscribedText(prev => prev.replace(/\s*\[.*?\]\s*$/, ''));
-           };
-           
-           setRecognition(recognitionInstance);
-            console.log('SPEECH DEBUG: Web Speech API setup completed');
-          } catch (err) {
-            console.error('SPEECH DEBUG: Failed to create Web Speech API instance:', err);
-            setStatus('Error');
-          }
-       } else {
-         console.error('SPEECH DEBUG: Speech Recognition API not supported in this browser');
-         console.log('TESTING: Ignoring Speech API unavailability for testing purposes');
-         // Don't set error status for testing
-       }
-    }
+  const setWhisperEndpoint = useCallback((endpoint: string) => {
+    setWhisperEndpointState(endpoint);
+    settingsStorage.setItem(WHISPER_ENDPOINT_STORAGE_KEY, endpoint);
   }, []);
 
-  // Set up Tauri event listeners
-  useEffect(() => {
-    if (!isTauri || !listen) return;
-
-    let unlistenResult: (() => void) | null = null;
-    let unlistenError: (() => void) | null = null;
-
-    const setupListeners = async () => {
-      try {
-        unlistenResult = await listen('transcription-result', (event: EventPayload<TranscriptionResult>) => {
-          const { text, is_final } = event.payload;
-          setTranscribedText(text);
-          
-          if (is_final) {
-            setIsListening(false);
-            setStatus('Ready');
-          }
-        });
-
-        unlistenError = await listen('transcription-error', (event: EventPayload<TranscriptionError>) => {
-          const { message } = event.payload;
-          console.error('Transcription error:', message);
-          setStatus('Error');
-          setIsListening(false);
-        });
-      } catch (err) {
-        console.warn('Failed to set up Tauri event listeners:', err);
-      }
-    };
+  // 'auto' prefers the native Tauri command, then the browser, then Whisper
+  const createRecognizer = useCallback((): SpeechRecognizer | null => {
+    const id = backend === 'auto' ? availableBackends[0] : backend;
+    if (!id || !isRecognizerAvailable(id)) return null;
 
-    setupListeners();
+    switch (id) {
+      case 'tauri': return createTauriRecognizer(events);
+      case 'browser': return createBrowserRecognizer(events);
+      case 'whisper': return createWhisperRecognizer(events, { endpoint: whisperEndpoint });
+    }
+  }, [backend, availableBackends, events, whisperEndpoint]);
 
-    return () => {
-      if (unlistenResult) unlistenResult();
-      if (unlistenError) unlistenError();
-    };
-  }, [listen]);
+  useEffect(() => {
+    console.log('SPEECH DEBUG: isTauri:', isTauri, 'available backends:', availableBackends);
+  }, [availableBackends]);
 
-  // Helper function to check microphone permissions
+// Helper function to check microphone permissions
   const checkMicrophonePermission = async (): Promise<boolean> => {
     try {
       if (navigator.permissions) {
@@ -269,77 +181,68 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
 
   const startListening = useCallback(async (language: string = 'en-US') => {
     console.log('SPEECH DEBUG: startListening called with language:', language);
-    console.log('SPEECH DEBUG: Current state - isListening:', isListening, 'isTauri:', isTauri, 'invoke available:', !!invoke);
     
     if (isListening) {
       console.log('SPEECH DEBUG: Already listening, returning early');
       return;
     }
 
-    setCurrentLanguage(language);
-    setStatus('Listening');
-    setIsListening(true);
-    
-    if (isTauri && invoke) {
-      // Use Tauri native speech recognition
-      console.log('SPEECH DEBUG: Using Tauri speech recognition');
-      try {
-        console.log('SPEECH DEBUG: Calling start_transcription with language:', language);
-        await invoke('start_transcription', { language });
-        console.log('SPEECH DEBUG: start_transcription call successful');
-        setIsListening(true);
-      } catch (err) {
-        console.error('SPEECH DEBUG: Failed to start Tauri transcription:', err);
-        setStatus('Error');
-      }
-    } else if (recognition) {
+    const recognizer = createRecognizer();
+    if (!recognizer) {
+      console.error('SPEECH DEBUG: No speech recognition API available');
+      setErrorMessage('No speech recognition backend is available');
+      setStatus('Error');
+      return;
+    }
+
+    if (recognizer.id !== 'tauri') {
       // Check microphone permission first
       const hasPermission = await checkMicrophonePermission();
       console.log('SPEECH DEBUG: Microphone permission check result:', hasPermission);
-      
-      // Use Web Speech API
-      try {
-        recognition.lang = language;
-        console.log('SPEECH DEBUG: Starting web speech recognition...');
-        recognition.start();
-        console.log('SPEECH DEBUG: Web speech recognition start() called successfully');
-      } catch (err) {
-        console.error('SPEECH DEBUG: Failed to start web speech recognition:', err);
-        setStatus('Error');
-      }
-    } else {
-      console.error('SPEECH DEBUG: No speech recognition API available');
-      setStatus('Error');
     }
-  }, [isListening, invoke, recognition]);
+
+    recognizerRef.current = recognizer;
+    const startedAt = Date.now();
+    if (originRef.current === null) originRef.current = startedAt;
+    lastSegmentEndRef.current = startedAt;
+    setActiveBackend(recognizer.id);
+    setCurrentLanguage(language);
+    setErrorMessage(null);
+    setStatus('Listening');
+    setIsListening(true);
+
+    try {
+      await recognizer.start(language);
+    } catch (err) {
+      console.error('SPEECH DEBUG: Failed to start speech recognition:', err);
+      events.onError(err instanceof Error ? err.message : 'Failed to start speech recognition');
+    }
+  }, [isListening, createRecognizer, events]);
 
   const stopListening = useCallback(async () => {
     if (!isListening) return;
 
-    if (isTauri && invoke) {
-      // Stop Tauri native speech recognition
-      try {
-        await invoke('stop_transcription');
-        setIsListening(false);
-        setStatus('Ready');
-      } catch (err) {
-        console.error('Failed to stop Tauri transcription:', err);
-        setStatus('Error');
-      }
-    } else if (recognition) {
-      // Stop Web Speech API
-      try {
-        recognition.stop();
-      } catch (err) {
-        console.error('Failed to stop web speech recognition:', err);
-        setStatus('Error');
-      }
+    try {
+      await recognizerRef.current?.stop();
+    } catch (err) {
+      console.error('Failed to stop speech recognition:', err);
+      setStatus('Error');
+      setIsListening(false);
     }
-  }, [isListening, invoke, recognition]);
+  }, [isListening]);
 
   const clearTranscription = useCallback(() => {
     console.log('SPEECH DEBUG: clearTranscription called');
-    setTranscribedText('');
+    setSegments([]);
+    setInterimText('');
+    setEditedText(null);
+    originRef.current = null;
+    utteranceStartRef.current = null;
+    lastSegmentEndRef.current = null;
+  }, []);
+
+  const setTranscribedText = useCallback((text: string) => {
+    setEditedText(text);
   }, []);
 
   // Push-to-talk functionality
@@ -359,25 +262,24 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
     if (!isPushToTalkActive) return;
 
     const handleKeyDown = (event: KeyboardEvent) => {
-      // Only trigger if spacebar is pressed and not already pressed
+      // Only trigger if the shortcut is pressed and not already pressed
       // Also check that we're not in an input field
-      if (event.code === 'Space' && 
-          !isSpacePressed && 
+      if (matchesShortcut(event, pushToTalkShortcut) &&
+          !isShortcutPressed &&
           !isListening &&
-          event.target instanceof Element &&
-          !['INPUT', 'TEXTAREA'].includes(event.target.tagName) &&
-          !event.target.hasAttribute('contenteditable')) {
+          !isTypingTarget(event.target)) {
         
         event.preventDefault();
-        setIsSpacePressed(true);
+        setIsShortcutPressed(true);
         startListening(currentLanguage);
       }
     };
 
     const handleKeyUp = (event: KeyboardEvent) => {
-      if (event.code === 'Space' && isSpacePressed) {
+      // Modifiers may be let go first, the key release ends the recording
+      if (event.code === getShortcutKey(pushToTalkShortcut) && isShortcutPressed) {
         event.preventDefault();
-        setIsSpacePressed(false);
+        setIsShortcutPressed(false);
         if (isListening) {
           stopListening();
         }
@@ -393,17 +295,27 @@ export const useSpeechRecognition = (): SpeechRecognitionHook => {
       document.removeEventListener('keydown', handleKeyDown);
       document.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isPushToTalkActive, isSpacePressed, isListening, currentLanguage, startListening, stopListening]);
+  }, [isPushToTalkActive, isShortcutPressed, pushToTalkShortcut, isListening, currentLanguage, startListening, stopListening]);
 
   return {
     isListening,
     transcribedText,
+    segments,
+    interimText,
     status,
+    errorMessage,
     startListening,
     stopListening,
     clearTranscription,
+    setTranscribedText,
     isPushToTalkActive,
     enablePushToTalk,
-    disablePushToTalk
+    disablePushToTalk,
+    backend,
+    setBackend,
+    activeBackend,
+    availableBackends,
+    whisperEndpoint,
+    setWhisperEndpoint
   };
 };
\ No newline at end of file
@@ -1,64 +1,166 @@
 import { useState, useRef } from 'react';
+import type { VoiceSettings } from './useVoices';
+import { getElevenLabsModel } from '@/lib/languages';
+import { apiFetch } from '@/lib/api';
+import { settingsStorage } from '@/lib/storage';
 
-// ElevenLabs voice presets
-export const ELEVENLABS_VOICES = {
-  'deep-male-narrator': {
-    voice_id: 'pNInz6obpgDQGcFmaJgB',
-    name: 'Deep Male Narrator',
-    category: 'narrative'
-  },
-  'calm-female-voice': {
-    voice_id: 'EXAVITQu4vr4xnSDxMaL',
-    name: 'Calm Female Voice',
-    category: 'conversational'
-  },
-  'professional-male': {
-    voice_id: 'VR6AewLTigWG4xSOukaG',
-    name: 'Professional Male',
-    category: 'business'
-  },
-  'warm-female': {
-    voice_id: 'ThT5KcBeYPX3keUQqHPh',
-    name: 'Warm Female',
-    category: 'friendly'
-  },
-  'cinematic-male': {
-    voice_id: 'bVMeCyTHy58xNoL34h3p',
-    name: 'Cinematic Male',
-    category: 'dramatic'
-  },
-  'gentle-female': {
-    voice_id: 'AZnzlk1XvdvUeBnXmlld',
-    name: 'Gentle Female',
-    category: 'soothing'
-  }
-} as const;
+// Progressive playback needs MediaSource support for MP3
+const canStreamAudio = () =>
+  typeof window !== 'undefined' &&
+  'MediaSource' in window &&
+  MediaSource.isTypeSupported('audio/mpeg');
+
+// Resolve once the SourceBuffer has finished appending
+const appendToSourceBuffer = (sourceBuffer: SourceBuffer, chunk: Uint8Array) =>
+  new Promise<void>((resolve, reject) => {
+    sourceBuffer.addEventListener('updateend', () => resolve(), { once: true });
+    sourceBuffer.addEventListener('error', () => reject(new Error('Failed to buffer audio chunk')), { once: true });
+    sourceBuffer.appendBuffer(chunk);
+  });
+
+const canUseSpeechSynthesis = () =>
+  typeof window !== 'undefined' &&
+  'speechSynthesis' in window &&
+  'SpeechSynthesisUtterance' in window;
+
+// 'ES' -> 'es', 'PT-BR' -> 'pt-BR', 'en-US' stays as is
+const toSpeechLang = (code: string) => {
+  const [base, region] = code.split('-');
+  return region ? `${base.toLowerCase()}-${region.toUpperCase()}` : base.toLowerCase();
+};
 
-type ElevenLabsVoiceKey = keyof typeof ELEVENLABS_VOICES;
+// Prefer an exact locale match, then any voice for the same base language
+const pickSystemVoice = (lang: string) => {
+  const voices = window.speechSynthesis.getVoices();
+  const base = lang.split('-')[0];
+  return voices.find(voice => voice.lang === lang) ||
+    voices.find(voice => voice.lang.toLowerCase().startsWith(base));
+};
 
 type TTSStatus = 'idle' | 'generating' | 'speaking' | 'error';
 
+export type TTSEngineId = 'elevenlabs' | 'browser';
+export type TTSEnginePreference = 'auto' | TTSEngineId;
+
+interface TTSEngine {
+  id: TTSEngineId;
+  name: string;
+  isAvailable: () => boolean;
+  // Resolves once playback has started, rejects if it could not start
+  speak: (text: string, voiceKey: string, speechLanguage?: string) => Promise<void>;
+  stop: () => void;
+}
+
+export const TTS_ENGINE_NAMES: Record<TTSEngineId, string> = {
+  elevenlabs: 'ElevenLabs',
+  browser: 'Device voice',
+};
+
+const ENGINE_STORAGE_KEY = 'voicepal-tts-engine';
+
+const loadEnginePreference = (): TTSEnginePreference => {
+  const saved = settingsStorage.getItem(ENGINE_STORAGE_KEY);
+  return saved === 'elevenlabs' || saved === 'browser' ? saved : 'auto';
+};
+
 interface TTSHook {
   isPlaying: boolean;
   status: TTSStatus;
-  selectedVoice: ElevenLabsVoiceKey;
-  setSelectedVoice: (voice: ElevenLabsVoiceKey) => void;
+  selectedVoice: string;
+  setSelectedVoice: (voice: string) => void;
   speak: (text: string) => Promise<void>;
+  // Speak with a given voice and language instead of the selected ones
+  speakWithVoice: (text: string, voiceKey: string, language?: string) => Promise<void>;
+  engine: TTSEnginePreference;
+  setEngine: (engine: TTSEnginePreference) => void;
+  activeEngine: TTSEngineId | null;
+  availableEngines: TTSEngineId[];
+  previewVoice: (voiceKey: string, text: string) => Promise<void>;
   stopSpeech: () => Promise<void>;
   downloadAudio: (text: string, filename?: string) => Promise<void>;
   lastGeneratedAudio: string | null;
+  playAudioBlob: (blob: Blob) => Promise<void>;
+}
+
+export interface GeneratedAudio {
+  blob: Blob;
+  text: string;
+  voiceKey: string;
+}
+
+interface TTSOptions {
+  // Per-voice settings keyed by catalog key, sent along with each request
+  voiceSettings?: Record<string, VoiceSettings>;
+  // Language of the text being spoken, used by the device voice
+  language?: string;
+  // Called with every complete MP3 produced by ElevenLabs, e.g. to keep it in history
+  onAudioGenerated?: (audio: GeneratedAudio) => void;
 }
 
-export function useTTS(): TTSHook {
+// Single ElevenLabs request, shared by the hook and by the offline queue.
+// Long texts come back as a chunked MP3 stream that is already stitched server-side.
+export const requestSpeechAudio = async (text: string, voiceKey: string, speechLanguage?: string, voiceSettings?: VoiceSettings): Promise<Response> => {
+  const response = await apiFetch('/api/generate-audio', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      text: text.trim(),
+      voice_id: voiceKey,
+      model_id: (speechLanguage && getElevenLabsModel(speechLanguage)) || 'eleven_monolingual_v1',
+      ...(voiceSettings && { voice_settings: voiceSettings })
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+  }
+
+  return response;
+};
+
+export function useTTS({ voiceSettings = {}, language, onAudioGenerated }: TTSOptions = {}): TTSHook {
   const [isPlaying, setIsPlaying] = useState(false);
   const [status, setStatus] = useState<TTSStatus>('idle');
-  const [selectedVoice, setSelectedVoice] = useState<ElevenLabsVoiceKey>('calm-female-voice');
+  const [selectedVoice, setSelectedVoice] = useState<string>('calm-female-voice');
   const [lastGeneratedAudio, setLastGeneratedAudio] = useState<string | null>(null);
+  const [engine, setEngineState] = useState<TTSEnginePreference>(loadEnginePreference);
+  const [activeEngine, setActiveEngine] = useState<TTSEngineId | null>(null);
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const currentAudioUrl = useRef<string | null>(null);
+  const playbackStarted = useRef(false);
+
+  const markSpeaking = (engineId: TTSEngineId) => {
+    playbackStarted.current = true;
+    setActiveEngine(engineId);
+    setStatus('speaking');
+    setIsPlaying(true);
+  };
+
+  const requestAudio = (text: string, voiceKey: string = selectedVoice, speechLanguage = language) =>
+    requestSpeechAudio(text, voiceKey, speechLanguage, voiceSettings[voiceKey]);
 
-  const generateAudio = async (text: string): Promise<string> => {
+  const storeGeneratedAudio = (audioBlob: Blob, text: string, voiceKey: string): string => {
+    onAudioGenerated?.({ blob: audioBlob, text: text.trim(), voiceKey });
+
+    // Create object URL for the audio
+    const audioUrl = URL.createObjectURL(audioBlob);
+    
+    // Clean up previous audio URL
+    if (currentAudioUrl.current) {
+      URL.revokeObjectURL(currentAudioUrl.current);
+    }
+    
+    currentAudioUrl.current = audioUrl;
+    setLastGeneratedAudio(audioUrl);
+    
+    return audioUrl;
+  };
+
+  const generateAudio = async (text: string, voiceKey: string = selectedVoice, speechLanguage = language): Promise<string> => {
     if (!text.trim()) {
       throw new Error('No text provided for audio generation');
     }
@@ -66,38 +168,11 @@ export function useTTS(): TTSHook {
     setStatus('generating');
 
     try {
-      const response = await fetch('/api/generate-audio', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: text.trim(),
-          voice_id: ELEVENLABS_VOICES[selectedVoice].voice_id,
-          model_id: 'eleven_monolingual_v1'
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-      }
+      const response = await requestAudio(text, voiceKey, speechLanguage);
 
       // Get the audio blob
       const audioBlob = await response.blob();
-      
-      // Create object URL for the audio
-      const audioUrl = URL.createObjectURL(audioBlob);
-      
-      // Clean up previous audio URL
-      if (currentAudioUrl.current) {
-        URL.revokeObjectURL(currentAudioUrl.current);
-      }
-      
-      currentAudioUrl.current = audioUrl;
-      setLastGeneratedAudio(audioUrl);
-      
-      return audioUrl;
+      return storeGeneratedAudio(audioBlob, text, voiceKey);
     } catch (error) {
       console.error('Audio generation error:', error);
       setStatus('error');
@@ -105,56 +180,205 @@ export function useTTS(): TTSHook {
     }
   };
 
-  const speak = async (text: string) => {
-    if (!text.trim()) return;
+  const attachPlaybackHandlers = (audio: HTMLAudioElement) => {
+    audio.onended = () => {
+      setIsPlaying(false);
+      setStatus('idle');
+    };
+    
+    audio.onerror = () => {
+      setIsPlaying(false);
+      setStatus('error');
+      console.error('Audio playback error');
+    };
+  };
+
+  // Start playing as soon as the first streamed chunk is buffered
+  const streamAudio = async (text: string, voiceKey: string = selectedVoice, speechLanguage = language) => {
+    setStatus('generating');
+
+    const response = await requestAudio(text, voiceKey, speechLanguage);
+    if (!response.body) {
+      throw new Error('Streaming is not supported for this response');
+    }
+
+    const mediaSource = new MediaSource();
+    const streamUrl = URL.createObjectURL(mediaSource);
+    const audio = new Audio(streamUrl);
+    audioRef.current = audio;
+    attachPlaybackHandlers(audio);
+
+    await new Promise<void>(resolve => mediaSource.addEventListener('sourceopen', () => resolve(), { once: true }));
+    const sourceBuffer = mediaSource.addSourceBuffer('audio/mpeg');
+
+    const reader = response.body.getReader();
+    const receivedChunks: Uint8Array[] = [];
 
     try {
-      // Stop any currently playing audio
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.currentTime = 0;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        receivedChunks.push(value);
+        await appendToSourceBuffer(sourceBuffer, value);
+
+        if (receivedChunks.length === 1 && audioRef.current === audio) {
+          markSpeaking('elevenlabs');
+          await audio.play();
+        }
+      }
+
+      if (mediaSource.readyState === 'open') {
+        mediaSource.endOfStream();
+      }
+    } finally {
+      URL.revokeObjectURL(streamUrl);
+    }
+
+    // Keep the stitched audio around for replay
+    storeGeneratedAudio(new Blob(receivedChunks, { type: 'audio/mpeg' }), text, voiceKey);
+  };
+
+  const elevenLabsEngine: TTSEngine = {
+    id: 'elevenlabs',
+    name: TTS_ENGINE_NAMES.elevenlabs,
+    isAvailable: () => true,
+    speak: async (text, voiceKey, speechLanguage) => {
+      if (canStreamAudio()) {
+        await streamAudio(text, voiceKey, speechLanguage);
+        return;
       }
 
       // Generate new audio
-      const audioUrl = await generateAudio(text);
+      const audioUrl = await generateAudio(text, voiceKey, speechLanguage);
       
       // Create and configure audio element
       const audio = new Audio(audioUrl);
       audioRef.current = audio;
       
       // Set up event listeners
-      audio.onloadstart = () => {
-        setStatus('speaking');
-        setIsPlaying(true);
-      };
+      audio.onloadstart = () => markSpeaking('elevenlabs');
+      attachPlaybackHandlers(audio);
       
-      audio.onended = () => {
+      // Start playback
+      await audio.play();
+    },
+    stop: () => {
+      if (audioRef.current) {
+        audioRef.current.pause();
+        audioRef.current.currentTime = 0;
+      }
+    },
+  };
+
+  // Local speechSynthesis engine, works offline and without an API key
+  const browserEngine: TTSEngine = {
+    id: 'browser',
+    name: TTS_ENGINE_NAMES.browser,
+    isAvailable: canUseSpeechSynthesis,
+    speak: (text, _voiceKey, speechLanguage = language) => new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text.trim());
+      if (speechLanguage) {
+        utterance.lang = toSpeechLang(speechLanguage);
+        const voice = pickSystemVoice(utterance.lang);
+        if (voice) utterance.voice = voice;
+      }
+
+      utterance.onstart = () => {
+        markSpeaking('browser');
+        resolve();
+      };
+      utterance.onend = () => {
         setIsPlaying(false);
         setStatus('idle');
       };
-      
-      audio.onerror = () => {
+      utterance.onerror = (event) => {
         setIsPlaying(false);
+        // Cancelled by stopSpeech or a newer utterance
+        if (event.error === 'canceled' || event.error === 'interrupted') {
+          setStatus('idle');
+          resolve();
+          return;
+        }
         setStatus('error');
-        console.error('Audio playback error');
+        reject(new Error(`Speech synthesis failed: ${event.error}`));
       };
-      
-      // Start playback
+
+      window.speechSynthesis.speak(utterance);
+    }),
+    stop: () => {
+      if (canUseSpeechSynthesis()) {
+        window.speechSynthesis.cancel();
+      }
+    },
+  };
+
+  const engines: TTSEngine[] = [elevenLabsEngine, browserEngine];
+  const availableEngines = engines.filter(candidate => candidate.isAvailable()).map(candidate => candidate.id);
+
+  const setEngine = (preference: TTSEnginePreference) => {
+    setEngineState(preference);
+    settingsStorage.setItem(ENGINE_STORAGE_KEY, preference);
+  };
+
+  // 'auto' tries ElevenLabs first and falls back to the device voice
+  const getEngineChain = () => {
+    const chain = engine === 'auto' ? engines : engines.filter(candidate => candidate.id === engine);
+    return chain.filter(candidate => candidate.isAvailable());
+  };
+
+  const speak = async (text: string, voiceKey: string = selectedVoice, speechLanguage = language) => {
+    if (!text.trim()) return;
+
+    // Stop anything that is currently playing
+    engines.forEach(candidate => candidate.stop());
+    playbackStarted.current = false;
+
+    for (const candidate of getEngineChain()) {
+      try {
+        await candidate.speak(text, voiceKey, speechLanguage);
+        return;
+      } catch (error) {
+        console.error(`TTS Error (${candidate.name}):`, error);
+        // Never restart on another engine once audio is already playing
+        if (playbackStarted.current) break;
+      }
+    }
+
+    setIsPlaying(false);
+    setStatus('error');
+  };
+
+  // Replay audio that was generated earlier (e.g. stored with a history item)
+  const playAudioBlob = async (blob: Blob) => {
+    engines.forEach(candidate => candidate.stop());
+
+    try {
+      const audioUrl = URL.createObjectURL(blob);
+      if (currentAudioUrl.current) {
+        URL.revokeObjectURL(currentAudioUrl.current);
+      }
+      currentAudioUrl.current = audioUrl;
+      setLastGeneratedAudio(audioUrl);
+
+      const audio = new Audio(audioUrl);
+      audioRef.current = audio;
+      attachPlaybackHandlers(audio);
+      markSpeaking('elevenlabs');
       await audio.play();
-      
     } catch (error) {
-      console.error('TTS Error:', error);
+      console.error('Stored audio playback error:', error);
       setIsPlaying(false);
       setStatus('error');
     }
   };
 
+  // Play a sample with the current settings of any voice without selecting it
+  const previewVoice = (voiceKey: string, text: string) => speak(text, voiceKey);
+
   const stopSpeech = async () => {
     try {
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.currentTime = 0;
-      }
+      engines.forEach(candidate => candidate.stop());
     } catch (error) {
       console.error('Stop speech error:', error);
     } finally {
@@ -171,25 +395,11 @@ export function useTTS(): TTSHook {
     try {
       setStatus('generating');
       
-      const response = await fetch('/api/generate-audio', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: text.trim(),
-          voice_id: ELEVENLABS_VOICES[selectedVoice].voice_id,
-          model_id: 'eleven_monolingual_v1'
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-      }
+      const response = await requestAudio(text);
 
-      // Get the audio blob
+      // Long texts arrive as several MP3 chunks, the blob is the stitched file
       const audioBlob = await response.blob();
+      onAudioGenerated?.({ blob: audioBlob, text: text.trim(), voiceKey: selectedVoice });
       
       // Create download link
       const downloadUrl = URL.createObjectURL(audioBlob);
@@ -198,8 +408,7 @@ export function useTTS(): TTSHook {
       
       // Generate filename
       const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, '-');
-      const voiceName = ELEVENLABS_VOICES[selectedVoice].name.replace(/\s+/g, '-').toLowerCase();
-      const defaultFilename = `voicepal-${voiceName}-${timestamp}.mp3`;
+      const defaultFilename = `voicepal-${selectedVoice}-${timestamp}.mp3`;
       
       link.download = filename || defaultFilename;
       
@@ -225,9 +434,16 @@ export function useTTS(): TTSHook {
     status,
     selectedVoice,
     setSelectedVoice,
-    speak,
+    speak: text => speak(text),
+    speakWithVoice: speak,
+    engine,
+    setEngine,
+    activeEngine,
+    availableEngines,
+    previewVoice,
     stopSpeech,
     downloadAudio,
-    lastGeneratedAudio
+    lastGeneratedAudio,
+    playAudioBlob
   };
 }
\ No newline at end of file
@@ -1,23 +1,85 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import { compareBackTranslation, type QualityReport } from '@/lib/translation-quality';
+import { getDeepLSourceCode, getDeepLTargetCode } from '@/lib/languages';
+import { apiFetch } from '@/lib/api';
 
 // Type definitions
 type TranslationStatus = 'idle' | 'translating' | 'success' | 'error';
+type QualityCheckStatus = 'idle' | 'checking' | 'done' | 'error';
 
-interface TranslationResult {
+export interface TranslationResult {
   translated_text: string;
+  provider: string;
+  provider_name: string;
+  glossary_matches?: GlossaryMatch[];
+}
+
+export type Formality = 'default' | 'formal' | 'informal';
+
+// A term that must always come out as the given translation
+export interface GlossaryEntry {
+  term: string;
+  translation: string;
+}
+
+// Where a glossary entry was applied, as offsets into the translated text
+export interface GlossaryMatch extends GlossaryEntry {
+  start: number;
+  end: number;
+}
+
+export interface TranslationOptions {
+  formality?: Formality;
+  glossary?: GlossaryEntry[];
+}
+
+// Provider that produced the current translation
+export interface TranslationProviderInfo {
+  id: string;
+  name: string;
+}
+
+export interface BatchTranslationResult {
+  segments: string[];
+  target_langs: string[];
+  matrix: string[][];
+  glossary_matches?: GlossaryMatch[][][];
+  providers: Array<{
+    target_lang: string;
+    provider: string;
+    provider_name: string;
+  }>;
+}
+
+// Segments translated into several languages, matrix[segmentIndex][targetIndex]
+export interface MultiTranslationResult {
+  segments: string[];
+  targetLangs: string[];
+  matrix: string[][];
+  providers: Record<string, TranslationProviderInfo>;
 }
 
 interface TranslationHook {
   translatedText: string;
   translationStatus: TranslationStatus;
   errorMessage: string;
-  translateText: (text: string, targetLang: string, sourceLang?: string) => Promise<void>;
+  translationProvider: TranslationProviderInfo | null;
+  glossaryMatches: GlossaryMatch[];
+  translateText: (text: string, targetLang: string, sourceLang?: string, options?: TranslationOptions) => Promise<void>;
+  multiTranslation: MultiTranslationResult | null;
+  multiTranslationStatus: TranslationStatus;
+  multiTranslationError: string;
+  translateMany: (segments: string[], targetLangs: string[], sourceLang?: string, options?: TranslationOptions) => Promise<void>;
+  clearMultiTranslation: () => void;
   clearTranslation: () => void;
   setTranslatedText: (text: string) => void;
+  qualityReport: QualityReport | null;
+  qualityStatus: QualityCheckStatus;
+  checkQuality: (original: string, translated: string, sourceLocale: string, targetLang: string) => Promise<QualityReport | null>;
 }
 
 // Interface for translation request
-interface TranslationRequest {
+export interface TranslationRequest extends TranslationOptions {
   text: string;
   targetLang: string;
   sourceLang?: string;
@@ -28,12 +90,143 @@ interface TranslationError {
   message: string;
 }
 
+// A 429 from the API; the request may be sent again after retryAfterSeconds
+export class RateLimitError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Split a text into paragraph segments so line breaks survive translation
+export const splitIntoSegments = (text: string): string[] =>
+  text.split(/\n+/).map(segment => segment.trim()).filter(Boolean);
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error && typeof error === 'object' && 'message' in error
+    ? String((error as TranslationError).message)
+    : fallback;
+
+// Single translation request, shared by the hook and by features that keep their own state
+export const requestTranslation = async ({ text, targetLang, sourceLang, formality, glossary }: TranslationRequest): Promise<TranslationResult> => {
+  // Prepare request body
+  const requestBody: TranslationRequest = {
+    text,
+    targetLang,
+    ...(sourceLang && { sourceLang }),
+    ...(formality && formality !== 'default' && { formality }),
+    ...(glossary && glossary.length > 0 && { glossary })
+  };
+
+  // Make request to API endpoint (works for both dev and production)
+  const response = await apiFetch('/api/translate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestBody),
+  });
+
+  if (!response.ok) {
+    const errorData: TranslationError = await response.json();
+    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Several segments into several languages in one request, matrix[segmentIndex][targetIndex]
+export const requestBatchTranslation = async (
+  segments: string[],
+  targetLangs: string[],
+  sourceLang?: string,
+  { formality, glossary }: TranslationOptions = {}
+): Promise<BatchTranslationResult> => {
+  const response = await apiFetch('/api/translate/batch', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      segments,
+      targetLangs,
+      ...(sourceLang && { sourceLang }),
+      ...(formality && formality !== 'default' && { formality }),
+      ...(glossary && glossary.length > 0 && { glossary })
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData: TranslationError = await response.json().catch(() => ({ message: '' }));
+    if (response.status === 429) {
+      throw new RateLimitError(errorData.message || 'Too many requests', Number(response.headers.get('Retry-After')) || 1);
+    }
+    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
 export const useTranslation = (): TranslationHook => {
-  const [translatedText, setTranslatedText] = useState('');
+  const [translatedText, setTranslatedTextState] = useState('');
+  const [glossaryMatches, setGlossaryMatches] = useState<GlossaryMatch[]>([]);
   const [translationStatus, setTranslationStatus] = useState<TranslationStatus>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [translationProvider, setTranslationProvider] = useState<TranslationProviderInfo | null>(null);
+  const [multiTranslation, setMultiTranslation] = useState<MultiTranslationResult | null>(null);
+  const [multiTranslationStatus, setMultiTranslationStatus] = useState<TranslationStatus>('idle');
+  const [multiTranslationError, setMultiTranslationError] = useState('');
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+  const [qualityStatus, setQualityStatus] = useState<QualityCheckStatus>('idle');
+  // A check still running for a replaced translation must not report on the new one
+  const qualityRequestRef = useRef(0);
 
-  const translateText = useCallback(async (text: string, targetLang: string, sourceLang?: string) => {
+  const clearQuality = useCallback(() => {
+    qualityRequestRef.current++;
+    setQualityReport(null);
+    setQualityStatus('idle');
+  }, []);
+
+  // Text set from outside (history, same-language copy) has no glossary matches nor quality report
+  const setTranslatedText = useCallback((text: string) => {
+    setTranslatedTextState(text);
+    setGlossaryMatches([]);
+    clearQuality();
+  }, [clearQuality]);
+
+  // Translates the result back into the source language and compares it with the original
+  const checkQuality = useCallback(async (original: string, translated: string, sourceLocale: string, targetLang: string) => {
+    const backTargetLang = getDeepLTargetCode(sourceLocale);
+    const backSourceLang = getDeepLSourceCode(targetLang);
+    if (!original.trim() || !translated.trim() || !backTargetLang || !backSourceLang) {
+      return null;
+    }
+
+    const requestId = ++qualityRequestRef.current;
+    setQualityStatus('checking');
+    setQualityReport(null);
+
+    try {
+      const result = await requestTranslation({ text: translated, targetLang: backTargetLang, sourceLang: backSourceLang });
+      if (requestId !== qualityRequestRef.current) return null;
+
+      const report = compareBackTranslation(original, result.translated_text);
+      setQualityReport(report);
+      setQualityStatus('done');
+      return report;
+    } catch (error) {
+      console.error('Back-translation error:', error);
+      if (requestId === qualityRequestRef.current) {
+        setQualityStatus('error');
+      }
+      return null;
+    }
+  }, []);
+
+  const translateText = useCallback(async (text: string, targetLang: string, sourceLang?: string, options: TranslationOptions = {}) => {
     if (!text.trim()) {
       return;
     }
@@ -41,31 +234,13 @@ export const useTranslation = (): TranslationHook => {
     setTranslationStatus('translating');
     setTranslatedText('');
     setErrorMessage('');
+    setTranslationProvider(null);
 
     try {
-      // Prepare request body
-      const requestBody: TranslationRequest = {
-        text,
-        targetLang,
-        ...(sourceLang && { sourceLang })
-      };
-
-      // Make request to API endpoint (works for both dev and production)
-      const response = await fetch('/api/translate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorData: TranslationError = await response.json();
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-      }
-
-      const result: TranslationResult = await response.json();
+      const result = await requestTranslation({ text, targetLang, sourceLang, ...options });
       setTranslatedText(result.translated_text);
+      setGlossaryMatches(result.glossary_matches ?? []);
+      setTranslationProvider({ id: result.provider, name: result.provider_name });
       setTranslationStatus('success');
     } catch (error: any) {
       console.error('Translation error:', error);
@@ -80,20 +255,64 @@ export const useTranslation = (): TranslationHook => {
         setErrorMessage('Translation failed with unknown error');
       }
     }
+  }, [setTranslatedText]);
+
+  const translateMany = useCallback(async (segments: string[], targetLangs: string[], sourceLang?: string, options: TranslationOptions = {}) => {
+    const cleanSegments = segments.map(segment => segment.trim()).filter(Boolean);
+    if (cleanSegments.length === 0 || targetLangs.length === 0) {
+      return;
+    }
+
+    setMultiTranslationStatus('translating');
+    setMultiTranslationError('');
+
+    try {
+      const result = await requestBatchTranslation(cleanSegments, targetLangs, sourceLang, options);
+      setMultiTranslation({
+        segments: result.segments,
+        targetLangs: result.target_langs,
+        matrix: result.matrix,
+        providers: Object.fromEntries(
+          result.providers.map(info => [info.target_lang, { id: info.provider, name: info.provider_name }])
+        ),
+      });
+      setMultiTranslationStatus('success');
+    } catch (error) {
+      console.error('Batch translation error:', error);
+      setMultiTranslationStatus('error');
+      setMultiTranslationError(getErrorMessage(error, 'Batch translation failed with unknown error'));
+    }
+  }, []);
+
+  const clearMultiTranslation = useCallback(() => {
+    setMultiTranslation(null);
+    setMultiTranslationStatus('idle');
+    setMultiTranslationError('');
   }, []);
 
   const clearTranslation = useCallback(() => {
     setTranslatedText('');
     setTranslationStatus('idle');
     setErrorMessage('');
-  }, []);
+    setTranslationProvider(null);
+  }, [setTranslatedText]);
 
   return {
     translatedText,
+    glossaryMatches,
     translationStatus,
     errorMessage,
+    translationProvider,
     translateText,
+    multiTranslation,
+    multiTranslationStatus,
+    multiTranslationError,
+    translateMany,
+    clearMultiTranslation,
     clearTranslation,
-    setTranslatedText
+    setTranslatedText,
+    qualityReport,
+    qualityStatus,
+    checkQuality
   };
 };
\ No newline at end of file
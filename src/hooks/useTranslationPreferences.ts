@@ -0,0 +1,94 @@
+import { useState, useCallback } from 'react';
+import type { Formality, GlossaryEntry } from './useTranslation';
+import { getLanguage } from '@/lib/languages';
+import { settingsStorage } from '@/lib/storage';
+
+interface TranslationPreferencesHook {
+  formality: Formality;
+  setFormality: (formality: Formality) => void;
+  getGlossary: (sourceLang: string, targetLang: string) => GlossaryEntry[];
+  addGlossaryEntry: (sourceLang: string, targetLang: string, entry: GlossaryEntry) => void;
+  removeGlossaryEntry: (sourceLang: string, targetLang: string, term: string) => void;
+  // Back-translate every result to score how faithful it is
+  qualityCheck: boolean;
+  setQualityCheck: (enabled: boolean) => void;
+}
+
+const FORMALITY_STORAGE_KEY = 'voicepal-formality';
+const GLOSSARY_STORAGE_KEY = 'voicepal-glossaries';
+const QUALITY_CHECK_STORAGE_KEY = 'voicepal-quality-check';
+
+// Glossaries are kept per language pair, regional variants share one: 'en->es'
+type GlossaryStore = Record<string, GlossaryEntry[]>;
+
+const getPairKey = (sourceLang: string, targetLang: string) =>
+  `${getLanguage(sourceLang)?.id ?? sourceLang.toLowerCase()}->${getLanguage(targetLang)?.id ?? targetLang.toLowerCase()}`;
+
+const loadFormality = (): Formality => {
+  const saved = settingsStorage.getItem(FORMALITY_STORAGE_KEY);
+  return saved === 'formal' || saved === 'informal' ? saved : 'default';
+};
+
+const loadGlossaries = (): GlossaryStore => {
+  try {
+    const saved = settingsStorage.getItem(GLOSSARY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading glossaries:', error);
+    return {};
+  }
+};
+
+export const useTranslationPreferences = (): TranslationPreferencesHook => {
+  const [formality, setFormalityState] = useState<Formality>(loadFormality);
+  const [glossaries, setGlossaries] = useState<GlossaryStore>(loadGlossaries);
+  const [qualityCheck, setQualityCheckState] = useState(() => settingsStorage.getItem(QUALITY_CHECK_STORAGE_KEY) === 'true');
+
+  const setFormality = useCallback((next: Formality) => {
+    setFormalityState(next);
+    settingsStorage.setItem(FORMALITY_STORAGE_KEY, next);
+  }, []);
+
+  const setQualityCheck = useCallback((enabled: boolean) => {
+    setQualityCheckState(enabled);
+    settingsStorage.setItem(QUALITY_CHECK_STORAGE_KEY, String(enabled));
+  }, []);
+
+  const updateGlossary = useCallback((pairKey: string, update: (entries: GlossaryEntry[]) => GlossaryEntry[]) => {
+    setGlossaries(prev => {
+      const next = { ...prev, [pairKey]: update(prev[pairKey] ?? []) };
+      if (next[pairKey].length === 0) delete next[pairKey];
+      settingsStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const getGlossary = useCallback((sourceLang: string, targetLang: string) =>
+    glossaries[getPairKey(sourceLang, targetLang)] ?? [], [glossaries]);
+
+  // Adding a term that already exists replaces its translation
+  const addGlossaryEntry = useCallback((sourceLang: string, targetLang: string, entry: GlossaryEntry) => {
+    const term = entry.term.trim();
+    if (!term) return;
+    const translation = entry.translation.trim() || term;
+
+    updateGlossary(getPairKey(sourceLang, targetLang), entries => [
+      ...entries.filter(existing => existing.term.toLowerCase() !== term.toLowerCase()),
+      { term, translation },
+    ]);
+  }, [updateGlossary]);
+
+  const removeGlossaryEntry = useCallback((sourceLang: string, targetLang: string, term: string) => {
+    updateGlossary(getPairKey(sourceLang, targetLang), entries => entries.filter(entry => entry.term !== term));
+  }, [updateGlossary]);
+
+  return {
+    formality,
+    setFormality,
+    getGlossary,
+    addGlossaryEntry,
+    removeGlossaryEntry,
+    qualityCheck,
+    setQualityCheck
+  };
+};
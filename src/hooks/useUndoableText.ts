@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+export interface UndoableText {
+  value: string;
+  // Replaces the text as a user edit, which can be undone
+  edit: (text: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const MAX_UNDO_STEPS = 100;
+// Keystrokes closer together than this are undone as one step
+const TYPING_GROUP_MS = 1000;
+
+// Undo/redo on top of text state owned elsewhere (a transcript, a translation).
+// Text replaced from outside, e.g. by a new translation, is not an undo step of
+// its own, but when it replaces an edit that edit can still be brought back.
+export const useUndoableText = (value: string, setValue: (text: string) => void): UndoableText => {
+  const [past, setPast] = useState<string[]>([]);
+  const [future, setFuture] = useState<string[]>([]);
+  // Last text this hook knows about, and whether it came from an edit
+  const currentRef = useRef(value);
+  const editedRef = useRef(false);
+  const lastEditAtRef = useRef(0);
+
+  useEffect(() => {
+    if (value === currentRef.current) return;
+    if (editedRef.current) {
+      const replaced = currentRef.current;
+      setPast(prev => [...prev, replaced].slice(-MAX_UNDO_STEPS));
+      setFuture([]);
+    }
+    currentRef.current = value;
+    editedRef.current = false;
+  }, [value]);
+
+  const apply = useCallback((text: string) => {
+    currentRef.current = text;
+    editedRef.current = true;
+    setValue(text);
+  }, [setValue]);
+
+  const edit = useCallback((text: string) => {
+    if (text === currentRef.current) return;
+    const now = Date.now();
+    // Typing continues the step it started, anything after a pause is a new one
+    if (!editedRef.current || now - lastEditAtRef.current > TYPING_GROUP_MS) {
+      const previous = currentRef.current;
+      setPast(prev => [...prev, previous].slice(-MAX_UNDO_STEPS));
+    }
+    setFuture([]);
+    lastEditAtRef.current = now;
+    apply(text);
+  }, [apply]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    const current = currentRef.current;
+    setPast(past.slice(0, -1));
+    setFuture(prev => [current, ...prev]);
+    lastEditAtRef.current = 0;
+    apply(past[past.length - 1]);
+  }, [past, apply]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    const current = currentRef.current;
+    setPast(prev => [...prev, current]);
+    setFuture(future.slice(1));
+    lastEditAtRef.current = 0;
+    apply(future[0]);
+  }, [future, apply]);
+
+  return {
+    value,
+    edit,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0
+  };
+};
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { apiFetch } from '@/lib/api';
+import {
+  checkUsage as checkUsageAgainst,
+  DEFAULT_USAGE_THRESHOLDS,
+  type UsageKind,
+  type UsageReport,
+  type UsageThresholds,
+  type UsageWarning,
+} from '@/lib/usage';
+import { settingsStorage } from '@/lib/storage';
+
+type UsageStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface UsageHook {
+  report: UsageReport | null;
+  status: UsageStatus;
+  errorMessage: string;
+  // Reloads the report, unless it was loaded moments ago and force is not set
+  refresh: (force?: boolean) => Promise<void>;
+  thresholds: UsageThresholds;
+  setWarnAtPercent: (percent: number) => void;
+  setDailyBudget: (kind: UsageKind, characters: number) => void;
+  // Warning for a request of the given size, null when it fits
+  checkUsage: (kind: UsageKind, characters: number) => UsageWarning | null;
+}
+
+const THRESHOLDS_STORAGE_KEY = 'voicepal-usage-thresholds';
+
+// Every refresh asks the providers for their quota, so back-to-back requests share one
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+const loadThresholds = (): UsageThresholds => {
+  try {
+    const saved = settingsStorage.getItem(THRESHOLDS_STORAGE_KEY);
+    if (!saved) return DEFAULT_USAGE_THRESHOLDS;
+    const parsed = JSON.parse(saved) as Partial<UsageThresholds>;
+    return {
+      warnAtPercent: parsed.warnAtPercent ?? DEFAULT_USAGE_THRESHOLDS.warnAtPercent,
+      dailyBudgets: { ...DEFAULT_USAGE_THRESHOLDS.dailyBudgets, ...parsed.dailyBudgets },
+    };
+  } catch (error) {
+    console.error('Error loading usage thresholds:', error);
+    return DEFAULT_USAGE_THRESHOLDS;
+  }
+};
+
+export const useUsage = (): UsageHook => {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [status, setStatus] = useState<UsageStatus>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [thresholds, setThresholds] = useState<UsageThresholds>(loadThresholds);
+  const lastRefreshRef = useRef(0);
+
+  const refresh = useCallback(async (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastRefreshRef.current < MIN_REFRESH_INTERVAL_MS) return;
+    lastRefreshRef.current = now;
+
+    setStatus('loading');
+    try {
+      const response = await apiFetch('/api/usage');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+      }
+
+      setReport(await response.json() as UsageReport);
+      setStatus('ready');
+      setErrorMessage('');
+    } catch (error) {
+      console.error('Error loading usage:', error);
+      setStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load usage');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh(true);
+  }, [refresh]);
+
+  const updateThresholds = useCallback((update: (prev: UsageThresholds) => UsageThresholds) => {
+    setThresholds(prev => {
+      const next = update(prev);
+      settingsStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setWarnAtPercent = useCallback((percent: number) => {
+    updateThresholds(prev => ({ ...prev, warnAtPercent: Math.min(100, Math.max(1, Math.round(percent))) }));
+  }, [updateThresholds]);
+
+  const setDailyBudget = useCallback((kind: UsageKind, characters: number) => {
+    updateThresholds(prev => ({
+      ...prev,
+      dailyBudgets: { ...prev.dailyBudgets, [kind]: Math.max(0, Math.round(characters) || 0) },
+    }));
+  }, [updateThresholds]);
+
+  const checkUsage = useCallback((kind: UsageKind, characters: number) =>
+    checkUsageAgainst(report, thresholds, kind, characters), [report, thresholds]);
+
+  return {
+    report,
+    status,
+    errorMessage,
+    refresh,
+    thresholds,
+    setWarnAtPercent,
+    setDailyBudget,
+    checkUsage
+  };
+};
@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiFetch } from '@/lib/api';
+import { settingsStorage } from '@/lib/storage';
+
+export interface VoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style: number;
+  use_speaker_boost: boolean;
+}
+
+export interface VoiceCatalogEntry {
+  key: string;
+  voice_id: string;
+  name: string;
+  category: string;
+  description: string;
+  languages: string[];
+  default_settings: VoiceSettings;
+  preview_text: string;
+  source: 'preset' | 'account';
+}
+
+interface VoiceCatalogResponse {
+  voices: VoiceCatalogEntry[];
+  categories: string[];
+  default_settings: VoiceSettings;
+}
+
+type VoiceCatalogStatus = 'loading' | 'ready' | 'error';
+
+interface VoicesHook {
+  voices: VoiceCatalogEntry[];
+  categories: string[];
+  status: VoiceCatalogStatus;
+  errorMessage: string;
+  getVoice: (key: string) => VoiceCatalogEntry | undefined;
+  voiceSettings: Record<string, VoiceSettings>;
+  getVoiceSettings: (key: string) => VoiceSettings | undefined;
+  updateVoiceSettings: (key: string, settings: Partial<VoiceSettings>) => void;
+  resetVoiceSettings: (key: string) => void;
+}
+
+interface VoiceFilter {
+  language?: string;
+  category?: string;
+}
+
+const SETTINGS_STORAGE_KEY = 'voicepal-voice-settings';
+
+const loadSavedSettings = (): Record<string, VoiceSettings> => {
+  try {
+    const saved = settingsStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Error loading voice settings:', error);
+    return {};
+  }
+};
+
+export function useVoices(filter: VoiceFilter = {}): VoicesHook {
+  const [voices, setVoices] = useState<VoiceCatalogEntry[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [status, setStatus] = useState<VoiceCatalogStatus>('loading');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [voiceSettings, setVoiceSettings] = useState<Record<string, VoiceSettings>>(loadSavedSettings);
+
+  const { language, category } = filter;
+
+  // Load the catalog from the server whenever the filter changes
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams();
+    if (language) params.set('language', language);
+    if (category) params.set('category', category);
+
+    setStatus('loading');
+    apiFetch(`/api/voices${params.toString() ? `?${params}` : ''}`)
+      .then(async response => {
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({ message: 'Unknown error' }));
+          throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+        }
+        return response.json() as Promise<VoiceCatalogResponse>;
+      })
+      .then(catalog => {
+        if (cancelled) return;
+        setVoices(catalog.voices);
+        setCategories(catalog.categories);
+        setStatus('ready');
+        setErrorMessage('');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading voice catalog:', error);
+        setStatus('error');
+        setErrorMessage(error instanceof Error ? error.message : 'Failed to load voices');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language, category]);
+
+  // Persist per-voice settings
+  useEffect(() => {
+    try {
+      settingsStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(voiceSettings));
+    } catch (error) {
+      console.error('Error saving voice settings:', error);
+    }
+  }, [voiceSettings]);
+
+  const getVoice = useCallback((key: string) => {
+    return voices.find(voice => voice.key === key);
+  }, [voices]);
+
+  const getVoiceSettings = useCallback((key: string) => {
+    return voiceSettings[key] ?? getVoice(key)?.default_settings;
+  }, [voiceSettings, getVoice]);
+
+  const updateVoiceSettings = useCallback((key: string, settings: Partial<VoiceSettings>) => {
+    setVoiceSettings(prev => {
+      const base = prev[key] ?? voices.find(voice => voice.key === key)?.default_settings;
+      if (!base) return prev;
+      return { ...prev, [key]: { ...base, ...settings } };
+    });
+  }, [voices]);
+
+  const resetVoiceSettings = useCallback((key: string) => {
+    setVoiceSettings(prev => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return {
+    voices,
+    categories,
+    status,
+    errorMessage,
+    getVoice,
+    voiceSettings,
+    getVoiceSettings,
+    updateVoiceSettings,
+    resetVoiceSettings,
+  };
+}
@@ -0,0 +1,27 @@
+// fetch for our own /api routes.
+// When the API is protected with API_AUTH_TOKEN, builds that set VITE_API_TOKEN
+// (the desktop app, private deployments) send it along with every request.
+// The token ends up in the bundle, so public sites rely on the allowed-origins
+// list and rate limiting instead.
+// The desktop app also sends the DeepL and ElevenLabs keys saved in its settings;
+// the API only uses them when API_CLIENT_PROVIDER_KEYS is on.
+
+import { getProviderKeys, type ProviderKeyId } from "@/lib/storage";
+
+const API_TOKEN = import.meta.env.VITE_API_TOKEN;
+
+const PROVIDER_KEY_HEADERS: Record<ProviderKeyId, string> = {
+  deepl: "X-DeepL-Key",
+  elevenlabs: "X-ElevenLabs-Key",
+};
+
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (API_TOKEN && !headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${API_TOKEN}`);
+  }
+  for (const [provider, key] of Object.entries(getProviderKeys()) as [ProviderKeyId, string | null][]) {
+    if (key) headers.set(PROVIDER_KEY_HEADERS[provider], key);
+  }
+  return fetch(path, { ...init, headers });
+}
@@ -0,0 +1,362 @@
+import { readZip, writeZip, type ZipEntry } from "@/lib/zip";
+import { extractPdfParagraphs } from "@/lib/pdf-text";
+import { joinTextParts } from "@/lib/languages";
+
+// Documents cut into translatable segments and put back together afterwards.
+// Text and Markdown keep everything between the segments (blank lines, heading
+// and list markers, code blocks) verbatim; .docx files keep their package and
+// only the text of each paragraph is replaced; PDFs come back as plain text.
+
+export type DocumentFormat = "txt" | "md" | "docx" | "pdf";
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, { label: string; extensions: string[]; mimeType: string }> = {
+  txt: { label: "Plain text", extensions: [".txt"], mimeType: "text/plain" },
+  md: { label: "Markdown", extensions: [".md", ".markdown"], mimeType: "text/markdown" },
+  docx: {
+    label: "Word",
+    extensions: [".docx"],
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  pdf: { label: "PDF", extensions: [".pdf"], mimeType: "application/pdf" },
+};
+
+export const DOCUMENT_FILE_EXTENSIONS = Object.values(DOCUMENT_FORMATS).flatMap(format => format.extensions);
+export const DOCUMENT_FILE_TYPES = Object.values(DOCUMENT_FORMATS).map(format => format.mimeType);
+
+// Larger files are almost always scans or embedded media, not text
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// Limits of /api/translate/batch
+const MAX_BATCH_SEGMENTS = 50;
+const MAX_BATCH_CHARACTERS = 20000;
+// Longer paragraphs are cut at sentence ends so one of them never fills a batch
+const MAX_CHUNK_CHARACTERS = 4000;
+
+// Text kept as it is, or the index of the segment translated in its place
+type DocumentPiece = string | number;
+
+export interface TranslatableDocument {
+  name: string;
+  format: DocumentFormat;
+  segments: string[];
+  pieces: DocumentPiece[];
+  // Original package of a .docx file, rebuilt with the translated paragraphs
+  docx: { entries: ZipEntry[]; documentXml: string } | null;
+}
+
+export const getDocumentFormat = (file: File): DocumentFormat | null => {
+  const name = file.name.toLowerCase();
+  const format = (Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).find(id =>
+    DOCUMENT_FORMATS[id].extensions.some(extension => name.endsWith(extension))
+  );
+  return format ?? (Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).find(id => DOCUMENT_FORMATS[id].mimeType === file.type) ?? null;
+};
+
+class DocumentBuilder {
+  segments: string[] = [];
+  pieces: DocumentPiece[] = [];
+
+  text(text: string) {
+    if (text) this.pieces.push(text);
+  }
+
+  // Surrounding whitespace stays out of the segment
+  segment(text: string) {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+    this.text(match[1]);
+    if (match[2]) {
+      this.pieces.push(this.segments.length);
+      this.segments.push(match[2]);
+    }
+    this.text(match[3]);
+  }
+}
+
+// Paragraphs are separated by blank lines; line breaks inside them are kept
+function parsePlainText(text: string, builder: DocumentBuilder) {
+  text.split(/(\n[ \t]*\n\s*)/).forEach((part, index) =>
+    index % 2 === 0 ? builder.segment(part) : builder.text(part)
+  );
+}
+
+const MARKDOWN_FENCE = /^\s*(`{3,}|~{3,})/;
+const MARKDOWN_RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const MARKDOWN_HEADING = /^(\s{0,3}#{1,6}\s+)(.*?)(\s+#+\s*)?$/;
+const MARKDOWN_LIST_ITEM = /^(\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)(.*)$/;
+const MARKDOWN_QUOTE = /^(\s*(?:>\s?)+)(.*)$/;
+const MARKDOWN_TABLE_ROW = /^\s*\|.*\|\s*$/;
+const MARKDOWN_TABLE_DIVIDER = /^[\s|:-]+$/;
+
+// Markup stays, the text after heading, list and quote markers and inside table
+// cells is translated; code, front matter and HTML lines are left alone.
+// Lines of one paragraph are joined, which renders the same.
+function parseMarkdown(text: string, builder: DocumentBuilder) {
+  const lines = text.split("\n");
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+  let frontMatter = lines[0]?.trim() === "---";
+
+  const flushParagraph = (newline = "\n") => {
+    if (paragraph.length === 0) return;
+    const indent = /^\s*/.exec(paragraph[0])![0];
+    builder.text(indent);
+    builder.segment(joinTextParts(paragraph.map(line => line.trim())));
+    builder.text(newline);
+    paragraph = [];
+  };
+
+  lines.forEach((line, index) => {
+    const newline = index < lines.length - 1 ? "\n" : "";
+
+    if (frontMatter) {
+      builder.text(line + newline);
+      if (index > 0 && line.trim() === "---") frontMatter = false;
+      return;
+    }
+
+    if (fence) {
+      builder.text(line + newline);
+      if (line.trim().startsWith(fence)) fence = null;
+      return;
+    }
+
+    const fenceMatch = MARKDOWN_FENCE.exec(line);
+    const isPlainLine = !fenceMatch && line.trim() && !MARKDOWN_RULE.test(line) && !MARKDOWN_HEADING.test(line) &&
+      !MARKDOWN_LIST_ITEM.test(line) && !MARKDOWN_QUOTE.test(line) && !MARKDOWN_TABLE_ROW.test(line) &&
+      !/^\s*</.test(line) && !(paragraph.length === 0 && /^( {4}|\t)/.test(line));
+
+    if (isPlainLine) {
+      paragraph.push(line);
+      if (!newline) flushParagraph("");
+      return;
+    }
+    flushParagraph();
+
+    let match: RegExpExecArray | null;
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      builder.text(line);
+    } else if (MARKDOWN_RULE.test(line)) {
+      builder.text(line);
+    } else if ((match = MARKDOWN_HEADING.exec(line)) || (match = MARKDOWN_LIST_ITEM.exec(line)) || (match = MARKDOWN_QUOTE.exec(line))) {
+      builder.text(match[1]);
+      builder.segment(match[2]);
+      builder.text(match[3] ?? "");
+    } else if (MARKDOWN_TABLE_ROW.test(line) && !MARKDOWN_TABLE_DIVIDER.test(line)) {
+      line.split("|").forEach((cell, cellIndex) => {
+        if (cellIndex > 0) builder.text("|");
+        builder.segment(cell);
+      });
+    } else {
+      builder.text(line);
+    }
+    builder.text(newline);
+  });
+}
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const XML_NS = "http://www.w3.org/XML/1998/namespace";
+const DOCX_DOCUMENT_PATH = "word/document.xml";
+
+// The paragraph a node belongs to; text boxes nest paragraphs inside paragraphs
+const getParagraph = (node: Element) => {
+  let current: Node | null = node.parentNode;
+  while (current && !(current instanceof Element && current.namespaceURI === WORD_NS && current.localName === "p")) {
+    current = current.parentNode;
+  }
+  return current;
+};
+
+// Text, tabs and line breaks of a run; page and column breaks are layout, and
+// the w:tab elements of paragraph properties are tab stops
+const isTextNode = (node: Element) =>
+  node.parentNode instanceof Element && node.parentNode.localName === "r" &&
+  (node.localName === "t" || node.localName === "tab" || node.localName === "cr" ||
+    (node.localName === "br" && !["page", "column"].includes(node.getAttributeNS(WORD_NS, "type") ?? "")));
+
+const getTextNodes = (paragraph: Element) =>
+  Array.from(paragraph.getElementsByTagNameNS(WORD_NS, "*"))
+    .filter(node => isTextNode(node) && getParagraph(node) === paragraph);
+
+const getParagraphText = (paragraph: Element) =>
+  getTextNodes(paragraph)
+    .map(node => (node.localName === "t" ? node.textContent ?? "" : node.localName === "tab" ? "\t" : "\n"))
+    .join("");
+
+// Every paragraph with text, in document order, tables and text boxes included
+const getTextParagraphs = (xml: Document) =>
+  Array.from(xml.getElementsByTagNameNS(WORD_NS, "p"))
+    .map(element => ({ element, text: getParagraphText(element) }))
+    .filter(paragraph => paragraph.text.trim());
+
+// The first run with text keeps its formatting and takes the whole translation
+function replaceParagraphText(paragraph: Element, text: string) {
+  const nodes = getTextNodes(paragraph);
+  const firstRun = nodes[0]?.parentNode;
+  if (!(firstRun instanceof Element)) return;
+
+  const runs = new Set(nodes.map(node => node.parentNode));
+  nodes.forEach(node => node.remove());
+  runs.forEach(run => {
+    if (run !== firstRun && run instanceof Element && Array.from(run.children).every(child => child.localName === "rPr")) {
+      run.remove();
+    }
+  });
+
+  const xml = paragraph.ownerDocument;
+  text.split("\n").forEach((line, lineIndex) => {
+    if (lineIndex > 0) firstRun.appendChild(xml.createElementNS(WORD_NS, "w:br"));
+    line.split("\t").forEach((part, partIndex) => {
+      if (partIndex > 0) firstRun.appendChild(xml.createElementNS(WORD_NS, "w:tab"));
+      if (!part) return;
+      const node = xml.createElementNS(WORD_NS, "w:t");
+      node.setAttributeNS(XML_NS, "xml:space", "preserve");
+      node.textContent = part;
+      firstRun.appendChild(node);
+    });
+  });
+}
+
+const parseXml = (source: string) => {
+  const xml = new DOMParser().parseFromString(source, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The document text could not be read");
+  }
+  return xml;
+};
+
+async function parseDocx(buffer: ArrayBuffer, builder: DocumentBuilder) {
+  const entries = await readZip(buffer).catch(() => {
+    throw new Error("Not a valid .docx file");
+  });
+  const documentEntry = entries.find(entry => entry.name === DOCX_DOCUMENT_PATH);
+  if (!documentEntry) {
+    throw new Error("Not a Word document: word/document.xml is missing");
+  }
+
+  const documentXml = new TextDecoder().decode(documentEntry.data);
+  getTextParagraphs(parseXml(documentXml)).forEach(({ text }, index) => {
+    if (index > 0) builder.text("\n\n");
+    builder.segment(text);
+  });
+  return { entries, documentXml };
+}
+
+export async function parseDocument(file: File): Promise<TranslatableDocument> {
+  const format = getDocumentFormat(file);
+  if (!format) {
+    throw new Error("Unsupported file type. Please upload a .txt, .md, .docx or PDF document.");
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`The document is too large. Maximum ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB allowed.`);
+  }
+
+  const builder = new DocumentBuilder();
+  let docx: TranslatableDocument["docx"] = null;
+
+  if (format === "txt") {
+    parsePlainText((await file.text()).replace(/\r\n?/g, "\n"), builder);
+  } else if (format === "md") {
+    parseMarkdown((await file.text()).replace(/\r\n?/g, "\n"), builder);
+  } else if (format === "docx") {
+    docx = await parseDocx(await file.arrayBuffer(), builder);
+  } else {
+    (await extractPdfParagraphs(await file.arrayBuffer())).forEach((paragraph, index) => {
+      if (index > 0) builder.text("\n\n");
+      builder.segment(paragraph);
+    });
+  }
+
+  if (builder.segments.length === 0) {
+    throw new Error("The document has no text to translate");
+  }
+  return { name: file.name, format, segments: builder.segments, pieces: builder.pieces, docx };
+}
+
+// The document as text, with each segment replaced by its translation
+export const renderDocumentText = (document: Pick<TranslatableDocument, "segments" | "pieces">, translations: string[]) =>
+  document.pieces
+    .map(piece => (typeof piece === "number" ? translations[piece] ?? document.segments[piece] : piece))
+    .join("");
+
+// .docx files keep their format, PDFs are written out as plain text
+export const getOutputFormat = (format: DocumentFormat): DocumentFormat => (format === "pdf" ? "txt" : format);
+
+// "report.docx" -> "report.es.docx"
+export const getTranslatedFileName = (name: string, format: DocumentFormat, targetLang: string) => {
+  const baseName = name.replace(/\.[^.]+$/, "") || "document";
+  const extension = format === "md" ? name.slice(baseName.length) || ".md" : DOCUMENT_FORMATS[getOutputFormat(format)].extensions[0];
+  return `${baseName}.${targetLang.toLowerCase()}${extension}`;
+};
+
+export async function buildTranslatedDocument(document: TranslatableDocument, translations: string[]): Promise<Blob> {
+  if (!document.docx) {
+    const { mimeType } = DOCUMENT_FORMATS[getOutputFormat(document.format)];
+    return new Blob([renderDocumentText(document, translations)], { type: `${mimeType};charset=utf-8` });
+  }
+
+  const xml = parseXml(document.docx.documentXml);
+  getTextParagraphs(xml).forEach(({ element }, index) => {
+    if (translations[index] !== undefined) replaceParagraphText(element, translations[index]);
+  });
+
+  let documentXml = new XMLSerializer().serializeToString(xml);
+  if (!documentXml.startsWith("<?xml")) {
+    documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${documentXml}`;
+  }
+  const entries = document.docx.entries.map(entry =>
+    entry.name === DOCX_DOCUMENT_PATH ? { name: entry.name, data: new TextEncoder().encode(documentXml) } : entry
+  );
+  const blob = await writeZip(entries);
+  return new Blob([blob], { type: DOCUMENT_FORMATS.docx.mimeType });
+}
+
+// Part of a segment, sent in one batch request
+export interface TranslationChunk {
+  segment: number;
+  text: string;
+  // The segment is complete once this chunk is translated
+  last: boolean;
+}
+
+// Cuts a long text after sentence ends, or anywhere when a sentence alone is too long
+const splitLongText = (text: string): string[] => {
+  if (text.length <= MAX_CHUNK_CHARACTERS) return [text];
+  const chunks: string[] = [];
+  let current = "";
+  for (const sentence of text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) ?? [text]) {
+    if (current && current.length + sentence.length > MAX_CHUNK_CHARACTERS) {
+      chunks.push(current);
+      current = "";
+    }
+    current += sentence;
+    while (current.length > MAX_CHUNK_CHARACTERS) {
+      chunks.push(current.slice(0, MAX_CHUNK_CHARACTERS));
+      current = current.slice(MAX_CHUNK_CHARACTERS);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// Requests for the batch route, each within its segment and character limits
+export function planTranslationBatches(segments: string[]): TranslationChunk[][] {
+  const batches: TranslationChunk[][] = [];
+  let batch: TranslationChunk[] = [];
+  let characters = 0;
+
+  segments.forEach((segment, index) => {
+    const parts = splitLongText(segment);
+    parts.forEach((text, partIndex) => {
+      if (batch.length === MAX_BATCH_SEGMENTS || characters + text.length > MAX_BATCH_CHARACTERS) {
+        batches.push(batch);
+        batch = [];
+        characters = 0;
+      }
+      batch.push({ segment: index, text, last: partIndex === parts.length - 1 });
+      characters += text.length;
+    });
+  });
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
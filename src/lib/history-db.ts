@@ -0,0 +1,135 @@
+import type { HistoryItem } from "@/hooks/useHistory";
+import type { QueuedRequest } from "@/hooks/useRequestQueue";
+
+// IndexedDB persistence for the history list, the audio generated for it and the
+// requests waiting for a connection.
+// Every call opens the shared connection lazily and wraps the request API in promises.
+
+const DB_NAME = "voicepal";
+const DB_VERSION = 3;
+const HISTORY_STORE = "history";
+// Audio blobs live in their own store so loading the history list stays cheap
+const AUDIO_STORE = "audio";
+// Translations and audio asked for while offline
+const QUEUE_STORE = "queue";
+
+export interface HistoryAudioRecord {
+  id: string;
+  blob: Blob;
+  savedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDBAvailable = () =>
+  typeof window !== "undefined" && "indexedDB" in window;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const request = run(transaction.objectStore(storeName));
+
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const result = request ? await promisifyRequest(request) : undefined;
+  await done;
+  return result;
+}
+
+// Newest first, matching the order the Sidebar shows
+export async function getAllHistoryItems(): Promise<HistoryItem[]> {
+  const items = (await withStore(HISTORY_STORE, "readonly", store => store.getAll() as IDBRequest<HistoryItem[]>)) ?? [];
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function putHistoryItems(items: HistoryItem[]): Promise<void> {
+  await withStore(HISTORY_STORE, "readwrite", store => {
+    items.forEach(item => store.put(item));
+  });
+}
+
+export async function deleteHistoryItems(ids: string[]): Promise<void> {
+  await withStore(HISTORY_STORE, "readwrite", store => {
+    ids.forEach(id => store.delete(id));
+  });
+}
+
+export async function clearHistoryItems(): Promise<void> {
+  await withStore(HISTORY_STORE, "readwrite", store => store.clear());
+}
+
+export async function putHistoryAudio(record: HistoryAudioRecord): Promise<void> {
+  await withStore(AUDIO_STORE, "readwrite", store => store.put(record));
+}
+
+export async function getHistoryAudio(id: string): Promise<HistoryAudioRecord | null> {
+  const record = await withStore(AUDIO_STORE, "readonly", store => store.get(id) as IDBRequest<HistoryAudioRecord | undefined>);
+  return record ?? null;
+}
+
+export async function deleteHistoryAudio(ids: string[]): Promise<void> {
+  await withStore(AUDIO_STORE, "readwrite", store => {
+    ids.forEach(id => store.delete(id));
+  });
+}
+
+export async function clearHistoryAudio(): Promise<void> {
+  await withStore(AUDIO_STORE, "readwrite", store => store.clear());
+}
+
+// Oldest first, the order they are sent in
+export async function getQueuedRequests(): Promise<QueuedRequest[]> {
+  const requests = (await withStore(QUEUE_STORE, "readonly", store => store.getAll() as IDBRequest<QueuedRequest[]>)) ?? [];
+  return requests.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function putQueuedRequest(request: QueuedRequest): Promise<void> {
+  await withStore(QUEUE_STORE, "readwrite", store => store.put(request));
+}
+
+export async function deleteQueuedRequest(id: string): Promise<void> {
+  await withStore(QUEUE_STORE, "readwrite", store => store.delete(id));
+}
@@ -0,0 +1,236 @@
+import type { HistoryItem } from "@/hooks/useHistory";
+import { formatSubtitleTime } from "@/lib/subtitles";
+import { DOCUMENT_FORMATS } from "@/lib/documents";
+
+// Serializers for exporting history and parsing it back in.
+// JSON is the only lossless format; CSV, SRT and Anki TSV are for other tools.
+
+export type HistoryExportFormat = "json" | "csv" | "srt" | "anki";
+
+interface HistoryExportFile {
+  app: "voicepal";
+  version: 1;
+  exportedAt: string;
+  items: HistoryItem[];
+}
+
+export const HISTORY_EXPORT_FORMATS: { id: HistoryExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  { id: "srt", label: "SRT subtitles", extension: "srt", mimeType: "application/x-subrip" },
+  { id: "anki", label: "Anki (TSV)", extension: "txt", mimeType: "text/tab-separated-values" },
+];
+
+const byDateAscending = (items: HistoryItem[]) =>
+  [...items].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export function toJSON(items: HistoryItem[]): string {
+  const file: HistoryExportFile = {
+    app: "voicepal",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    items,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const escapeCSV = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCSV(items: HistoryItem[]): string {
+  const header = ["id", "createdAt", "sourceLang", "targetLang", "transcribedText", "translatedText", "ttsVoice", "tags", "favorite", "qualityScore"];
+  const rows = items.map(item => [
+    item.id,
+    item.createdAt,
+    item.sourceLang,
+    item.targetLang,
+    item.transcribedText,
+    item.translatedText,
+    item.ttsVoice,
+    item.tags.join(";"),
+    String(item.favorite),
+    item.qualityScore === null ? "" : item.qualityScore.toFixed(2),
+  ].map(escapeCSV).join(","));
+  return [header.join(","), ...rows].join("\r\n");
+}
+
+// Rough reading time for items recorded without segment timing
+const estimateDurationMs = (text: string) => Math.max(2000, Math.round(text.length / 15 * 1000));
+
+interface HistoryCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Cues on a timeline relative to the first saved item. Recorded items give one
+// cue per segment as timed by the recognizer, with the item's translation under
+// the last one; items edited since, or without timing, give one cue with an
+// estimated length cut short by the next item. createdAt is when an item was
+// saved, so a cue never starts before the previous one ends.
+export function toSRT(items: HistoryItem[]): string {
+  const sorted = byDateAscending(items);
+  if (sorted.length === 0) return "";
+
+  const origin = new Date(sorted[0].createdAt).getTime();
+
+  const cues = sorted.flatMap((item, index): HistoryCue[] => {
+    const itemStart = new Date(item.createdAt).getTime() - origin;
+    // The segment text predates any edit of the item
+    const segments = item.editedAt === null
+      ? item.segments.filter(segment => segment.end > segment.start && segment.text.trim()).sort((a, b) => a.start - b.start)
+      : [];
+
+    if (segments.length > 0) {
+      return segments.map((segment, segmentIndex) => ({
+        start: itemStart + segment.start,
+        end: itemStart + segment.end,
+        text: [segment.text.trim(), segmentIndex === segments.length - 1 ? item.translatedText : ""].filter(Boolean).join("\n"),
+      }));
+    }
+
+    const next = sorted[index + 1];
+    const estimatedEnd = itemStart + estimateDurationMs(item.transcribedText);
+    const end = next
+      ? Math.max(itemStart + 1, Math.min(estimatedEnd, new Date(next.createdAt).getTime() - origin))
+      : estimatedEnd;
+    return [{ start: itemStart, end, text: [item.transcribedText, item.translatedText].filter(Boolean).join("\n") }];
+  });
+
+  let previousEnd = 0;
+  return cues.map((cue, index) => {
+    const start = Math.max(cue.start, previousEnd);
+    // A cue pushed past its own end keeps its length
+    const end = cue.end > start ? cue.end : start + (cue.end - cue.start);
+    previousEnd = end;
+    return `${index + 1}\n${formatSubtitleTime(start)} --> ${formatSubtitleTime(end)}\n${cue.text}\n`;
+  }).join("\n");
+}
+
+const escapeAnkiField = (value: string) => value.replace(/[\t\r\n]+/g, " ").trim();
+
+// Front = source text, back = translation; items without a translation are skipped
+export function toAnkiTSV(items: HistoryItem[]): string {
+  const header = ["#separator:tab", "#html:false", "#tags column:3"];
+  const rows = items
+    .filter(item => item.translatedText.trim())
+    .map(item => [
+      escapeAnkiField(item.transcribedText),
+      escapeAnkiField(item.translatedText),
+      ["voicepal", `${item.sourceLang}-${item.targetLang}`.toLowerCase(), ...item.tags].join(" "),
+    ].join("\t"));
+  return [...header, ...rows].join("\n");
+}
+
+export function serializeHistory(items: HistoryItem[], format: HistoryExportFormat): string {
+  switch (format) {
+    case "json": return toJSON(items);
+    case "csv": return toCSV(items);
+    case "srt": return toSRT(items);
+    case "anki": return toAnkiTSV(items);
+  }
+}
+
+export function downloadHistoryExport(items: HistoryItem[], format: HistoryExportFormat) {
+  const { extension, mimeType } = HISTORY_EXPORT_FORMATS.find(entry => entry.id === format)!;
+  const blob = new Blob([serializeHistory(items, format)], { type: `${mimeType};charset=utf-8` });
+  const downloadUrl = URL.createObjectURL(blob);
+
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, "-");
+  const link = document.createElement("a");
+  link.href = downloadUrl;
+  link.download = `voicepal-history-${timestamp}.${extension}`;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(downloadUrl);
+}
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isString: Guard<string> = (value): value is string => typeof value === "string";
+const isNumber: Guard<number> = (value): value is number => typeof value === "number" && Number.isFinite(value);
+const isBoolean: Guard<boolean> = (value): value is boolean => typeof value === "boolean";
+const isDate: Guard<string> = (value): value is string => isString(value) && !Number.isNaN(Date.parse(value));
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasFields = <T>(fields: { [K in keyof T]: Guard<T[K]> }): Guard<T> =>
+  (value): value is T => isRecord(value) && Object.entries(fields).every(([key, guard]) => (guard as Guard<unknown>)(value[key]));
+
+const orNull = <T>(guard: Guard<T>): Guard<T | null> => (value): value is T | null => value === null || guard(value);
+
+// What a field holds when its value is usable, undefined otherwise
+type FieldReader<T> = (value: unknown) => T | undefined;
+
+const valid = <T>(guard: Guard<T>): FieldReader<T> => value => (guard(value) ? value : undefined);
+// Lists keep the entries that are usable
+const listOf = <T>(guard: Guard<T>): FieldReader<T[]> => value => (Array.isArray(value) ? value.filter(guard) : undefined);
+
+const HISTORY_FIELDS: { [K in keyof HistoryItem]: FieldReader<HistoryItem[K]> } = {
+  id: valid(isString),
+  transcribedText: valid(isString),
+  translatedText: valid(isString),
+  targetLang: valid(isString),
+  sourceLang: valid(isString),
+  ttsVoice: valid(isString),
+  createdAt: valid(isDate),
+  tags: listOf(isString),
+  favorite: valid(isBoolean),
+  audio: valid(orNull(hasFields({ voice: isString, text: isString, size: isNumber, savedAt: isDate }))),
+  segments: listOf(hasFields({ start: isNumber, end: isNumber, text: isString })),
+  turns: listOf(hasFields({
+    speaker: (value): value is "a" | "b" => value === "a" || value === "b",
+    text: isString,
+    translatedText: isString,
+    sourceLang: isString,
+    targetLang: isString,
+    createdAt: isDate,
+  })),
+  qualityScore: valid(orNull((value): value is number => isNumber(value) && value >= 0 && value <= 1)),
+  document: valid(orNull(hasFields({
+    fileName: isString,
+    format: (value): value is keyof typeof DOCUMENT_FORMATS => isString(value) && Object.keys(DOCUMENT_FORMATS).includes(value),
+    segmentCount: isNumber,
+  }))),
+  revisions: listOf(hasFields({ transcribedText: isString, translatedText: isString, savedAt: isDate })),
+  editedAt: valid(orNull(isDate)),
+};
+
+// The fields of a saved or imported item that have the right type; the rest are
+// left out so the history falls back to their defaults
+export function sanitizeHistoryItem(value: unknown): Partial<HistoryItem> {
+  if (!isRecord(value)) return {};
+  const item: Record<string, unknown> = {};
+  for (const [key, read] of Object.entries(HISTORY_FIELDS) as [string, FieldReader<unknown>][]) {
+    const field = read(value[key]);
+    if (field !== undefined) item[key] = field;
+  }
+  return item as Partial<HistoryItem>;
+}
+
+// Accepts a VoicePal JSON export or a bare array of items
+export function parseHistoryImport(content: string): Partial<HistoryItem>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const items = Array.isArray(data) ? data : (data as HistoryExportFile | null)?.items;
+  if (!Array.isArray(items)) {
+    throw new Error("No history items found in the file");
+  }
+
+  const validItems = items.map(sanitizeHistoryItem).filter(item => item.transcribedText !== undefined);
+  if (validItems.length === 0) {
+    throw new Error("No history items found in the file");
+  }
+  return validItems;
+}
+
+// Two items are duplicates when they hold the same texts for the same languages
+export const getHistoryContentKey = (item: Pick<HistoryItem, "transcribedText" | "translatedText" | "sourceLang" | "targetLang">) =>
+  [item.sourceLang, item.targetLang, item.transcribedText.trim(), item.translatedText.trim()].join("\u0000");
@@ -0,0 +1,116 @@
+import { isTauri } from "@/lib/speech-recognizers";
+
+// Keyboard shortcuts for the main actions.
+// Shortcuts are stored as accelerator strings like "Ctrl+Shift+KeyR": modifiers
+// followed by a KeyboardEvent.code. The same string is understood by the Tauri
+// global shortcut plugin, so one binding works in the browser and system-wide.
+
+export type HotkeyAction = "record" | "stop" | "translate" | "speak" | "save" | "switch-mode" | "push-to-talk";
+
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export const HOTKEY_ACTIONS: { id: HotkeyAction; label: string }[] = [
+  { id: "record", label: "Start / stop recording" },
+  { id: "stop", label: "Stop recording and playback" },
+  { id: "translate", label: "Translate" },
+  { id: "speak", label: "Speak" },
+  { id: "save", label: "Save to history" },
+  { id: "switch-mode", label: "Switch mode" },
+  { id: "push-to-talk", label: "Push-to-talk (hold)" },
+];
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  record: "Ctrl+Shift+KeyR",
+  stop: "Ctrl+Shift+KeyX",
+  translate: "Ctrl+Shift+KeyT",
+  speak: "Ctrl+Shift+KeyP",
+  save: "Ctrl+Shift+KeyS",
+  "switch-mode": "Ctrl+Shift+KeyM",
+  "push-to-talk": "Space",
+};
+
+// Push-to-talk needs the key release, which only the window sees
+export const GLOBAL_HOTKEY_ACTIONS: HotkeyAction[] = ["record", "stop", "translate", "speak", "save", "switch-mode"];
+
+const MODIFIERS = ["Ctrl", "Alt", "Shift", "Meta"] as const;
+const MODIFIER_CODES = ["ControlLeft", "ControlRight", "AltLeft", "AltRight", "ShiftLeft", "ShiftRight", "MetaLeft", "MetaRight"];
+
+// The accelerator for a key press, null while only modifiers are held
+export const eventToShortcut = (event: KeyboardEvent): string | null => {
+  if (!event.code || MODIFIER_CODES.includes(event.code)) return null;
+
+  const pressed = {
+    Ctrl: event.ctrlKey,
+    Alt: event.altKey,
+    Shift: event.shiftKey,
+    Meta: event.metaKey,
+  };
+  return [...MODIFIERS.filter(modifier => pressed[modifier]), event.code].join("+");
+};
+
+export const matchesShortcut = (event: KeyboardEvent, shortcut: string) =>
+  !!shortcut && eventToShortcut(event) === shortcut;
+
+// The key of a shortcut without its modifiers, to catch the release of a held shortcut
+export const getShortcutKey = (shortcut: string) => shortcut.split("+").pop() ?? "";
+
+// Shortcuts without a modifier would swallow normal typing when registered system-wide
+export const hasModifier = (shortcut: string) => shortcut.split("+").length > 1;
+
+// "Ctrl+Shift+KeyR" -> "Ctrl + Shift + R"
+export const formatShortcut = (shortcut: string) => {
+  if (!shortcut) return "Not set";
+  return shortcut
+    .split("+")
+    .map(part => part.replace(/^Key(?=[A-Z]$)/, "").replace(/^Digit(?=\d$)/, "").replace(/^Arrow/, ""))
+    .map(part => (part === "Meta" && /Mac/.test(navigator.platform) ? "Cmd" : part))
+    .join(" + ");
+};
+
+// Keyboard focus is in a field where keys are text
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof Element &&
+  (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.hasAttribute("contenteditable"));
+
+interface GlobalHotkeyEvent {
+  action: HotkeyAction;
+}
+
+/**
+ * Registers the bindings as system-wide shortcuts in the Tauri app, replacing
+ * any registered before. Resolves to the actions that were registered and a
+ * function that stops listening; outside Tauri nothing is registered.
+ */
+export async function registerGlobalHotkeys(
+  bindings: Partial<HotkeyBindings>,
+  onAction: (action: HotkeyAction) => void
+): Promise<{ registered: HotkeyAction[]; unlisten: () => void }> {
+  if (!isTauri) return { registered: [], unlisten: () => {} };
+
+  const [{ invoke }, { listen }] = await Promise.all([
+    import("@tauri-apps/api/core"),
+    import("@tauri-apps/api/event"),
+  ]);
+
+  const requested = GLOBAL_HOTKEY_ACTIONS
+    .filter(action => bindings[action] && hasModifier(bindings[action]!))
+    .map(action => ({ action, accelerator: bindings[action]! }));
+
+  const unlisten = await listen<GlobalHotkeyEvent>("global-hotkey", ({ payload }) => onAction(payload.action));
+  try {
+    const failed = await invoke<HotkeyAction[]>("register_global_hotkeys", { bindings: requested });
+    return {
+      registered: requested.map(binding => binding.action).filter(action => !failed.includes(action)),
+      unlisten,
+    };
+  } catch (error) {
+    unlisten();
+    throw error;
+  }
+}
+
+export async function unregisterGlobalHotkeys() {
+  if (!isTauri) return;
+  const { invoke } = await import("@tauri-apps/api/core");
+  await invoke("register_global_hotkeys", { bindings: [] });
+}
@@ -0,0 +1,231 @@
+// Shared language registry.
+// Links the BCP-47 codes used for speech, the DeepL source/target codes and
+// ElevenLabs model support, so every picker and check reads from one place.
+
+export type ElevenLabsModelId = "eleven_monolingual_v1" | "eleven_multilingual_v2";
+
+export interface LanguageVariant {
+  code: string;
+  name: string;
+}
+
+export interface Language {
+  // ISO 639-1 base code
+  id: string;
+  name: string;
+  // Speech recognition / synthesis locales, the first one is the default
+  speechLocales: LanguageVariant[];
+  // null when DeepL cannot translate from or into this language
+  deeplSource: string | null;
+  deeplTargets: LanguageVariant[];
+  elevenLabsModels: ElevenLabsModelId[];
+}
+
+const MULTILINGUAL: ElevenLabsModelId[] = ["eleven_multilingual_v2"];
+
+export const LANGUAGES: Language[] = [
+  {
+    id: "en",
+    name: "English",
+    speechLocales: [{ code: "en-US", name: "English (US)" }, { code: "en-GB", name: "English (UK)" }],
+    deeplSource: "EN",
+    deeplTargets: [{ code: "EN-US", name: "English (US)" }, { code: "EN-GB", name: "English (UK)" }],
+    elevenLabsModels: ["eleven_monolingual_v1", "eleven_multilingual_v2"],
+  },
+  {
+    id: "es",
+    name: "Spanish",
+    speechLocales: [{ code: "es-ES", name: "Spanish (Spain)" }, { code: "es-MX", name: "Spanish (Mexico)" }],
+    deeplSource: "ES",
+    deeplTargets: [{ code: "ES", name: "Spanish" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "fr",
+    name: "French",
+    speechLocales: [{ code: "fr-FR", name: "French" }],
+    deeplSource: "FR",
+    deeplTargets: [{ code: "FR", name: "French" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "de",
+    name: "German",
+    speechLocales: [{ code: "de-DE", name: "German" }],
+    deeplSource: "DE",
+    deeplTargets: [{ code: "DE", name: "German" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "it",
+    name: "Italian",
+    speechLocales: [{ code: "it-IT", name: "Italian" }],
+    deeplSource: "IT",
+    deeplTargets: [{ code: "IT", name: "Italian" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "pt",
+    name: "Portuguese",
+    speechLocales: [{ code: "pt-BR", name: "Portuguese (Brazil)" }, { code: "pt-PT", name: "Portuguese (Portugal)" }],
+    deeplSource: "PT",
+    deeplTargets: [{ code: "PT-BR", name: "Portuguese (BR)" }, { code: "PT-PT", name: "Portuguese (PT)" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "nl",
+    name: "Dutch",
+    speechLocales: [{ code: "nl-NL", name: "Dutch" }],
+    deeplSource: "NL",
+    deeplTargets: [{ code: "NL", name: "Dutch" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "pl",
+    name: "Polish",
+    speechLocales: [{ code: "pl-PL", name: "Polish" }],
+    deeplSource: "PL",
+    deeplTargets: [{ code: "PL", name: "Polish" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "sv",
+    name: "Swedish",
+    speechLocales: [{ code: "sv-SE", name: "Swedish" }],
+    deeplSource: "SV",
+    deeplTargets: [{ code: "SV", name: "Swedish" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "ru",
+    name: "Russian",
+    speechLocales: [{ code: "ru-RU", name: "Russian" }],
+    deeplSource: "RU",
+    deeplTargets: [{ code: "RU", name: "Russian" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "tr",
+    name: "Turkish",
+    speechLocales: [{ code: "tr-TR", name: "Turkish" }],
+    deeplSource: "TR",
+    deeplTargets: [{ code: "TR", name: "Turkish" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "ja",
+    name: "Japanese",
+    speechLocales: [{ code: "ja-JP", name: "Japanese" }],
+    deeplSource: "JA",
+    deeplTargets: [{ code: "JA", name: "Japanese" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "zh",
+    name: "Chinese",
+    speechLocales: [{ code: "zh-CN", name: "Chinese (Mandarin)" }],
+    deeplSource: "ZH",
+    deeplTargets: [{ code: "ZH", name: "Chinese (Simplified)" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "ko",
+    name: "Korean",
+    speechLocales: [{ code: "ko-KR", name: "Korean" }],
+    deeplSource: "KO",
+    deeplTargets: [{ code: "KO", name: "Korean" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "ar",
+    name: "Arabic",
+    speechLocales: [{ code: "ar-SA", name: "Arabic" }],
+    deeplSource: "AR",
+    deeplTargets: [{ code: "AR", name: "Arabic" }],
+    elevenLabsModels: MULTILINGUAL,
+  },
+  {
+    id: "hi",
+    name: "Hindi",
+    speechLocales: [{ code: "hi-IN", name: "Hindi" }],
+    deeplSource: null,
+    deeplTargets: [],
+    elevenLabsModels: MULTILINGUAL,
+  },
+];
+
+// Flattened lists for the pickers
+export const SPEECH_LANGUAGES: LanguageVariant[] = LANGUAGES.flatMap(language => language.speechLocales);
+export const TRANSLATION_TARGETS: LanguageVariant[] = LANGUAGES.flatMap(language => language.deeplTargets);
+
+// Resolves any code we store ('en-US', 'EN-GB', 'PT', legacy 'EN') to its language
+export const getLanguage = (code: string): Language | undefined => {
+  const base = code.split("-")[0].toLowerCase();
+  return LANGUAGES.find(language => language.id === base);
+};
+
+const findVariant = (code: string) => {
+  const normalized = code.toLowerCase();
+  return [...SPEECH_LANGUAGES, ...TRANSLATION_TARGETS].find(variant => variant.code.toLowerCase() === normalized);
+};
+
+export const getLanguageName = (code: string) =>
+  findVariant(code)?.name || getLanguage(code)?.name || code;
+
+// Compact label for tight spaces: 'EN-GB', 'PT-BR', 'FR'
+export const getLanguageShortLabel = (code: string) => {
+  const language = getLanguage(code);
+  if (!language) return code;
+  // The region only matters when the language has more than one variant
+  const hasRegionalVariants = language.speechLocales.length > 1 || language.deeplTargets.length > 1;
+  return code.includes("-") && hasRegionalVariants ? code.toUpperCase() : language.id.toUpperCase();
+};
+
+export const getDeepLSourceCode = (speechLocale: string) => getLanguage(speechLocale)?.deeplSource ?? null;
+
+// Closest DeepL target for a speech locale: 'pt-PT' -> 'PT-PT', 'es-MX' -> 'ES'
+export const getDeepLTargetCode = (speechLocale: string) => {
+  const targets = getLanguage(speechLocale)?.deeplTargets ?? [];
+  return (targets.find(variant => variant.code === speechLocale.toUpperCase()) ?? targets[0])?.code ?? null;
+};
+
+// Older history entries carry DeepL's bare 'EN' and 'PT' targets, which the pickers no longer offer
+const LEGACY_TARGET_CODES: Record<string, string> = { EN: "EN-US", PT: "PT-PT" };
+
+export const normalizeTargetCode = (code: string) => LEGACY_TARGET_CODES[code.toUpperCase()] ?? code;
+
+export const isSameLanguage = (a: string, b: string) => getLanguage(a)?.id === getLanguage(b)?.id;
+
+// English voices keep the original model, everything else needs the multilingual one
+export const getElevenLabsModel = (code: string): ElevenLabsModelId | null => {
+  const models = getLanguage(code)?.elevenLabsModels;
+  return models && models.length > 0 ? models[0] : null;
+};
+
+export type TranslationPairCheck = { supported: true } | { supported: false; reason: string };
+
+// Catch pairs DeepL cannot handle before a request is sent
+export const checkTranslationPair = (sourceLocale: string, targetCode: string): TranslationPairCheck => {
+  const source = getLanguage(sourceLocale);
+  const target = getLanguage(targetCode);
+
+  if (!source || !source.deeplSource) {
+    return { supported: false, reason: `Translation from ${getLanguageName(sourceLocale)} is not supported` };
+  }
+  if (!target || !target.deeplTargets.some(variant => variant.code === targetCode.toUpperCase())) {
+    return { supported: false, reason: `Translation into ${getLanguageName(targetCode)} is not supported` };
+  }
+  return { supported: true };
+};
+
+// Chinese, Japanese and Thai put no spaces between words, so a break inside
+// their text must not turn into one
+export const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\u3000-\u303f\uff01-\uff60]/u;
+
+// Pieces of one text cut apart at line or chunk breaks, joined back up
+export const joinTextParts = (parts: string[]) =>
+  parts.reduce((joined, part) => {
+    if (!joined || !part) return joined + part;
+    const unspaced = UNSPACED_SCRIPT.test(joined[joined.length - 1]) || UNSPACED_SCRIPT.test(part[0]);
+    return unspaced ? joined + part : `${joined} ${part}`;
+  }, "");
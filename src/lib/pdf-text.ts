@@ -0,0 +1,611 @@
+import { inflate } from "@/lib/zip";
+import { joinTextParts } from "@/lib/languages";
+
+// Paragraph text of text-based PDFs, without a PDF library.
+// Objects are found by scanning for "n 0 obj" (object streams included), pages
+// are walked from the catalog, and the text operators of every content stream
+// are replayed to rebuild lines from their baseline. Glyph codes go through the
+// font's ToUnicode map when there is one. Scanned PDFs have no text to find.
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | { kind: "name"; value: string }
+  // Raw bytes as a binary string, one char per byte
+  | { kind: "string"; value: string }
+  | { kind: "ref"; num: number }
+  | { kind: "array"; items: PdfValue[] }
+  | { kind: "dict"; entries: Record<string, PdfValue> }
+  | { kind: "op"; value: string };
+
+type PdfDict = Extract<PdfValue, { kind: "dict" }>;
+
+interface PdfObject {
+  value: PdfValue;
+  // Undecoded stream bytes, for stream objects
+  stream?: string;
+}
+
+const WHITESPACE = "\0\t\n\f\r ";
+const DELIMITERS = "()<>[]{}/%";
+
+const isRegular = (char: string) => !WHITESPACE.includes(char) && !DELIMITERS.includes(char);
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+class PdfLexer {
+  pos: number;
+
+  constructor(private data: string, pos = 0) {
+    this.pos = pos;
+  }
+
+  skipWhitespace() {
+    while (this.pos < this.data.length) {
+      const char = this.data[this.pos];
+      if (char === "%") {
+        while (this.pos < this.data.length && this.data[this.pos] !== "\n" && this.data[this.pos] !== "\r") this.pos++;
+      } else if (WHITESPACE.includes(char)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // Next value or operator, undefined at the end of the data
+  next(): PdfValue | undefined {
+    this.skipWhitespace();
+    const data = this.data;
+    if (this.pos >= data.length) return undefined;
+    const char = data[this.pos];
+
+    if (char === "(") return { kind: "string", value: this.readLiteralString() };
+    if (char === "<" && data[this.pos + 1] === "<") {
+      this.pos += 2;
+      return { kind: "dict", entries: toEntries(this.readUntil(">>")) };
+    }
+    if (char === "<") return { kind: "string", value: this.readHexString() };
+    if (char === ">" && data[this.pos + 1] === ">") {
+      this.pos += 2;
+      return { kind: "op", value: ">>" };
+    }
+    if (char === "[") {
+      this.pos++;
+      return { kind: "array", items: this.readUntil("]") };
+    }
+    if (char === "/") {
+      this.pos++;
+      return { kind: "name", value: this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+    if (!isRegular(char)) {
+      this.pos++;
+      return { kind: "op", value: char };
+    }
+
+    const word = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+    if (word === "true" || word === "false") return word === "true";
+    if (word === "null") return null;
+    return { kind: "op", value: word };
+  }
+
+  private readRegular() {
+    const start = this.pos;
+    while (this.pos < this.data.length && isRegular(this.data[this.pos])) this.pos++;
+    return this.data.slice(start, this.pos);
+  }
+
+  private readUntil(close: string): PdfValue[] {
+    const items: PdfValue[] = [];
+    for (;;) {
+      const value = this.next();
+      if (value === undefined || (isOp(value) && value.value === close)) break;
+      items.push(value);
+    }
+    return collapseRefs(items);
+  }
+
+  private readLiteralString() {
+    const data = this.data;
+    let depth = 0;
+    let result = "";
+    this.pos++;
+    while (this.pos < data.length) {
+      const char = data[this.pos++];
+      if (char === "\\") {
+        const next = data[this.pos++];
+        if (next in ESCAPES) {
+          result += ESCAPES[next];
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(data[this.pos])) octal += data[this.pos++];
+          result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === "\r") {
+          if (data[this.pos] === "\n") this.pos++;
+        } else if (next !== "\n") {
+          result += next;
+        }
+      } else if (char === "(") {
+        depth++;
+        result += char;
+      } else if (char === ")") {
+        if (depth === 0) break;
+        depth--;
+        result += char;
+      } else {
+        result += char;
+      }
+    }
+    return result;
+  }
+
+  private readHexString() {
+    const end = this.data.indexOf(">", this.pos);
+    const hex = this.data.slice(this.pos + 1, end === -1 ? undefined : end).replace(/[^0-9a-fA-F]/g, "");
+    this.pos = end === -1 ? this.data.length : end + 1;
+    let result = "";
+    for (let i = 0; i < hex.length; i += 2) {
+      result += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+    }
+    return result;
+  }
+}
+
+const isOp = (value: PdfValue | undefined): value is Extract<PdfValue, { kind: "op" }> =>
+  typeof value === "object" && value !== null && value.kind === "op";
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  typeof value === "object" && value !== null && value.kind === "dict";
+
+const getName = (value: PdfValue | undefined) =>
+  typeof value === "object" && value !== null && value.kind === "name" ? value.value : undefined;
+
+// "12 0 R" arrives as three tokens
+function collapseRefs(items: PdfValue[]): PdfValue[] {
+  const result: PdfValue[] = [];
+  for (const item of items) {
+    const length = result.length;
+    if (isOp(item) && item.value === "R" && typeof result[length - 1] === "number" && typeof result[length - 2] === "number") {
+      const num = result[length - 2] as number;
+      result.length -= 2;
+      result.push({ kind: "ref", num });
+    } else {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+function toEntries(items: PdfValue[]): Record<string, PdfValue> {
+  const entries: Record<string, PdfValue> = {};
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    const key = getName(items[i]);
+    if (key !== undefined) entries[key] = items[i + 1];
+  }
+  return entries;
+}
+
+const toBinaryString = (bytes: Uint8Array) => {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const fromBinaryString = (data: string) => Uint8Array.from(data, char => char.charCodeAt(0));
+
+const windows1252 = new TextDecoder("windows-1252");
+
+class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+
+  constructor(private data: string) {}
+
+  async load() {
+    const pattern = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(this.data))) {
+      const lexer = new PdfLexer(this.data, pattern.lastIndex);
+      const value = lexer.next() ?? null;
+      const object: PdfObject = { value };
+
+      lexer.skipWhitespace();
+      if (this.data.startsWith("stream", lexer.pos)) {
+        let start = lexer.pos + "stream".length;
+        if (this.data[start] === "\r") start++;
+        if (this.data[start] === "\n") start++;
+        const end = this.data.indexOf("endstream", start);
+        if (end === -1) break;
+        object.stream = this.data.slice(start, end).replace(/\r?\n$/, "");
+        // Binary stream data may look like "n 0 obj" by chance
+        pattern.lastIndex = end;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+
+    for (const object of [...this.objects.values()]) {
+      if (isDict(object.value) && getName(object.value.entries.Type) === "ObjStm") {
+        await this.loadObjectStream(object);
+      }
+    }
+  }
+
+  // Compressed object streams hold most dictionaries of recent PDFs
+  private async loadObjectStream(object: PdfObject) {
+    const data = await this.decodeStream(object);
+    if (data === null || !isDict(object.value)) return;
+
+    const count = this.resolve(object.value.entries.N);
+    const first = this.resolve(object.value.entries.First);
+    if (typeof count !== "number" || typeof first !== "number") return;
+
+    const header = new PdfLexer(data);
+    for (let i = 0; i < count; i++) {
+      const num = header.next();
+      const offset = header.next();
+      if (typeof num !== "number" || typeof offset !== "number") break;
+      // Objects written directly in the file take precedence
+      if (this.objects.has(num)) continue;
+      const value = new PdfLexer(data, first + offset).next() ?? null;
+      this.objects.set(num, { value });
+    }
+  }
+
+  get isEncrypted() {
+    return /\/Encrypt\s/.test(this.data);
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    for (let depth = 0; depth < 8 && typeof value === "object" && value !== null && value.kind === "ref"; depth++) {
+      value = this.objects.get(value.num)?.value;
+    }
+    return value;
+  }
+
+  private resolveDict(value: PdfValue | undefined) {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  private getObject(value: PdfValue | undefined) {
+    return typeof value === "object" && value !== null && value.kind === "ref" ? this.objects.get(value.num) : undefined;
+  }
+
+  // Stream contents as a binary string, null for filters other than Flate
+  async decodeStream(object: PdfObject | undefined): Promise<string | null> {
+    if (!object?.stream || !isDict(object.value)) return null;
+    const filter = this.resolve(object.value.entries.Filter);
+    const filters = typeof filter === "object" && filter !== null && filter.kind === "array"
+      ? filter.items.map(getName)
+      : filter === undefined ? [] : [getName(filter)];
+
+    if (filters.length === 0) return object.stream;
+    if (filters.length > 1 || filters[0] !== "FlateDecode") return null;
+    try {
+      return toBinaryString(await inflate(fromBinaryString(object.stream), "deflate"));
+    } catch {
+      return null;
+    }
+  }
+
+  // Pages in reading order, each with its (possibly inherited) resources
+  getPages(): { page: PdfDict; resources: PdfDict | undefined }[] {
+    const pages: { page: PdfDict; resources: PdfDict | undefined }[] = [];
+    const catalog = [...this.objects.values()]
+      .map(object => object.value)
+      .find(value => isDict(value) && getName(value.entries.Type) === "Catalog") as PdfDict | undefined;
+
+    const walk = (node: PdfDict | undefined, inherited: PdfDict | undefined, depth: number) => {
+      if (!node || depth > 32) return;
+      const resources = this.resolveDict(node.entries.Resources) ?? inherited;
+      const kids = this.resolve(node.entries.Kids);
+      if (typeof kids === "object" && kids !== null && kids.kind === "array") {
+        kids.items.forEach(kid => walk(this.resolveDict(kid), resources, depth + 1));
+      } else if (getName(node.entries.Type) === "Page" || node.entries.Contents) {
+        pages.push({ page: node, resources });
+      }
+    };
+    walk(this.resolveDict(catalog?.entries.Pages), undefined, 0);
+
+    if (pages.length > 0) return pages;
+    // No usable page tree, fall back to the order the pages were written in
+    return [...this.objects.values()]
+      .map(object => object.value)
+      .filter((value): value is PdfDict => isDict(value) && getName(value.entries.Type) === "Page")
+      .map(page => ({ page, resources: this.resolveDict(page.entries.Resources) }));
+  }
+
+  async getPageContent(page: PdfDict) {
+    const contents = page.entries.Contents;
+    const resolved = this.resolve(contents);
+    const refs = typeof resolved === "object" && resolved !== null && resolved.kind === "array" ? resolved.items : [contents];
+    const parts = await Promise.all(refs.map(ref => this.decodeStream(this.getObject(ref))));
+    return parts.filter((part): part is string => part !== null).join("\n");
+  }
+
+  async getFonts(resources: PdfDict | undefined) {
+    const fonts: Record<string, FontDecoder> = {};
+    const fontDict = this.resolveDict(resources?.entries.Font);
+    for (const [name, ref] of Object.entries(fontDict?.entries ?? {})) {
+      const font = this.resolveDict(ref);
+      if (font) fonts[name] = await this.createFontDecoder(font);
+    }
+    return fonts;
+  }
+
+  private async createFontDecoder(font: PdfDict): Promise<FontDecoder> {
+    const composite = getName(font.entries.Subtype) === "Type0";
+    const cmap = await this.decodeStream(this.getObject(font.entries.ToUnicode));
+    if (cmap !== null) return createCMapDecoder(cmap, composite);
+    // Composite fonts without a map use glyph ids, which are not text
+    if (composite) return () => "";
+    return (bytes: string) => windows1252.decode(fromBinaryString(bytes));
+  }
+}
+
+type FontDecoder = (bytes: string) => string;
+
+const readCode = (bytes: string) => {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i);
+  return code;
+};
+
+const decodeUtf16 = (bytes: string) => {
+  let result = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  }
+  return result;
+};
+
+// bfchar and bfrange sections of a ToUnicode CMap
+function createCMapDecoder(cmap: string, composite: boolean): FontDecoder {
+  const map = new Map<number, string>();
+  let codeLength = composite ? 2 : 1;
+  const lexer = new PdfLexer(cmap);
+  let section = "";
+  let operands: PdfValue[] = [];
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOp(token)) {
+      operands.push(token);
+      continue;
+    }
+    if (token.value.startsWith("begin")) {
+      section = token.value;
+    } else if (section === "begincodespacerange" && token.value === "endcodespacerange") {
+      const first = operands[0];
+      if (typeof first === "object" && first !== null && first.kind === "string") codeLength = first.value.length;
+    } else if (section === "beginbfchar" && token.value === "endbfchar") {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const [source, target] = [operands[i], operands[i + 1]];
+        if (typeof source === "object" && source?.kind === "string" && typeof target === "object" && target?.kind === "string") {
+          map.set(readCode(source.value), decodeUtf16(target.value));
+        }
+      }
+    } else if (section === "beginbfrange" && token.value === "endbfrange") {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [low, high, target] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (typeof low !== "object" || low?.kind !== "string" || typeof high !== "object" || high?.kind !== "string") continue;
+        const start = readCode(low.value);
+        const end = Math.min(readCode(high.value), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          if (typeof target === "object" && target?.kind === "array") {
+            const entry = target.items[code - start];
+            if (typeof entry === "object" && entry?.kind === "string") map.set(code, decodeUtf16(entry.value));
+          } else if (typeof target === "object" && target?.kind === "string") {
+            // The last UTF-16 unit counts up through the range
+            const text = decodeUtf16(target.value);
+            map.set(code, text.slice(0, -1) + String.fromCharCode(text.charCodeAt(text.length - 1) + code - start));
+          }
+        }
+      }
+    }
+    if (token.value.startsWith("end")) section = "";
+    if (section === "" || token.value.startsWith("begin")) operands = [];
+  }
+
+  return (bytes: string) => {
+    let result = "";
+    for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+      const code = readCode(bytes.slice(i, i + codeLength));
+      result += map.get(code) ?? (codeLength === 1 ? windows1252.decode(new Uint8Array([code])) : "");
+    }
+    return result;
+  };
+}
+
+interface TextLine {
+  y: number;
+  size: number;
+  text: string;
+}
+
+// TJ offsets are thousandths of the font size; wider gaps than this stand for a space
+const TJ_SPACE_THRESHOLD = -200;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const translate = (m: Matrix, tx: number, ty: number): Matrix =>
+  [m[0], m[1], m[2], m[3], tx * m[0] + ty * m[2] + m[4], tx * m[1] + ty * m[3] + m[5]];
+
+// Replays the text operators of a page into lines, top to bottom as written
+function extractLines(content: string, fonts: Record<string, FontDecoder>): TextLine[] {
+  const lines: TextLine[] = [];
+  const lexer = new PdfLexer(content);
+  let operands: PdfValue[] = [];
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+  let fontSize = 12;
+  let leading = 0;
+  let decode: FontDecoder = (bytes) => windows1252.decode(fromBinaryString(bytes));
+  // Where the last shown text started and how long it was, to guess word gaps
+  let lastShow: { x: number; length: number } | null = null;
+
+  const numbers = () => operands.map(operand => (typeof operand === "number" ? operand : 0));
+
+  const moveTo = (matrix: Matrix) => {
+    lineMatrix = matrix;
+    textMatrix = matrix;
+  };
+
+  const show = (bytes: string) => {
+    const text = decode(bytes).replace(/[\0\r\n]/g, "");
+    if (!text) return;
+    const size = fontSize * (Math.hypot(textMatrix[2], textMatrix[3]) || 1);
+    const [x, y] = [textMatrix[4], textMatrix[5]];
+    const line = lines[lines.length - 1];
+
+    if (line && Math.abs(line.y - y) < size * 0.5) {
+      const movedFar = lastShow && x - lastShow.x > lastShow.length * size * 0.6;
+      if (movedFar && !/\s$/.test(line.text) && !/^\s/.test(text)) line.text += " ";
+      line.text += text;
+    } else {
+      lines.push({ y, size, text });
+    }
+    // The parts of a TJ array share one position
+    lastShow = lastShow && lastShow.x === x ? { x, length: lastShow.length + text.length } : { x, length: text.length };
+  };
+
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOp(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const [a, b, c, d, e, f] = numbers();
+    switch (token.value) {
+      case "BT":
+        moveTo(IDENTITY);
+        break;
+      case "Tf": {
+        const name = getName(operands[0]);
+        if (name && fonts[name]) decode = fonts[name];
+        fontSize = typeof operands[1] === "number" ? operands[1] : fontSize;
+        break;
+      }
+      case "TL":
+        leading = a;
+        break;
+      case "Td":
+        moveTo(translate(lineMatrix, a, b));
+        break;
+      case "TD":
+        leading = -b;
+        moveTo(translate(lineMatrix, a, b));
+        break;
+      case "Tm":
+        moveTo([a, b, c, d, e, f]);
+        break;
+      case "T*":
+        moveTo(translate(lineMatrix, 0, -leading));
+        break;
+      case "'":
+      case '"': {
+        moveTo(translate(lineMatrix, 0, -leading));
+        const text = operands[operands.length - 1];
+        if (typeof text === "object" && text?.kind === "string") show(text.value);
+        break;
+      }
+      case "Tj": {
+        const text = operands[0];
+        if (typeof text === "object" && text?.kind === "string") show(text.value);
+        break;
+      }
+      case "TJ": {
+        const items = operands[0];
+        if (typeof items !== "object" || items?.kind !== "array") break;
+        for (const item of items.items) {
+          if (typeof item === "object" && item?.kind === "string") {
+            show(item.value);
+          } else if (typeof item === "number" && item < TJ_SPACE_THRESHOLD && lines.length > 0) {
+            const line = lines[lines.length - 1];
+            if (!/\s$/.test(line.text)) line.text += " ";
+          }
+        }
+        break;
+      }
+      case "BI": {
+        // Inline image data is binary, skip to its end marker
+        const end = content.slice(lexer.pos).search(/\sEI(\s|$)/);
+        lexer.pos = end === -1 ? content.length : lexer.pos + end + 3;
+        break;
+      }
+    }
+    operands = [];
+  }
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter(line => line.text);
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const joinLines = (previous: string, next: string) =>
+  /[a-zà-ÿ]-$/i.test(previous) && /^[a-zà-ÿ]/.test(next)
+    ? previous.slice(0, -1) + next
+    : joinTextParts([previous, next]);
+
+// A blank-line-sized gap or a change of font size starts a new paragraph
+function groupParagraphs(lines: TextLine[]): string[] {
+  const gaps = lines.slice(1).map((line, index) => Math.abs(lines[index].y - line.y)).filter(gap => gap > 0);
+  const lineSpacing = gaps.length > 0 ? median(gaps) : 0;
+  const paragraphs: string[] = [];
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const gap = previous ? Math.abs(previous.y - line.y) : Infinity;
+    const continues = previous &&
+      gap <= Math.max(lineSpacing * 1.4, line.size * 1.2) &&
+      Math.abs(previous.size - line.size) < 0.5;
+
+    if (continues) {
+      paragraphs[paragraphs.length - 1] = joinLines(paragraphs[paragraphs.length - 1], line.text);
+    } else {
+      paragraphs.push(line.text);
+    }
+  });
+  return paragraphs;
+}
+
+// Paragraphs of a text-based PDF, in page order
+export async function extractPdfParagraphs(buffer: ArrayBuffer): Promise<string[]> {
+  const data = toBinaryString(new Uint8Array(buffer));
+  if (!data.startsWith("%PDF-")) {
+    throw new Error("Not a PDF file");
+  }
+
+  const pdf = new PdfDocument(data);
+  await pdf.load();
+  if (pdf.isEncrypted) {
+    throw new Error("Encrypted PDFs are not supported");
+  }
+
+  const paragraphs: string[] = [];
+  for (const { page, resources } of pdf.getPages()) {
+    const fonts = await pdf.getFonts(resources);
+    const pageParagraphs = groupParagraphs(extractLines(await pdf.getPageContent(page), fonts));
+
+    // A sentence running on from the previous page continues its paragraph
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && pageParagraphs.length > 0 && !/[.!?:;"”)\]]$/.test(last) && /^[a-zà-ÿ]/.test(pageParagraphs[0])) {
+      paragraphs[paragraphs.length - 1] = joinLines(last, pageParagraphs.shift()!);
+    }
+    paragraphs.push(...pageParagraphs);
+  }
+
+  if (paragraphs.length === 0) {
+    throw new Error("No text was found in the PDF. Scanned documents need OCR before they can be translated.");
+  }
+  return paragraphs;
+}
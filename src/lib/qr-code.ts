@@ -0,0 +1,364 @@
+// QR code encoder (ISO/IEC 18004) for share links: byte mode only, versions 1-40,
+// the smallest version that fits and the mask with the lowest penalty score.
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+  size: number;
+  // modules[y][x], true is dark
+  modules: boolean[][];
+}
+
+const EC_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+// The two bits stored in the format information
+const EC_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Per error correction level, indexed by version (index 0 unused)
+const EC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+const EC_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+const BYTE_MODE = 0b0100;
+
+// Modules left for data and error correction once the function patterns are drawn
+const getRawDataModules = (version: number) => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+};
+
+const getDataCodewords = (version: number, ec: number) =>
+  Math.floor(getRawDataModules(version) / 8) - EC_CODEWORDS_PER_BLOCK[ec][version] * EC_BLOCKS[ec][version];
+
+const getAlignmentPositions = (version: number) => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+};
+
+// Reed-Solomon over GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const multiply = (x: number, y: number) => {
+  let product = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((y >>> bit) & 1) * x;
+  }
+  return product;
+};
+
+const getGeneratorPolynomial = (degree: number) => {
+  const coefficients = new Array<number>(degree).fill(0);
+  coefficients[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      coefficients[j] = multiply(coefficients[j], root);
+      if (j + 1 < degree) coefficients[j] ^= coefficients[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return coefficients;
+};
+
+function getErrorCorrectionCodewords(data: number[], degree: number): number[] {
+  const generator = getGeneratorPolynomial(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ remainder.shift()!;
+    remainder.push(0);
+    generator.forEach((coefficient, index) => {
+      remainder[index] ^= multiply(coefficient, factor);
+    });
+  }
+  return remainder;
+}
+
+const encodeDataCodewords = (bytes: Uint8Array, version: number, ec: number) => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let bit = length - 1; bit >= 0; bit--) bits.push((value >>> bit) & 1);
+  };
+
+  append(BYTE_MODE, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = getDataCodewords(version, ec) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+// Splits the data into blocks, adds error correction to each and interleaves them
+const addErrorCorrection = (data: number[], version: number, ec: number) => {
+  const blockCount = EC_BLOCKS[ec][version];
+  const ecLength = EC_CODEWORDS_PER_BLOCK[ec][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+  const blocks: number[][] = [];
+  for (let index = 0, offset = 0; index < blockCount; index++) {
+    const dataLength = shortBlockLength - ecLength + (index < shortBlocks ? 0 : 1);
+    const blockData = data.slice(offset, offset + dataLength);
+    offset += dataLength;
+    // Short blocks get a placeholder so every block lines up column by column
+    const placeholder = index < shortBlocks ? [0] : [];
+    blocks.push([...blockData, ...placeholder, ...getErrorCorrectionCodewords(blockData, ecLength)]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blocks.forEach((block, index) => {
+      if (i !== shortBlockLength - ecLength || index >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function getFormatBits(errorCorrection: QrErrorCorrection, mask: number): number {
+  const data = (EC_FORMAT_BITS[errorCorrection] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+function getVersionBits(version: number): number {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number, private readonly errorCorrection: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    const far = this.size - 4;
+    for (const [cx, cy] of [[3, 3], [far, 3], [3, far]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cy, row) => positions.forEach((cx, column) => {
+      // The finder patterns already sit in three of the corners
+      if ((row === 0 && column === 0) || (row === 0 && column === last) || (row === last && column === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }));
+
+    // Reserve the format areas now, the bits are drawn once the mask is known
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      const bits = getVersionBits(this.version);
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = this.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const bits = getFormatBits(this.errorCorrection, mask);
+    const bit = (index: number) => ((bits >>> index) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  // Two-module columns from the right, snaking up and down, skipping the timing column
+  drawCodewords(codewords: number[]) {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (this.reserved[y][x] || index >= codewords.length * 8) continue;
+          this.modules[y][x] = ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+          index++;
+        }
+      }
+    }
+  }
+
+  // Masking twice undoes it
+  applyMask(mask: number) {
+    const test = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && test(x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  getPenalty() {
+    const { size, modules } = this;
+    let penalty = 0;
+    let dark = 0;
+
+    const lines: boolean[][] = [];
+    for (let i = 0; i < size; i++) {
+      lines.push(modules[i]);
+      lines.push(modules.map(row => row[i]));
+    }
+
+    for (const line of lines) {
+      // Runs of five or more modules of one colour
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) penalty += run - 2;
+          run = 1;
+        }
+      }
+      // Patterns that look like a finder: dark-light-dark*3-light-dark next to four light modules
+      const padded = [false, false, false, false, ...line, false, false, false, false];
+      for (let i = 0; i + 11 <= padded.length; i++) {
+        const core = padded[i + 4] && !padded[i + 5] && padded[i + 6] && padded[i + 7] && padded[i + 8] && !padded[i + 9] && padded[i + 10];
+        if (!core) continue;
+        const lightBefore = !padded[i] && !padded[i + 1] && !padded[i + 2] && !padded[i + 3];
+        const lightAfter = i + 14 < padded.length && !padded[i + 11] && !padded[i + 12] && !padded[i + 13] && !padded[i + 14];
+        if (lightBefore || lightAfter) penalty += 40;
+      }
+    }
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (modules[y][x]) dark++;
+        if (x < size - 1 && y < size - 1) {
+          const color = modules[y][x];
+          if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) penalty += 3;
+        }
+      }
+    }
+
+    // Every 5% the dark share strays from half
+    const total = size * size;
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return penalty;
+  }
+}
+
+export function createQrCode(text: string, errorCorrection: QrErrorCorrection = "M"): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  const ec = EC_INDEX[errorCorrection];
+
+  let version = MIN_VERSION;
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > getDataCodewords(version, ec) * 8) {
+    if (++version > MAX_VERSION) throw new Error("The text is too long for a QR code");
+  }
+
+  const matrix = new QrMatrix(version, errorCorrection);
+  matrix.drawCodewords(addErrorCorrection(encodeDataCodewords(bytes, version, ec), version, ec));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.getPenalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { size: matrix.size, modules: matrix.modules };
+}
+
+// One SVG path for all dark modules, offset by the quiet zone around the code
+export function qrCodeToSvgPath(qr: QrCode, border = 4): string {
+  const commands: string[] = [];
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) commands.push(`M${x + border},${y + border}h1v1h-1z`);
+  }));
+  return commands.join("");
+}
@@ -0,0 +1,25 @@
+import { isTauri } from "@/lib/speech-recognizers";
+
+// Registers public/sw.js in production web builds. The desktop app ships its own
+// files, and during development the worker would serve stale modules.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || isTauri || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // What the page loaded before the worker was in control is cached as well
+        const urls = performance
+          .getEntriesByType("resource")
+          .map(entry => entry.name)
+          .filter(url => {
+            const parsed = new URL(url);
+            return parsed.origin === window.location.origin && !parsed.pathname.startsWith("/api/");
+          });
+        registration.active?.postMessage({ type: "cache-urls", urls });
+      })
+      .catch(error => console.error("Service worker registration failed:", error));
+  });
+}
@@ -0,0 +1,178 @@
+import type { HistoryItem } from "@/hooks/useHistory";
+import { getLanguageName } from "@/lib/languages";
+import { isTauri } from "@/lib/speech-recognizers";
+import { deflateRaw, inflate } from "@/lib/zip";
+
+// Sharing a history entry without storing it anywhere: the entry travels in the
+// link's #fragment (which browsers never send to the server), or as a standalone
+// HTML page with the audio embedded.
+
+export interface SharedAudio {
+  mimeType: string;
+  // Base64
+  data: string;
+}
+
+export interface SharedTranslation {
+  sourceText: string;
+  translatedText: string;
+  sourceLang: string;
+  targetLang: string;
+  createdAt: string;
+  audio: SharedAudio | null;
+}
+
+export interface ShareLink {
+  url: string;
+  includesAudio: boolean;
+}
+
+const SHARE_FRAGMENT_PREFIX = "#share=";
+const SHARE_FORMAT_VERSION = 1;
+// Chat apps and some browsers cut longer links; audio only goes into links that stay under this
+export const MAX_SHARE_LINK_LENGTH = 64 * 1024;
+
+const SHARE_BASE_URL = import.meta.env.VITE_SHARE_URL;
+
+export const isShareFragment = (hash: string) => hash.startsWith(SHARE_FRAGMENT_PREFIX);
+
+// Where share links point to: the deployed web app. The desktop app has no
+// public address of its own, so it needs VITE_SHARE_URL for links.
+export const getShareBaseUrl = (): string | null => {
+  if (SHARE_BASE_URL) return SHARE_BASE_URL.replace(/#.*$/, "");
+  if (isTauri) return null;
+  return `${window.location.origin}${window.location.pathname}`;
+};
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // String.fromCharCode takes its arguments on the stack, so large inputs go in slices
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const toBase64Url = (base64: string) => base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const fromBase64Url = (base64Url: string) => base64Url.replace(/-/g, "+").replace(/_/g, "/");
+
+export async function createSharedTranslation(item: HistoryItem, audio: Blob | null): Promise<SharedTranslation> {
+  return {
+    sourceText: item.transcribedText,
+    translatedText: item.translatedText,
+    sourceLang: item.sourceLang,
+    targetLang: item.targetLang,
+    createdAt: item.createdAt,
+    audio: audio
+      ? { mimeType: audio.type || "audio/mpeg", data: bytesToBase64(new Uint8Array(await audio.arrayBuffer())) }
+      : null,
+  };
+}
+
+export async function encodeShareFragment(shared: SharedTranslation): Promise<string> {
+  const json = JSON.stringify({ v: SHARE_FORMAT_VERSION, ...shared });
+  const compressed = await deflateRaw(new TextEncoder().encode(json));
+  return `${SHARE_FRAGMENT_PREFIX}${toBase64Url(bytesToBase64(compressed))}`;
+}
+
+const isSharedAudio = (value: unknown): value is SharedAudio =>
+  typeof value === "object" && value !== null &&
+  typeof (value as SharedAudio).mimeType === "string" && typeof (value as SharedAudio).data === "string";
+
+export async function decodeShareFragment(hash: string): Promise<SharedTranslation> {
+  let data: Record<string, unknown>;
+  try {
+    const compressed = base64ToBytes(fromBase64Url(decodeURIComponent(hash.slice(SHARE_FRAGMENT_PREFIX.length))));
+    data = JSON.parse(new TextDecoder().decode(await inflate(compressed, "deflate-raw")));
+  } catch {
+    throw new Error("This share link is damaged or incomplete");
+  }
+
+  if (typeof data !== "object" || data === null || data.v !== SHARE_FORMAT_VERSION) {
+    throw new Error("This share link was made by a different version of VoicePal");
+  }
+  if (typeof data.sourceText !== "string" || typeof data.translatedText !== "string") {
+    throw new Error("This share link is damaged or incomplete");
+  }
+
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+  return {
+    sourceText: data.sourceText,
+    translatedText: data.translatedText,
+    sourceLang: text(data.sourceLang),
+    targetLang: text(data.targetLang),
+    createdAt: text(data.createdAt),
+    audio: isSharedAudio(data.audio) ? data.audio : null,
+  };
+}
+
+// The audio makes links long; it is left out when the link would get too long for it
+export async function createShareLink(shared: SharedTranslation, includeAudio = true): Promise<ShareLink | null> {
+  const baseUrl = getShareBaseUrl();
+  if (!baseUrl) return null;
+
+  if (shared.audio && includeAudio) {
+    const url = `${baseUrl}${await encodeShareFragment(shared)}`;
+    if (url.length <= MAX_SHARE_LINK_LENGTH) return { url, includesAudio: true };
+  }
+  return { url: `${baseUrl}${await encodeShareFragment({ ...shared, audio: null })}`, includesAudio: false };
+}
+
+export const getAudioDataUrl = (audio: SharedAudio) => `data:${audio.mimeType};base64,${audio.data}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!);
+
+// A page that opens anywhere, offline included: no scripts, no external files
+export function buildSharePage(shared: SharedTranslation): string {
+  const sourceName = escapeHtml(getLanguageName(shared.sourceLang));
+  const targetName = escapeHtml(getLanguageName(shared.targetLang));
+  const date = shared.createdAt ? new Date(shared.createdAt).toLocaleString() : "";
+  const paragraphs = (text: string) => escapeHtml(text).replace(/\n/g, "<br>");
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(shared.targetLang.split("-")[0].toLowerCase())}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Translation from ${sourceName} to ${targetName}</title>
+<style>
+  :root { color-scheme: light dark; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; }
+  body { max-width: 40rem; margin: 0 auto; padding: 2rem 1.25rem; line-height: 1.5; }
+  .label { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; opacity: 0.6; margin: 0 0 0.25rem; }
+  .source { opacity: 0.75; margin: 0 0 2rem; }
+  .translation { font-size: 1.5rem; font-weight: 600; margin: 0 0 1.5rem; }
+  audio { width: 100%; }
+  footer { margin-top: 2.5rem; font-size: 0.75rem; opacity: 0.5; }
+</style>
+</head>
+<body>
+<main>
+<p class="label">${sourceName}</p>
+<p class="source" lang="${escapeHtml(shared.sourceLang)}">${paragraphs(shared.sourceText)}</p>
+<p class="label">${targetName}</p>
+<p class="translation" lang="${escapeHtml(shared.targetLang)}">${paragraphs(shared.translatedText)}</p>
+${shared.audio ? `<audio controls src="${getAudioDataUrl(shared.audio)}"></audio>` : ""}
+</main>
+<footer>Shared from VoicePal${date ? ` · ${escapeHtml(date)}` : ""}</footer>
+</body>
+</html>
+`;
+}
+
+export function downloadSharePage(shared: SharedTranslation) {
+  const blob = new Blob([buildSharePage(shared)], { type: "text/html;charset=utf-8" });
+  const downloadUrl = URL.createObjectURL(blob);
+
+  const timestamp = (shared.createdAt || new Date().toISOString()).slice(0, 19).replace(/[:.]/g, "-");
+  const link = document.createElement("a");
+  link.href = downloadUrl;
+  link.download = `voicepal-translation-${timestamp}.html`;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(downloadUrl);
+}
@@ -0,0 +1,391 @@
+// Speech recognition backends behind one interface.
+// Every backend reports through the same events so useSpeechRecognition
+// (and MainContent) behave identically whichever one is listening.
+
+export type SpeechRecognizerId = 'browser' | 'tauri' | 'whisper';
+
+export interface RecognitionResult {
+  text: string;
+  isFinal: boolean;
+  // When the audio behind a final result was spoken (epoch ms), for backends
+  // that deliver results later than the speech, e.g. chunked uploads
+  spokenAt?: { start: number; end: number };
+}
+
+export interface RecognizerEvents {
+  onStart: () => void;
+  // Interim results replace each other, final results are appended
+  onResult: (result: RecognitionResult) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+}
+
+// A piece of transcript with its position in the recording, in milliseconds
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SpeechRecognizer {
+  id: SpeechRecognizerId;
+  start: (language: string) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+export const SPEECH_RECOGNIZER_NAMES: Record<SpeechRecognizerId, string> = {
+  browser: 'Browser',
+  tauri: 'Desktop (Tauri)',
+  whisper: 'Whisper server',
+};
+
+export const DEFAULT_WHISPER_ENDPOINT =
+  import.meta.env.VITE_WHISPER_URL || 'http://127.0.0.1:8080/inference';
+
+// Web Speech API types
+interface SpeechRecognitionEvent {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+interface SpeechRecognitionResultList {
+  length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionResult {
+  length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+  isFinal: boolean;
+}
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognitionAPI {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onstart: ((event: Event) => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onend: ((event: Event) => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognitionAPI;
+    webkitSpeechRecognition: new () => SpeechRecognitionAPI;
+  }
+}
+
+// Tauri types
+interface TranscriptionResult {
+  text: string;
+  is_final: boolean;
+}
+
+interface TranscriptionError {
+  message: string;
+}
+
+type InvokeFunction = (command: string, args?: any) => Promise<any>;
+type ListenFunction = <T>(event: string, handler: (event: { payload: T }) => void) => Promise<() => void>;
+
+// Check if we're running in Tauri environment
+export const isTauri = typeof window !== 'undefined' && '__TAURI__' in window;
+
+const getWebSpeechRecognition = () =>
+  typeof window !== 'undefined' ? window.SpeechRecognition || window.webkitSpeechRecognition : undefined;
+
+export const isRecognizerAvailable = (id: SpeechRecognizerId): boolean => {
+  switch (id) {
+    case 'tauri': return isTauri;
+    case 'browser': return !!getWebSpeechRecognition();
+    case 'whisper':
+      return typeof navigator !== 'undefined' &&
+        !!navigator.mediaDevices?.getUserMedia &&
+        typeof MediaRecorder !== 'undefined';
+  }
+};
+
+const webSpeechErrorMessage = (error: string) => {
+  switch (error) {
+    case 'not-allowed': return 'Microphone access denied. Please allow microphone access and try again.';
+    case 'no-speech': return 'No speech detected. Please try speaking again.';
+    case 'audio-capture': return 'Audio capture failed. Please check your microphone.';
+    case 'network': return 'Network error occurred during speech recognition.';
+    case 'service-not-allowed': return 'Speech recognition service not allowed.';
+    default: return `Speech recognition error: ${error}`;
+  }
+};
+
+export function createBrowserRecognizer(events: RecognizerEvents): SpeechRecognizer {
+  let recognition: SpeechRecognitionAPI | null = null;
+
+  return {
+    id: 'browser',
+    start: async (language) => {
+      const SpeechRecognition = getWebSpeechRecognition();
+      if (!SpeechRecognition) {
+        throw new Error('Speech Recognition API not supported in this browser');
+      }
+
+      recognition = new SpeechRecognition();
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.lang = language;
+
+      recognition.onstart = () => events.onStart();
+      recognition.onresult = (event) => {
+        let finalTranscript = '';
+        let interimTranscript = '';
+
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+          const result = event.results[i];
+          if (result.isFinal) {
+            finalTranscript += result[0].transcript;
+          } else {
+            interimTranscript += result[0].transcript;
+          }
+        }
+
+        if (finalTranscript) events.onResult({ text: finalTranscript, isFinal: true });
+        if (interimTranscript) events.onResult({ text: interimTranscript, isFinal: false });
+      };
+      recognition.onerror = (event) => events.onError(webSpeechErrorMessage(event.error));
+      recognition.onend = () => events.onEnd();
+
+      recognition.start();
+    },
+    stop: async () => {
+      recognition?.stop();
+    },
+  };
+}
+
+export function createTauriRecognizer(events: RecognizerEvents): SpeechRecognizer {
+  let invoke: InvokeFunction | null = null;
+  let unlisteners: (() => void)[] = [];
+
+  const cleanup = () => {
+    unlisteners.forEach(unlisten => unlisten());
+    unlisteners = [];
+  };
+
+  return {
+    id: 'tauri',
+    start: async (language) => {
+      const [coreModule, eventModule] = await Promise.all([
+        import('@tauri-apps/api/core'),
+        import('@tauri-apps/api/event'),
+      ]);
+      invoke = coreModule.invoke as InvokeFunction;
+      const listen = eventModule.listen as ListenFunction;
+
+      unlisteners = await Promise.all([
+        listen<TranscriptionResult>('transcription-result', ({ payload }) => {
+          events.onResult({ text: payload.text, isFinal: payload.is_final });
+          if (payload.is_final) {
+            cleanup();
+            events.onEnd();
+          }
+        }),
+        listen<TranscriptionError>('transcription-error', ({ payload }) => {
+          cleanup();
+          events.onError(payload.message);
+          events.onEnd();
+        }),
+      ]);
+
+      await invoke('start_transcription', { language });
+      events.onStart();
+    },
+    stop: async () => {
+      if (!invoke) return;
+      await invoke('stop_transcription');
+      cleanup();
+      events.onEnd();
+    },
+  };
+}
+
+interface WhisperRecognizerOptions {
+  endpoint: string;
+  // Each chunk is recorded as a standalone file so the server can decode it
+  chunkMs?: number;
+}
+
+const pickRecordingMimeType = () =>
+  ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4']
+    .find(type => MediaRecorder.isTypeSupported(type));
+
+// Records the microphone with MediaRecorder and posts chunks to a
+// whisper.cpp-style server (multipart `file` field, JSON `{ text }` response).
+export function createWhisperRecognizer(events: RecognizerEvents, options: WhisperRecognizerOptions): SpeechRecognizer {
+  const { endpoint, chunkMs = 4000 } = options;
+  let stream: MediaStream | null = null;
+  let recorder: MediaRecorder | null = null;
+  let chunkTimer: ReturnType<typeof setInterval> | null = null;
+  // Uploads run one after another so results arrive in order
+  let pending: Promise<void> = Promise.resolve();
+  let language = 'en';
+  let failed = false;
+  let active = false;
+
+  let chunkStartedAt = 0;
+
+  const transcribeChunk = async (blob: Blob, spokenAt: { start: number; end: number }) => {
+    if (blob.size === 0 || failed) return;
+
+    events.onResult({ text: '…', isFinal: false });
+
+    const extension = blob.type.includes('ogg') ? 'ogg' : blob.type.includes('mp4') ? 'm4a' : 'webm';
+    const form = new FormData();
+    form.append('file', blob, `chunk.${extension}`);
+    form.append('language', language);
+    form.append('response_format', 'json');
+
+    const response = await fetch(endpoint, { method: 'POST', body: form });
+    if (!response.ok) {
+      throw new Error(`Transcription server error: ${response.status}`);
+    }
+
+    const data: { text?: string } = await response.json();
+    events.onResult({ text: (data.text ?? '').trim(), isFinal: true, spokenAt });
+  };
+
+  // Resolves once the recorded chunk has been queued for upload
+  const stopRecorder = () => new Promise<void>(resolve => {
+    const current = recorder;
+    if (!current || current.state === 'inactive') {
+      resolve();
+      return;
+    }
+
+    const parts: Blob[] = [];
+    const spokenAt = { start: chunkStartedAt, end: Date.now() };
+    current.ondataavailable = (event) => parts.push(event.data);
+    current.onstop = () => {
+      const blob = new Blob(parts, { type: current.mimeType });
+      pending = pending
+        .then(() => transcribeChunk(blob, spokenAt))
+        .catch(error => {
+          failed = true;
+          events.onError(error instanceof Error ? error.message : 'Transcription failed');
+        });
+      resolve();
+    };
+    current.stop();
+  });
+
+  const startRecorder = () => {
+    if (!stream || !active) return;
+    const mimeType = pickRecordingMimeType();
+    recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    chunkStartedAt = Date.now();
+    recorder.start();
+  };
+
+  return {
+    id: 'whisper',
+    start: async (lang) => {
+      language = lang.split('-')[0].toLowerCase();
+      failed = false;
+      active = true;
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch {
+        active = false;
+        throw new Error('Microphone access denied. Please allow microphone access and try again.');
+      }
+
+      startRecorder();
+      chunkTimer = setInterval(() => {
+        stopRecorder().then(startRecorder);
+      }, chunkMs);
+      events.onStart();
+    },
+    stop: async () => {
+      active = false;
+      if (chunkTimer) clearInterval(chunkTimer);
+      chunkTimer = null;
+
+      await stopRecorder();
+      recorder = null;
+      stream?.getTracks().forEach(track => track.stop());
+      stream = null;
+
+      // Wait for the last chunk before reporting the end of the session
+      await pending;
+      events.onEnd();
+    },
+  };
+}
+
+// Formats the file transcription accepts: WAV, MP3 and WebM
+export const AUDIO_FILE_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mpeg', 'audio/mp3', 'audio/webm', 'video/webm'];
+export const AUDIO_FILE_EXTENSIONS = ['.wav', '.mp3', '.webm'];
+
+export const isSupportedAudioFile = (file: File) =>
+  AUDIO_FILE_TYPES.includes(file.type) ||
+  AUDIO_FILE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+export interface FileTranscription {
+  text: string;
+  segments: TranscriptSegment[];
+  // Length of the recording in milliseconds, 0 when the server doesn't report it
+  duration: number;
+}
+
+interface WhisperVerboseResponse {
+  text?: string;
+  duration?: number;
+  segments?: { start: number; end: number; text: string }[];
+}
+
+// Sends a whole recording to the Whisper server and keeps its segment timing
+// (`verbose_json`, times in seconds). Servers that only return `{ text }`
+// yield a single segment covering the recording.
+export async function transcribeAudioFile(file: File, options: { endpoint: string; language: string }): Promise<FileTranscription> {
+  const form = new FormData();
+  form.append('file', file, file.name);
+  form.append('language', options.language.split('-')[0].toLowerCase());
+  form.append('response_format', 'verbose_json');
+
+  let response: Response;
+  try {
+    response = await fetch(options.endpoint, { method: 'POST', body: form });
+  } catch {
+    throw new Error(`Could not reach the transcription server at ${options.endpoint}`);
+  }
+  if (!response.ok) {
+    throw new Error(`Transcription server error: ${response.status}`);
+  }
+
+  const data: WhisperVerboseResponse = await response.json();
+  const duration = Math.round((data.duration ?? 0) * 1000);
+
+  const segments = (data.segments ?? [])
+    .map(segment => ({
+      start: Math.round(segment.start * 1000),
+      end: Math.round(segment.end * 1000),
+      text: segment.text.trim(),
+    }))
+    .filter(segment => segment.text);
+
+  const text = (data.text ?? '').trim() || segments.map(segment => segment.text).join(' ');
+  if (segments.length === 0 && text) {
+    segments.push({ start: 0, end: duration, text });
+  }
+
+  return { text, segments, duration: duration || segments[segments.length - 1]?.end || 0 };
+}
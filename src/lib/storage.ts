@@ -0,0 +1,180 @@
+import type { InvokeArgs, InvokeOptions } from "@tauri-apps/api/core";
+import type { HistoryItem } from "@/hooks/useHistory";
+import {
+  isIndexedDBAvailable,
+  getAllHistoryItems,
+  putHistoryItems,
+  deleteHistoryItems,
+  clearHistoryItems,
+  putHistoryAudio,
+  getHistoryAudio,
+  deleteHistoryAudio,
+  clearHistoryAudio,
+} from "@/lib/history-db";
+import { isTauri } from "@/lib/speech-recognizers";
+
+// Where the app keeps the history, its audio and the settings.
+// The web build uses IndexedDB and localStorage. The desktop app writes them to
+// its app data directory through the commands in src-tauri/src/storage.rs, so
+// resetting the WebView profile loses nothing; it also keeps the DeepL and
+// ElevenLabs keys there instead of in env files.
+// The offline request queue stays in IndexedDB in both.
+
+export interface HistoryStorage {
+  isAvailable: () => boolean;
+  // Newest first, matching the order the Sidebar shows
+  getItems: () => Promise<HistoryItem[]>;
+  putItems: (items: HistoryItem[]) => Promise<void>;
+  deleteItems: (ids: string[]) => Promise<void>;
+  clearItems: () => Promise<void>;
+  putAudio: (id: string, blob: Blob) => Promise<void>;
+  getAudio: (id: string) => Promise<Blob | null>;
+  deleteAudio: (ids: string[]) => Promise<void>;
+  clearAudio: () => Promise<void>;
+}
+
+export type ProviderKeyId = "deepl" | "elevenlabs";
+
+export type ProviderKeys = Record<ProviderKeyId, string | null>;
+
+// Settings this app wrote to localStorage; the old history list is moved by useHistory
+const SETTINGS_KEY_PREFIX = "voicepal-";
+const LEGACY_HISTORY_KEY = "voicepal-history";
+
+// ElevenLabs audio is always MP3
+const AUDIO_MIME_TYPE = "audio/mpeg";
+
+async function invokeCommand<T>(command: string, args?: InvokeArgs, options?: InvokeOptions): Promise<T> {
+  const { invoke } = await import("@tauri-apps/api/core");
+  return invoke<T>(command, args, options);
+}
+
+const webHistoryStorage: HistoryStorage = {
+  isAvailable: isIndexedDBAvailable,
+  getItems: getAllHistoryItems,
+  putItems: putHistoryItems,
+  deleteItems: deleteHistoryItems,
+  clearItems: clearHistoryItems,
+  putAudio: (id, blob) => putHistoryAudio({ id, blob, savedAt: new Date().toISOString() }),
+  getAudio: async id => (await getHistoryAudio(id))?.blob ?? null,
+  deleteAudio: deleteHistoryAudio,
+  clearAudio: clearHistoryAudio,
+};
+
+const tauriHistoryStorage: HistoryStorage = {
+  isAvailable: () => true,
+  getItems: async () => {
+    const items = await invokeCommand<HistoryItem[]>("storage_load_history");
+    return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+  putItems: items => invokeCommand("storage_put_history_items", { items }),
+  deleteItems: ids => invokeCommand("storage_delete_history_items", { ids }),
+  clearItems: () => invokeCommand("storage_clear_history"),
+  // Sent as the raw body so the audio does not go through JSON
+  putAudio: async (id, blob) => invokeCommand(
+    "storage_write_audio",
+    new Uint8Array(await blob.arrayBuffer()),
+    { headers: { "X-History-Id": id } }
+  ),
+  getAudio: async id => {
+    const data = await invokeCommand<ArrayBuffer>("storage_read_audio", { id });
+    return data.byteLength > 0 ? new Blob([data], { type: AUDIO_MIME_TYPE }) : null;
+  },
+  deleteAudio: ids => invokeCommand("storage_delete_audio", { ids }),
+  clearAudio: () => invokeCommand("storage_clear_audio"),
+};
+
+export const historyStorage = isTauri ? tauriHistoryStorage : webHistoryStorage;
+
+// The hooks read their settings synchronously while creating their state, so the
+// desktop app loads them into memory before the first render (initStorage) and
+// writes every change through to disk.
+const settingsCache = new Map<string, string>();
+
+const writeSettings = (settings: Record<string, string | null>) => {
+  invokeCommand("storage_write_settings", { settings })
+    .catch(error => console.error("Error saving settings:", error));
+};
+
+export const settingsStorage = {
+  getItem(key: string): string | null {
+    if (!isTauri) return localStorage.getItem(key);
+    return settingsCache.get(key) ?? null;
+  },
+
+  setItem(key: string, value: string) {
+    if (!isTauri) return localStorage.setItem(key, value);
+    settingsCache.set(key, value);
+    writeSettings({ [key]: value });
+  },
+
+  removeItem(key: string) {
+    if (!isTauri) return localStorage.removeItem(key);
+    settingsCache.delete(key);
+    writeSettings({ [key]: null });
+  },
+};
+
+let providerKeys: ProviderKeys = { deepl: null, elevenlabs: null };
+
+// Sent with every API request by apiFetch; always empty in the web build
+export const getProviderKeys = (): ProviderKeys => providerKeys;
+
+// An empty key removes the saved one
+export async function saveProviderKey(provider: ProviderKeyId, key: string): Promise<void> {
+  if (!isTauri) throw new Error("Provider keys can only be saved in the desktop app");
+  await invokeCommand("set_provider_key", { provider, key: key.trim() || null });
+  providerKeys = await invokeCommand<ProviderKeys>("get_provider_keys");
+}
+
+// Earlier desktop versions kept everything in the WebView profile: move the
+// settings and the history over the first time the files are missing
+async function migrateWebViewData(savedSettings: Record<string, string>) {
+  if (Object.keys(savedSettings).length === 0) {
+    const settings: Record<string, string> = {};
+    for (let index = 0; index < localStorage.length; index++) {
+      const key = localStorage.key(index);
+      if (key?.startsWith(SETTINGS_KEY_PREFIX) && key !== LEGACY_HISTORY_KEY) {
+        settings[key] = localStorage.getItem(key) ?? "";
+      }
+    }
+
+    if (Object.keys(settings).length > 0) {
+      await invokeCommand("storage_write_settings", { settings });
+      Object.entries(settings).forEach(([key, value]) => {
+        settingsCache.set(key, value);
+        localStorage.removeItem(key);
+      });
+    }
+  }
+
+  if (!isIndexedDBAvailable() || (await tauriHistoryStorage.getItems()).length > 0) return;
+  const items = await getAllHistoryItems();
+  if (items.length === 0) return;
+
+  await tauriHistoryStorage.putItems(items);
+  for (const item of items.filter(entry => entry.audio)) {
+    const record = await getHistoryAudio(item.id);
+    if (record) await tauriHistoryStorage.putAudio(item.id, record.blob);
+  }
+  await clearHistoryItems();
+  await clearHistoryAudio();
+}
+
+// Runs before the app renders; nothing to load in the web build
+export async function initStorage(): Promise<void> {
+  if (!isTauri) return;
+
+  const [savedSettings, savedKeys] = await Promise.all([
+    invokeCommand<Record<string, string>>("storage_load_settings"),
+    invokeCommand<ProviderKeys>("get_provider_keys"),
+  ]);
+  Object.entries(savedSettings).forEach(([key, value]) => settingsCache.set(key, value));
+  providerKeys = savedKeys;
+
+  try {
+    await migrateWebViewData(savedSettings);
+  } catch (error) {
+    console.error("Error moving WebView data to the app data directory:", error);
+  }
+}
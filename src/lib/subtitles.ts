@@ -0,0 +1,72 @@
+import type { TranscriptSegment } from "@/lib/speech-recognizers";
+
+// SRT and WebVTT serializers for timed transcript segments.
+// Both formats share the cue layout and only differ in the header and the
+// millisecond separator.
+
+export type SubtitleFormat = "srt" | "vtt";
+
+export const SUBTITLE_FORMATS: { id: SubtitleFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "srt", label: "SRT", extension: "srt", mimeType: "application/x-subrip" },
+  { id: "vtt", label: "WebVTT", extension: "vtt", mimeType: "text/vtt" },
+];
+
+// Cues shorter than this are hard to read, stretch them when there is room
+const MIN_CUE_MS = 1000;
+
+// 00:01:02,345 (SRT) or 00:01:02.345 (WebVTT)
+export const formatSubtitleTime = (ms: number, separator: "," | "." = ",") => {
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const safeMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(safeMs / 3_600_000);
+  const minutes = Math.floor((safeMs % 3_600_000) / 60_000);
+  const seconds = Math.floor((safeMs % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(safeMs % 1000, 3)}`;
+};
+
+// Sorted cues that never overlap the next one
+const normalizeCues = (segments: TranscriptSegment[]) => {
+  const sorted = segments
+    .filter(segment => segment.text.trim())
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.map((segment, index) => {
+    const next = sorted[index + 1];
+    const latestEnd = next ? next.start : Infinity;
+    const end = Math.min(Math.max(segment.end, segment.start + MIN_CUE_MS), latestEnd);
+    return { ...segment, end: Math.max(end, segment.start + 1), text: segment.text.trim() };
+  });
+};
+
+export function toSRT(segments: TranscriptSegment[]): string {
+  return normalizeCues(segments)
+    .map((cue, index) => `${index + 1}\n${formatSubtitleTime(cue.start)} --> ${formatSubtitleTime(cue.end)}\n${cue.text}\n`)
+    .join("\n");
+}
+
+export function toWebVTT(segments: TranscriptSegment[]): string {
+  const cues = normalizeCues(segments)
+    .map(cue => `${formatSubtitleTime(cue.start, ".")} --> ${formatSubtitleTime(cue.end, ".")}\n${cue.text}\n`);
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+// Same timing, text replaced by its translation (one translation per segment)
+export const withTranslatedText = (segments: TranscriptSegment[], translations: string[]): TranscriptSegment[] =>
+  segments.map((segment, index) => ({ ...segment, text: translations[index] ?? segment.text }));
+
+export function downloadSubtitles(segments: TranscriptSegment[], format: SubtitleFormat, name: string) {
+  const { extension, mimeType } = SUBTITLE_FORMATS.find(entry => entry.id === format)!;
+  const content = format === "srt" ? toSRT(segments) : toWebVTT(segments);
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const downloadUrl = URL.createObjectURL(blob);
+
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[:.]/g, "-");
+  const link = document.createElement("a");
+  link.href = downloadUrl;
+  link.download = `voicepal-${name}-${timestamp}.${extension}`;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(downloadUrl);
+}
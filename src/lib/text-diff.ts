@@ -0,0 +1,76 @@
+// Word-level diff between two versions of a text, for the history revisions.
+// Words and the whitespace between them are aligned with a longest common
+// subsequence; what is left over on either side was removed or added.
+
+export type DiffPartType = "equal" | "added" | "removed";
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+// The alignment table grows with both lengths; past this the changed middle is shown as replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Edits are usually local, the shared start and end need no alignment
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, "equal", a.slice(0, prefix).join(""));
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const rows = middleA.length + 1;
+  const columns = middleB.length + 1;
+
+  if (rows * columns > MAX_DIFF_CELLS) {
+    pushPart(parts, "removed", middleA.join(""));
+    pushPart(parts, "added", middleB.join(""));
+  } else {
+    // lengths[i * columns + j]: common subsequence of middleA[i..] and middleB[j..]
+    const lengths = new Uint32Array(rows * columns);
+    for (let i = middleA.length - 1; i >= 0; i--) {
+      for (let j = middleB.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] = middleA[i] === middleB[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+      if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+        pushPart(parts, "equal", middleA[i++]);
+        j++;
+      } else if (i < middleA.length && (j === middleB.length || lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+        // On a tie the removed words come first, the way diffs usually read
+        pushPart(parts, "removed", middleA[i++]);
+      } else {
+        pushPart(parts, "added", middleB[j++]);
+      }
+    }
+  }
+
+  pushPart(parts, "equal", a.slice(a.length - suffix).join(""));
+  return parts;
+}
@@ -0,0 +1,153 @@
+// Back-translation quality check.
+// The translation is translated back into the source language and compared
+// with the original word by word: the closer the two are, the more likely the
+// translation kept the meaning. Words of the original that did not survive
+// the round trip are reported as divergent spans.
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export interface DivergentSpan {
+  // Offsets into the original text
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface QualityReport {
+  // 0 to 1, the average of the two measures below
+  score: number;
+  // How many words both texts share, ignoring order (F1 of the word counts)
+  tokenOverlap: number;
+  // 1 minus the word-level edit distance, relative to the longer text
+  editSimilarity: number;
+  backTranslation: string;
+  divergentSpans: DivergentSpan[];
+}
+
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  high: "High confidence",
+  medium: "Check meaning",
+  low: "Low confidence",
+};
+
+// Round trips rarely come back word for word, 0.6 already means the same sentence
+const HIGH_CONFIDENCE = 0.6;
+const MEDIUM_CONFIDENCE = 0.35;
+
+export const getConfidenceLevel = (score: number): ConfidenceLevel =>
+  score >= HIGH_CONFIDENCE ? "high" : score >= MEDIUM_CONFIDENCE ? "medium" : "low";
+
+// The alignment table grows with both lengths, very long texts only get a score
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Chinese, Japanese and Thai put no spaces between words, so each of their
+// characters counts as a word; other scripts are split on everything but
+// letters, digits and apostrophes inside a word
+const UNSPACED_LETTER = String.raw`[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]`;
+const SPACED_LETTER = String.raw`(?:(?!${UNSPACED_LETTER})[\p{L}\p{N}])`;
+const WORD_PATTERN = new RegExp(String.raw`${UNSPACED_LETTER}|${SPACED_LETTER}+(?:['’]${SPACED_LETTER}+)*`, "gu");
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0].toLowerCase().replace(/’/g, "'"),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+const countWords = (tokens: Token[]) => {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token.word, (counts.get(token.word) ?? 0) + 1));
+  return counts;
+};
+
+const getTokenOverlap = (a: Token[], b: Token[]) => {
+  if (a.length === 0 || b.length === 0) return a.length === b.length ? 1 : 0;
+
+  const countsB = countWords(b);
+  let shared = 0;
+  countWords(a).forEach((count, word) => {
+    shared += Math.min(count, countsB.get(word) ?? 0);
+  });
+  return (2 * shared) / (a.length + b.length);
+};
+
+const getEditSimilarity = (a: Token[], b: Token[]) => {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  // Levenshtein over words, one row at a time
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1].word === b[j - 1].word ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+};
+
+// Words of the original that are not part of the longest common word sequence
+const findDivergentSpans = (text: string, original: Token[], back: Token[]): DivergentSpan[] => {
+  if (original.length * back.length > MAX_ALIGNMENT_CELLS) return [];
+
+  const lengths = Array.from({ length: original.length + 1 }, () => new Array<number>(back.length + 1).fill(0));
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = back.length - 1; j >= 0; j--) {
+      lengths[i][j] = original[i].word === back[j].word
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const kept = new Set<number>();
+  let i = 0;
+  let j = 0;
+  while (i < original.length && j < back.length) {
+    if (original[i].word === back[j].word) {
+      kept.add(i);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  // Neighbouring divergent words become one span
+  const spans: DivergentSpan[] = [];
+  original.forEach((token, index) => {
+    if (kept.has(index)) return;
+    const last = spans[spans.length - 1];
+    if (last && index > 0 && !kept.has(index - 1)) {
+      last.end = token.end;
+    } else {
+      spans.push({ start: token.start, end: token.end, text: "" });
+    }
+  });
+  return spans.map(span => ({ ...span, text: text.slice(span.start, span.end) }));
+};
+
+export function compareBackTranslation(original: string, backTranslation: string): QualityReport {
+  const originalTokens = tokenize(original);
+  const backTokens = tokenize(backTranslation);
+
+  const tokenOverlap = getTokenOverlap(originalTokens, backTokens);
+  const editSimilarity = getEditSimilarity(originalTokens, backTokens);
+
+  return {
+    score: (tokenOverlap + editSimilarity) / 2,
+    tokenOverlap,
+    editSimilarity,
+    backTranslation,
+    divergentSpans: findDivergentSpans(original, originalTokens, backTokens),
+  };
+}
@@ -0,0 +1,121 @@
+// Provider usage as reported by /api/usage, and the checks that warn before a
+// request would run over a quota or over the user's own daily budget.
+
+export type UsageKind = "translation" | "speech";
+
+export interface UsageCounter {
+  characters: number;
+  requests: number;
+}
+
+export interface DailyUsage {
+  // UTC day, 'YYYY-MM-DD'
+  date: string;
+  providers: Record<string, UsageCounter>;
+}
+
+export interface ProviderQuota {
+  provider: string;
+  name: string;
+  kind: UsageKind;
+  used: number;
+  limit: number;
+  resets_at: string | null;
+}
+
+export interface UsageReport {
+  days: DailyUsage[];
+  totals: Record<string, UsageCounter>;
+  // Configured providers that report a quota, in failover order
+  quotas: ProviderQuota[];
+  quota_errors: Array<{ provider: string; error: string }>;
+}
+
+export interface UsageThresholds {
+  // Warn once a request would take a provider quota past this share (1-100)
+  warnAtPercent: number;
+  // Own daily character budgets, 0 means no budget
+  dailyBudgets: Record<UsageKind, number>;
+}
+
+export interface UsageWarning {
+  kind: UsageKind;
+  message: string;
+  // The provider would refuse the request, not just cross a threshold
+  overQuota: boolean;
+}
+
+export const DEFAULT_USAGE_THRESHOLDS: UsageThresholds = {
+  warnAtPercent: 90,
+  dailyBudgets: { translation: 0, speech: 0 },
+};
+
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  translation: "Translation",
+  speech: "Speech",
+};
+
+export const PROVIDER_NAMES: Record<string, string> = {
+  "deepl-free": "DeepL Free",
+  "deepl-pro": "DeepL Pro",
+  "libretranslate": "LibreTranslate",
+  "mock": "Mock",
+  "elevenlabs": "ElevenLabs",
+};
+
+export const getUsageKind = (provider: string): UsageKind =>
+  provider === "elevenlabs" ? "speech" : "translation";
+
+export const formatCharacters = (count: number) => count.toLocaleString();
+
+// Characters of one kind recorded on the last day of the report (today on the server)
+export const getUsageToday = (report: UsageReport, kind: UsageKind) => {
+  const today = report.days[report.days.length - 1];
+  if (!today) return 0;
+  return Object.entries(today.providers)
+    .filter(([provider]) => getUsageKind(provider) === kind)
+    .reduce((total, [, counter]) => total + counter.characters, 0);
+};
+
+// The first quota of a kind belongs to the provider that will get the request
+export function checkUsage(
+  report: UsageReport | null,
+  thresholds: UsageThresholds,
+  kind: UsageKind,
+  characters: number
+): UsageWarning | null {
+  if (!report || characters <= 0) return null;
+
+  const quota = report.quotas.find(entry => entry.kind === kind);
+  if (quota && quota.limit > 0) {
+    const remaining = Math.max(0, quota.limit - quota.used);
+    if (characters > remaining) {
+      return {
+        kind,
+        overQuota: true,
+        message: `This needs ${formatCharacters(characters)} characters but only ${formatCharacters(remaining)} are left on your ${quota.name} quota.`,
+      };
+    }
+
+    const percent = ((quota.used + characters) / quota.limit) * 100;
+    if (percent >= thresholds.warnAtPercent) {
+      return {
+        kind,
+        overQuota: false,
+        message: `This takes ${quota.name} to ${Math.floor(percent)}% of its ${formatCharacters(quota.limit)} character quota.`,
+      };
+    }
+  }
+
+  const budget = thresholds.dailyBudgets[kind];
+  const usedToday = getUsageToday(report, kind);
+  if (budget > 0 && usedToday + characters > budget) {
+    return {
+      kind,
+      overQuota: false,
+      message: `This takes today's ${USAGE_KIND_LABELS[kind].toLowerCase()} usage to ${formatCharacters(usedToday + characters)} characters, over your daily budget of ${formatCharacters(budget)}.`,
+    };
+  }
+
+  return null;
+}
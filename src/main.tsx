@@ -1,10 +1,29 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { SharedTranslationView } from "@/components/shared-translation-view";
+import { isShareFragment } from "@/lib/share";
+import { registerServiceWorker } from "@/lib/service-worker";
+import { initStorage } from "@/lib/storage";
 import "./index.css";
 
-ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-);
+const root = ReactDOM.createRoot(document.getElementById("root") as HTMLElement);
+
+// Share links (#share=...) open a read-only view instead of the app
+const render = () => {
+  const { hash } = window.location;
+  root.render(
+    <React.StrictMode>
+      {isShareFragment(hash) ? <SharedTranslationView hash={hash} /> : <App />}
+    </React.StrictMode>,
+  );
+};
+
+// The desktop app loads its settings from disk before the hooks read them
+initStorage()
+  .catch(error => console.error("Error loading saved data:", error))
+  .finally(() => {
+    window.addEventListener("hashchange", render);
+    render();
+    registerServiceWorker();
+  });
@@ -1,5 +1,11 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  readonly VITE_WHISPER_URL?: string;
+  readonly VITE_API_TOKEN?: string;
+  readonly VITE_SHARE_URL?: string;
+}
+
 declare module '*.svg' {
   const content: string;
   export default content;
@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createFileSystemCacheStore, createMemoryCacheStore } from '../api/_lib/cache.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+// Uses the cache stores directly, on a temporary directory
+test.describe('VoicePal API cache', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  let directory: string;
+
+  test.beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'voicepal-cache-'));
+  });
+
+  test.afterEach(async () => {
+    delete process.env.API_CACHE_MAX_BYTES;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const readIndex = async () => JSON.parse(await fs.readFile(path.join(directory, 'index.json'), 'utf8'));
+
+  test('should keep every entry of concurrent writes in the index', async () => {
+    const store = createFileSystemCacheStore(directory);
+    const keys = Array.from({ length: 20 }, (_, index) => `translate-${index}`);
+
+    await Promise.all(keys.map(key => store.set(key, Buffer.from(key), 'text/plain')));
+    await Promise.all(keys.map(key => store.get(key)));
+
+    expect(Object.keys(await readIndex()).sort()).toEqual([...keys].sort());
+    expect((await fs.readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+
+    const reopened = createFileSystemCacheStore(directory);
+    const entry = await reopened.get('translate-7');
+    expect(entry?.data.toString()).toBe('translate-7');
+    expect(entry?.contentType).toBe('text/plain');
+  });
+
+  test('should not rewrite the index on a hit', async () => {
+    const store = createFileSystemCacheStore(directory);
+    await store.set('audio-1', Buffer.from('mp3'), 'audio/mpeg');
+    const before = await fs.stat(path.join(directory, 'index.json'));
+
+    await tick();
+    expect((await store.get('audio-1'))?.data.toString()).toBe('mp3');
+    expect(await store.get('audio-missing')).toBeNull();
+
+    const after = await fs.stat(path.join(directory, 'index.json'));
+    expect(after.mtimeMs).toBe(before.mtimeMs);
+  });
+
+  test('should evict the least recently used entries once over the size limit', async () => {
+    process.env.API_CACHE_MAX_BYTES = '10';
+
+    for (const store of [createMemoryCacheStore(), createFileSystemCacheStore(directory)]) {
+      await store.set('a', Buffer.from('aaaa'), 'text/plain');
+      await tick();
+      await store.set('b', Buffer.from('bbbb'), 'text/plain');
+      await tick();
+      // Reading a makes b the oldest
+      await store.get('a');
+      await tick();
+      await store.set('c', Buffer.from('cccc'), 'text/plain');
+
+      expect(await store.get('a')).not.toBeNull();
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('c')).not.toBeNull();
+    }
+
+    // The last access of the hit reached the file with the next write
+    expect(Object.keys(await readIndex()).sort()).toEqual(['a', 'c']);
+    await expect(fs.access(path.join(directory, 'b.bin'))).rejects.toThrow();
+  });
+
+  test('should drop index entries whose data file is gone', async () => {
+    const store = createFileSystemCacheStore(directory);
+    await store.set('voices', Buffer.from('[]'), 'application/json');
+    await fs.rm(path.join(directory, 'voices.bin'));
+
+    expect(await store.get('voices')).toBeNull();
+    expect(await readIndex()).toEqual({});
+  });
+});
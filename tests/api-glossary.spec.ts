@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import { parseGlossary, protectGlossaryTerms, restoreGlossaryTerms } from '../api/_lib/glossary.js';
+
+// Calls the glossary helpers directly, without the dev servers
+test.describe('VoicePal API glossary', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  const glossary = [
+    { term: 'Voice', translation: 'Voz' },
+    { term: 'VoicePal', translation: 'VoicePal' },
+    { term: 'VoicePal Pro', translation: 'VoicePal Pro' },
+  ];
+
+  test('should protect whole words, longest term first, and restore them after translation', () => {
+    const { text, entries } = protectGlossaryTerms('voicepal pro beats VoicePal; Voice over, Voices and voice.', glossary);
+
+    expect(text).toBe('⟦0⟧ beats ⟦1⟧; ⟦2⟧ over, Voices and ⟦2⟧.');
+    expect(entries.map(entry => entry.term)).toEqual(['VoicePal Pro', 'VoicePal', 'Voice']);
+
+    // Providers sometimes move placeholders and add spaces inside the brackets
+    const restored = restoreGlossaryTerms('⟦ 1 ⟧ supera a ⟦0⟧; ⟦2⟧ en off, Voces y ⟦2⟧. ⟦9⟧', entries);
+    expect(restored.text).toBe('VoicePal supera a VoicePal Pro; Voz en off, Voces y Voz. ⟦9⟧');
+    expect(restored.matches.map(match => [match.term, restored.text.slice(match.start, match.end)])).toEqual([
+      ['VoicePal', 'VoicePal'],
+      ['VoicePal Pro', 'VoicePal Pro'],
+      ['Voice', 'Voz'],
+      ['Voice', 'Voz'],
+    ]);
+  });
+
+  test('should find the entry of matches that lowercase differently from the term', () => {
+    const { text, entries } = protectGlossaryTerms('Die Straſſe und ΟΔΟΣ, οδοσ.', [
+      { term: 'strasse', translation: 'street' },
+      { term: 'ΟΔΟΣ', translation: 'road' },
+    ]);
+
+    expect(text).toBe('Die ⟦0⟧ und ⟦1⟧, ⟦1⟧.');
+    expect(restoreGlossaryTerms(text, entries).text).toBe('Die street und road, road.');
+  });
+
+  test('should leave texts without glossary terms alone', () => {
+    expect(protectGlossaryTerms('Nothing to see', glossary)).toEqual({ text: 'Nothing to see', entries: [] });
+    expect(protectGlossaryTerms('Voice', [])).toEqual({ text: 'Voice', entries: [] });
+    expect(restoreGlossaryTerms('⟦0⟧ stays', [])).toEqual({ text: '⟦0⟧ stays', matches: [] });
+  });
+
+  test('should validate the glossary field', () => {
+    expect(parseGlossary(undefined)).toEqual([]);
+    expect(parseGlossary([{ term: ' API ', translation: ' API ' }, { term: '  ', translation: 'x' }])).toEqual([
+      { term: 'API', translation: 'API' },
+    ]);
+    expect(parseGlossary([{ term: 'API' }])).toBeNull();
+    expect(parseGlossary('API=API')).toBeNull();
+    expect(parseGlossary([{ term: 'x'.repeat(201), translation: 'y' }])).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import { applyRateLimit, getClientIp, redactHeaders, withApiMiddleware } from '../api/_lib/middleware.js';
+import { PROVIDER_KEY_HEADERS } from '../api/_lib/provider-keys.js';
+
+// Calls the middleware helpers directly, without the dev servers
+test.describe('VoicePal API middleware', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  test('should keep tokens and provider keys out of logged headers', () => {
+    const secrets = ['Bearer api-token', 'x-api-token', 'deepl-secret:fx', 'elevenlabs-secret'];
+    const logged = redactHeaders({
+      'content-type': 'application/json',
+      authorization: secrets[0],
+      'x-api-key': secrets[1],
+      [PROVIDER_KEY_HEADERS.deepl.toLowerCase()]: secrets[2],
+      [PROVIDER_KEY_HEADERS.elevenlabs.toLowerCase()]: secrets[3],
+    });
+
+    expect(logged['content-type']).toBe('application/json');
+    for (const header of ['authorization', 'x-api-key', ...Object.values(PROVIDER_KEY_HEADERS)]) {
+      expect(logged[header.toLowerCase()]).toBe('[redacted]');
+    }
+    const printed = JSON.stringify(logged);
+    secrets.forEach(secret => expect(printed).not.toContain(secret));
+  });
+
+  test('should not reset the rate limit when X-Forwarded-For changes', () => {
+    process.env.API_RATE_LIMIT = '60';
+    process.env.API_RATE_LIMIT_BURST = '2';
+    delete process.env.API_TRUSTED_PROXY;
+
+    const statuses: number[] = [];
+    const res = {
+      setHeader: () => res,
+      status: (status: number) => {
+        statuses.push(status);
+        return res;
+      },
+      json: () => res,
+    };
+
+    const allowed = [1, 2, 3].map(attempt => applyRateLimit({
+      headers: { 'x-forwarded-for': `203.0.113.${attempt}` },
+      socket: { remoteAddress: '198.51.100.7' },
+    } as never, res as never));
+
+    expect(allowed).toEqual([true, true, false]);
+    expect(statuses).toEqual([429]);
+  });
+
+  test('should only trust X-Forwarded-For entries added by the configured proxies', () => {
+    const req = {
+      headers: { 'x-forwarded-for': '203.0.113.1, 198.51.100.9', 'x-vercel-forwarded-for': '192.0.2.4' },
+      socket: { remoteAddress: '10.0.0.2' },
+    } as never;
+
+    delete process.env.API_TRUSTED_PROXY;
+    expect(getClientIp(req)).toBe('10.0.0.2');
+    process.env.API_TRUSTED_PROXY = '1';
+    expect(getClientIp(req)).toBe('198.51.100.9');
+    process.env.API_TRUSTED_PROXY = 'vercel';
+    expect(getClientIp(req)).toBe('192.0.2.4');
+    delete process.env.API_TRUSTED_PROXY;
+  });
+
+  test('should charge routes priced by their body once the body is valid', async () => {
+    process.env.API_RATE_LIMIT = '60';
+    process.env.API_RATE_LIMIT_BURST = '2';
+    delete process.env.API_TRUSTED_PROXY;
+
+    const handled: unknown[] = [];
+    const route = withApiMiddleware<{ targets: number }>({
+      methods: ['POST'],
+      schema: { targets: { type: 'number', required: true } },
+      rateLimitCost: ({ targets }) => 1 + targets,
+    }, (_req, res, body) => {
+      handled.push(body);
+      return res.status(200).json({});
+    });
+
+    const send = async (body: unknown, remoteAddress: string) => {
+      let status = 0;
+      const res = {
+        setHeader: () => res,
+        status: (code: number) => {
+          status = code;
+          return res;
+        },
+        json: () => res,
+      };
+      await route({ method: 'POST', headers: {}, socket: { remoteAddress }, body } as never, res as never);
+      return status;
+    };
+
+    expect(await send({ targets: 1 }, '198.51.100.20')).toBe(200);
+    expect(await send({ targets: 1 }, '198.51.100.20')).toBe(429);
+    expect(handled).toEqual([{ targets: 1 }]);
+
+    // An invalid body only pays the token taken up front
+    expect(await send({ targets: 'one' }, '198.51.100.21')).toBe(400);
+    expect(await send({ targets: 1 }, '198.51.100.21')).toBe(429);
+    expect(handled).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+import { createRateLimiter } from '../api/_lib/rate-limit.js';
+import { validateBody, type BodySchema } from '../api/_lib/schema.js';
+
+const TRANSLATE_SCHEMA: BodySchema = {
+  text: { type: 'string', required: true, minLength: 1, maxLength: 10 },
+  targetLang: { type: 'string', required: true, enum: ['ES', 'FR'] },
+  formality: { type: 'boolean' },
+  speed: { type: 'number', min: 0.5, max: 2 },
+  glossary: {
+    type: 'array',
+    maxItems: 2,
+    items: { type: 'object', properties: { term: { type: 'string', required: true, minLength: 1 } } },
+  },
+};
+
+// Calls the body validator and the rate limiter directly, without the dev servers
+test.describe('VoicePal API validation and rate limits', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  test('should accept a valid body and ignore unknown fields', () => {
+    expect(validateBody(TRANSLATE_SCHEMA, { text: 'Hola', targetLang: 'ES', speed: 1, extra: true })).toEqual([]);
+  });
+
+  test('should report every problem with its dotted path', () => {
+    const issues = validateBody(TRANSLATE_SCHEMA, {
+      text: '',
+      formality: 'yes',
+      speed: '1',
+      glossary: [{ term: 'ok' }, { term: '' }],
+    });
+
+    expect(issues).toEqual([
+      { field: 'text', message: 'text must not be empty' },
+      { field: 'targetLang', message: 'targetLang is required' },
+      { field: 'formality', message: 'formality must be a boolean, got string' },
+      { field: 'speed', message: 'speed must be a number, got string' },
+      { field: 'glossary.1.term', message: 'glossary.1.term must not be empty' },
+    ]);
+  });
+
+  test('should check lengths, ranges, enums and item counts', () => {
+    const issues = validateBody(TRANSLATE_SCHEMA, {
+      text: 'Far too long text',
+      targetLang: 'DE',
+      speed: 3,
+      glossary: [{}, {}, {}],
+    });
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'text must be at most 10 characters',
+      'targetLang must be one of: ES, FR',
+      'speed must be between 0.5 and 2',
+      'glossary must have at most 2 items',
+    ]);
+    expect(validateBody(TRANSLATE_SCHEMA, { text: 'Hi', targetLang: 'ES', glossary: 'term' }))
+      .toEqual([{ field: 'glossary', message: 'glossary must be an array, got string' }]);
+  });
+
+  test('should reject bodies that are not JSON objects', () => {
+    for (const body of [null, [], 'text', 42]) {
+      expect(validateBody(TRANSLATE_SCHEMA, body)).toEqual([{ field: 'body', message: 'Request body must be a JSON object' }]);
+    }
+  });
+
+  test('should refill tokens over time and tell the client when to retry', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 0.5, now: () => time });
+
+    expect(limiter.consume('a')).toEqual({ allowed: true, limit: 2, remaining: 1, retryAfterSeconds: 0 });
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.consume('a')).toEqual({ allowed: false, limit: 2, remaining: 0, retryAfterSeconds: 2 });
+    expect(limiter.consume('b').allowed).toBe(true);
+
+    time = 2000;
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.consume('a').allowed).toBe(false);
+  });
+
+  test('should let a request costing more than the capacity through a full bucket', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 1, now: () => time });
+
+    expect(limiter.consume('a', 5).allowed).toBe(true);
+    expect(limiter.consume('a', 1)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+
+    time = 1500;
+    expect(limiter.consume('a', 5)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+  });
+
+  test('should drop full buckets first, then the oldest, once too many clients are tracked', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ capacity: 2, refillPerSecond: 1, maxKeys: 2, now: () => time });
+
+    limiter.consume('idle');
+    limiter.consume('busy', 2);
+    time = 1000;
+    // idle is full again and goes; busy keeps its half empty bucket
+    limiter.consume('new', 2);
+    expect(limiter.consume('busy', 2).allowed).toBe(false);
+
+    // Nothing is full now, so the oldest bucket makes room
+    limiter.consume('newest');
+    expect(limiter.consume('busy', 2).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { splitIntoChunks, splitIntoSentences } from '../api/_lib/text-chunks.js';
+
+// Calls the TTS chunking directly, without the dev servers
+test.describe('VoicePal API text chunks', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  test('should split sentences at their end marks and line breaks', () => {
+    expect(splitIntoSentences('Hello there! How are you? "Fine." Thanks\nNext line')).toEqual([
+      'Hello there!',
+      'How are you?',
+      '"Fine."',
+      'Thanks',
+      'Next line',
+    ]);
+    expect(splitIntoSentences('你好。今天好吗？')).toEqual(['你好。', '今天好吗？']);
+  });
+
+  test('should find nothing to speak in whitespace and punctuation', () => {
+    expect(splitIntoChunks('', 100)).toEqual([]);
+    expect(splitIntoChunks('   \n\n  ', 100)).toEqual([]);
+    expect(splitIntoChunks(' ... ?! ', 100)).toEqual([]);
+  });
+
+  test('should pack whole sentences and keep the first chunk short', () => {
+    const sentence = 'This sentence is thirty chars.';
+    const chunks = splitIntoChunks(Array(10).fill(sentence).join(' '), 100, 40);
+
+    expect(chunks[0]).toBe(sentence);
+    expect(chunks.slice(1)).toEqual([
+      Array(3).fill(sentence).join(' '),
+      Array(3).fill(sentence).join(' '),
+      Array(3).fill(sentence).join(' '),
+    ]);
+  });
+
+  test('should cut sentences and words longer than a chunk', () => {
+    const chunks = splitIntoChunks(`${'word '.repeat(30)}${'x'.repeat(25)}.`, 20);
+
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(20));
+    expect(chunks.join(' ').replace(/\s+/g, '')).toBe(`${'word'.repeat(30)}${'x'.repeat(25)}.`);
+  });
+});
@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createFileSystemUsageStore, createMemoryUsageStore, toUsageDate, USAGE_RETENTION_DAYS } from '../api/_lib/usage.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Uses the usage stores directly, on a temporary directory
+test.describe('VoicePal API usage', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  let directory: string;
+
+  test.beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'voicepal-usage-'));
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should count characters and requests of concurrent writes', async () => {
+    const filePath = path.join(directory, 'usage.json');
+    const store = createFileSystemUsageStore(filePath);
+    const today = toUsageDate(Date.now());
+
+    await Promise.all(Array.from({ length: 10 }, (_, index) =>
+      store.record(today, index % 2 ? 'elevenlabs' : 'deepl-free', 100)));
+
+    const expected = {
+      [today]: {
+        'deepl-free': { characters: 500, requests: 5 },
+        'elevenlabs': { characters: 500, requests: 5 },
+      },
+    };
+    expect(await store.read()).toEqual(expected);
+    expect(await createFileSystemUsageStore(filePath).read()).toEqual(expected);
+  });
+
+  test('should drop days older than the retention window', async () => {
+    const store = createMemoryUsageStore();
+    const expired = toUsageDate(Date.now() - (USAGE_RETENTION_DAYS + 1) * DAY);
+    const kept = toUsageDate(Date.now() - (USAGE_RETENTION_DAYS - 1) * DAY);
+
+    await store.record(expired, 'deepl-free', 10);
+    await store.record(kept, 'deepl-free', 20);
+
+    expect(Object.keys(await store.read())).toEqual([kept]);
+  });
+});
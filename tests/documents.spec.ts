@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import { deflateSync } from 'node:zlib';
+import { parseDocument, planTranslationBatches } from '../src/lib/documents';
+import { joinTextParts } from '../src/lib/languages';
+import { extractPdfParagraphs } from '../src/lib/pdf-text';
+import { readZip, writeZip } from '../src/lib/zip';
+
+// One page PDF with a Helvetica font and the given content stream
+const buildPdf = (content: string, { compress = true, trailer = '' } = {}) => {
+  const stream = compress ? deflateSync(Buffer.from(content, 'latin1')) : Buffer.from(content, 'latin1');
+  const pdf = Buffer.concat([
+    Buffer.from([
+      '%PDF-1.4',
+      '1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj',
+      '2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj',
+      '3 0 obj\n<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>\nendobj',
+      '4 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>\nendobj',
+      `5 0 obj\n<< /Length ${stream.length}${compress ? ' /Filter /FlateDecode' : ''} >>\nstream\n`,
+    ].join('\n'), 'latin1'),
+    stream,
+    Buffer.from(`\nendstream\nendobj\ntrailer\n<< /Root 1 0 R${trailer} >>\n%%EOF\n`, 'latin1'),
+  ]);
+  return pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.length);
+};
+
+const PAGE_CONTENT = [
+  'BT /F1 12 Tf 72 720 Td [(Hel) -20 (lo) -300 (world,)] TJ',
+  '0 -14 Td (a second line) Tj',
+  '0 -14 Td (ends here.) Tj ET',
+  'BT /F1 12 Tf 72 660 Td [(New) -250 (paragraph)] TJ ET',
+].join('\n');
+
+// Calls the document modules directly; .docx files need the browser's DOMParser
+test.describe('VoicePal documents', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Node-only tests do not depend on the browser');
+
+  test('should read paragraphs from Tj and TJ operators in a FlateDecode stream', async () => {
+    const expected = ['Hello world, a second line ends here.', 'New paragraph'];
+    expect(await extractPdfParagraphs(buildPdf(PAGE_CONTENT))).toEqual(expected);
+    expect(await extractPdfParagraphs(buildPdf(PAGE_CONTENT, { compress: false }))).toEqual(expected);
+  });
+
+  test('should reject malformed and encrypted PDFs with a readable error', async () => {
+    await expect(extractPdfParagraphs(new TextEncoder().encode('<html></html>').buffer)).rejects.toThrow('Not a PDF file');
+    await expect(extractPdfParagraphs(buildPdf(PAGE_CONTENT, { trailer: ' /Encrypt 6 0 R' })))
+      .rejects.toThrow('Encrypted PDFs are not supported');
+    await expect(extractPdfParagraphs(new TextEncoder().encode('%PDF-1.7\n1 0 obj\n<< /Type /Catalog').buffer))
+      .rejects.toThrow('No text was found in the PDF');
+
+    const file = new File([buildPdf(PAGE_CONTENT, { trailer: ' /Encrypt 6 0 R' })], 'locked.pdf', { type: 'application/pdf' });
+    await expect(parseDocument(file)).rejects.toThrow('Encrypted PDFs are not supported');
+  });
+
+  test('should read back what writeZip wrote and reject other files', async () => {
+    const entries = [
+      { name: '[Content_Types].xml', data: new TextEncoder().encode('<Types/>') },
+      { name: 'word/média.xml', data: new TextEncoder().encode('x'.repeat(5000)) },
+      { name: 'empty.txt', data: new Uint8Array(0) },
+    ];
+    const zip = await writeZip(entries);
+    expect(await readZip(await zip.arrayBuffer())).toEqual(entries);
+
+    await expect(readZip(new TextEncoder().encode('not a zip file at all').buffer)).rejects.toThrow('Not a ZIP file');
+  });
+
+  test('should join lines without spaces in Chinese and Japanese', async () => {
+    expect(joinTextParts(['日本語の', '文章です。'])).toBe('日本語の文章です。');
+    expect(joinTextParts(['这是第一部分，', 'English', 'words'])).toBe('这是第一部分，English words');
+    expect(joinTextParts(['สวัสดี', 'ครับ'])).toBe('สวัสดีครับ');
+
+    const markdown = new File(['# 見出し\n\n最初の行と\n次の行です。\n\nFirst line\nand the next one\n'], 'notes.md');
+    expect((await parseDocument(markdown)).segments).toEqual(['見出し', '最初の行と次の行です。', 'First line and the next one']);
+  });
+
+  test('should cut long segments into batches within the route limits', () => {
+    const long = 'A sentence that keeps going. '.repeat(400);
+    const batches = planTranslationBatches(['Short one', long, 'Last one']);
+
+    const chunks = batches.flat();
+    expect(chunks[0]).toEqual({ segment: 0, text: 'Short one', last: true });
+    expect(chunks.filter(chunk => chunk.segment === 1).map(chunk => chunk.text).join('')).toBe(long);
+    expect(chunks.filter(chunk => chunk.last).map(chunk => chunk.segment)).toEqual([0, 1, 2]);
+    batches.forEach(batch => expect(batch.reduce((total, chunk) => total + chunk.text.length, 0)).toBeLessThanOrEqual(20000));
+  });
+});
+
+test.describe('VoicePal .docx documents', () => {
+  test('should translate the paragraphs of a .docx file and keep the rest of the package', async ({ page }) => {
+    await page.goto('/');
+
+    const documentXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+      '<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Hello </w:t></w:r><w:r><w:t>world</w:t></w:r></w:p>' +
+      '<w:p><w:pPr><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr></w:p>' +
+      '<w:p><w:r><w:t>Second</w:t><w:tab/><w:t>paragraph</w:t></w:r></w:p>' +
+      '</w:body></w:document>';
+    const docx = await writeZip([
+      { name: '[Content_Types].xml', data: new TextEncoder().encode('<Types/>') },
+      { name: 'word/document.xml', data: new TextEncoder().encode(documentXml) },
+    ]);
+    const bytes = Array.from(new Uint8Array(await docx.arrayBuffer()));
+
+    const result = await page.evaluate(async (bytes) => {
+      // Served by Vite like the app's own modules
+      const documentsModule = '/src/lib/documents.ts';
+      const zipModule = '/src/lib/zip.ts';
+      const { parseDocument, buildTranslatedDocument } = await import(documentsModule);
+      const { readZip } = await import(zipModule);
+
+      const file = new File([new Uint8Array(bytes)], 'report.docx');
+      const parsed = await parseDocument(file);
+      const translated = await buildTranslatedDocument(parsed, ['Hola mundo', 'Segundo\tpárrafo']);
+      const entries: { name: string; data: Uint8Array }[] = await readZip(await translated.arrayBuffer());
+      return {
+        segments: parsed.segments,
+        names: entries.map(entry => entry.name),
+        documentXml: new TextDecoder().decode(entries.find(entry => entry.name === 'word/document.xml')!.data),
+      };
+    }, bytes);
+
+    expect(result.segments).toEqual(['Hello world', 'Second\tparagraph']);
+    expect(result.names).toEqual(['[Content_Types].xml', 'word/document.xml']);
+    expect(result.documentXml).toContain('<w:b/>');
+    expect(result.documentXml).toContain('Hola mundo');
+    expect(result.documentXml).toMatch(/Segundo<\/w:t><w:tab\/><w:t[^>]*>párrafo/);
+    expect(result.documentXml).not.toContain('world');
+  });
+});
@@ -0,0 +1,149 @@
+import { test, expect } from '@playwright/test';
+import { parseHistoryImport, toCSV, toJSON, toSRT } from '../src/lib/history-export';
+import type { HistoryItem } from '../src/hooks/useHistory';
+
+const createItem = (fields: Partial<HistoryItem>): HistoryItem => ({
+  id: 'item',
+  transcribedText: '',
+  translatedText: '',
+  targetLang: 'ES',
+  sourceLang: 'en-US',
+  ttsVoice: '',
+  createdAt: '2026-01-01T10:00:00.000Z',
+  tags: [],
+  favorite: false,
+  audio: null,
+  segments: [],
+  turns: [],
+  qualityScore: null,
+  document: null,
+  revisions: [],
+  editedAt: null,
+  ...fields,
+});
+
+// Times and text of each cue in an SRT file
+const parseCues = (srt: string) =>
+  srt.trim().split('\n\n').map(block => {
+    const [, timing, ...lines] = block.split('\n');
+    const [start, end] = timing.split(' --> ');
+    return { start, end, text: lines.join('\n') };
+  });
+
+// Calls the export and import helpers directly, without the app
+test.describe('VoicePal history export', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Node-only tests do not depend on the browser');
+
+  test('should drop imported fields that have the wrong type', () => {
+    const items = parseHistoryImport(JSON.stringify([
+      {
+        id: 'imported-1',
+        transcribedText: 'Hello',
+        translatedText: 42,
+        createdAt: 1700000000000,
+        tags: 'greeting',
+        favorite: 'yes',
+        qualityScore: 3,
+        segments: [{ start: 0, end: 800, text: 'Hello' }, { start: '0', end: 1, text: 'bad' }],
+        document: { fileName: 'notes.exe', format: 'exe', segmentCount: 1 },
+        editedAt: 'not a date',
+      },
+      { transcribedText: 'Bonjour', createdAt: '2026-01-02T10:00:00.000Z', tags: ['travel', 7], revisions: null },
+      { translatedText: 'No source text' },
+      'not an item',
+    ]));
+
+    expect(items).toEqual([
+      { id: 'imported-1', transcribedText: 'Hello', segments: [{ start: 0, end: 800, text: 'Hello' }] },
+      { transcribedText: 'Bonjour', createdAt: '2026-01-02T10:00:00.000Z', tags: ['travel'] },
+    ]);
+  });
+
+  test('should import its own JSON export unchanged', () => {
+    const items = [
+      createItem({
+        id: 'a',
+        transcribedText: 'Good morning',
+        translatedText: 'Buenos días',
+        tags: ['greeting'],
+        favorite: true,
+        qualityScore: 0.92,
+        segments: [{ start: 0, end: 900, text: 'Good morning' }],
+        revisions: [{ transcribedText: 'Good mornin', translatedText: '', savedAt: '2026-01-01T10:01:00.000Z' }],
+        editedAt: '2026-01-01T10:01:00.000Z',
+      }),
+      createItem({
+        id: 'b',
+        transcribedText: 'Report',
+        translatedText: 'Informe',
+        document: { fileName: 'report.docx', format: 'docx', segmentCount: 3 },
+        turns: [{ speaker: 'a', text: 'Hi', translatedText: 'Hola', sourceLang: 'en-US', targetLang: 'ES', createdAt: '2026-01-01T10:00:00.000Z' }],
+      }),
+    ];
+
+    expect(parseHistoryImport(toJSON(items))).toEqual(items);
+  });
+
+  test('should quote CSV fields with commas, quotes and line breaks', () => {
+    const csv = toCSV([createItem({
+      id: 'a',
+      transcribedText: 'She said "hi", then left',
+      translatedText: 'Line one\nLine two',
+      tags: ['a', 'b'],
+      qualityScore: 0.5,
+    })]);
+
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('id,createdAt,sourceLang,targetLang,transcribedText,translatedText,ttsVoice,tags,favorite,qualityScore');
+    expect(row).toBe('a,2026-01-01T10:00:00.000Z,en-US,ES,"She said ""hi"", then left","Line one\nLine two",,a;b,false,0.50');
+  });
+
+  test('should time one SRT cue per recorded segment without overlaps', () => {
+    const srt = toSRT([
+      createItem({
+        id: 'recorded',
+        transcribedText: 'First sentence. Second sentence.',
+        translatedText: 'Primera frase. Segunda frase.',
+        createdAt: '2026-01-01T10:00:00.000Z',
+        segments: [{ start: 1500, end: 3000, text: 'Second sentence.' }, { start: 0, end: 1500, text: 'First sentence.' }],
+      }),
+      // Saved a second later, but its segments start at 0
+      createItem({
+        id: 'overlapping',
+        transcribedText: 'Third sentence.',
+        createdAt: '2026-01-01T10:00:01.000Z',
+        segments: [{ start: 0, end: 2500, text: 'Third sentence.' }, { start: 2500, end: 2600, text: ' ' }],
+      }),
+      createItem({
+        id: 'typed',
+        transcribedText: 'Typed text',
+        translatedText: 'Texto escrito',
+        createdAt: '2026-01-01T10:01:00.000Z',
+      }),
+    ]);
+
+    expect(parseCues(srt)).toEqual([
+      { start: '00:00:00,000', end: '00:00:01,500', text: 'First sentence.' },
+      { start: '00:00:01,500', end: '00:00:03,000', text: 'Second sentence.\nPrimera frase. Segunda frase.' },
+      { start: '00:00:03,000', end: '00:00:03,500', text: 'Third sentence.' },
+      { start: '00:01:00,000', end: '00:01:02,000', text: 'Typed text\nTexto escrito' },
+    ]);
+    expect(srt.startsWith('1\n')).toBe(true);
+  });
+
+  test('should keep the item text for recordings edited after saving', () => {
+    const srt = toSRT([createItem({
+      transcribedText: 'Edited text',
+      segments: [{ start: 0, end: 1200, text: 'Original text' }],
+      editedAt: '2026-01-01T11:00:00.000Z',
+    })]);
+
+    expect(parseCues(srt)).toEqual([{ start: '00:00:00,000', end: '00:00:02,000', text: 'Edited text' }]);
+  });
+
+  test('should reject files without history items', () => {
+    expect(() => parseHistoryImport('{ not json')).toThrow('The file is not valid JSON');
+    expect(() => parseHistoryImport(JSON.stringify({ items: [{ transcribedText: 1 }] }))).toThrow('No history items found in the file');
+    expect(() => parseHistoryImport('null')).toThrow('No history items found in the file');
+  });
+});
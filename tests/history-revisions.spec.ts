@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import { diffWords } from '../src/lib/text-diff';
+
+// Calls the diff directly, without the app
+test.describe('VoicePal revision diff', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Node-only tests do not depend on the browser');
+
+  test('should mark replaced, added and removed words', () => {
+    expect(diffWords('The quick brown fox', 'The slow brown fox jumps')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: ' brown fox' },
+      { type: 'added', text: ' jumps' },
+    ]);
+    expect(diffWords('Hello there world', 'Hello world')).toEqual([
+      { type: 'equal', text: 'Hello ' },
+      { type: 'removed', text: 'there ' },
+      { type: 'equal', text: 'world' },
+    ]);
+  });
+
+  test('should rebuild both texts from the parts', () => {
+    const before = 'One two three\nfour  five six seven';
+    const after = 'One three\nfour five, six eight seven';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter(part => part.type !== 'added').map(part => part.text).join('')).toBe(before);
+    expect(parts.filter(part => part.type !== 'removed').map(part => part.text).join('')).toBe(after);
+    parts.slice(1).forEach((part, index) => expect(part.type).not.toBe(parts[index].type));
+  });
+
+  test('should handle empty and identical texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('Same text', 'Same text')).toEqual([{ type: 'equal', text: 'Same text' }]);
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+  });
+
+  test('should show a long rewrite as replaced instead of aligning it', () => {
+    const before = Array.from({ length: 1200 }, (_, index) => `a${index}`).join(' ');
+    const after = Array.from({ length: 1200 }, (_, index) => `b${index}`).join(' ');
+
+    expect(diffWords(`Start ${before} end`, `Start ${after} end`)).toEqual([
+      { type: 'equal', text: 'Start ' },
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+      { type: 'equal', text: ' end' },
+    ]);
+  });
+});
+
+test.describe('VoicePal history revisions', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.clock.install();
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+
+    // Start from an empty IndexedDB history
+    await page.evaluate(() => new Promise<void>(resolve => {
+      const request = indexedDB.deleteDatabase('voicepal');
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+      request.onblocked = () => resolve();
+    }));
+    await page.reload();
+    await page.waitForLoadState('networkidle');
+  });
+
+  test('should undo typing in steps separated by pauses', async ({ page }) => {
+    const modeToggle = page.locator('button:has-text("Text-to-Speech"), [data-testid="mode-toggle"]');
+    if (await modeToggle.isVisible()) {
+      await modeToggle.click();
+    }
+
+    await page.locator('textarea[placeholder*="Enter text to convert"]').fill('Good morning');
+    await page.locator('[data-testid="save-button"]').click();
+
+    const historyItem = page.locator('[data-testid="history-item"]').first();
+    await historyItem.hover();
+    await historyItem.locator('[data-testid="history-edit"]').click();
+
+    const transcript = page.locator('[data-testid="history-edit-transcript"]');
+    const undo = page.locator('[data-testid="history-transcript-undo"]');
+    const redo = page.locator('[data-testid="history-transcript-redo"]');
+    await expect(undo).toBeDisabled();
+
+    // Keystrokes without a pause make one step
+    await transcript.press('End');
+    await transcript.pressSequentially(' everyone');
+    await page.clock.fastForward(2000);
+    await transcript.pressSequentially(', welcome');
+    await expect(transcript).toHaveValue('Good morning everyone, welcome');
+
+    await undo.click();
+    await expect(transcript).toHaveValue('Good morning everyone');
+    await undo.click();
+    await expect(transcript).toHaveValue('Good morning');
+    await expect(undo).toBeDisabled();
+
+    await redo.click();
+    await expect(transcript).toHaveValue('Good morning everyone');
+
+    // A new edit drops the steps that were undone
+    await transcript.pressSequentially('!');
+    await expect(redo).toBeDisabled();
+    await undo.click();
+    await expect(transcript).toHaveValue('Good morning everyone');
+  });
+});
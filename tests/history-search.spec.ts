@@ -0,0 +1,93 @@
+import { test, expect, type Page } from '@playwright/test';
+
+test.describe('VoicePal History Search', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForLoadState('networkidle');
+
+    // Start from an empty IndexedDB history
+    await page.evaluate(() => new Promise<void>(resolve => {
+      const request = indexedDB.deleteDatabase('voicepal');
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+      request.onblocked = () => resolve();
+    }));
+    await page.reload();
+    await page.waitForLoadState('networkidle');
+  });
+
+  const saveText = async (page: Page, text: string) => {
+    const textInput = page.locator('textarea[placeholder*="Enter text to convert"]');
+    await textInput.fill(text);
+    await page.locator('[data-testid="save-button"]').click();
+  };
+
+  test('should filter history by search text and favorites', async ({ page }) => {
+    const modeToggle = page.locator('button:has-text("Text-to-Speech"), [data-testid="mode-toggle"]');
+    if (await modeToggle.isVisible()) {
+      await modeToggle.click();
+    }
+
+    await saveText(page, 'Good morning everyone');
+    await saveText(page, 'See you tomorrow');
+
+    const historyItems = page.locator('[data-testid="history-item"]');
+    await expect(historyItems).toHaveCount(2);
+
+    // Full-text search
+    await page.locator('[data-testid="history-search"]').fill('morning');
+    await expect(historyItems).toHaveCount(1);
+    await expect(historyItems.first()).toContainText('Good morning everyone');
+
+    await page.locator('[data-testid="history-search"]').fill('nothing like this');
+    await expect(page.locator('[data-testid="history-no-results"]')).toBeVisible();
+
+    // Favorites
+    await page.locator('[data-testid="history-search"]').fill('');
+    await historyItems.filter({ hasText: 'See you tomorrow' }).hover();
+    await page.locator('[data-testid="history-favorite"]').first().click();
+    await page.locator('[data-testid="history-favorites-filter"]').click();
+    await expect(historyItems).toHaveCount(1);
+    await expect(historyItems.first()).toContainText('See you tomorrow');
+  });
+
+  test('should migrate history saved in localStorage', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('voicepal-history', JSON.stringify([{
+        id: 'legacy-1',
+        transcribedText: 'Legacy entry',
+        translatedText: 'Entrada antigua',
+        targetLang: 'ES',
+        sourceLang: 'en-US',
+        ttsVoice: 'calm-female-voice',
+        createdAt: new Date().toISOString(),
+      }]));
+    });
+    await page.reload();
+    await page.waitForLoadState('networkidle');
+
+    await expect(page.locator('[data-testid="history-item"]').first()).toContainText('Legacy entry');
+    expect(await page.evaluate(() => localStorage.getItem('voicepal-history'))).toBeNull();
+  });
+
+  test('should open entries saved with the bare EN target as English (US)', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('voicepal-history', JSON.stringify([{
+        id: 'legacy-en',
+        transcribedText: 'Buenos días',
+        translatedText: 'Good morning',
+        targetLang: 'EN',
+        sourceLang: 'es-ES',
+        ttsVoice: 'calm-female-voice',
+        createdAt: new Date().toISOString(),
+      }]));
+    });
+    await page.reload();
+    await page.waitForLoadState('networkidle');
+
+    await page.locator('[data-testid="history-item"]').filter({ hasText: 'Buenos días' }).click();
+
+    await expect(page.getByRole('combobox').filter({ hasText: 'English (US)' })).toBeVisible();
+    await expect(page.locator('[data-testid="unsupported-pair"]')).toHaveCount(0);
+  });
+});
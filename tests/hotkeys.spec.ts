@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+
+// The hotkey helpers read the app's environment, so they run in the page like the app's own modules
+test.describe('VoicePal hotkeys', () => {
+  test('should turn key presses into shortcuts and match them', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async () => {
+      const hotkeysModule = '/src/lib/hotkeys.ts';
+      const { eventToShortcut, matchesShortcut, getShortcutKey, hasModifier } = await import(hotkeysModule);
+      const press = (code: string, modifiers: KeyboardEventInit = {}) => new KeyboardEvent('keydown', { code, ...modifiers });
+
+      return {
+        shortcuts: [
+          eventToShortcut(press('KeyR', { ctrlKey: true, shiftKey: true })),
+          // Modifiers always come in the same order
+          eventToShortcut(press('Digit1', { metaKey: true, altKey: true, ctrlKey: true, shiftKey: true })),
+          eventToShortcut(press('Space')),
+          eventToShortcut(press('ShiftLeft', { shiftKey: true })),
+          eventToShortcut(press('')),
+        ],
+        matches: [
+          matchesShortcut(press('KeyR', { ctrlKey: true, shiftKey: true }), 'Ctrl+Shift+KeyR'),
+          matchesShortcut(press('KeyR', { ctrlKey: true }), 'Ctrl+Shift+KeyR'),
+          matchesShortcut(press('KeyR', { ctrlKey: true, shiftKey: true, altKey: true }), 'Ctrl+Shift+KeyR'),
+          matchesShortcut(press('KeyR'), ''),
+        ],
+        keys: ['Ctrl+Shift+KeyR', 'Space', ''].map(shortcut => getShortcutKey(shortcut)),
+        modifiers: ['Ctrl+Shift+KeyR', 'Alt+F4', 'Space', 'KeyA'].map(shortcut => hasModifier(shortcut)),
+      };
+    });
+
+    expect(result.shortcuts).toEqual(['Ctrl+Shift+KeyR', 'Ctrl+Alt+Shift+Meta+Digit1', 'Space', null, null]);
+    expect(result.matches).toEqual([true, false, false, false]);
+    expect(result.keys).toEqual(['KeyR', 'Space', '']);
+    expect(result.modifiers).toEqual([true, true, false, false]);
+  });
+
+  test('should show shortcuts with readable key names', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async () => {
+      const hotkeysModule = '/src/lib/hotkeys.ts';
+      const { formatShortcut, isTypingTarget } = await import(hotkeysModule);
+      const editable = document.createElement('div');
+      editable.setAttribute('contenteditable', 'true');
+
+      return {
+        formatted: ['Ctrl+Shift+KeyR', 'Alt+Digit7', 'Ctrl+ArrowUp', 'Shift+F5', ''].map(shortcut => formatShortcut(shortcut)),
+        typing: [document.createElement('textarea'), document.createElement('input'), editable, document.createElement('button'), null]
+          .map(target => isTypingTarget(target)),
+      };
+    });
+
+    expect(result.formatted).toEqual(['Ctrl + Shift + R', 'Alt + 7', 'Ctrl + Up', 'Shift + F5', 'Not set']);
+    expect(result.typing).toEqual([true, true, true, false, false]);
+  });
+});
@@ -0,0 +1,94 @@
+import { test, expect } from '@playwright/test';
+
+// Runs against dev-api-server.js pointed at mock-provider-server.js (see playwright.config.ts)
+const API_URL = 'http://localhost:3001/api';
+const MOCK_URL = 'http://localhost:3002/__mock';
+
+test.describe('VoicePal API with mock providers', () => {
+  // Faults are shared by every request to the mock, so these run one at a time in one browser
+  test.describe.configure({ mode: 'serial' });
+  test.skip(({ browserName }) => browserName !== 'chromium', 'API-only tests do not depend on the browser');
+
+  test.beforeEach(async ({ request }) => {
+    await request.post(`${MOCK_URL}/reset`);
+  });
+
+  test('should translate deterministically through the DeepL mock', async ({ request }) => {
+    const response = await request.post(`${API_URL}/translate`, {
+      data: { text: 'Hello world', targetLang: 'ES', sourceLang: 'EN' },
+    });
+
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.translated_text).toBe('[ES] Hello world');
+    expect(body.provider).toBe('deepl-free');
+  });
+
+  test('should refuse empty segments in a batch', async ({ request }) => {
+    const response = await request.post(`${API_URL}/translate/batch`, {
+      data: { segments: ['Hello', ''], targetLangs: ['ES', 'FR'] },
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).code).toBe('invalid_request');
+  });
+
+  test('should report an exhausted DeepL quota', async ({ request }) => {
+    await request.post(`${MOCK_URL}/faults`, { data: { provider: 'deepl', error: 456, times: 1 } });
+
+    const response = await request.post(`${API_URL}/translate`, {
+      data: { text: 'Hello world', targetLang: 'ES' },
+    });
+
+    expect(response.ok()).toBe(false);
+    const body = await response.json();
+    expect(body.code).toBe('upstream_error');
+    expect(body.message).toContain('Quota exceeded');
+  });
+
+  test('should give up on a provider that does not answer', async ({ request }) => {
+    await request.post(`${MOCK_URL}/faults`, { data: { provider: 'deepl', error: 'timeout', times: 1 } });
+
+    const response = await request.post(`${API_URL}/translate`, {
+      data: { text: 'Hello world', targetLang: 'ES' },
+    });
+
+    expect(response.status()).toBe(504);
+  });
+
+  test('should refuse text with nothing to speak', async ({ request }) => {
+    const response = await request.post(`${API_URL}/generate-audio`, {
+      data: { text: ' ... ?! \n ', voice_id: 'deep-male-narrator' },
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).code).toBe('invalid_request');
+  });
+
+  test('should return MP3 audio from the ElevenLabs mock', async ({ request }) => {
+    const response = await request.post(`${API_URL}/generate-audio`, {
+      data: { text: 'This is a test text for speech synthesis.', voice_id: 'deep-male-narrator' },
+    });
+
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toBe('audio/mpeg');
+    const audio = await response.body();
+    expect(audio.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xfb]));
+  });
+
+  test('should pass ElevenLabs rate limits on to the client', async ({ request }) => {
+    await request.post(`${MOCK_URL}/faults`, { data: { provider: 'elevenlabs', error: 429, times: 1 } });
+
+    const response = await request.post(`${API_URL}/generate-audio`, {
+      data: { text: 'Rate limited', voice_id: 'deep-male-narrator' },
+    });
+
+    expect(response.status()).toBe(429);
+
+    // The fault was used up, the next request goes through
+    const retry = await request.post(`${API_URL}/generate-audio`, {
+      data: { text: 'Rate limited', voice_id: 'deep-male-narrator' },
+    });
+    expect(retry.status()).toBe(200);
+  });
+});
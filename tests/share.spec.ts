@@ -0,0 +1,168 @@
+import { test, expect } from '@playwright/test';
+import { createQrCode, qrCodeToSvgPath, type QrCode } from '../src/lib/qr-code';
+
+// The eight masks of ISO/IEC 18004, by the number in the format information
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Both copies of the format information, unmasked, and the level and mask they name
+const readFormat = ({ size, modules }: QrCode) => {
+  const read = (positions: [number, number][]) =>
+    positions.reduce((bits, [x, y], index) => bits | (Number(modules[y][x]) << index), 0) ^ 0x5412;
+
+  const first = read([
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ]);
+  const second = read([
+    ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+    ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i]),
+  ]);
+  return { first, second, ecBits: first >>> 13, mask: (first >>> 10) & 7 };
+};
+
+// The bytes of a version 1 code: one block, read in the two-module zigzag
+const readVersion1Bytes = (qr: QrCode, mask: number) => {
+  const isFunction = (x: number, y: number) =>
+    x === 6 || y === 6 || (x < 9 && y < 9) || (x >= qr.size - 8 && y < 9) || (x < 9 && y >= qr.size - 8);
+
+  const bits: number[] = [];
+  for (let right = qr.size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < qr.size; vertical++) {
+      for (const x of [right, right - 1]) {
+        const y = upward ? qr.size - 1 - vertical : vertical;
+        if (!isFunction(x, y)) bits.push(Number(qr.modules[y][x] !== MASKS[mask](x, y)));
+      }
+    }
+  }
+
+  // Byte mode indicator, an 8 bit count, then the bytes
+  const readBits = (start: number, count: number) => bits.slice(start, start + count).reduce((value, bit) => (value << 1) | bit, 0);
+  const length = readBits(4, 8);
+  return {
+    mode: readBits(0, 4),
+    bytes: Array.from({ length }, (_, index) => readBits(12 + index * 8, 8)),
+  };
+};
+
+// Calls the QR encoder directly, without the app
+test.describe('VoicePal QR codes', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Node-only tests do not depend on the browser');
+
+  test('should encode the text so a reader gets it back', () => {
+    const text = 'vp.app/#s=hé';
+    const qr = createQrCode(text);
+    const format = readFormat(qr);
+
+    expect(qr.size).toBe(21);
+    expect(format.first).toBe(format.second);
+    // M is stored as 0
+    expect(format.ecBits).toBe(0);
+
+    const { mode, bytes } = readVersion1Bytes(qr, format.mask);
+    expect(mode).toBe(0b0100);
+    expect(new TextDecoder().decode(new Uint8Array(bytes))).toBe(text);
+  });
+
+  test('should draw the finder and timing patterns', () => {
+    const { size, modules } = createQrCode('https://example.com/#share=abc', 'H');
+    const finder = [
+      '#######',
+      '#.....#',
+      '#.###.#',
+      '#.###.#',
+      '#.###.#',
+      '#.....#',
+      '#######',
+    ];
+
+    for (const [left, top] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+      const drawn = modules.slice(top, top + 7).map(row => row.slice(left, left + 7).map(dark => (dark ? '#' : '.')).join(''));
+      expect(drawn).toEqual(finder);
+    }
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    // The dark module next to the bottom left finder
+    expect(modules[size - 8][8]).toBe(true);
+    expect(readFormat({ size, modules }).ecBits).toBe(2);
+  });
+
+  test('should pick the smallest version that fits', () => {
+    // Version 1 at level M holds 14 bytes
+    expect(createQrCode('a'.repeat(14)).size).toBe(21);
+    expect(createQrCode('a'.repeat(15)).size).toBe(25);
+    expect(createQrCode('a'.repeat(15), 'L').size).toBe(21);
+    expect(createQrCode('a'.repeat(2953), 'L').size).toBe(177);
+    expect(() => createQrCode('a'.repeat(2954), 'L')).toThrow('The text is too long for a QR code');
+  });
+
+  test('should draw one square per dark module inside the quiet zone', () => {
+    const qr = createQrCode('VoicePal');
+    const squares = qrCodeToSvgPath(qr).match(/M\d+,\d+h1v1h-1z/g) ?? [];
+
+    expect(squares.length).toBe(qr.modules.flat().filter(Boolean).length);
+    expect(qrCodeToSvgPath(qr)).toMatch(/^M4,4h1v1h-1z/);
+    expect(qrCodeToSvgPath(qr, 0)).toMatch(/^M0,0h1v1h-1z/);
+  });
+});
+
+test.describe('VoicePal share links', () => {
+  test('should read back the entry from a share link and reject damaged ones', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async () => {
+      // Served by Vite, which fills in import.meta.env
+      const shareModule = '/src/lib/share.ts';
+      const { createShareLink, decodeShareFragment, MAX_SHARE_LINK_LENGTH } = await import(shareModule);
+
+      const shared = {
+        sourceText: 'Good morning, see you at 8 <3',
+        translatedText: 'Buenos días, nos vemos a las 8 <3',
+        sourceLang: 'en-US',
+        targetLang: 'ES',
+        createdAt: '2026-01-01T10:00:00.000Z',
+        audio: { mimeType: 'audio/mpeg', data: btoa('ID3 short audio') },
+      };
+      const link = await createShareLink(shared);
+      const decoded = await decodeShareFragment(new URL(link.url).hash);
+
+      // Audio too large for a link is left out
+      const longAudio = { mimeType: 'audio/mpeg', data: btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(60000)))) };
+      const withoutAudio = await createShareLink({ ...shared, audio: longAudio });
+
+      const error = (hash: string) => decodeShareFragment(hash).then(() => null, (decodeError: Error) => decodeError.message);
+      return {
+        decoded,
+        includesAudio: link.includesAudio,
+        longLink: { includesAudio: withoutAudio.includesAudio, fits: withoutAudio.url.length <= MAX_SHARE_LINK_LENGTH },
+        cut: await error(new URL(link.url).hash.slice(0, 20)),
+        garbled: await error('#share=not-a-share-link'),
+      };
+    });
+
+    expect(result.decoded).toEqual({
+      sourceText: 'Good morning, see you at 8 <3',
+      translatedText: 'Buenos días, nos vemos a las 8 <3',
+      sourceLang: 'en-US',
+      targetLang: 'ES',
+      createdAt: '2026-01-01T10:00:00.000Z',
+      audio: { mimeType: 'audio/mpeg', data: 'SUQzIHNob3J0IGF1ZGlv' },
+    });
+    expect(result.includesAudio).toBe(true);
+    expect(result.longLink).toEqual({ includesAudio: false, fits: true });
+    expect(result.cut).toBe('This share link is damaged or incomplete');
+    expect(result.garbled).toBe('This share link is damaged or incomplete');
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { compareBackTranslation, getConfidenceLevel } from '../src/lib/translation-quality';
+
+// Calls the back-translation comparison directly, without the translation API
+test.describe('VoicePal translation quality', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Node-only tests do not depend on the browser');
+
+  test('should score an identical round trip as a perfect match', () => {
+    const report = compareBackTranslation('The cat sleeps.', 'the cat SLEEPS');
+
+    expect(report.score).toBe(1);
+    expect(report.tokenOverlap).toBe(1);
+    expect(report.editSimilarity).toBe(1);
+    expect(report.divergentSpans).toEqual([]);
+    expect(getConfidenceLevel(report.score)).toBe('high');
+  });
+
+  test('should score shared words and word order separately', () => {
+    const reordered = compareBackTranslation('I really like green apples', 'green apples I really like');
+    expect(reordered.tokenOverlap).toBe(1);
+    expect(reordered.editSimilarity).toBeCloseTo(1 - 4 / 5);
+
+    const different = compareBackTranslation('The meeting starts at noon', 'Lunch is ready');
+    expect(different.score).toBe(0);
+    expect(getConfidenceLevel(different.score)).toBe('low');
+    expect(getConfidenceLevel(0.35)).toBe('medium');
+  });
+
+  test('should report the words lost in the round trip as spans of the original', () => {
+    const original = "We'll leave tomorrow morning, before the long meeting.";
+    const report = compareBackTranslation(original, "We'll leave tomorrow, before the meeting.");
+
+    expect(report.divergentSpans).toEqual([
+      { start: 21, end: 28, text: 'morning' },
+      { start: 41, end: 45, text: 'long' },
+    ]);
+    report.divergentSpans.forEach(span => expect(original.slice(span.start, span.end)).toBe(span.text));
+  });
+
+  test('should compare Chinese, Japanese and Thai character by character', () => {
+    const japanese = compareBackTranslation('明日は雨が降ります', '明日は雪が降ります');
+    expect(japanese.tokenOverlap).toBeCloseTo(8 / 9);
+    expect(japanese.divergentSpans).toEqual([{ start: 3, end: 4, text: '雨' }]);
+
+    const chinese = compareBackTranslation('我今天去北京开会', '我今天去上海开会');
+    expect(chinese.divergentSpans).toEqual([{ start: 4, end: 6, text: '北京' }]);
+    expect(getConfidenceLevel(chinese.score)).toBe('high');
+
+    expect(compareBackTranslation('สวัสดีครับ', 'สวัสดีค่ะ').score).toBeGreaterThan(0.5);
+
+    // Latin words inside Japanese text stay whole
+    const mixed = compareBackTranslation('東京でiPhoneを買った', '東京でiPadを買った');
+    expect(mixed.divergentSpans).toEqual([{ start: 3, end: 9, text: 'iPhone' }]);
+  });
+});
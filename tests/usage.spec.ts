@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import { checkUsage, getUsageToday, type ProviderQuota, type UsageReport, type UsageThresholds } from '../src/lib/usage';
+
+const createReport = (quotas: ProviderQuota[], today: UsageReport['days'][number]['providers'] = {}): UsageReport => ({
+  days: [
+    { date: '2026-01-01', providers: { 'deepl-free': { characters: 900, requests: 9 } } },
+    { date: '2026-01-02', providers: today },
+  ],
+  totals: {},
+  quotas,
+  quota_errors: [],
+});
+
+const DEEPL: ProviderQuota = { provider: 'deepl-free', name: 'DeepL Free', kind: 'translation', used: 400, limit: 500, resets_at: null };
+const LIBRETRANSLATE: ProviderQuota = { ...DEEPL, provider: 'libretranslate', name: 'LibreTranslate', used: 0 };
+
+const THRESHOLDS: UsageThresholds = { warnAtPercent: 90, dailyBudgets: { translation: 0, speech: 0 } };
+
+// Calls the usage checks directly, without the app
+test.describe('VoicePal usage warnings', () => {
+  test.skip(({ browserName }) => browserName !== 'chromium', 'Node-only tests do not depend on the browser');
+
+  test('should refuse requests larger than what is left on the quota', () => {
+    expect(checkUsage(createReport([DEEPL]), THRESHOLDS, 'translation', 101)).toEqual({
+      kind: 'translation',
+      overQuota: true,
+      message: 'This needs 101 characters but only 100 are left on your DeepL Free quota.',
+    });
+    expect(checkUsage(createReport([{ ...DEEPL, used: 600 }]), THRESHOLDS, 'translation', 1))
+      .toMatchObject({ overQuota: true, message: expect.stringContaining('only 0 are left') });
+  });
+
+  test('should warn once a request reaches the threshold', () => {
+    expect(checkUsage(createReport([DEEPL]), THRESHOLDS, 'translation', 49)).toBeNull();
+    expect(checkUsage(createReport([DEEPL]), THRESHOLDS, 'translation', 50)).toEqual({
+      kind: 'translation',
+      overQuota: false,
+      message: 'This takes DeepL Free to 90% of its 500 character quota.',
+    });
+  });
+
+  test('should only check the first quota of the requested kind', () => {
+    // LibreTranslate is the fallback; DeepL gets the request first
+    expect(checkUsage(createReport([DEEPL, LIBRETRANSLATE]), THRESHOLDS, 'translation', 200)?.overQuota).toBe(true);
+    expect(checkUsage(createReport([LIBRETRANSLATE, DEEPL]), THRESHOLDS, 'translation', 200)).toBeNull();
+    expect(checkUsage(createReport([DEEPL]), THRESHOLDS, 'speech', 200)).toBeNull();
+  });
+
+  test('should count only today and the requested kind against the daily budget', () => {
+    const report = createReport([], {
+      'deepl-free': { characters: 300, requests: 3 },
+      'libretranslate': { characters: 100, requests: 1 },
+      'elevenlabs': { characters: 250, requests: 2 },
+    });
+    const thresholds = { ...THRESHOLDS, dailyBudgets: { translation: 500, speech: 0 } };
+
+    expect(getUsageToday(report, 'translation')).toBe(400);
+    expect(getUsageToday(report, 'speech')).toBe(250);
+    expect(checkUsage(report, thresholds, 'translation', 100)).toBeNull();
+    expect(checkUsage(report, thresholds, 'translation', 101)).toEqual({
+      kind: 'translation',
+      overQuota: false,
+      message: "This takes today's translation usage to 501 characters, over your daily budget of 500.",
+    });
+    // A budget of 0 means none
+    expect(checkUsage(report, thresholds, 'speech', 10000)).toBeNull();
+  });
+
+  test('should not warn without a report or characters', () => {
+    expect(checkUsage(null, THRESHOLDS, 'translation', 1000)).toBeNull();
+    expect(checkUsage(createReport([{ ...DEEPL, used: 500 }]), THRESHOLDS, 'translation', 0)).toBeNull();
+    expect(checkUsage(createReport([{ ...DEEPL, limit: 0 }]), THRESHOLDS, 'translation', 1000)).toBeNull();
+  });
+});